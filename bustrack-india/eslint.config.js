@@ -0,0 +1,16 @@
+// ESLint flat config — TypeScript sources under src/ (npm run lint)
+import tsParser from '@typescript-eslint/parser';
+import tsPlugin from '@typescript-eslint/eslint-plugin';
+
+export default [
+  {
+    files          : ['src/**/*.ts'],
+    languageOptions: { parser: tsParser, parserOptions: { ecmaVersion: 2022, sourceType: 'module' } },
+    plugins        : { '@typescript-eslint': tsPlugin },
+    rules          : {
+      ...tsPlugin.configs.recommended.rules,
+      // `any` is kept at untyped boundaries (Leaflet globals, Deno, caught errors)
+      '@typescript-eslint/no-explicit-any': 'off',
+    },
+  },
+];
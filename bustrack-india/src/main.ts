@@ -8,41 +8,117 @@
  * 3. Leaflet maps initialized LAZILY — only when user navigates to that screen.
  *    Initializing all 3 maps on page load wastes CPU and memory.
  * 4. Icons pre-created as singletons — no repeated DOM string parsing.
- * 5. Polling intervals use setInterval + immediate first call pattern.
- *    No "wait 3 seconds for first update".
+ * 5. Live bus positions are pushed over Supabase Realtime; polling (setInterval +
+ *    immediate first call) only runs as a fallback while the socket is down.
  * 6. Route cache pre-warmed when driver selects a route — so by the
  *    time sharing starts, OSRM geometry is already cached.
  *
  * FILE ROLES:
- *  main.ts              ← App bootstrap, screen navigation, auth
+ *  main.ts              ← App bootstrap, screen navigation, login screens
+ *  services/authService.ts     ← GoTrue one-time-code sign-in, JWT session, roles
  *  map/mapInit.ts       ← Map creation, tile layer
  *  map/routeRenderer.ts ← Polyline drawing with layer deduplication
  *  map/markerManager.ts ← Icon singletons, marker CRUD, rotation
- *  map/animationWorker.ts ← rAF marker interpolation
+ *  map/animationWorker.ts ← rAF marker interpolation (along the route polyline)
+ *  map/stopEditor.ts    ← Admin stop pinning: candidates, draggable pins
+ *  map/tripPlayback.ts  ← Admin replay of a recorded trip (time slider, speed)
+ *  map/fleetLayer.ts    ← Admin fleet map: one marker per vehicle, clustering
  *  services/supabaseService.ts ← Supabase REST wrapper
- *  services/routeCache.ts      ← Two-tier OSRM result cache
+ *  services/realtimeService.ts ← Realtime websocket push with polling fallback
+ *  services/outbox.ts          ← IndexedDB queue for writes that failed offline
+ *  services/idb.ts             ← Shared IndexedDB connection + helpers
+ *  services/routeCache.ts      ← Three-tier OSRM result cache (memory/session/IndexedDB)
+ *  services/etaEngine.ts       ← Along-route distance + ETA (snaps bus onto OSRM polyline)
+ *  services/travelTimeModel.ts ← Learned stop-to-stop times by weekday + hour
+ *  services/stopDetector.ts    ← Geofenced stop arrival/departure + auto-reversal
+ *  services/driverTrip.ts      ← Driver sharing session: trip id, route context, upload rows
+ *  services/deviationDetector.ts ← Off-route corridor check, deviation events
+ *  services/journeyPlanner.ts  ← Stop graph across routes, journeys with up to two changes
+ *  services/stopIndex.ts       ← Grid spatial index over stops for "near me"
+ *  services/notifications.ts   ← Notification permission, in-page alerts, push subscription
+ *  services/gpsFilter.ts       ← Kalman GPS smoothing (runs in routeWorker)
+ *  shared/kalmanGps.ts         ← The Kalman filter itself (pure; tests/ replay GPS traces)
  *  services/geoValidator.ts    ← Nominatim geocoding with cache + anchor
+ *  shared/geoRegion.ts         ← Geocoding region config (shared with edge resolver)
+ *  shared/geocoders.ts         ← Geocoder providers: gazetteer, Nominatim, Photon
+ *  shared/gtfs.ts              ← GTFS static feed parse / build (shared with edge functions)
+ *  shared/gtfsRealtime.ts      ← GTFS-Realtime feed builder (gtfs-realtime edge function)
+ *  shared/timetable.ts         ← Scheduled trips, holidays, next departures, on-time matching
+ *  shared/arrivalAlerts.ts     ← Arrival alert rule + wording (page and push-alerts function)
+ *  shared/webPush.ts           ← Web Push encryption + VAPID signing (push-alerts function)
+ *  shared/occupancy.ts         ← Occupancy levels, driver vs passenger crowding reports
+ *  shared/zip.ts               ← Minimal ZIP read / write for GTFS feeds
  *  workers/routeWorker.ts      ← Web Worker for geometry processing
+ *  workers/tileServiceWorker.ts ← Service worker: offline shell + tile cache
+ *  services/offlineTiles.ts    ← Route-corridor tile download, storage usage, purge
  *  ui/floatingInfoBox.ts       ← Floating overlay update functions
+ *  ui/adminPanel.ts            ← Admin screen HTML builders
  *  ui/mobileLayout.css         ← Mobile-first layout rules
  *  styles/global.css           ← Design system tokens + resets
  */
 
 // ── Imports (TypeScript — compiled to ES modules or bundled) ──────────────────
 import { initMap, applyOSMTiles, invalidateSizeAsync } from './map/mapInit';
-import { drawRoute, fetchAndDrawRoute, clearRouteLayer, ROUTE_COLORS, ROUTE_WEIGHTS } from './map/routeRenderer';
-import { getBusIcon, getPassIcon, getGreenStopIcon, getDestIcon, getFromIcon, createNumberedStopIcon, MarkerSet, updateOrCreateBusMarker, rotateBusMarker } from './map/markerManager';
-import { animateMarkerTo, smoothBusMove, cancelAnimation, addRouteArrows } from './map/animationWorker';
+import type { TileSource } from './map/mapInit';
+import { drawRoute, clearRouteLayer, JOURNEY_COLORS } from './map/routeRenderer';
+import { rotateBusMarker, setBusMarkerCrowding } from './map/markerManager';
+import { animateMarkerTo, animateAlongPath } from './map/animationWorker';
 import { RouteCache } from './services/routeCache';
-import { geocodeStop, geocodeStopSequence, prewarmCache } from './services/geoValidator';
-import { configure as configureSb, testConnection, loadBuses, saveBus, deleteBus, saveDriverLocation, pollDriverLocation, clearDriverSharing, loadSettings, saveSetting } from './services/supabaseService';
-import { showStatusPill, hideStatusPill, updateBusInfoCard, showBusInfoCard, hideBusInfoCard, updateDistancePanel, hideDistancePanel, setOnBusMode, showDriverToast, buildStopListHTML } from './ui/floatingInfoBox';
+import { computeRouteProgress, routePathBetween, formatEta, straightKm } from './services/etaEngine';
+import type { EtaStop, HopTimeLookup, RouteProgress } from './services/etaEngine';
+import { loadTravelTimes, historicalHop, MIN_TRIPS } from './services/travelTimeModel';
+import { createStopDetector } from './services/stopDetector';
+import type { StopDetector, StopFix } from './services/stopDetector';
+import { startTrip, locationRow, stopEventRow, deviationRow } from './services/driverTrip';
+import type { DriverTrip } from './services/driverTrip';
+import { createDeviationDetector, DEFAULT_CORRIDOR_M } from './services/deviationDetector';
+import type { DeviationDetector } from './services/deviationDetector';
+import { legPath } from './services/journeyPlanner';
+import type { Journey, PlannerRoute } from './services/journeyPlanner';
+import { askRouteWorker } from './services/routeWorkerClient';
+import { createStopIndex } from './services/stopIndex';
+import type { StopIndex } from './services/stopIndex';
+import { requestNotifications, notify, pushSubscription, pushEndpoint } from './services/notifications';
+import { smoothFix, resetTrack, fromGeolocation } from './services/gpsFilter';
+import { configureGeocoders, loadGazetteer, resolveRouteStops, assessStops } from './services/geoValidator';
+import type { StopFlag } from './services/geoValidator';
+import { createStopEditor } from './map/stopEditor';
+import type { StopEditor } from './map/stopEditor';
+import { createTripPlayback } from './map/tripPlayback';
+import type { TripPlayback } from './map/tripPlayback';
+import { createFleetLayer, fleetColor } from './map/fleetLayer';
+import type { FleetLayer, FleetStatus } from './map/fleetLayer';
+import { gazetteerGeocoder, geocoderFromSpec, normalizeStopName } from './shared/geocoders';
+import type { GeocodeHit, StopCoord } from './shared/geocoders';
+import { configure as configureSb, startOutbox, testConnection, loadBuses, loadBus, saveBus, updateBus, rollbackBus, loadBusVersions, saveDriverLocation, loadFleetLocations, loadRecentVehicles, clearDriverSharing, loadSettings, publishStopEvent, publishDeviation, loadDeviations, loadTrips, loadTripSamples, loadTripStopEvents, loadScheduledTrips, saveScheduledTrip, deleteScheduledTrip, loadServiceExceptions, saveServiceException, deleteServiceException, callFunction, saveDriverOccupancy, publishCrowdReport, loadCrowdReports } from './services/supabaseService';
+import type { DriverLocationRow, BusRow, BusPatch, BusWriteResult, LocationWriteResult, ScheduledTripRow, ServiceExceptionRow } from './services/supabaseService';
+import { Outbox } from './services/outbox';
+import { subscribeDriverLocation } from './services/realtimeService';
+import { registerServiceWorker, downloadRouteForOffline, getStorageUsage, purgeOfflineTiles, canPrefetchFrom } from './services/offlineTiles';
+import { requestOtp, verifyOtp, restoreSession, refreshSession, signOut, getSession, hasRole } from './services/authService';
+import type { OtpTarget, Role } from './services/authService';
+import type { RealtimeStatus, RealtimeSubscription } from './services/realtimeService';
+import { buildVersionHistoryHTML, buildConflictHTML, buildRegionOptionsHTML, buildStopReviewHTML, buildSegmentTimesHTML, buildDeviationLogHTML, buildTripListHTML, buildPlaybackControlsHTML, buildTimetableHTML, buildServiceExceptionsHTML, buildFleetTableHTML } from './ui/adminPanel';
+import type { FleetRow, FleetSortKey, FleetFilter } from './ui/adminPanel';
+import { resolveRegion, parseRegion, REGION_PRESETS } from './shared/geoRegion';
+import type { GeoRegion } from './shared/geoRegion';
+import { readGtfsZip, writeGtfsZip } from './shared/gtfs';
+import type { GtfsExportRoute } from './shared/gtfs';
+import { tripOffsets, nextDepartures, matchLastStop, punctualityLabel, parseClock, formatClock, istClock, addDays } from './shared/timetable';
+import type { ScheduledTrip, ServiceException, StopService, TripMatch } from './shared/timetable';
+import { ALERT_KM, ALERT_MINUTES, alertDue, alertMessage, alertTag, validAlertThresholds } from './shared/arrivalAlerts';
+import type { AlertKind } from './shared/arrivalAlerts';
+import { crowdLevel, crowdingLabel, isOccupancy, OCCUPANCY_LABELS, REPORT_WINDOW_MIN } from './shared/occupancy';
+import type { Crowding, Occupancy, OccupancyReport } from './shared/occupancy';
+import { showStatusPill, updateBusInfoCard, updateDistancePanel, setOnBusMode, showDriverToast, showRouteAlert, buildStopListHTML, buildDeparturesHTML, buildJourneysHTML, buildNearbyHTML, buildAlertsHTML, buildOccupancyButtonsHTML } from './ui/floatingInfoBox';
 
 // ── Type declarations ─────────────────────────────────────────────────────────
 
 interface RouteStop { name: string; lat?: number; lon?: number }
-interface SavedBus  { id: number; name: string; stops: string[]; stopCoords?: Array<{lat:number;lon:number}|null>|null; addedAt: string }
-interface DriverLoc { lat:number; lon:number; speed:number; heading:number; sharing:boolean; busName:string; routeStops:string[]; ts:number }
+interface SavedBus  { id: number; name: string; stops: string[]; stopCoords?: Array<StopCoord|null>|null; addedAt: string; version: number; updatedAt: string; region?: GeoRegion | null; shape?: [number, number][] | null; gtfsRouteId?: string | null; stopOffsets?: Array<number|null> | null }
+interface DriverLoc { vehicleId:string; tripId:string|null; busId:number|null; lat:number; lon:number; speed:number; heading:number; sharing:boolean; busName:string; routeStops:string[]; ts:number; lastStop:{ name:string; event:'arrived'|'departed'; at:number } | null; reversed:boolean; offRoute:{ since:number; meters:number } | null; occupancy:OccupancyReport | null }
+interface FleetDashboard { map: any; layer: FleetLayer; sub: RealtimeSubscription | null; locs: Map<string, DriverLoc>; sort: { key: FleetSortKey; desc: boolean }; filter: FleetFilter; tick: ReturnType<typeof setInterval> | null; pending: ReturnType<typeof setTimeout> | null }
+interface StopReview { names: string[]; coords: Array<StopCoord|null>; candidates: GeocodeHit[][]; flags: StopFlag[]; active: number; bus: SavedBus | null }
 interface AppState {
   // Driver
   driverMap     : any;
@@ -60,6 +136,10 @@ interface AppState {
   updateCount   : number;
   lastRouteKey  : string | null;
   routeDrawPending: boolean;
+  stopDetector  : StopDetector | null;
+  deviation     : { tripId: string; detector: DeviationDetector } | null;
+  occupancy     : OccupancyReport | null;   // driver's last one-tap level
+  uploadFailing : boolean;                  // last location upload was never sent — toasted once
   // Passenger
   passMap       : any;
   busMarker     : any;
@@ -78,23 +158,43 @@ interface AppState {
   prevBusLat    : number | null;
   prevBusLon    : number | null;
   prevBusTime   : number | null;
+  prevBusAlongKm: number | null;   // where the bus marker sits on the route, for path animation
   lastShownRouteKey: string | null;
   lastPassDrawKey  : string | null;
   passRouteInFlight: boolean;
-  passPollTimer    : ReturnType<typeof setInterval> | null;
+  passVehicleId    : string | null;
+  passLiveSub      : RealtimeSubscription | null;
+  journeys         : Journey[];
+  journeyLayers    : Array<{ layer:any|null; shadow:any|null }>;
+  stopIndex        : { source: string; index: StopIndex } | null;   // rebuilt when saved routes change
+  crowdReports     : { vehicleId: string; at: number; reports: OccupancyReport[] } | null;
+  crowdReported    : { vehicleId: string; level: Occupancy; at: number } | null;   // this passenger's last report
+  // Admin
+  adminMap         : any;
+  stopEditor       : StopEditor | null;
+  stopReview       : StopReview | null;
+  tripMap          : any;
+  fleet            : FleetDashboard | null;   // admin live tab
+  tripPlayback     : TripPlayback | null;
 }
 
 // ── Local storage keys ────────────────────────────────────────────────────────
 const K = {
   DRIVER   : 'bt_driver_loc',
   BUSES    : 'bt_buses',
-  DRV_PW   : 'bt_drv_pw',
-  ADMIN_PW : 'bt_admin_pw',
   DRV_ROUTE: 'bt_driver_route',
   SB_URL   : 'bt_sb_url',
   SB_KEY   : 'bt_sb_key',
+  VEHICLE  : 'bt_vehicle_id',
+  SETTINGS : 'bt_settings',
+  TIMETABLE: 'bt_timetable',
+  ALERTS   : 'bt_alerts',
+  DEVICE   : 'bt_device_id',
 } as const;
 
+
+const DEFAULT_GAZETTEER_URL = '/gazetteer/bus-stands.csv';
+
 // ── App state singleton ───────────────────────────────────────────────────────
 const state: AppState = {
   driverMap: null, driverMarker: null,
@@ -102,42 +202,84 @@ const state: AppState = {
   driverDest: null, driverWatchId: null,
   driverLat: null, driverLon: null, driverPrevLat: null, driverPrevLon: null,
   routeStops: [], routeReversed: false, stopMarkers: [],
-  updateCount: 0, lastRouteKey: null, routeDrawPending: false,
+  updateCount: 0, lastRouteKey: null, routeDrawPending: false, stopDetector: null, deviation: null, occupancy: null, uploadFailing: false,
 
   passMap: null, busMarker: null, passLocMarker: null, passDestMarker: null,
   passRoute: { layer: null, shadow: null }, passStopMarkers: [], busLineOnMap: null,
   passLat: null, passLon: null, passDestLat: null, passDestLon: null,
   passMode: 'bus', isAutoCenter: false, selectedBus: null,
-  prevBusLat: null, prevBusLon: null, prevBusTime: null,
+  prevBusLat: null, prevBusLon: null, prevBusTime: null, prevBusAlongKm: null,
   lastShownRouteKey: null, lastPassDrawKey: null,
-  passRouteInFlight: false, passPollTimer: null,
+  passRouteInFlight: false, passVehicleId: null, passLiveSub: null,
+  journeys: [], journeyLayers: [], stopIndex: null, crowdReports: null, crowdReported: null,
+
+  adminMap: null, stopEditor: null, stopReview: null, tripMap: null, tripPlayback: null, fleet: null,
 };
 
 // ── Bootstrap ─────────────────────────────────────────────────────────────────
 document.addEventListener('DOMContentLoaded', async () => {
+  registerServiceWorker(); // offline shell + tiles — never blocks startup
+  applyCacheSettings(); // last-synced budget applies before the first route is cached
+  setupGeocoders();     // last-synced provider config; re-run after syncSettings()
+
+  Outbox.onChange(setPendingSync);
+
   // ⚡ Auto-reconnect Supabase in background (non-blocking)
   const sbUrl = localStorage.getItem(K.SB_URL);
   const sbKey = localStorage.getItem(K.SB_KEY);
 
   if (sbUrl && sbKey) {
-    configureSb({ url: sbUrl, anonKey: sbKey });
-    setSbStatus('syncing', '⏳ Reconnecting…');
-    const ok = await testConnection();
-    if (ok) {
-      setSbStatus('connected', '✅ Supabase connected');
-      await Promise.all([syncBuses(), syncSettings()]);
-    } else {
-      setSbStatus('disconnected', '⚠️ Could not reconnect to Supabase');
-    }
+    await startSupabase(sbUrl, sbKey);
   } else {
     setSbStatus('disconnected', '⚠️ Supabase not configured');
   }
 
-  // Attach keyboard enter handlers
+  // Attach keyboard enter handlers (code field — email/phone field sends the code on button tap)
   document.getElementById('drv-pass')?.addEventListener('keydown', e => { if (e.key === 'Enter') (window as any).doDriverLogin(); });
   document.getElementById('admin-pass')?.addEventListener('keydown', e => { if (e.key === 'Enter') (window as any).doAdminLogin(); });
 });
 
+// ── Supabase connection ───────────────────────────────────────────────────────
+
+/**
+ * startSupabase — points the app at a project and starts what depends on it:
+ * the saved session, outbox replay (writes queued while it was unreachable go
+ * out now) and the first sync. Run at boot with the saved settings, and again
+ * by saveSupabaseSettings() when new ones are entered.
+ */
+async function startSupabase(url: string, anonKey: string): Promise<boolean> {
+  configureSb({ url, anonKey });
+  setSbStatus('syncing', '⏳ Connecting…');
+  await restoreSession();
+  startOutbox({ refreshAuth: refreshSession, onConflict: onQueuedConflict });
+  if (!await testConnection()) {
+    setSbStatus('disconnected', '⚠️ Could not connect to Supabase');
+    return false;
+  }
+  setSbStatus('connected', '✅ Supabase connected');
+  await Promise.all([syncBuses(), syncSettings(), syncTimetables()]);
+  return true;
+}
+
+/**
+ * saveSupabaseSettings — the setup screen's and admin database card's Connect
+ * button. Settings are saved only once the project answers.
+ */
+async function saveSupabaseSettings(urlId: string, keyId: string, errId: string): Promise<boolean> {
+  const input = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value.trim() ?? '';
+  const url   = input(urlId).replace(/\/+$/, '').replace(/\/rest\/v1.*$/, '');
+  const key   = input(keyId);
+  const err   = document.getElementById(errId);
+  const fail  = (msg: string) => { if (err) { err.textContent = msg; err.style.display = 'block'; } return false; };
+  if (err) err.style.display = 'none';
+
+  if (!/^https?:\/\//.test(url) || !key) return fail('❌ Enter both Project URL and Anon Key.');
+  if (!await startSupabase(url, key)) return fail('❌ Could not connect — check URL and key.');
+  localStorage.setItem(K.SB_URL, url);
+  localStorage.setItem(K.SB_KEY, key);
+  return true;
+}
+
 // ── Helper: local storage ─────────────────────────────────────────────────────
 
 function getSavedBuses(): SavedBus[] {
@@ -148,39 +290,1574 @@ function saveBuses(buses: SavedBus[]): void {
   localStorage.setItem(K.BUSES, JSON.stringify(buses));
 }
 
-function getDriverLoc(): DriverLoc | null {
+/** The driver's trip in progress — set when sharing starts, cleared when it stops. */
+function getDriverTrip(): DriverTrip | null {
   try { return JSON.parse(localStorage.getItem(K.DRIVER) || 'null'); } catch { return null; }
 }
 
+function setDriverTrip(trip: DriverTrip | null): void {
+  if (trip) localStorage.setItem(K.DRIVER, JSON.stringify(trip));
+  else localStorage.removeItem(K.DRIVER);
+}
+
+/** Vehicle id of this device when used by a driver — set once per bus, survives reloads. */
+function getVehicleId(): string | null {
+  return localStorage.getItem(K.VEHICLE);
+}
+
+function setVehicleId(id: string): void {
+  localStorage.setItem(K.VEHICLE, id.trim());
+}
+
+/** Random per-install id — identifies an anonymous passenger's crowd reports (hashed server-side). */
+function getDeviceId(): string {
+  let id = localStorage.getItem(K.DEVICE);
+  if (!id) { id = crypto.randomUUID(); localStorage.setItem(K.DEVICE, id); }
+  return id;
+}
+
+function toDriverLoc(r: DriverLocationRow): DriverLoc {
+  return {
+    vehicleId : r.vehicle_id,
+    tripId    : r.trip_id,
+    busId     : r.bus_id,
+    lat       : r.lat,
+    lon       : r.lon,
+    speed     : r.speed || 0,
+    heading   : r.heading || 0,
+    sharing   : r.sharing,
+    busName   : r.bus_name,
+    routeStops: Array.isArray(r.route_stops) ? r.route_stops : [],
+    ts        : new Date(r.updated_at).getTime() || Date.now(),
+    lastStop  : r.last_stop && r.last_stop_event && r.last_stop_at
+      ? { name: r.last_stop, event: r.last_stop_event, at: new Date(r.last_stop_at).getTime() }
+      : null,
+    reversed  : !!r.reversed,
+    offRoute  : r.off_route && r.off_route_since
+      ? { since: new Date(r.off_route_since).getTime(), meters: r.off_route_m ?? 0 }
+      : null,
+    occupancy : isOccupancy(r.occupancy) && r.occupancy_at
+      ? { level: r.occupancy, at: new Date(r.occupancy_at).getTime() }
+      : null,
+  };
+}
+
 function setSbStatus(state: string, msg: string): void {
   const bar  = document.getElementById('sb-status-bar');
   const text = document.getElementById('sb-status-text');
   if (!bar || !text) return;
   bar.className   = `sb-status-bar ${state}`;
   text.textContent = msg;
+  setPendingSync(Outbox.pendingCount());
+}
+
+/**
+ * setPendingSync — "⏳ 3 pending" chip at the right of the status bar.
+ * Created on first use so the static markup needs no extra element.
+ */
+function setPendingSync(count: number): void {
+  const bar = document.getElementById('sb-status-bar');
+  if (!bar) return;
+  let chip = document.getElementById('sb-pending');
+  if (!chip) {
+    chip = document.createElement('span');
+    chip.id = 'sb-pending';
+    chip.className = 'sb-pending';
+    bar.appendChild(chip);
+  }
+  chip.textContent   = count ? `⏳ ${count} pending` : '';
+  chip.style.display = count ? '' : 'none';
 }
 
 // ── Supabase sync ─────────────────────────────────────────────────────────────
 
+function toSavedBus(r: BusRow): SavedBus {
+  return {
+    id         : r.id,
+    name       : r.name,
+    stops      : r.stops,
+    stopCoords : r.stop_coords ?? null,
+    addedAt    : r.added_at,
+    version    : r.version ?? 1,
+    updatedAt  : r.updated_at ?? r.added_at,
+    region     : parseRegion(r.region),
+    shape      : r.shape ?? null,
+    gtfsRouteId: r.gtfs_route_id ?? null,
+    stopOffsets: r.stop_offsets ?? null,
+  };
+}
+
+/** Replaces one route in the local cache after an edit — keeps list order. */
+function replaceSavedBus(bus: SavedBus): void {
+  const prev = getSavedBuses();
+  invalidateChangedRoutes(prev, [bus]);
+  saveBuses(prev.map(b => b.id === bus.id ? bus : b));
+}
+
+function resolvedCoords(bus: SavedBus): Array<{ lat: number; lon: number }> {
+  return (bus.stopCoords ?? []).filter((c): c is { lat: number; lon: number } => !!c);
+}
+
+/**
+ * invalidateChangedRoutes — drops cached OSRM geometry for any route whose
+ * stop list changed, so nobody is shown the road shape of the old route.
+ */
+function invalidateChangedRoutes(prev: SavedBus[], next: SavedBus[]): void {
+  for (const n of next) {
+    const p = prev.find(b => b.id === n.id);
+    if (!p || JSON.stringify(p.stopCoords) === JSON.stringify(n.stopCoords)) continue;
+    const old = resolvedCoords(p);
+    if (old.length >= 2) RouteCache.invalidate(old).catch(() => {});
+  }
+}
+
 async function syncBuses(): Promise<void> {
   const rows = await loadBuses();
   if (rows.length > 0) {
-    const buses: SavedBus[] = rows.map(r => ({
-      id        : r.id,
-      name      : r.name,
-      stops     : r.stops,
-      stopCoords: r.stop_coords ?? null,
-      addedAt   : r.added_at,
-    }));
+    const buses: SavedBus[] = rows.map(toSavedBus);
+    invalidateChangedRoutes(getSavedBuses(), buses);
     saveBuses(buses);
+    seedImportedShapes(buses);
     setSbStatus('connected', `✅ Supabase — ${buses.length} route(s) loaded`);
   }
 }
 
+/**
+ * seedImportedShapes — puts each GTFS-imported route's shape into RouteCache
+ * under its stop coordinates, so drawing, ETAs and prewarm use the feed's
+ * geometry and never ask OSRM for that route.
+ */
+function seedImportedShapes(buses: SavedBus[]): void {
+  for (const b of buses) {
+    const coords = resolvedCoords(b);
+    if (!b.shape || b.shape.length < 2 || coords.length < 2) continue;
+    const shape = b.shape;
+    RouteCache.load(coords).then(hit => {
+      if (hit && hit.points.length === shape.length) return;
+      let km = 0;
+      for (let i = 1; i < shape.length; i++) km += straightKm({ lat: shape[i - 1][0], lon: shape[i - 1][1] }, { lat: shape[i][0], lon: shape[i][1] });
+      RouteCache.set(coords, { points: shape, distanceKm: km });
+    }).catch(() => {});
+  }
+}
+
 async function syncSettings(): Promise<void> {
+  // Passwords used to live in `settings` and in localStorage — purge any leftovers
+  localStorage.removeItem('bt_drv_pw');
+  localStorage.removeItem('bt_admin_pw');
   const settings = await loadSettings();
-  if (settings['admin_pw'])  localStorage.setItem(K.ADMIN_PW, settings['admin_pw']);
-  if (settings['driver_pw']) localStorage.setItem(K.DRV_PW,   settings['driver_pw']);
+  if (Object.keys(settings).length) localStorage.setItem(K.SETTINGS, JSON.stringify(settings));
+  applyCacheSettings();
+  await setupGeocoders();
+}
+
+/**
+ * setupGeocoders — gazetteer (if the `gazetteer_url` file exists) then the
+ * `geocoder` provider ("nominatim", "nominatim:<url>", "photon:<url>").
+ */
+async function setupGeocoders(): Promise<void> {
+  const st = getSettings();
+  const entries = await loadGazetteer(st['gazetteer_url'] || DEFAULT_GAZETTEER_URL);
+  configureGeocoders([
+    ...(entries.length ? [gazetteerGeocoder(entries)] : []),
+    geocoderFromSpec(st['geocoder']),
+  ]);
+}
+
+/** Optional `route_cache_mb` / `route_cache_days` settings override the RouteCache defaults. */
+function applyCacheSettings(): void {
+  const st = getSettings();
+  const mb = parseFloat(st['route_cache_mb']), days = parseFloat(st['route_cache_days']);
+  RouteCache.configure({
+    ...(mb   > 0 ? { maxBytes: mb * 1024 * 1024 } : {}),
+    ...(days > 0 ? { ttlMs: days * 24 * 3600_000 } : {}),
+  });
+}
+
+/** Optional `tile_url` / `tile_attribution` settings rows — the deployment's own tile server. */
+function tileSource(): TileSource | null {
+  const st = getSettings();
+  return st['tile_url'] ? { url: st['tile_url'], attribution: st['tile_attribution'] || undefined } : null;
+}
+
+function getSettings(): Record<string, string> {
+  try { return JSON.parse(localStorage.getItem(K.SETTINGS) || '{}'); } catch { return {}; }
+}
+
+/** Route editor region picker (#admin-route-region) → region override, or null for the default. */
+function readRouteRegion(): GeoRegion | null {
+  const sel = document.getElementById('admin-route-region') as HTMLSelectElement | null;
+  return sel?.value ? REGION_PRESETS[sel.value] ?? null : null;
+}
+
+function renderRouteRegionPicker(bus?: SavedBus | null): void {
+  const sel = document.getElementById('admin-route-region');
+  if (!sel) return;
+  const current = Object.keys(REGION_PRESETS).find(k => bus?.region?.state === REGION_PRESETS[k].state) ?? null;
+  sel.innerHTML = buildRegionOptionsHTML(Object.keys(REGION_PRESETS), current);
+}
+
+/** Geocoding region for a route: its own override, else the deployment's `geo_region`. */
+function getRouteRegion(bus?: SavedBus | null): GeoRegion {
+  return resolveRegion(parseRegion(getSettings()['geo_region']), bus?.region);
+}
+
+// ── Route editing (in place, versioned) ───────────────────────────────────────
+
+/**
+ * editRoute — saves changes to an existing route without changing its id.
+ * `bus.updatedAt` is the timestamp the editor loaded; if another admin saved
+ * since, nothing is written and the conflict banner is shown instead.
+ */
+async function editRoute(bus: SavedBus, patch: BusPatch): Promise<boolean> {
+  // An imported GTFS shape is the road through the feed's stops — once the stops
+  // move it is the wrong road, so drop it and let OSRM route the new ones
+  const moved = (patch.stops !== undefined && JSON.stringify(patch.stops) !== JSON.stringify(bus.stops))
+    || (patch.stop_coords !== undefined && JSON.stringify(patch.stop_coords) !== JSON.stringify(bus.stopCoords));
+  const full  = moved && !('shape' in patch) ? { ...patch, shape: null } : patch;
+  return applyRouteWrite(bus.id, await updateBus(bus.id, full, bus.updatedAt));
+}
+
+async function rollbackRoute(busId: number, version: number): Promise<boolean> {
+  const bus = getSavedBuses().find(b => b.id === busId);
+  if (!bus) return false;
+  if (!confirm(`Restore version ${version} of "${bus.name}"? The current stops are kept in history.`)) return false;
+  const ok = applyRouteWrite(busId, await rollbackBus(busId, version, bus.updatedAt));
+  if (ok) await showRouteHistory(busId);
+  return ok;
+}
+
+function applyRouteWrite(busId: number, res: BusWriteResult): boolean {
+  const msgEl = document.getElementById('admin-route-msg');
+  if (res.status === 'saved') {
+    replaceSavedBus(toSavedBus(res.bus));
+    if (msgEl) msgEl.innerHTML = '';
+    showStatusPill(`💾 Saved as v${res.bus.version}`);
+    return true;
+  }
+  if (res.status === 'queued') {
+    showStatusPill('📶 Offline — route saved, will sync when back online');
+    return true;
+  }
+  if (res.status === 'conflict') {
+    if (msgEl) msgEl.innerHTML = buildConflictHTML(res.current);
+    if (res.current) replaceSavedBus(toSavedBus(res.current));
+    else saveBuses(getSavedBuses().filter(b => b.id !== busId));
+    return false;
+  }
+  showStatusPill('❌ Could not save route — check connection');
+  return false;
+}
+
+/** An offline route edit replayed after someone else saved the route — show it like a live conflict. */
+async function onQueuedConflict(collapseKey: string | null): Promise<void> {
+  const m = /^bus:(\d+)$/.exec(collapseKey ?? '');
+  if (!m) return;
+  const busId = Number(m[1]);
+  applyRouteWrite(busId, { status: 'conflict', current: await loadBus(busId) });
+  const name = getSavedBuses().find(b => b.id === busId)?.name ?? `Route #${busId}`;
+  showStatusPill(`⚠️ Your offline edit to "${name}" was not saved — it was changed by someone else`);
+}
+
+/** Renders the version list for one route into #admin-route-history. */
+async function showRouteHistory(busId: number): Promise<void> {
+  const el  = document.getElementById('admin-route-history');
+  const bus = getSavedBuses().find(b => b.id === busId);
+  if (!el || !bus) return;
+  const archived = await loadBusVersions(busId);
+  el.innerHTML = buildVersionHistoryHTML(busId, [
+    { version: bus.version, name: bus.name, stops: bus.stops, savedAt: bus.updatedAt, current: true },
+    ...archived.map(v => ({ version: v.version, name: v.name, stops: v.stops, savedAt: v.saved_at, current: false })),
+  ]);
+}
+
+// ── Stop review (admin pins / confirms coordinates before saving) ────────────
+
+/**
+ * reviewRouteStops — geocodes a route's stops for the admin, keeping any
+ * coordinates already confirmed on `bus`, and shows candidates + pins on the
+ * admin map (#admin-stop-map) with a flag list in #admin-stop-review.
+ */
+async function reviewRouteStops(names: string[], bus: SavedBus | null = null): Promise<void> {
+  const listEl = document.getElementById('admin-stop-review');
+  if (listEl) listEl.innerHTML = '<div class="hint"><span class="geo-spinner"></span> Locating stops…</div>';
+
+  const region = resolveRegion(parseRegion(getSettings()['geo_region']), readRouteRegion() ?? bus?.region);
+  const { coords, candidates } = await resolveRouteStops(names, bus?.stopCoords, region);
+  state.stopReview = { names, coords, candidates, flags: assessStops(coords, candidates), active: 0, bus };
+
+  if (!state.adminMap) {
+    state.adminMap = initMap('admin-stop-map');
+    applyOSMTiles(state.adminMap, tileSource());
+  }
+  state.stopEditor?.destroy();
+  state.stopEditor = createStopEditor(state.adminMap, names, candidates, placeStop);
+
+  const placed = coords.filter((c): c is StopCoord => !!c);
+  if (placed.length) state.adminMap.fitBounds(placed.map(c => [c.lat, c.lon]), { padding: [24, 24] });
+  else state.adminMap.setView([11.1, 78.6], 7);
+  invalidateSizeAsync(state.adminMap);
+  renderStopReview();
+}
+
+function renderStopReview(): void {
+  const r = state.stopReview;
+  if (!r) return;
+  r.flags = assessStops(r.coords, r.candidates);
+  state.stopEditor?.update(r.coords, r.flags);
+  const el = document.getElementById('admin-stop-review');
+  if (el) el.innerHTML = buildStopReviewHTML(r.names, r.coords, r.flags, r.active);
+}
+
+/** Called by the stop editor when the admin clicks, drags or picks a candidate. */
+function placeStop(index: number, coord: StopCoord): void {
+  const r = state.stopReview;
+  if (!r) return;
+  r.coords[index] = coord;
+  renderStopReview();
+}
+
+function selectStopForPin(index: number): void {
+  if (!state.stopReview) return;
+  state.stopReview.active = index;
+  state.stopEditor?.setActive(index);
+  renderStopReview();
+}
+
+/** Accepts the geocoder's coordinate for one stop as admin-confirmed. */
+function confirmStop(index: number): void {
+  const c = state.stopReview?.coords[index];
+  if (c) placeStop(index, { ...c, confirmed: true });
+}
+
+/**
+ * saveReviewedRoute — saves the reviewed stops (with their confirmed flags)
+ * as a new route or as an edit of `review.bus`. Blocked while any stop is
+ * unresolved; low-confidence stops need an explicit OK.
+ */
+async function saveReviewedRoute(name: string): Promise<boolean> {
+  const r = state.stopReview;
+  if (!r) return false;
+  const missing = r.names.filter((_, i) => r.flags[i] === 'unresolved');
+  if (missing.length) {
+    showStatusPill(`❌ Pin ${missing.join(', ')} on the map before saving`);
+    return false;
+  }
+  const doubtful = r.names.filter((_, i) => r.flags[i] === 'low');
+  if (doubtful.length && !confirm(`These stops may be in the wrong place:\n${doubtful.join(', ')}\n\nSave anyway?`)) return false;
+
+  const region = readRouteRegion();
+  if (r.bus) return editRoute(r.bus, { name, stops: r.names, stop_coords: r.coords, region });
+  const res = await saveBus({ name, stops: r.names, stop_coords: r.coords, region });
+  if (res.status === 'failed' || res.status === 'conflict') { showStatusPill('❌ Could not save the route — try again'); return false; }
+  if (res.status === 'saved') await syncBuses();
+  showStatusPill(res.status === 'saved' ? '💾 Route saved' : '📶 Offline — route saved, will sync when back online');
+  return true;
+}
+
+// ── GTFS import / export (admin) ──────────────────────────────────────────────
+
+/**
+ * importGtfsFeed — reads a GTFS zip into routes. A route whose GTFS route_id
+ * was imported before is updated in place (new version); others are added.
+ * Feed warnings (skipped routes, missing shapes) go to #admin-gtfs-log.
+ */
+async function importGtfsFeed(file: File): Promise<void> {
+  showStatusPill(`⬆️ Reading ${file.name}…`, 0);
+  const feed = await readGtfsZip(new Uint8Array(await file.arrayBuffer()));
+  let added = 0, updated = 0, failed = 0;
+
+  for (const r of feed.routes) {
+    const row  = { name: r.name, stops: r.stops, stop_coords: r.stopCoords, shape: r.shape, gtfs_route_id: r.gtfsRouteId };
+    const prev = getSavedBuses().find(b => b.gtfsRouteId === r.gtfsRouteId);
+    if (prev) {
+      const res = await updateBus(prev.id, row, prev.updatedAt);
+      if (res.status === 'saved' || res.status === 'queued') updated++; else failed++;
+    } else {
+      const res = await saveBus(row);
+      if (res.status === 'saved' || res.status === 'queued') added++; else failed++;
+    }
+  }
+  await syncBuses();
+
+  const log = document.getElementById('admin-gtfs-log');
+  if (log) log.innerHTML = feed.warnings.map(w => `<div class="hint">⚠️ ${w.replace(/</g, '&lt;')}</div>`).join('');
+  showStatusPill(feed.routes.length
+    ? `✅ GTFS: ${added} added, ${updated} updated${failed ? `, ${failed} failed` : ''}`
+    : `❌ No bus routes found${feed.warnings.length ? ` — ${feed.warnings[0]}` : ''}`);
+}
+
+/**
+ * exportGtfsFeed — downloads every route as a GTFS zip. Timetabled routes
+ * are exported with their scheduled departures and holidays; geometry and
+ * untimetabled running times come from the imported shape or the cached
+ * OSRM route. Routes never drawn on this device are exported without a shape.
+ */
+async function exportGtfsFeed(): Promise<void> {
+  const st = getSettings();
+  const tt = getTimetable();
+  const routes: GtfsExportRoute[] = await Promise.all(getSavedBuses().map(async b => {
+    const coords = resolvedCoords(b);
+    const cached = coords.length >= 2 ? await RouteCache.load(coords) : null;
+    return {
+      id        : b.id,
+      name      : b.name,
+      stops     : b.stops,
+      stopCoords: b.stopCoords ?? [],
+      shape     : b.shape ?? cached?.points ?? null,
+      legSeconds: cached?.legs?.map(l => l.durationSec),
+      offsets   : b.stopOffsets ?? null,
+      timetable : tt.trips.filter(t => t.bus_id === b.id).map(toScheduledTrip),
+    };
+  }));
+  const zip = writeGtfsZip(routes, {
+    name    : st['gtfs_agency_name'] || 'BusTrack India',
+    url     : st['gtfs_agency_url'] || location.origin,
+    timezone: 'Asia/Kolkata',
+  }, istToday().replace(/-/g, ''), tt.exceptions.map(toServiceException));
+
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(new Blob([zip as BlobPart], { type: 'application/zip' }));
+  a.download = `bustrack-gtfs-${istToday()}.zip`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 10_000);
+}
+
+// ── Timetables (admin editing, passenger next departures) ─────────────────────
+
+interface TimetableCache { trips: ScheduledTripRow[]; exceptions: ServiceExceptionRow[] }
+
+/** Last-synced timetable — passengers see departures offline and before sign-in. */
+function getTimetable(): TimetableCache {
+  try { return JSON.parse(localStorage.getItem(K.TIMETABLE) || 'null') ?? { trips: [], exceptions: [] }; } catch { return { trips: [], exceptions: [] }; }
+}
+
+async function syncTimetables(): Promise<void> {
+  const [trips, exceptions] = await Promise.all([loadScheduledTrips(), loadServiceExceptions(addDays(istToday(), -1))]);
+  if (trips && exceptions) localStorage.setItem(K.TIMETABLE, JSON.stringify({ trips, exceptions }));
+}
+
+function toScheduledTrip(r: ScheduledTripRow): ScheduledTrip {
+  return { id: r.id, busId: r.bus_id, reversed: r.reversed, departs: r.departs, days: r.days };
+}
+
+function toServiceException(r: ServiceExceptionRow): ServiceException {
+  return { busId: r.bus_id, day: r.day, runs: r.runs };
+}
+
+const FALLBACK_BUS_KMH = 30;   // same as the GTFS export's fallback running speed
+
+/**
+ * estimateStopOffsets — minutes from the first stop to each stop from the
+ * cached OSRM legs (straight line × 1.3 where a leg is missing). Prefills the
+ * editor until the admin saves real times; unplaced stops get none.
+ */
+async function estimateStopOffsets(bus: SavedBus): Promise<Array<number | null>> {
+  const coords = resolvedCoords(bus);
+  const cached = coords.length >= 2 ? await RouteCache.load(coords) : null;
+  let sec = 0, leg = 0, prev: StopCoord | null = null;
+  return bus.stops.map((_, i) => {
+    const c = bus.stopCoords?.[i] ?? null;
+    if (!c) return null;
+    if (prev) {
+      const d = cached?.legs?.[leg++]?.durationSec;
+      sec += d && d > 0 ? d : straightKm(prev, c) * 1.3 / FALLBACK_BUS_KMH * 3600;
+    }
+    prev = c;
+    return Math.round(sec / 60);
+  });
+}
+
+/** Saved stop offsets when they still match the stop list. */
+function savedStopOffsets(bus: SavedBus): Array<number | null> | null {
+  return bus.stopOffsets && bus.stopOffsets.length === bus.stops.length ? bus.stopOffsets : null;
+}
+
+/** Admin: one route's stop times + departures into #admin-timetable. */
+async function showTimetable(busId: number): Promise<void> {
+  const el  = document.getElementById('admin-timetable');
+  const bus = getSavedBuses().find(b => b.id === busId);
+  if (!el || !bus) return;
+  const saved = savedStopOffsets(bus);
+  const trips = getTimetable().trips.filter(t => t.bus_id === busId);
+  el.innerHTML = buildTimetableHTML(bus, trips, saved ?? await estimateStopOffsets(bus), !!saved);
+}
+
+/**
+ * saveStopOffsets — stores the editor's stop times on the route. Times must
+ * not go backwards along the route (blank stops are skipped).
+ */
+async function saveStopOffsets(busId: number): Promise<boolean> {
+  const bus = getSavedBuses().find(b => b.id === busId);
+  if (!bus) return false;
+  const offsets = bus.stops.map((_, i) => {
+    const v = (document.getElementById(`tt-off-${i}`) as HTMLInputElement | null)?.value.trim() ?? '';
+    return v === '' ? null : Math.max(0, Math.round(+v));
+  });
+  const known = offsets.filter((o): o is number => o !== null && !isNaN(o));
+  if (known.length < 2 || known.length !== offsets.filter(o => o !== null).length) { showStatusPill('❌ Enter minutes for at least the first and last stop'); return false; }
+  if (known.some((o, i) => i && o < known[i - 1])) { showStatusPill('❌ Stop times must increase along the route'); return false; }
+  const ok = await editRoute(bus, { stop_offsets: offsets });
+  if (ok) await showTimetable(busId);
+  return ok;
+}
+
+/** Admin: adds the departure in the #tt-* form. Saves estimated stop times first if there are none. */
+async function addScheduledTrip(busId: number): Promise<void> {
+  const val     = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value ?? '';
+  const departs = parseClock(val('tt-departs'));
+  const days    = [0, 1, 2, 3, 4, 5, 6].reduce((m, i) => (document.getElementById(`tt-day-${i}`) as HTMLInputElement | null)?.checked ? m | (1 << i) : m, 0);
+  if (departs === null || departs >= 1440) { showStatusPill('❌ Enter a departure time'); return; }
+  if (!days) { showStatusPill('❌ Pick at least one day'); return; }
+
+  const bus = getSavedBuses().find(b => b.id === busId);
+  if (!bus) return;
+  if (!savedStopOffsets(bus) && !(await editRoute(bus, { stop_offsets: await estimateStopOffsets(bus) }))) return;
+  const row = await saveScheduledTrip({ bus_id: busId, reversed: val('tt-dir') === '1', departs, days, note: val('tt-note').trim() || null });
+  if (!row) { showStatusPill('❌ Could not save departure — check connection'); return; }
+  await syncTimetables();
+  await showTimetable(busId);
+  showStatusPill(`🕒 Added ${formatClock(departs)} departure`);
+}
+
+async function removeScheduledTrip(id: number, busId: number): Promise<void> {
+  if (!(await deleteScheduledTrip(id))) { showStatusPill('❌ Could not delete departure — check connection'); return; }
+  await syncTimetables();
+  await showTimetable(busId);
+}
+
+/** Admin: upcoming holidays / extra service days into #admin-exceptions. */
+function showServiceExceptions(): void {
+  const el = document.getElementById('admin-exceptions');
+  if (!el) return;
+  el.innerHTML = buildServiceExceptionsHTML(getTimetable().exceptions, Object.fromEntries(getSavedBuses().map(b => [b.id, b.name])));
+}
+
+async function addServiceException(): Promise<void> {
+  const input = (id: string) => document.getElementById(id) as HTMLInputElement | null;
+  const day   = input('ex-day')?.value ?? '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) { showStatusPill('❌ Pick a date'); return; }
+  const bus = input('ex-bus')?.value ?? '';
+  const row = await saveServiceException({ bus_id: bus ? +bus : null, day, runs: !!input('ex-runs')?.checked, note: input('ex-note')?.value.trim() || null });
+  if (!row) { showStatusPill('❌ Could not save — that date may already have an exception'); return; }
+  await syncTimetables();
+  showServiceExceptions();
+}
+
+async function removeServiceException(id: number): Promise<void> {
+  if (!(await deleteServiceException(id))) { showStatusPill('❌ Could not delete — check connection'); return; }
+  await syncTimetables();
+  showServiceExceptions();
+}
+
+/** Every scheduled trip through a stop (matched by normalised name), across routes. */
+function stopServices(stopName: string): StopService[] {
+  const key   = normalizeStopName(stopName).toLowerCase();
+  const trips = getTimetable().trips.map(toScheduledTrip);
+  const out: StopService[] = [];
+  for (const bus of getSavedBuses()) {
+    const offsets = savedStopOffsets(bus);
+    bus.stops.forEach((name, stopIndex) => {
+      if (normalizeStopName(name).toLowerCase() !== key) return;
+      for (const trip of trips) {
+        if (trip.busId === bus.id) out.push({ trip, offsets: tripOffsets(offsets, bus.stops.length, trip.reversed), stopIndex });
+      }
+    });
+  }
+  return out;
+}
+
+/** The placed stop nearest the passenger (any route), or null without a fix. */
+function nearestStopName(): string | null {
+  if (state.passLat === null || state.passLon === null) return null;
+  const me = { lat: state.passLat, lon: state.passLon };
+  let best: string | null = null, bestKm = Infinity;
+  for (const bus of getSavedBuses()) {
+    for (let i = 0; i < bus.stops.length; i++) {
+      const c = bus.stopCoords?.[i];
+      const km = c ? straightKm(me, c) : Infinity;
+      if (km < bestKm) { best = bus.stops[i]; bestKm = km; }
+    }
+  }
+  return best;
+}
+
+/**
+ * showNextDepartures — timetabled departures from a stop into #pass-departures.
+ * Defaults to the stop nearest the passenger, else the selected bus's first stop.
+ */
+function showNextDepartures(stopName?: string): void {
+  const el   = document.getElementById('pass-departures');
+  const stop = stopName ?? nearestStopName() ?? state.selectedBus?.stops[0];
+  if (!el || !stop) return;
+  const { day, min } = istClock(Date.now());
+  const buses = new Map(getSavedBuses().map(b => [b.id, b]));
+  const exceptions = getTimetable().exceptions.map(toServiceException);
+  el.innerHTML = buildDeparturesHTML(stop, nextDepartures(stopServices(stop), exceptions, day, min).map(d => {
+    const bus = buses.get(d.trip.busId);
+    return {
+      time   : formatClock(d.at),
+      route  : bus?.name ?? `Route #${d.trip.busId}`,
+      towards: (d.trip.reversed ? bus?.stops[0] : bus?.stops[bus.stops.length - 1]) ?? '',
+      inMin  : Math.round(d.at - min),
+    };
+  }));
+}
+
+/** The scheduled trip a live bus is running and its delay, from its last stop event. */
+function scheduleStatus(loc: DriverLoc, bus: SavedBus): TripMatch | null {
+  if (!loc.lastStop) return null;
+  const tt    = getTimetable();
+  const trips = tt.trips.filter(t => t.bus_id === bus.id).map(toScheduledTrip);
+  if (!trips.length) return null;
+  return matchLastStop(trips, savedStopOffsets(bus), bus.stops, loc.reversed, loc.lastStop, tt.exceptions.map(toServiceException));
+}
+
+/** "On time · 07:15 trip" / "6 min late · 07:15 trip" — '' off the timetable. */
+function scheduleLabel(loc: DriverLoc, bus: SavedBus): string {
+  const m = scheduleStatus(loc, bus);
+  return m ? `${punctualityLabel(m.delayMin)} · ${formatClock(m.trip.departs)} trip` : '';
+}
+
+// ── Journey planner (passenger, across routes) ──────────────────────────────
+
+/** Every saved route with its placed stops and cached OSRM legs, for the stop graph. */
+async function plannerRoutes(): Promise<PlannerRoute[]> {
+  return Promise.all(getSavedBuses().map(async b => {
+    const stops  = etaStops(b);
+    const cached = stops.length >= 2 ? await RouteCache.load(stops) : null;
+    return { id: b.id, name: b.name, stops, legs: cached?.legs };
+  }));
+}
+
+/**
+ * planJourney — journeys between two typed stops into #journey-results,
+ * fastest first. The origin defaults to the stop nearest the passenger.
+ */
+async function planJourney(from?: string, to?: string): Promise<void> {
+  const input  = (id: string) => document.getElementById(id) as HTMLInputElement | null;
+  const origin = (from ?? input('journey-from')?.value ?? '').trim() || nearestStopName() || '';
+  const dest   = (to ?? input('journey-to')?.value ?? '').trim();
+  const el     = document.getElementById('journey-results');
+  if (!origin || !dest) { showStatusPill('❌ Enter where you are going'); return; }
+
+  if (el) el.innerHTML = '<div class="hint"><span class="geo-spinner"></span> Finding routes…</div>';
+  const res = await askRouteWorker('planJourneys', { routes: await plannerRoutes(), from: origin, to: dest });
+  if (!res.fromFound || !res.toFound) {
+    if (el) el.innerHTML = '';
+    showStatusPill(`❌ No stop named "${res.fromFound ? dest : origin}"`);
+    return;
+  }
+
+  state.journeys = res.journeys;
+  if (el) el.innerHTML = buildJourneysHTML(origin, dest, state.journeys.map(j => ({
+    minutes  : Math.round(j.minutes),
+    km       : Math.round(j.km * 10) / 10,
+    transfers: j.transfers,
+    legs     : j.legs.map((l, i) => ({ route: l.routeName, from: l.from, to: l.to, color: JOURNEY_COLORS[i % JOURNEY_COLORS.length] })),
+  })));
+  if (state.journeys.length) showJourney(0);
+}
+
+/** Draws one planned journey on the passenger map, a colour per leg. */
+async function showJourney(index: number): Promise<void> {
+  const journey = state.journeys[index];
+  if (!journey || !state.passMap) return;
+  clearJourney();
+  const buses = new Map(getSavedBuses().map(b => [b.id, b]));
+  const all: [number, number][] = [];
+  for (const [i, leg] of journey.legs.entries()) {
+    const bus    = buses.get(leg.routeId);
+    const stops  = bus ? etaStops(bus) : [];
+    const cached = stops.length >= 2 ? await RouteCache.load(stops) : null;
+    const path   = legPath(leg, bus?.shape ?? cached?.points);
+    state.journeyLayers.push(drawRoute(state.passMap, path, JOURNEY_COLORS[i % JOURNEY_COLORS.length]));
+    all.push(...path);
+  }
+  if (all.length) state.passMap.fitBounds(all, { padding: [24, 24] });
+}
+
+function clearJourney(): void {
+  for (const l of state.journeyLayers) clearRouteLayer(state.passMap, l);
+  state.journeyLayers = [];
+}
+
+// ── Near me (stops + approaching buses around the passenger) ─────────────────
+
+const NEARBY_RADIUS_KM = 1;
+const LIVE_STALE_MS    = 10 * 60_000;   // same cut-off as the gtfs-realtime feed
+const APPROACHING_MAX  = 3;             // live buses listed per stop
+
+/** The stop index for the current saved routes — built on first use after a change. */
+function getStopIndex(): StopIndex {
+  const source = localStorage.getItem(K.BUSES) || '[]';
+  if (state.stopIndex?.source !== source) {
+    state.stopIndex = { source, index: createStopIndex(getSavedBuses().map(b => ({ id: b.id, stops: etaStops(b) }))) };
+  }
+  return state.stopIndex.index;
+}
+
+/**
+ * showNearby — stops within `radiusKm` of the passenger into #pass-nearby,
+ * with walking distance, the routes serving each, and live buses whose
+ * remaining stops include it (soonest first, along-road ETA).
+ */
+async function showNearby(radiusKm = NEARBY_RADIUS_KM): Promise<void> {
+  const el = document.getElementById('pass-nearby');
+  if (!el) return;
+  if (state.passLat === null || state.passLon === null) { showStatusPill('📍 Waiting for your location…'); return; }
+  const stops = getStopIndex().nearby({ lat: state.passLat, lon: state.passLon }, radiusKm);
+  const buses = new Map(getSavedBuses().map(b => [b.id, b]));
+
+  // Live buses on any route through a nearby stop → ETA to each such stop
+  const serving  = new Set(stops.flatMap(s => s.routes.map(r => r.busId)));
+  const approach = new Map<string, Array<{ bus: string; etaSec: number }>>();
+  const live = (await loadLiveFleet()).filter(l => l.busId !== null && serving.has(l.busId) && Date.now() - l.ts < LIVE_STALE_MS);
+  for (const loc of live) {
+    const bus = buses.get(loc.busId!)!;
+    const eta = travelStops(bus, loc);
+    const progress = await busProgress(loc, bus, eta);
+    for (const u of progress?.upcoming ?? []) {
+      const at = stops.find(s => s.routes.some(r => r.busId === bus.id && r.stopIndex === eta[u.index].routeIndex));
+      if (!at) continue;
+      const list = approach.get(at.key) ?? [];
+      list.push({ bus: bus.name, etaSec: u.etaSec });
+      approach.set(at.key, list);
+    }
+  }
+
+  el.innerHTML = buildNearbyHTML(stops.map(s => ({
+    name       : s.name,
+    walkM      : Math.round(s.walkKm * 1000 / 10) * 10,
+    walkMin    : s.walkMin,
+    routes     : [...new Set(s.routes.map(r => buses.get(r.busId)?.name ?? `Route #${r.busId}`))],
+    approaching: (approach.get(s.key) ?? []).sort((a, b) => a.etaSec - b.etaSec).slice(0, APPROACHING_MAX).map(a => ({ bus: a.bus, eta: formatEta(a.etaSec) })),
+  })), radiusKm);
+}
+
+// ── Arrival alerts (Notification API while open, Web Push when closed) ──────
+
+interface ArrivalAlert {
+  id       : string;
+  serverId : number | null;   // arrival_alerts row — null when push isn't available
+  busId    : number;
+  busName  : string;
+  vehicleId: string | null;   // the bus being tracked when the alert was set, else any on the route
+  stopIndex: number;          // saved order
+  stopName : string;
+  kind     : AlertKind;
+  minutes  : number | null;
+  km       : number | null;
+  createdAt: number;
+}
+
+const ALERT_TTL_MS = 6 * 3600_000;   // same expiry as the push-alerts function
+
+function getAlerts(): ArrivalAlert[] {
+  try {
+    const all: ArrivalAlert[] = JSON.parse(localStorage.getItem(K.ALERTS) || '[]');
+    return all.filter(a => Date.now() - a.createdAt < ALERT_TTL_MS);
+  } catch { return []; }
+}
+
+function saveAlerts(alerts: ArrivalAlert[]): void {
+  localStorage.setItem(K.ALERTS, JSON.stringify(alerts));
+}
+
+/** Saved index of the bus's placed stop nearest `at`, or -1. */
+function nearestRouteStop(bus: SavedBus, at: { lat: number; lon: number }): number {
+  let best = -1, bestKm = Infinity;
+  for (const s of etaStops(bus)) {
+    const km = straightKm(at, s);
+    if (km < bestKm) { best = s.routeIndex; bestKm = km; }
+  }
+  return best;
+}
+
+/**
+ * addArrivalAlert — alert for the selected bus from #alert-stop / #alert-min /
+ * #alert-km. Without a stop: 'approach' uses the stop nearest the passenger,
+ * 'destination' the one nearest their destination (else the last stop).
+ * Registered with the push-alerts function when this browser supports push,
+ * so it still fires with the page closed.
+ */
+async function addArrivalAlert(kind: AlertKind = 'approach'): Promise<void> {
+  const bus = state.selectedBus;
+  if (!bus) { showStatusPill('❌ Pick a bus first'); return; }
+  const input   = (id: string) => document.getElementById(id) as HTMLInputElement | null;
+  const typed   = input('alert-stop')?.value.trim() ?? '';
+  const minutes = parseFloat(input('alert-min')?.value ?? '') || null;
+  const km      = parseFloat(input('alert-km')?.value ?? '') || null;
+  if (!validAlertThresholds(minutes, km) && (minutes !== null || km !== null)) {
+    showStatusPill(`❌ Alert at ${ALERT_MINUTES.min}–${ALERT_MINUTES.max} min or ${ALERT_KM.min}–${ALERT_KM.max} km`);
+    return;
+  }
+
+  const near = kind === 'destination'
+    ? (state.passDestLat !== null && state.passDestLon !== null ? { lat: state.passDestLat, lon: state.passDestLon } : null)
+    : (state.passLat !== null && state.passLon !== null ? { lat: state.passLat, lon: state.passLon } : null);
+  const key = normalizeStopName(typed).toLowerCase();
+  const stopIndex = typed ? bus.stops.findIndex(s => normalizeStopName(s).toLowerCase() === key)
+                  : near ? nearestRouteStop(bus, near)
+                  : kind === 'destination' ? bus.stops.length - 1 : -1;
+  if (stopIndex < 0 || !bus.stopCoords?.[stopIndex]) { showStatusPill(typed ? `❌ ${bus.name} has no placed stop "${typed}"` : '❌ Choose a stop'); return; }
+  if (!(await requestNotifications())) { showStatusPill('❌ Allow notifications to get alerts'); return; }
+
+  const alert: ArrivalAlert = {
+    id       : crypto.randomUUID(),
+    serverId : null,
+    busId    : bus.id,
+    busName  : bus.name,
+    vehicleId: state.passVehicleId,
+    stopIndex,
+    stopName : bus.stops[stopIndex],
+    kind,
+    minutes  : minutes ?? (km ? null : kind === 'destination' ? 3 : 5),
+    km,
+    createdAt: Date.now(),
+  };
+
+  const vapid = await callFunction<{ publicKey: string }>('push-alerts');
+  const sub   = vapid ? await pushSubscription(vapid.publicKey) : null;
+  if (sub) {
+    const res = await callFunction<{ id: number }>('push-alerts', {
+      action      : 'subscribe',
+      subscription: sub,
+      alert       : { bus_id: alert.busId, vehicle_id: alert.vehicleId, stop_index: alert.stopIndex, stop_name: alert.stopName, kind, minutes: alert.minutes, km: alert.km },
+    });
+    alert.serverId = res?.id ?? null;
+  }
+  saveAlerts([...getAlerts(), alert]);
+  showArrivalAlerts();
+  showStatusPill(alert.serverId ? `🔔 Alert set — even with BusTrack closed` : '🔔 Alert set — keep this page open');
+}
+
+async function removeArrivalAlert(id: string): Promise<void> {
+  const alert = getAlerts().find(a => a.id === id);
+  saveAlerts(getAlerts().filter(a => a.id !== id));
+  showArrivalAlerts();
+  await cancelServerAlert(alert);
+}
+
+/** Drops the push copy of an alert (it fired in the page, or was cancelled). */
+async function cancelServerAlert(alert: ArrivalAlert | undefined): Promise<void> {
+  if (!alert?.serverId) return;
+  const endpoint = await pushEndpoint();
+  if (endpoint) await callFunction('push-alerts', { action: 'cancel', endpoint, id: alert.serverId });
+}
+
+/** Pending alerts into #pass-alerts. */
+function showArrivalAlerts(): void {
+  const el = document.getElementById('pass-alerts');
+  if (!el) return;
+  el.innerHTML = buildAlertsHTML(getAlerts().map(a => ({
+    id   : a.id,
+    title: `${a.kind === 'destination' ? '🛑' : '🚌'} ${a.busName} → ${a.stopName}`,
+    rule : `within ${[a.minutes && `${a.minutes} min`, a.km && `${a.km} km`].filter(Boolean).join(' or ')}`,
+    push : a.serverId !== null,
+  })));
+}
+
+/**
+ * checkArrivalAlerts — on each live update of the tracked bus: fires the
+ * alerts it has come within range of (same rule as the push-alerts function,
+ * same notification tag) and removes them here and on the server.
+ */
+function checkArrivalAlerts(loc: DriverLoc, bus: SavedBus, progress: RouteProgress, stops: Array<{ routeIndex: number }>): void {
+  const alerts = getAlerts();
+  const fired  = alerts.filter(a => {
+    if (a.busId !== bus.id || (a.vehicleId && a.vehicleId !== loc.vehicleId)) return false;
+    const u = progress.upcoming.find(x => stops[x.index].routeIndex === a.stopIndex);
+    if (!u) return false;
+    const rule = { kind: a.kind, busName: bus.name, stopName: a.stopName, minutes: a.minutes, km: a.km };
+    const eta  = { km: u.distanceKm, etaSec: u.etaSec };
+    if (!alertDue(rule, eta)) return false;
+    notify(alertMessage(rule, eta), alertTag(a.serverId ?? a.id));
+    return true;
+  });
+  if (!fired.length) return;
+  saveAlerts(alerts.filter(a => !fired.includes(a)));
+  showArrivalAlerts();
+  for (const a of fired) cancelServerAlert(a).catch(() => {});
+}
+
+// ── Auth (one-time code via GoTrue) ───────────────────────────────────────────
+
+function parseOtpTarget(raw: string): OtpTarget | null {
+  const v = raw.trim();
+  if (/^\S+@\S+\.\S+$/.test(v)) return { email: v };
+  const digits = v.replace(/[\s-]/g, '');
+  if (/^\+?\d{10,13}$/.test(digits)) return { phone: digits.startsWith('+') ? digits : `+91${digits.slice(-10)}` };
+  return null;
+}
+
+/**
+ * otpLogin — two-tap login shared by the driver and admin screens.
+ * First tap (code field empty) sends the code; second tap verifies it.
+ * The account must hold `role` — an OTP login alone never grants admin.
+ */
+async function otpLogin(prefix: 'drv' | 'admin', role: Role, screenId: string): Promise<boolean> {
+  const userEl = document.getElementById(`${prefix}-user`) as HTMLInputElement | null;
+  const codeEl = document.getElementById(`${prefix}-pass`) as HTMLInputElement | null;
+  const errEl  = document.getElementById(prefix === 'drv' ? 'driver-login-err' : 'admin-login-err');
+  const fail   = (msg: string) => { if (errEl) { errEl.textContent = msg; errEl.style.display = 'block'; } return false; };
+
+  const target = parseOtpTarget(userEl?.value ?? '');
+  if (!target) return fail('❌ Enter a valid email or mobile number.');
+
+  const code = codeEl?.value.trim() ?? '';
+  if (!code) {
+    if (!(await requestOtp(target))) return fail('❌ Could not send login code.');
+    if (errEl) errEl.style.display = 'none';
+    showStatusPill('📨 Login code sent — enter it to continue');
+    codeEl?.focus();
+    return false;
+  }
+
+  const session = await verifyOtp(target, code);
+  if (!session) return fail('❌ Wrong or expired code.');
+  if (!hasRole(role)) { await signOut(); return fail(`❌ This account is not registered as ${role}.`); }
+
+  if (errEl) errEl.style.display = 'none';
+  if (session.vehicleId) setVehicleId(session.vehicleId);
+  (window as any).showScreen(screenId);
+  await syncBuses();
+  return true;
+}
+
+// ── Passenger tracking (one vehicle at a time) ────────────────────────────────
+
+/**
+ * startPassengerTracking — follows only the vehicle the passenger selected.
+ * Positions are pushed over Supabase Realtime; the subscription drops to REST
+ * polling on its own while the socket is down. Switching buses tears down the
+ * previous subscription so the old vehicle is never fetched again.
+ */
+function startPassengerTracking(vehicleId: string, onUpdate: (loc: DriverLoc) => void): void {
+  stopPassengerTracking();
+  state.passVehicleId = vehicleId;
+
+  state.passLiveSub = subscribeDriverLocation(vehicleId, async row => {
+    if (state.passVehicleId !== vehicleId) return; // late message for a bus the passenger left
+    const loc = toDriverLoc(row);
+    showRouteAlert(offRouteLabel(loc));
+    const fix = await smoothFix(`pass:${vehicleId}`, { lat: loc.lat, lon: loc.lon, ts: loc.ts });
+    if (!fix || state.passVehicleId !== vehicleId) return; // multipath jump — keep the marker where it is
+    onUpdate({ ...loc, lat: fix.lat, lon: fix.lon, speed: Math.round(fix.speedKmh), heading: fix.heading });
+  }, {
+    onStatus: s => {
+      if (s === 'live')    setSbStatus('connected', '✅ Live — realtime updates');
+      if (s === 'polling') setSbStatus('syncing',   '⏳ Realtime unavailable — polling');
+    },
+  });
+}
+
+function stopPassengerTracking(): void {
+  if (state.passVehicleId) resetTrack(`pass:${state.passVehicleId}`);
+  state.passLiveSub?.unsubscribe();
+  showRouteAlert(null);
+  state.passLiveSub    = null;
+  state.passVehicleId  = null;
+  state.prevBusAlongKm = null;
+}
+
+/** All vehicles currently sharing — used by the bus picker and the fleet view. */
+async function loadLiveFleet(busId?: number): Promise<DriverLoc[]> {
+  return (await loadFleetLocations(busId)).map(toDriverLoc);
+}
+
+// ── Live ETA (along the road, not as the crow flies) ──────────────────────────
+
+/** A route's stops paired with their stored coordinates — unplaced stops skipped. */
+function etaStops(bus: SavedBus): Array<EtaStop & { routeIndex: number }> {
+  return bus.stops
+    .map((name, i) => ({ name, c: bus.stopCoords?.[i], routeIndex: i }))
+    .filter(s => !!s.c)
+    .map(s => ({ name: s.name, lat: s.c!.lat, lon: s.c!.lon, routeIndex: s.routeIndex }));
+}
+
+/**
+ * Learned hop times for a route, keyed by ETA leg, in either direction. A leg
+ * that spans an unplaced stop has no matching history row and falls back to
+ * OSRM.
+ */
+async function hopTimesFor(bus: SavedBus, stops: Array<{ routeIndex: number }>): Promise<HopTimeLookup> {
+  const rows = await loadTravelTimes(bus.id).catch(() => []);
+  return (leg, at) => {
+    const from = stops[leg].routeIndex, to = stops[leg + 1]?.routeIndex;
+    if (to === from + 1) return historicalHop(rows, from, at)?.sec ?? null;
+    if (to === from - 1) return historicalHop(rows, to, at, true)?.sec ?? null;
+    return null;
+  };
+}
+
+/** etaStops in the bus's direction of travel — reversed after it turned round at the terminus. */
+function travelStops(bus: SavedBus, loc: DriverLoc): Array<EtaStop & { routeIndex: number }> {
+  const stops = etaStops(bus);
+  return loc.reversed ? stops.reverse() : stops;
+}
+
+/**
+ * The return trip's road is the saved one driven backwards — cache it from the
+ * forward geometry (as gtfsRealtime reverses the shape) instead of asking OSRM.
+ */
+async function seedReturnRoute(stops: EtaStop[]): Promise<void> {
+  if (stops.length < 2 || await RouteCache.load(stops)) return;
+  const fwd = await RouteCache.load([...stops].reverse());
+  if (fwd) RouteCache.set(stops, { points: [...fwd.points].reverse(), distanceKm: fwd.distanceKm, legs: fwd.legs && [...fwd.legs].reverse() });
+}
+
+async function busProgress(loc: DriverLoc, bus: SavedBus, stops = travelStops(bus, loc)): Promise<RouteProgress | null> {
+  if (loc.reversed) await seedReturnRoute(stops);
+  const hop = await hopTimesFor(bus, stops);
+  return computeRouteProgress(stops, { lat: loc.lat, lon: loc.lon, ts: loc.ts }, loc.vehicleId, hop);
+}
+
+const ON_ROUTE_M       = 80;   // farther from the polyline than this = off-route, animate straight
+const MAX_PATH_STEP_KM = 3;   // a bigger jump is a GPS gap — don't replay km of road in 3 s
+
+/**
+ * moveBusMarker — animates the passenger's bus marker to a new fix along the
+ * road (snapped position to snapped position) with heading from the path.
+ * Falls back to a straight line when the bus is off-route, went backwards
+ * (reversed at the terminus) or the route geometry isn't cached.
+ * Returns the progress so updatePassengerEta can reuse it.
+ */
+async function moveBusMarker(marker: any, loc: DriverLoc, bus: SavedBus): Promise<RouteProgress | null> {
+  const stops    = travelStops(bus, loc);
+  const progress = await busProgress(loc, bus, stops);
+  const onRoute  = !!progress && progress.offRouteM <= ON_ROUTE_M;
+  const fromKm   = state.prevBusAlongKm;
+  setBusMarkerCrowding(marker, (await crowdingFor(loc))?.level ?? null);
+  state.prevBusAlongKm = onRoute ? progress!.alongKm : null;
+
+  if (onRoute && fromKm !== null && progress!.alongKm > fromKm && progress!.alongKm - fromKm <= MAX_PATH_STEP_KM) {
+    const path = await routePathBetween(stops, fromKm, progress!.alongKm);
+    if (path) {
+      animateAlongPath(marker, path, 2800, 'bus', deg => rotateBusMarker(marker, deg));
+      return progress;
+    }
+  }
+  const [lat, lon] = onRoute ? progress!.snapped : [loc.lat, loc.lon];
+  animateMarkerTo(marker, lat, lon, 2800, 'bus');
+  return progress;
+}
+
+/**
+ * updatePassengerEta — fills the distance panel from the bus's progress along
+ * the cached route. The ETA is to the stop nearest the passenger (their
+ * boarding point) or, without a passenger fix, to the bus's next stop.
+ * Pass the progress from moveBusMarker to avoid snapping the same fix twice.
+ * Returns false when the route geometry isn't cached yet.
+ */
+async function updatePassengerEta(loc: DriverLoc, bus: SavedBus, known?: RouteProgress | null): Promise<boolean> {
+  const stops    = travelStops(bus, loc);
+  const progress = known === undefined ? await busProgress(loc, bus, stops) : known;
+  if (!progress || !progress.upcoming.length) return false;
+
+  const pass = state.passLat !== null && state.passLon !== null ? { lat: state.passLat, lon: state.passLon } : null;
+  const crowd    = await crowdingFor(loc);
+  const boarding = pass
+    ? progress.upcoming.reduce((a, b) => straightKm(pass, stops[b.index]) < straightKm(pass, stops[a.index]) ? b : a)
+    : progress.upcoming[0];
+
+  updateDistancePanel({
+    airKm   : pass ? straightKm(pass, loc).toFixed(2) : '—',
+    roadKm  : boarding.distanceKm.toFixed(2),
+    eta     : formatEta(boarding.etaSec),
+    nextStop: progress.upcoming[0].name,
+    toDest  : progress.remainingKm.toFixed(1),
+    subLabel: pass ? 'away (straight)' : `to ${boarding.name}`,
+  });
+  updateBusInfoCard({
+    name     : bus.name,
+    routeName: `${bus.stops[0]} → ${bus.stops[bus.stops.length - 1]}`,
+    stops    : bus.stops,
+    speed    : Math.round(loc.speed),
+    distAway : `${boarding.distanceKm.toFixed(1)} km`,
+    eta      : formatEta(boarding.etaSec) + (boarding.historical ? ' (typical)' : ''),
+    lastStop : [lastStopLabel(loc), scheduleLabel(loc, bus)].filter(Boolean).join(' · '),
+    crowding : crowd ? crowdingLabel(crowd) : undefined,
+  });
+  checkArrivalAlerts(loc, bus, progress, stops);
+  return true;
+}
+
+/** Admin: learned hop times for one route into #admin-segment-times. */
+async function showSegmentTimes(busId: number): Promise<void> {
+  const el = document.getElementById('admin-segment-times');
+  if (!el) return;
+  el.innerHTML = buildSegmentTimesHTML(await loadTravelTimes(busId), MIN_TRIPS);
+}
+
+// ── Stop arrival / departure (driver GPS geofencing) ──────────────────────────
+
+/** (Re)starts detection for the driver's current route and direction. */
+function startStopDetection(): void {
+  const saved = state.routeReversed ? [...state.routeStops].reverse() : state.routeStops;
+  state.stopDetector = createStopDetector(saved, state.routeReversed);
+  renderDriverStops();
+  renderOccupancyButtons();
+}
+
+function renderDriverStops(): void {
+  const el = document.getElementById('driver-stops-list');
+  if (el) el.innerHTML = buildStopListHTML(state.routeStops.map(s => s.name), state.stopDetector?.highlightIndex ?? 0);
+}
+
+/**
+ * trackDriverStops — feed every driver GPS fix while sharing. Advances the
+ * highlighted stop, flips the route at the terminus, and publishes each
+ * arrival / departure for passengers.
+ */
+function trackDriverStops(fix: StopFix): void {
+  const det = state.stopDetector;
+  if (!det) return;
+  const events = det.update(fix);
+  if (!events.length) return;
+
+  const trip = getDriverTrip();
+  for (const ev of events) {
+    if (ev.reversed !== state.routeReversed) {
+      state.routeReversed = ev.reversed;
+      state.routeStops    = [...state.routeStops].reverse();
+      state.lastRouteKey  = null; // force the route line to redraw in the new direction
+      showDriverToast(`🏁 Reached ${ev.stopName} — route reversed`);
+    } else {
+      showDriverToast(ev.kind === 'arrive' ? `📍 Arrived at ${ev.stopName}` : `🚌 Departed ${ev.stopName}`, 2500);
+    }
+
+    if (trip) publishStopEvent(stopEventRow(trip, ev)).catch(() => {});
+  }
+  renderDriverStops();
+}
+
+/**
+ * onDriverPosition — the driver's geolocation watch callback while sharing.
+ * The raw fix is Kalman-smoothed first; an impossible jump is dropped
+ * entirely (not uploaded, no stop event), and only the smoothed position,
+ * speed and heading ever leave the phone. Resolves to the upload's outcome,
+ * or null when nothing was uploaded.
+ */
+async function onDriverPosition(pos: GeolocationPosition): Promise<LocationWriteResult | null> {
+  const trip = getDriverTrip();
+  if (!trip) return null;
+  const { vehicleId } = trip;
+  const fix = await smoothFix(`drv:${vehicleId}`, fromGeolocation(pos));
+  if (!fix || state.driverWatchId === null) return null;   // rejected, or sharing stopped mid-smooth
+
+  state.driverPrevLat = state.driverLat;
+  state.driverPrevLon = state.driverLon;
+  state.driverLat     = fix.lat;
+  state.driverLon     = fix.lon;
+  state.updateCount++;
+  trackDriverStops({ lat: fix.lat, lon: fix.lon, ts: fix.ts, accuracy: pos.coords.accuracy });
+  trackDeviation({ lat: fix.lat, lon: fix.lon, ts: fix.ts }, vehicleId).catch(() => {});
+
+  return saveDriverLocation(vehicleId, locationRow(trip, fix, state.occupancy));
+}
+
+/** Toasts the driver once when uploads stop getting through, and once when they recover. */
+function reportUpload(result: LocationWriteResult): void {
+  const failing = result === 'failed';
+  if (failing === state.uploadFailing) return;
+  state.uploadFailing = failing;
+  showDriverToast(failing ? '⚠️ Location not sent — passengers can\'t see this bus' : '✅ Location sending again', failing ? 6000 : 2500);
+}
+
+/**
+ * startDriverWatch / stopDriverWatch — one sharing session of route `busId`.
+ * Start mints the trip (K.DRIVER) that every upload, stop event and
+ * deviation carries, loads the route for stop detection and feeds the
+ * geolocation watch to onDriverPosition. Stop marks the row not sharing and
+ * clears the trip. Both reset the driver's Kalman track, so one trip's
+ * velocity and heading never bend the first fixes of the next.
+ */
+function startDriverWatch(busId: number): void {
+  const vehicleId = getVehicleId();
+  const bus       = getSavedBuses().find(b => b.id === busId);
+  if (!vehicleId || !bus || !navigator.geolocation) return;
+  stopDriverWatch();
+  setDriverTrip(startTrip(vehicleId, bus));
+  state.routeStops    = bus.stops.map((name, i) => ({ name, lat: bus.stopCoords?.[i]?.lat, lon: bus.stopCoords?.[i]?.lon }));
+  state.routeReversed = false;
+  state.lastRouteKey  = null;
+  state.uploadFailing = false;
+  startStopDetection();
+  warmRouteCache(state.routeStops);
+  state.driverWatchId = navigator.geolocation.watchPosition(
+    pos => { onDriverPosition(pos).then(r => { if (r) reportUpload(r); }, () => reportUpload('failed')); },
+    err => showDriverToast(err.code === 1 ? '❌ GPS denied.' : '❌ GPS unavailable.'),
+    { enableHighAccuracy: true, maximumAge: 3000, timeout: 15000 },
+  );
+}
+
+function stopDriverWatch(): void {
+  if (state.driverWatchId !== null) navigator.geolocation.clearWatch(state.driverWatchId);
+  state.driverWatchId = null;
+  const trip = getDriverTrip();
+  if (!trip) return;
+  resetTrack(`drv:${trip.vehicleId}`);
+  endDeviationTracking();
+  clearDriverSharing(trip.vehicleId).catch(() => {});
+  setDriverTrip(null);
+}
+
+/** "Departed Salem 4 min ago" / "Arrived at Salem just now" — '' when unknown. */
+function lastStopLabel(loc: DriverLoc, now = Date.now()): string {
+  if (!loc.lastStop) return '';
+  const min = Math.round((now - loc.lastStop.at) / 60_000);
+  const ago = min < 1 ? 'just now' : `${min} min ago`;
+  return loc.lastStop.event === 'departed' ? `Departed ${loc.lastStop.name} ${ago}` : `Arrived at ${loc.lastStop.name} ${ago}`;
+}
+
+// ── Occupancy (driver one-tap, passenger crowd reports) ──────────────────────
+
+const CROWD_REFRESH_MS = 60_000;      // passenger reports re-read at most once a minute
+const REPORT_GAP_MS    = 2 * 60_000;  // one report per passenger per bus per 2 min (also enforced by report_crowding)
+
+function renderOccupancyButtons(): void {
+  const el = document.getElementById('driver-occupancy');
+  if (el) el.innerHTML = buildOccupancyButtonsHTML(state.occupancy?.level ?? null, 'setOccupancy');
+}
+
+/** Driver: one tap sets the level; it goes out now and with every later fix. */
+async function setOccupancy(level: Occupancy): Promise<void> {
+  state.occupancy = { level, at: Date.now() };
+  renderOccupancyButtons();
+  showDriverToast(`👥 ${OCCUPANCY_LABELS[level]}`, 2000);
+  const vehicleId = getDriverTrip()?.vehicleId ?? getVehicleId();
+  if (vehicleId) await saveDriverOccupancy(vehicleId, level);
+}
+
+/** Passenger (on-bus mode): reports how full the tracked bus is. */
+async function reportCrowding(level: Occupancy): Promise<void> {
+  const vehicleId = state.passVehicleId;
+  if (!vehicleId) { showStatusPill('❌ Pick the bus you are on first'); return; }
+  const last = state.crowdReported;
+  if (last?.vehicleId === vehicleId && Date.now() - last.at < REPORT_GAP_MS) {
+    showStatusPill('⏳ Thanks — you reported this bus a moment ago');
+    return;
+  }
+  const result = await publishCrowdReport({ vehicle_id: vehicleId, bus_id: state.selectedBus?.id ?? null, level }, getDeviceId());
+  if (result !== 'ok') {
+    showStatusPill(
+      result === 'too_soon'     ? '⏳ Thanks — you reported this bus a moment ago' :
+      result === 'rate_limited' ? '⏳ Too many reports — try again later' :
+      result === 'invalid'      ? '❌ This bus is not sharing its location right now' :
+                                  '❌ Could not send — check connection');
+    return;
+  }
+  state.crowdReported = { vehicleId, level, at: Date.now() };
+  state.crowdReports  = null;   // re-read so the card reflects it
+  setOnBusMode(true, undefined, level);
+  showStatusPill(`🙏 Thanks — reported "${OCCUPANCY_LABELS[level]}"`);
+}
+
+/** The bus's crowding from its driver and recent passenger reports (cached a minute). */
+async function crowdingFor(loc: DriverLoc): Promise<Crowding | null> {
+  let cache = state.crowdReports;
+  if (!cache || cache.vehicleId !== loc.vehicleId || Date.now() - cache.at > CROWD_REFRESH_MS) {
+    const since = new Date(Date.now() - REPORT_WINDOW_MIN * 60_000).toISOString();
+    const rows  = await loadCrowdReports(loc.vehicleId, since);
+    cache = { vehicleId: loc.vehicleId, at: Date.now(), reports: rows.map(r => ({ level: r.level, at: new Date(r.reported_at).getTime(), reporter: r.reporter })) };
+    state.crowdReports = cache;
+  }
+  return crowdLevel(loc.occupancy, cache.reports);
+}
+
+// ── Off-route detection (driver GPS vs route corridor) ────────────────────────
+
+/** Optional `deviation_corridor_m` setting widens / narrows the on-route corridor. */
+function corridorM(): number {
+  const m = parseFloat(getSettings()['deviation_corridor_m']);
+  return m > 0 ? m : DEFAULT_CORRIDOR_M;
+}
+
+/**
+ * trackDeviation — feed every smoothed driver fix while sharing. Snaps it onto
+ * the route in the current travel direction; a confirmed deviation toasts the
+ * driver, flags the live row (passenger banner) and is logged for the admin.
+ * Silent while the route geometry isn't cached — no geometry, no corridor.
+ */
+async function trackDeviation(fix: { lat: number; lon: number; ts: number }, vehicleId: string): Promise<void> {
+  const trip  = getDriverTrip();
+  const stops = state.routeStops.filter(s => typeof s.lat === 'number' && typeof s.lon === 'number') as EtaStop[];
+  if (!trip || stops.length < 2) return;
+
+  if (state.deviation?.tripId !== trip.tripId) {
+    state.deviation = { tripId: trip.tripId, detector: createDeviationDetector(trip.tripId, corridorM()) };
+  }
+  const progress = await computeRouteProgress(stops, fix, `drv:${vehicleId}`);
+  if (!progress) return;
+
+  const ev = state.deviation.detector.update({ ...fix, offRouteM: progress.offRouteM });
+  if (!ev) return;
+  const d = ev.deviation;
+  showDriverToast(ev.kind === 'start'
+    ? `⚠️ Off route — ${Math.round(d.maxOffRouteM)} m from the route`
+    : `✅ Back on route after ${Math.max(1, Math.round(d.durationSec / 60))} min (${d.distanceKm.toFixed(1)} km off route)`, 6000);
+  publishDeviation(deviationRow(trip, d, corridorM())).catch(() => {});
+}
+
+/** Sharing stopped — closes a deviation still in progress so the log isn't left open. */
+function endDeviationTracking(): void {
+  const trip      = getDriverTrip();
+  const ev        = state.deviation?.detector.close();
+  state.deviation = null;
+  if (ev && trip) publishDeviation(deviationRow(trip, ev.deviation, corridorM())).catch(() => {});
+}
+
+/** Passenger banner text for a bus that left its route — null while on route. */
+function offRouteLabel(loc: DriverLoc, now = Date.now()): string | null {
+  if (!loc.offRoute) return null;
+  const min = Math.max(1, Math.round((now - loc.offRoute.since) / 60_000));
+  return `⚠️ ${loc.busName || 'This bus'} is off its usual route (${min} min) — ETAs may be wrong`;
+}
+
+/** Admin: recent deviations (one route, or all) into #admin-deviations. */
+async function showDeviationLog(busId?: number): Promise<void> {
+  const el = document.getElementById('admin-deviations');
+  if (!el) return;
+  const names = Object.fromEntries(getSavedBuses().map(b => [b.id, b.name]));
+  el.innerHTML = buildDeviationLogHTML(await loadDeviations(busId), names);
+}
+
+// ── Trip playback (admin) ─────────────────────────────────────────────────────
+
+/** Today as an IST calendar day (YYYY-MM-DD) — the `trips` view's `day`. */
+function istToday(): string {
+  return new Date(Date.now() + 330 * 60_000).toISOString().slice(0, 10);
+}
+
+/** Admin: one route's recorded trips for a day (#admin-trip-day, default today) into #admin-trips. */
+async function showTrips(busId: number, day?: string): Promise<void> {
+  const el = document.getElementById('admin-trips');
+  if (!el) return;
+  const picked = day ?? ((document.getElementById('admin-trip-day') as HTMLInputElement | null)?.value || istToday());
+  el.innerHTML = '<div class="hint"><span class="geo-spinner"></span> Loading trips…</div>';
+  el.innerHTML = buildTripListHTML(await loadTrips(busId, picked));
+}
+
+/** Loads a trip's fixes + stop events and replays it on #admin-trip-map. */
+async function playTrip(tripId: string): Promise<void> {
+  const [samples, events] = await Promise.all([loadTripSamples(tripId), loadTripStopEvents(tripId)]);
+  if (samples.length < 2) { showStatusPill('❌ This trip has too few recorded fixes to replay'); return; }
+
+  if (!state.tripMap) {
+    state.tripMap = initMap('admin-trip-map');
+    applyOSMTiles(state.tripMap, tileSource());
+  }
+  invalidateSizeAsync(state.tripMap);
+  state.tripPlayback?.destroy();
+
+  const start = new Date(samples[0].recorded_at).getTime();
+  state.tripPlayback = createTripPlayback(
+    state.tripMap,
+    samples.map(s => ({ lat: s.lat, lon: s.lon, ts: new Date(s.recorded_at).getTime(), speed: s.speed, heading: s.heading })),
+    events.map(e => ({ at: new Date(e.at).getTime(), kind: e.kind, label: `${e.kind === 'arrive' ? 'Arrived' : 'Departed'} ${e.stop_name}` })),
+    (offsetMs, at) => {
+      const seek = document.getElementById('trip-seek') as HTMLInputElement | null;
+      if (seek) seek.value = String(Math.round(offsetMs / 1000));
+      const clock = document.getElementById('trip-clock');
+      if (clock) clock.textContent = `${new Date(start + offsetMs).toLocaleTimeString('en-IN', { timeStyle: 'medium' })} · ${Math.round(at.speed ?? 0)} km/h`;
+      const btn = document.getElementById('trip-play');
+      if (btn) btn.textContent = state.tripPlayback?.playing ? '⏸' : '▶';
+    },
+  );
+  const controls = document.getElementById('admin-trip-controls');
+  if (controls) controls.innerHTML = buildPlaybackControlsHTML(state.tripPlayback.durationMs);
+  state.tripPlayback.seek(0);
+}
+
+function toggleTripPlayback(): void {
+  const p = state.tripPlayback;
+  if (!p) return;
+  if (p.playing) p.pause(); else p.play();
+  const btn = document.getElementById('trip-play');
+  if (btn) btn.textContent = p.playing ? '⏸' : '▶';
+}
+
+function seekTrip(sec: string): void {
+  state.tripPlayback?.seek(parseFloat(sec) * 1000);
+}
+
+function setTripSpeed(multiplier: string): void {
+  state.tripPlayback?.setSpeed(parseFloat(multiplier));
+}
+
+// ── Fleet dashboard (admin) ───────────────────────────────────────────────────
+
+const FLEET_STALE_MS   = 2 * 60_000;    // no fix for 2 min — phone asleep, tunnel, dead zone
+const FLEET_HISTORY_H  = 12;            // offline vehicles stay listed for a shift
+const FLEET_TICK_MS    = 5_000;         // last-seen ages and statuses age on their own
+const FLEET_RENDER_MS  = 1_000;         // table redrawn at most once a second under realtime load
+
+function fleetStatus(loc: DriverLoc, now = Date.now()): FleetStatus {
+  if (!loc.sharing || now - loc.ts > LIVE_STALE_MS) return 'offline';
+  return now - loc.ts > FLEET_STALE_MS ? 'stale' : 'live';
+}
+
+/**
+ * showFleetDashboard — the admin live tab (replaces the single-row view):
+ * every vehicle heard from in the last FLEET_HISTORY_H hours on
+ * #admin-fleet-map, with a sortable, filterable table in #admin-fleet-table.
+ * Realtime rows move markers in place; a timer re-ages the rest.
+ */
+async function showFleetDashboard(): Promise<void> {
+  const data = document.getElementById('admin-live-data');
+  if (!data) return;
+  if (!state.fleet) {
+    data.innerHTML = '<div id="admin-fleet-map" style="height:360px;border-radius:12px;margin-top:10px"></div><div id="admin-fleet-table" style="margin-top:10px"></div>';
+    const map = initMap('admin-fleet-map');
+    applyOSMTiles(map, tileSource());
+    map.setView([11.1, 78.6], 7);
+    state.fleet = { map, layer: createFleetLayer(map, focusFleetVehicle), sub: null, locs: new Map(), sort: { key: 'age', desc: false }, filter: 'all', tick: null, pending: null };
+  }
+  const fleet = state.fleet;
+  invalidateSizeAsync(fleet.map);
+
+  const since = new Date(Date.now() - FLEET_HISTORY_H * 3600_000).toISOString();
+  for (const row of await loadRecentVehicles(since)) fleet.locs.set(row.vehicle_id, toDriverLoc(row));
+  renderFleet();
+  fleet.layer.fitAll();
+
+  fleet.sub ??= subscribeDriverLocation(null, row => {
+    if (state.fleet !== fleet) return;
+    fleet.locs.set(row.vehicle_id, toDriverLoc(row));
+    fleet.pending ??= setTimeout(renderFleet, FLEET_RENDER_MS);
+  }, { onStatus: s => setFleetStatus(s) });
+  fleet.tick ??= setInterval(renderFleet, FLEET_TICK_MS);
+}
+
+function stopFleetDashboard(): void {
+  const fleet = state.fleet;
+  if (!fleet) return;
+  fleet.sub?.unsubscribe();
+  if (fleet.tick)    clearInterval(fleet.tick);
+  if (fleet.pending) clearTimeout(fleet.pending);
+  fleet.layer.destroy();
+  fleet.map.remove();
+  state.fleet = null;
+}
+
+/** Moves / recolours markers and redraws the table from state.fleet.locs. */
+function renderFleet(): void {
+  const fleet = state.fleet;
+  if (!fleet) return;
+  if (fleet.pending) clearTimeout(fleet.pending);
+  fleet.pending = null;
+
+  const now    = Date.now();
+  const buses  = new Map(getSavedBuses().map(b => [b.id, b]));
+  const rows   = [...fleet.locs.values()].map(loc => fleetRow(loc, loc.busId !== null ? buses.get(loc.busId) : undefined, now));
+  const counts = { all: rows.length, live: 0, stale: 0, offline: 0 };
+  for (const r of rows) counts[r.status]++;
+
+  for (const r of rows) {
+    const loc = fleet.locs.get(r.vehicleId)!;
+    fleet.layer.upsert({
+      id     : r.vehicleId,
+      lat    : loc.lat,
+      lon    : loc.lon,
+      color  : r.color,
+      status : r.status,
+      tooltip: [r.route, r.vehicleId, `${Math.round(r.speed)} km/h`, r.onTime].filter(Boolean).join(' · '),
+    });
+  }
+  const shown = fleet.filter === 'all' ? rows : rows.filter(r => r.status === fleet.filter);
+  fleet.layer.setVisible(fleet.filter === 'all' ? null : new Set(shown.map(r => r.vehicleId)));
+
+  const el = document.getElementById('admin-fleet-table');
+  if (el) el.innerHTML = buildFleetTableHTML(sortFleetRows(shown, fleet.sort.key, fleet.sort.desc), fleet.sort, fleet.filter, counts);
+  const status = document.getElementById('admin-live-status');
+  if (status && fleet.sub?.status !== 'polling') {
+    status.textContent = counts.live || counts.stale ? `🔴 ${counts.live} live · ${counts.stale} stale · ${counts.offline} offline` : 'No bus is currently live.';
+  }
+}
+
+function fleetRow(loc: DriverLoc, bus: SavedBus | undefined, now: number): FleetRow {
+  const m = bus ? scheduleStatus(loc, bus) : null;
+  return {
+    vehicleId: loc.vehicleId,
+    route    : bus?.name ?? (loc.busName || 'No route'),
+    color    : fleetColor(loc.busId),
+    status   : fleetStatus(loc, now),
+    ageSec   : (now - loc.ts) / 1000,
+    speed    : loc.speed,
+    delayMin : m?.delayMin ?? null,
+    onTime   : m ? punctualityLabel(m.delayMin) : '',
+    lastStop : loc.lastStop ? lastStopLabel(loc, now) : '',
+  };
+}
+
+function sortFleetRows(rows: FleetRow[], key: FleetSortKey, desc: boolean): FleetRow[] {
+  const cmp: Record<FleetSortKey, (a: FleetRow, b: FleetRow) => number> = {
+    route  : (a, b) => a.route.localeCompare(b.route),
+    vehicle: (a, b) => a.vehicleId.localeCompare(b.vehicleId),
+    age    : (a, b) => a.ageSec - b.ageSec,
+    speed  : (a, b) => a.speed - b.speed,
+    delay  : (a, b) => (a.delayMin ?? -Infinity) - (b.delayMin ?? -Infinity),
+  };
+  return [...rows].sort((a, b) => desc ? cmp[key](b, a) : cmp[key](a, b));
+}
+
+function setFleetStatus(s: RealtimeStatus): void {
+  const el = document.getElementById('admin-live-status');
+  if (el && s === 'polling') el.textContent = '⏳ Realtime unavailable — polling sharing buses';
+  if (s === 'live') renderFleet();
+}
+
+/** Table header click — same column again reverses the order. */
+function sortFleet(key: FleetSortKey): void {
+  if (!state.fleet) return;
+  const sort = state.fleet.sort;
+  state.fleet.sort = { key, desc: sort.key === key ? !sort.desc : key === 'delay' };
+  renderFleet();
+}
+
+function filterFleet(filter: FleetFilter): void {
+  if (!state.fleet) return;
+  state.fleet.filter = filter;
+  renderFleet();
+}
+
+function focusFleetVehicle(vehicleId: string): void {
+  state.fleet?.layer.focus(vehicleId);
+  document.getElementById('admin-fleet-map')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+}
+
+// ── Offline map tiles ─────────────────────────────────────────────────────────
+
+async function downloadRouteOffline(busId: number): Promise<void> {
+  const bus = getSavedBuses().find(b => b.id === busId);
+  const coords = bus ? resolvedCoords(bus) : [];
+  if (coords.length < 2) { showStatusPill('❌ Route has no resolved stops to download'); return; }
+  const tileUrl = tileSource()?.url;
+  if (!canPrefetchFrom(tileUrl)) { showStatusPill('❌ Offline maps need your own tile server — set the tile_url setting'); return; }
+
+  showStatusPill(`⬇️ Preparing offline map for ${bus!.name}…`, 0);
+  const res = await downloadRouteForOffline(coords, (done, total) =>
+    showStatusPill(`⬇️ Offline map ${Math.round(done / total * 100)}% (${done}/${total} tiles)`, 0), { tileUrl });
+
+  if (!res) showStatusPill('❌ Offline download unavailable — check connection');
+  else showStatusPill(`✅ ${bus!.name} available offline${res.failed ? ` (${res.failed} tiles failed)` : ''}`);
+  await showOfflineStorage();
+}
+
+/** Renders "38 MB used · 2,140 tiles" into #offline-storage. */
+async function showOfflineStorage(): Promise<void> {
+  const el = document.getElementById('offline-storage');
+  if (!el) return;
+  const u  = await getStorageUsage();
+  const mb = (b: number | null) => b === null ? '?' : (b / 1048576).toFixed(1);
+  el.textContent = `${mb(u.usedBytes)} MB used of ${mb(u.quotaBytes)} MB · ${u.tileCount.toLocaleString('en-IN')} map tiles`;
+}
+
+async function clearOfflineTiles(): Promise<void> {
+  if (!confirm('Delete all downloaded map tiles?')) return;
+  showStatusPill((await purgeOfflineTiles()) ? '🗑️ Offline map tiles deleted' : '❌ Could not delete tiles');
+  await showOfflineStorage();
 }
 
 // ── Route cache warming (called when driver selects route) ────────────────────
@@ -202,11 +1879,85 @@ Object.assign(window, {
     document.getElementById(id)?.classList.add('active');
   },
 
-  // Expose state for debugging
+  // Auth
+  doDriverLogin: () => otpLogin('drv',   'driver', 'screen-driver'),
+  doAdminLogin : () => otpLogin('admin', 'admin',  'screen-admin'),
+  doLogout     : async () => { stopFleetDashboard(); await signOut(); (window as any).showScreen('screen-landing'); },
+
+  // Supabase settings
+  connectSupabase: async () => { if (await saveSupabaseSettings('sb-url-input', 'sb-key-input', 'setup-err')) (window as any).showScreen('screen-landing'); },
+  adminDbConnect : () => saveSupabaseSettings('admin-db-url', 'admin-db-key', 'admin-db-err'),
+
+  // Offline maps
+  downloadRouteOffline,
+  showOfflineStorage,
+  clearOfflineTiles,
+
+  // Admin — route history
+  rollbackRoute,
+  showRouteHistory,
+  showSegmentTimes,
+
+  // Admin — stop review
+  selectStopForPin,
+  confirmStop,
+
+  // Admin — GTFS
+  importGtfsFeed,
+  exportGtfsFeed,
+
+  // Admin — timetables
+  showTimetable,
+  saveStopOffsets,
+  addScheduledTrip,
+  removeScheduledTrip,
+  showServiceExceptions,
+  addServiceException,
+  removeServiceException,
+
+  // Passenger — timetable
+  showNextDepartures,
+
+  // Passenger — near me
+  showNearby,
+
+  // Driver — location sharing
+  startDriverWatch,
+  stopDriverWatch,
+
+  // Occupancy — driver level, passenger crowd reports
+  setOccupancy,
+  reportCrowding,
+
+  // Passenger — arrival alerts
+  addArrivalAlert,
+  removeArrivalAlert,
+  showArrivalAlerts,
+
+  // Passenger — journey planner
+  planJourney,
+  showJourney,
+  clearJourney,
+
+  // Admin — fleet dashboard (the live tab)
+  refreshAdminLive: showFleetDashboard,
+  sortFleet,
+  filterFleet,
+  focusFleetVehicle,
+
+  // Admin — off-route log and trip playback
+  showDeviationLog,
+  showTrips,
+  playTrip,
+  toggleTripPlayback,
+  seekTrip,
+  setTripSpeed,
+
+  // Expose state for debugging — `await __busTrackCache.stats()` for hits/misses/bytes
   __busTrackState: state,
   __busTrackCache: RouteCache,
 });
 
 // Export types for use in other modules
 export type { RouteStop, SavedBus, DriverLoc, AppState };
-export { state, K, getSavedBuses, saveBuses, getDriverLoc, setSbStatus, syncBuses, syncSettings, warmRouteCache };
+export { state, K, getSavedBuses, saveBuses, getDriverTrip, getVehicleId, setVehicleId, toDriverLoc, setSbStatus, startSupabase, saveSupabaseSettings, syncBuses, editRoute, rollbackRoute, showRouteHistory, reviewRouteStops, saveReviewedRoute, syncSettings, getSettings, getRouteRegion, readRouteRegion, renderRouteRegionPicker, otpLogin, getSession, startPassengerTracking, stopPassengerTracking, loadLiveFleet, moveBusMarker, updatePassengerEta, showSegmentTimes, startStopDetection, trackDriverStops, onDriverPosition, startDriverWatch, stopDriverWatch, lastStopLabel, endDeviationTracking, offRouteLabel, showDeviationLog, showTrips, playTrip, importGtfsFeed, exportGtfsFeed, syncTimetables, showTimetable, showServiceExceptions, showNextDepartures, scheduleStatus, planJourney, showJourney, showNearby, addArrivalAlert, showArrivalAlerts, setOccupancy, reportCrowding, crowdingFor, showFleetDashboard, stopFleetDashboard, warmRouteCache };
@@ -3,6 +3,13 @@
  *
  * ⚡ GPS updates arrive every ~3s. Without interpolation, the bus marker
  *    jumps. rAF interpolation smooths movement to 60fps between GPS fixes.
+ *
+ * ⚡ Constant speed, no easing: fixes arrive back to back, so ease-in-out
+ *    would make the bus stop and start every 3 seconds.
+ * ⚡ animateAlongPath follows the road (a slice of the route polyline between
+ *    the previous and new snapped positions) so the marker never cuts across
+ *    fields or rivers on curves; animateMarkerTo is the straight-line
+ *    fallback for a bus that is off its route.
  */
 import L from 'leaflet';
 
@@ -21,8 +28,7 @@ export function animateMarkerTo(
 
   function step(now: number) {
     const t = Math.min((now - start) / durationMs, 1);
-    const ease = t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-    marker.setLatLng([from.lat + (toLat - from.lat) * ease, from.lng + (toLon - from.lng) * ease]);
+    marker.setLatLng([from.lat + (toLat - from.lat) * t, from.lng + (toLon - from.lng) * t]);
     if (t < 1) _animations.set(id, requestAnimationFrame(step));
   }
 
@@ -31,6 +37,52 @@ export function animateMarkerTo(
 
 export const smoothBusMove = animateMarkerTo;
 
+/**
+ * animateAlongPath — moves the marker through `path` ([lat,lon][]) at constant
+ * ground speed over `durationMs`. `onBearing` is called every frame with the
+ * direction of the segment being travelled (Leaflet resets the marker's
+ * transform on each move, so rotation must be re-applied per frame).
+ */
+export function animateAlongPath(
+  marker: L.Marker,
+  path: [number, number][],
+  durationMs = 2800,
+  id = 'bus',
+  onBearing?: (bearing: number) => void
+): void {
+  const end = path[path.length - 1];
+  if (path.length < 2) { if (end) animateMarkerTo(marker, end[0], end[1], durationMs, id); return; }
+  cancelAnimation(id);
+
+  // ⚡ Per-segment length + bearing computed once, not per frame
+  const kx  = Math.cos(path[0][0] * Math.PI / 180);
+  const cum = [0];
+  const brg: number[] = [];
+  for (let i = 1; i < path.length; i++) {
+    const dy = path[i][0] - path[i - 1][0], dx = (path[i][1] - path[i - 1][1]) * kx;
+    cum.push(cum[i - 1] + Math.hypot(dx, dy));
+    brg.push((Math.atan2(dx, dy) * 180 / Math.PI + 360) % 360);
+  }
+  const total = cum[cum.length - 1];
+  if (!total) { marker.setLatLng(end); return; }
+
+  const start = performance.now();
+  let seg = 0;
+
+  function step(now: number) {
+    const t = Math.min((now - start) / durationMs, 1);
+    const d = t * total;
+    while (seg < brg.length - 1 && cum[seg + 1] < d) seg++;
+    const f = (d - cum[seg]) / ((cum[seg + 1] - cum[seg]) || 1);
+    const a = path[seg], b = path[seg + 1];
+    marker.setLatLng([a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f]);
+    onBearing?.(brg[seg]);
+    if (t < 1) _animations.set(id, requestAnimationFrame(step));
+  }
+
+  _animations.set(id, requestAnimationFrame(step));
+}
+
 export function cancelAnimation(id = 'bus'): void {
   const rafId = _animations.get(id);
   if (rafId !== undefined) { cancelAnimationFrame(rafId); _animations.delete(id); }
@@ -0,0 +1,174 @@
+/**
+ * fleetLayer.ts — Every live bus on one map, clustered at low zoom
+ *
+ * ⚡ One marker per vehicle for the life of the layer: a realtime update only
+ *    moves it (setLatLng) and swaps its icon when the route colour or the
+ *    live / stale / offline status changes. Icons are cached per colour +
+ *    status, like markerManager's singletons.
+ *
+ * ⚡ Clustering without a plugin: below CLUSTER_MAX_ZOOM the visible vehicles
+ *    are bucketed into CLUSTER_PX screen cells; a cell holding more than one
+ *    shows a count bubble instead (click to zoom in). Re-bucketing runs once
+ *    per frame at most, after zoom / pan or a batch of updates, and reuses
+ *    the bubble of a cell that already had one.
+ */
+import L from 'leaflet';
+
+export type FleetStatus = 'live' | 'stale' | 'offline';
+
+export interface FleetVehicle {
+  id     : string;
+  lat    : number;
+  lon    : number;
+  color  : string;
+  status : FleetStatus;
+  tooltip: string;
+}
+
+export interface FleetLayer {
+  upsert(v: FleetVehicle): void;
+  remove(id: string): void;
+  /** Only these vehicles are drawn (null = all) — the dashboard's filter. */
+  setVisible(ids: Set<string> | null): void;
+  focus(id: string): void;
+  fitAll(): void;
+  destroy(): void;
+}
+
+/** Route colours — a route keeps its colour for as long as its id is stable. */
+export const FLEET_COLORS = ['#1967d2', '#e8820c', '#188038', '#a142f4', '#c5221f', '#007b83', '#b06000', '#d01884'] as const;
+
+export function fleetColor(busId: number | null): string {
+  return busId === null ? '#5f6368' : FLEET_COLORS[Math.abs(busId) % FLEET_COLORS.length];
+}
+
+const CLUSTER_MAX_ZOOM = 13;   // street level and closer: every bus on its own
+const CLUSTER_PX       = 60;
+
+const _icons: Record<string, L.DivIcon> = {};
+
+function vehicleIcon(color: string, status: FleetStatus): L.DivIcon {
+  const key = `${color}:${status}`;
+  if (!_icons[key]) {
+    const fill = status === 'offline' ? '#9aa0a6' : color;
+    _icons[key] = L.divIcon({
+      html: `<div style="width:24px;height:24px;border-radius:50%;background:${fill};border:2px solid #fff;box-shadow:0 1px 3px rgba(0,0,0,.4);display:flex;align-items:center;justify-content:center;font-size:13px;opacity:${status === 'stale' ? 0.55 : 1}">🚌</div>`,
+      className: '', iconSize: [24, 24], iconAnchor: [12, 12],
+    });
+  }
+  return _icons[key];
+}
+
+function clusterIcon(count: number): L.DivIcon {
+  const key = `cluster:${count}`;
+  if (!_icons[key]) {
+    const size = count < 10 ? 30 : count < 100 ? 36 : 42;
+    _icons[key] = L.divIcon({
+      html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:rgba(25,103,210,.85);color:#fff;border:3px solid rgba(255,255,255,.8);font-size:12px;font-weight:700;display:flex;align-items:center;justify-content:center">${count}</div>`,
+      className: '', iconSize: [size, size], iconAnchor: [size / 2, size / 2],
+    });
+  }
+  return _icons[key];
+}
+
+export function createFleetLayer(map: L.Map, onSelect?: (id: string) => void): FleetLayer {
+  const group    = L.layerGroup().addTo(map);
+  const vehicles = new Map<string, { v: FleetVehicle; marker: L.Marker }>();
+  const clusters = new Map<string, { marker: L.Marker; members: string[] }>();
+  let visible: Set<string> | null = null;
+  let frame = 0;
+  let focusId: string | null = null;   // open its tooltip once it is un-clustered
+
+  const show = (m: L.Marker, on: boolean) => {
+    if (on && !group.hasLayer(m)) group.addLayer(m);
+    if (!on && group.hasLayer(m)) group.removeLayer(m);
+  };
+
+  function render(): void {
+    frame = 0;
+    const shown = [...vehicles.entries()].filter(([id]) => !visible || visible.has(id));
+    const cells = new Map<string, string[]>();
+    if (map.getZoom() < CLUSTER_MAX_ZOOM) {
+      for (const [id, e] of shown) {
+        const p   = map.latLngToLayerPoint([e.v.lat, e.v.lon]);
+        const key = `${Math.floor(p.x / CLUSTER_PX)}:${Math.floor(p.y / CLUSTER_PX)}`;
+        cells.set(key, [...(cells.get(key) ?? []), id]);
+      }
+    }
+    const clustered = new Set<string>();
+    for (const [key, ids] of cells) {
+      if (ids.length < 2) continue;
+      ids.forEach(id => clustered.add(id));
+      const lat = ids.reduce((s, id) => s + vehicles.get(id)!.v.lat, 0) / ids.length;
+      const lon = ids.reduce((s, id) => s + vehicles.get(id)!.v.lon, 0) / ids.length;
+      const c   = clusters.get(key);
+      if (c) {
+        c.members = ids;
+        c.marker.setLatLng([lat, lon]);
+        if (c.marker.options.icon !== clusterIcon(ids.length)) c.marker.setIcon(clusterIcon(ids.length));
+      } else {
+        const entry = { marker: L.marker([lat, lon], { icon: clusterIcon(ids.length) }), members: ids };
+        entry.marker.on('click', () => map.fitBounds(L.latLngBounds(entry.members.map(id => [vehicles.get(id)!.v.lat, vehicles.get(id)!.v.lon] as [number, number])), { padding: [40, 40] }));
+        clusters.set(key, entry);
+        group.addLayer(entry.marker);
+      }
+    }
+    for (const [key, c] of clusters) {
+      if ((cells.get(key)?.length ?? 0) < 2) { group.removeLayer(c.marker); clusters.delete(key); }
+    }
+    for (const [id, e] of vehicles) show(e.marker, (!visible || visible.has(id)) && !clustered.has(id));
+    if (focusId) { vehicles.get(focusId)?.marker.openTooltip(); focusId = null; }
+  }
+
+  const schedule = () => { if (!frame) frame = requestAnimationFrame(render); };
+  map.on('zoomend moveend', schedule);
+
+  return {
+    upsert(v) {
+      const e = vehicles.get(v.id);
+      if (!e) {
+        const marker = L.marker([v.lat, v.lon], { icon: vehicleIcon(v.color, v.status) }).bindTooltip(v.tooltip);
+        if (onSelect) marker.on('click', () => onSelect(v.id));
+        vehicles.set(v.id, { v, marker });
+        schedule();
+        return;
+      }
+      const moved = e.v.lat !== v.lat || e.v.lon !== v.lon;
+      if (moved) e.marker.setLatLng([v.lat, v.lon]);
+      const next = vehicleIcon(v.color, v.status);
+      if (e.marker.options.icon !== next) e.marker.setIcon(next);
+      if (e.v.tooltip !== v.tooltip) e.marker.setTooltipContent(v.tooltip);
+      e.v = v;
+      if (moved && map.getZoom() < CLUSTER_MAX_ZOOM) schedule();
+    },
+    remove(id) {
+      const e = vehicles.get(id);
+      if (!e) return;
+      group.removeLayer(e.marker);
+      vehicles.delete(id);
+      schedule();
+    },
+    setVisible(ids) {
+      visible = ids;
+      schedule();
+    },
+    focus(id) {
+      const e = vehicles.get(id);
+      if (!e) return;
+      focusId = id;
+      map.setView([e.v.lat, e.v.lon], Math.max(map.getZoom(), CLUSTER_MAX_ZOOM + 2));
+      schedule();
+    },
+    fitAll() {
+      const pts = [...vehicles.values()].filter(e => !visible || visible.has(e.v.id)).map(e => [e.v.lat, e.v.lon] as [number, number]);
+      if (pts.length) map.fitBounds(pts, { padding: [32, 32], maxZoom: 14 });
+    },
+    destroy() {
+      if (frame) cancelAnimationFrame(frame);
+      map.off('zoomend moveend', schedule);
+      group.remove();
+      vehicles.clear();
+      clusters.clear();
+    },
+  };
+}
@@ -3,6 +3,11 @@
  *
  * ⚡ Canvas renderer is 10× faster than SVG for 50+ markers.
  *    Pass { preferCanvas: true } to L.map() — single flag, huge win.
+ *
+ * ⚡ Tiles are requested from OSM as usual, or from the deployment's own tile
+ *    server when the `tile_url` settings row is set (the only source offline
+ *    downloads may use); the service worker (workers/tileServiceWorker.ts)
+ *    answers from its cache when offline.
  */
 import L from 'leaflet';
 
@@ -14,9 +19,16 @@ export function initMap(containerId: string): L.Map {
   });
 }
 
-export function applyOSMTiles(map: L.Map): void {
-  L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-    attribution: '© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+export interface TileSource {
+  url         : string;   // Leaflet template, {z}/{x}/{y}
+  attribution?: string;
+}
+
+const OSM_ATTRIBUTION = '© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>';
+
+export function applyOSMTiles(map: L.Map, source?: TileSource | null): void {
+  L.tileLayer(source?.url || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+    attribution: source?.attribution || OSM_ATTRIBUTION,
     maxZoom: 19,
   }).addTo(map);
 }
@@ -6,6 +6,8 @@
  *    Singletons eliminate that overhead entirely.
  */
 import L from 'leaflet';
+import { OCCUPANCY_COLORS } from '../shared/occupancy';
+import type { Occupancy } from '../shared/occupancy';
 
 export type MarkerSet = { marker: L.Marker };
 
@@ -18,7 +20,9 @@ function icon(key: string, html: string, size: [number, number] = [32, 32]): L.D
   return _icons[key];
 }
 
-export const getBusIcon  = () => icon('bus',  '🚌', [36, 36]);
+export const getBusIcon  = (crowd: Occupancy | null = null) => crowd
+  ? icon(`bus-${crowd}`, `<div style="position:relative">🚌<span style="position:absolute;top:-2px;right:-4px;width:10px;height:10px;border-radius:50%;border:2px solid #fff;background:${OCCUPANCY_COLORS[crowd]}"></span></div>`, [36, 36])
+  : icon('bus', '🚌', [36, 36]);
 export const getPassIcon = () => icon('pass', '📍', [28, 28]);
 export const getGreenStopIcon = () => icon('green', '<div style="width:14px;height:14px;background:#1e8e3e;border-radius:50%;border:2px solid #fff"></div>', [14, 14]);
 export const getDestIcon = () => icon('dest', '<div style="width:16px;height:16px;background:#c5221f;border-radius:50%;border:2px solid #fff"></div>', [16, 16]);
@@ -36,6 +40,12 @@ export function updateOrCreateBusMarker(map: L.Map, existing: L.Marker | null, l
   return L.marker([lat, lon], { icon: getBusIcon() }).addTo(map);
 }
 
+/** Crowding dot on a bus marker; swaps the icon only when the level changes. */
+export function setBusMarkerCrowding(marker: L.Marker, crowd: Occupancy | null): void {
+  const next = getBusIcon(crowd);
+  if (marker.options.icon !== next) marker.setIcon(next);
+}
+
 export function rotateBusMarker(marker: L.Marker, bearing: number): void {
   const el = marker.getElement();
   if (el) el.style.transform += ` rotate(${bearing}deg)`;
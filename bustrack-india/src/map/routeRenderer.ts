@@ -8,11 +8,13 @@ import L from 'leaflet';
 
 export const ROUTE_COLORS = { outbound: '#1967d2', return: '#e8820c' } as const;
 export const ROUTE_WEIGHTS = { main: 5, shadow: 8 } as const;
+/** One per leg of a planned journey, so each bus change is visible on the map. */
+export const JOURNEY_COLORS = ['#1967d2', '#188038', '#a142f4'] as const;
 
 export function drawRoute(
   map: L.Map,
   points: [number, number][],
-  color = ROUTE_COLORS.outbound
+  color: string = ROUTE_COLORS.outbound
 ): { layer: L.Polyline; shadow: L.Polyline } {
   const shadow = L.polyline(points, { color: '#000', weight: ROUTE_WEIGHTS.shadow, opacity: 0.08 }).addTo(map);
   const layer  = L.polyline(points, { color, weight: ROUTE_WEIGHTS.main, opacity: 0.85 }).addTo(map);
@@ -0,0 +1,101 @@
+/**
+ * stopEditor.ts — Admin map for reviewing and pinning route stops
+ *
+ * ⚡ One LayerGroup holds every editor marker — re-render is a single
+ *    clearLayers() + re-add, and destroy() removes everything in one call.
+ *
+ * On the map:
+ *   - numbered pin per stop, draggable; colour = review flag
+ *     (green confirmed/ok, orange low confidence)
+ *   - grey dots = the geocoder's other candidates for the ACTIVE stop;
+ *     click one to use it
+ *   - click anywhere on the map = pin the active stop exactly there
+ *
+ * Every manual placement marks the stop `confirmed`, so it is never
+ * re-geocoded by the client or the route-resolver edge function.
+ */
+import L from 'leaflet';
+import type { GeocodeHit, StopCoord } from '../shared/geocoders';
+import type { StopFlag } from '../services/geoValidator';
+
+export interface StopEditor {
+  setActive(index: number): void;
+  update(coords: Array<StopCoord | null>, flags: StopFlag[]): void;
+  destroy(): void;
+}
+
+const FLAG_COLORS: Record<StopFlag, string> = {
+  confirmed : '#1e8e3e',
+  ok        : '#1e8e3e',
+  low       : '#e8820c',
+  unresolved: '#c5221f',
+};
+
+function pinIcon(n: number, flag: StopFlag, active: boolean): L.DivIcon {
+  const ring = active ? 'box-shadow:0 0 0 3px rgba(25,103,210,.6);' : '';
+  const tick = flag === 'confirmed' ? '✓' : String(n);
+  return L.divIcon({
+    html: `<div style="width:24px;height:24px;background:${FLAG_COLORS[flag]};color:#fff;border-radius:50%;font-size:11px;font-weight:700;display:flex;align-items:center;justify-content:center;border:2px solid #fff;${ring}">${tick}</div>`,
+    className: '', iconSize: [24, 24], iconAnchor: [12, 12],
+  });
+}
+
+export function createStopEditor(
+  map: L.Map,
+  names: string[],
+  candidates: GeocodeHit[][],
+  onPlace: (index: number, coord: StopCoord) => void
+): StopEditor {
+  const group = L.layerGroup().addTo(map);
+  let coords: Array<StopCoord | null> = [];
+  let flags : StopFlag[] = [];
+  let active = 0;
+
+  const place = (i: number, lat: number, lon: number, source: string) =>
+    onPlace(i, { lat, lon, confirmed: true, source });
+
+  function render(): void {
+    group.clearLayers();
+
+    coords.forEach((c, i) => {
+      if (!c) return;
+      const m = L.marker([c.lat, c.lon], { icon: pinIcon(i + 1, flags[i], i === active), draggable: true, zIndexOffset: i === active ? 1000 : 0 })
+        .bindTooltip(names[i], { direction: 'top', offset: [0, -12] });
+      m.on('click',   () => editor.setActive(i));
+      m.on('dragend', () => { const p = m.getLatLng(); place(i, p.lat, p.lng, 'admin'); });
+      group.addLayer(m);
+    });
+
+    for (const h of candidates[active] ?? []) {
+      const dot = L.circleMarker([h.lat, h.lon], { radius: 7, color: '#5f6368', fillColor: '#9aa0a6', fillOpacity: 0.8, weight: 2 })
+        .bindTooltip(`${h.corrected} (${h.source}) — click to use`, { direction: 'top' });
+      dot.on('click', e => { L.DomEvent.stopPropagation(e); place(active, h.lat, h.lon, h.source); });
+      group.addLayer(dot);
+    }
+  }
+
+  const onMapClick = (e: L.LeafletMouseEvent) => place(active, e.latlng.lat, e.latlng.lng, 'admin');
+  map.on('click', onMapClick);
+
+  const editor: StopEditor = {
+    setActive(index) {
+      active = index;
+      render();
+      const c = coords[index] ?? candidates[index]?.[0];
+      if (c) map.panTo([c.lat, c.lon]);
+    },
+
+    update(next, nextFlags) {
+      coords = next;
+      flags  = nextFlags;
+      render();
+    },
+
+    destroy() {
+      map.off('click', onMapClick);
+      map.removeLayer(group);
+    },
+  };
+
+  return editor;
+}
@@ -0,0 +1,124 @@
+/**
+ * tripPlayback.ts — Replays a recorded trip on a Leaflet map
+ *
+ * ⚡ The whole trip is drawn once as a polyline; playback only moves one bus
+ *    marker. Position at any moment is interpolated between the two recorded
+ *    fixes around it, so seeking is O(log n) and any speed looks smooth.
+ *
+ * ⚡ Same marker + rotation as the live passenger view (markerManager), so a
+ *    replay looks exactly like what passengers saw at the time.
+ *
+ * Stop arrivals / departures are pinned where the bus was at that moment
+ * (events carry a time, not a position).
+ */
+import L from 'leaflet';
+import { getBusIcon, rotateBusMarker } from './markerManager';
+
+export interface PlaybackSample { lat: number; lon: number; ts: number; speed: number | null; heading: number | null }
+export interface PlaybackEvent  { at: number; label: string; kind: 'arrive' | 'depart' }
+
+export interface TripPlayback {
+  play(): void;
+  pause(): void;
+  /** Jump to `offsetMs` from the start of the trip. */
+  seek(offsetMs: number): void;
+  /** Trip-time multiplier — 10 = ten minutes of trip per real minute. */
+  setSpeed(multiplier: number): void;
+  readonly playing   : boolean;
+  readonly durationMs: number;
+  destroy(): void;
+}
+
+/** Called every frame with the trip offset and the interpolated fix. */
+export type PlaybackTick = (offsetMs: number, at: PlaybackSample) => void;
+
+const MOVING_KMH = 3;   // below this the recorded heading is noise — keep the last one
+
+function bearing(a: PlaybackSample, b: PlaybackSample): number {
+  const dx = (b.lon - a.lon) * Math.cos(a.lat * Math.PI / 180), dy = b.lat - a.lat;
+  return (Math.atan2(dx, dy) * 180 / Math.PI + 360) % 360;
+}
+
+export function createTripPlayback(
+  map: L.Map,
+  samples: PlaybackSample[],
+  events: PlaybackEvent[],
+  onTick?: PlaybackTick
+): TripPlayback {
+  const group  = L.layerGroup().addTo(map);
+  const start  = samples[0]?.ts ?? 0;
+  const length = samples.length ? samples[samples.length - 1].ts - start : 0;
+
+  let offset = 0, speed = 10, raf = 0, lastFrame = 0, heading = 0;
+
+  /** Interpolated fix at trip time `ts` (binary search for the bracketing pair). */
+  function sampleAt(ts: number): PlaybackSample {
+    let lo = 0, hi = samples.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (samples[mid].ts <= ts) lo = mid; else hi = mid;
+    }
+    const a = samples[lo], b = samples[hi];
+    const f = b.ts > a.ts ? Math.max(0, Math.min(1, (ts - a.ts) / (b.ts - a.ts))) : 0;
+    const moving = (a.speed ?? 0) >= MOVING_KMH;
+    if (moving) heading = a.heading ?? bearing(a, b);
+    return { lat: a.lat + (b.lat - a.lat) * f, lon: a.lon + (b.lon - a.lon) * f, ts, speed: a.speed, heading };
+  }
+
+  if (samples.length) {
+    const line = L.polyline(samples.map(s => [s.lat, s.lon] as [number, number]), { color: '#1967d2', weight: 4, opacity: 0.7 }).addTo(group);
+    map.fitBounds(line.getBounds(), { padding: [24, 24] });
+    for (const ev of events) {
+      const at = sampleAt(ev.at);
+      L.circleMarker([at.lat, at.lon], { radius: 5, color: '#fff', weight: 2, fillOpacity: 1, fillColor: ev.kind === 'arrive' ? '#1e8e3e' : '#e8820c' })
+        .bindTooltip(ev.label).addTo(group);
+    }
+  }
+  heading = samples[0]?.heading ?? 0;   // event placement above moved it
+  const marker = samples.length ? L.marker([samples[0].lat, samples[0].lon], { icon: getBusIcon() }).addTo(group) : null;
+
+  function render(): void {
+    if (!marker) return;
+    const at = sampleAt(start + offset);
+    marker.setLatLng([at.lat, at.lon]);   // resets the transform — rotate after
+    rotateBusMarker(marker, heading);
+    onTick?.(offset, at);
+  }
+
+  function frame(now: number): void {
+    offset = Math.min(length, offset + (now - lastFrame) * speed);
+    lastFrame = now;
+    render();
+    raf = offset < length ? requestAnimationFrame(frame) : 0;
+  }
+
+  render();
+
+  return {
+    get playing() { return raf !== 0; },
+    get durationMs() { return length; },
+
+    play() {
+      if (raf || !marker) return;
+      if (offset >= length) offset = 0;   // replay from the start
+      lastFrame = performance.now();
+      raf = requestAnimationFrame(frame);
+    },
+    pause() {
+      if (raf) cancelAnimationFrame(raf);
+      raf = 0;
+    },
+    seek(offsetMs) {
+      offset = Math.max(0, Math.min(length, offsetMs));
+      render();
+    },
+    setSpeed(multiplier) {
+      if (multiplier > 0) speed = multiplier;
+    },
+    destroy() {
+      if (raf) cancelAnimationFrame(raf);
+      raf = 0;
+      group.remove();
+    },
+  };
+}
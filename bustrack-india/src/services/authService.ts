@@ -0,0 +1,173 @@
+/**
+ * authService.ts — Supabase GoTrue sign-in (email / SMS one-time code) + roles
+ *
+ * ⚡ No passwords in the app at all: the user receives a 6-digit code by
+ *    email or SMS, GoTrue returns a JWT, and every REST / Realtime call is
+ *    sent with that JWT so row-level security decides what they may touch.
+ *
+ * ⚡ Roles live in the `profiles` table (passenger | driver | admin) and are
+ *    enforced server-side by RLS — the client-side role check only decides
+ *    which screens to show.
+ *
+ * ⚡ Session persisted in localStorage and refreshed 60s before expiry,
+ *    so a driver on a 10-hour shift is never bounced to the login screen.
+ *    A failed refresh (no signal) is retried with backoff, 5s doubling to
+ *    5 min — past the token's expiry too, so a phone that was offline at
+ *    shift change keeps its session. Only GoTrue rejecting the refresh
+ *    token signs the user out.
+ */
+import { getConfig, setAccessToken, loadProfile } from './supabaseService';
+import type { ProfileRow } from './supabaseService';
+
+export type Role = ProfileRow['role'];
+
+export type OtpTarget = { email: string } | { phone: string };
+
+export interface Session {
+  accessToken : string;
+  refreshToken: string;
+  expiresAt   : number;        // epoch ms
+  userId      : string;
+  email       : string | null;
+  phone       : string | null;
+  role        : Role;
+  displayName : string;
+  vehicleId   : string | null; // bus this driver account is assigned to
+}
+
+const STORAGE_KEY     = 'bt_session';
+const REFRESH_LEAD_MS = 60_000;
+const RETRY_MIN_MS    = 5_000;
+const RETRY_MAX_MS    = 5 * 60_000;
+
+let _session: Session | null = null;
+let _refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let _retryMs = RETRY_MIN_MS;
+
+async function gotrue<T>(path: string, body?: unknown): Promise<T | null> {
+  return (await gotrueRequest<T>(path, body)).data;
+}
+
+/** Like gotrue(), but also reports whether GoTrue answered with a refusal (4xx) rather than not at all. */
+async function gotrueRequest<T>(path: string, body?: unknown): Promise<{ data: T | null; rejected: boolean }> {
+  const none = { data: null, rejected: false };
+  const { url, anonKey } = getConfig();
+  if (!url || !anonKey) return none;
+  // An expired JWT would get the call itself refused — send the anon key instead
+  const bearer = _session && _session.expiresAt > Date.now() ? _session.accessToken : anonKey;
+  try {
+    const r = await fetch(`${url}/auth/v1/${path}`, {
+      method : 'POST',
+      headers: {
+        'apikey'       : anonKey,
+        'Authorization': `Bearer ${bearer}`,
+        'Content-Type' : 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!r.ok) return { data: null, rejected: r.status >= 400 && r.status < 500 && r.status !== 408 && r.status !== 429 };
+    const text = await r.text();
+    return { data: (text ? JSON.parse(text) : {}) as T, rejected: false };
+  } catch { return none; }
+}
+
+interface TokenResponse {
+  access_token : string;
+  refresh_token: string;
+  expires_in   : number;
+  user         : { id: string; email?: string; phone?: string };
+}
+
+async function adopt(tok: TokenResponse): Promise<Session> {
+  // Set the token first — the profile read below is itself an RLS-checked call
+  setAccessToken(tok.access_token);
+  const profile = await loadProfile(tok.user.id);
+  // Profile read failed (flaky network mid-refresh) — keep what we knew, don't demote to passenger
+  const prev = !profile && _session?.userId === tok.user.id ? _session : null;
+  const session: Session = {
+    accessToken : tok.access_token,
+    refreshToken: tok.refresh_token,
+    expiresAt   : Date.now() + tok.expires_in * 1000,
+    userId      : tok.user.id,
+    email       : tok.user.email || null,
+    phone       : tok.user.phone || null,
+    role        : profile?.role ?? prev?.role ?? 'passenger',
+    displayName : profile?.display_name || prev?.displayName || tok.user.email || tok.user.phone || 'User',
+    vehicleId   : profile ? profile.vehicle_id ?? null : prev?.vehicleId ?? null,
+  };
+  setSession(session);
+  return session;
+}
+
+function scheduleRefresh(wait: number | null): void {
+  if (_refreshTimer) clearTimeout(_refreshTimer);
+  _refreshTimer = wait === null ? null : setTimeout(() => { refreshSession(); }, wait);
+}
+
+function setSession(session: Session | null): void {
+  _session = session;
+  _retryMs = RETRY_MIN_MS;
+  setAccessToken(session?.accessToken ?? null);
+
+  if (!session) { scheduleRefresh(null); localStorage.removeItem(STORAGE_KEY); return; }
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  scheduleRefresh(Math.max(0, session.expiresAt - Date.now() - REFRESH_LEAD_MS));
+}
+
+/** Sends a one-time code. New numbers/emails get a passenger account automatically. */
+export async function requestOtp(target: OtpTarget): Promise<boolean> {
+  return (await gotrue('otp', { ...target, create_user: true })) !== null;
+}
+
+export async function verifyOtp(target: OtpTarget, code: string): Promise<Session | null> {
+  const type = 'email' in target ? 'email' : 'sms';
+  const tok  = await gotrue<TokenResponse>('verify', { ...target, token: code.trim(), type });
+  return tok?.access_token ? adopt(tok) : null;
+}
+
+export async function refreshSession(): Promise<Session | null> {
+  if (!_session) return null;
+  const { data: tok, rejected } = await gotrueRequest<TokenResponse>('token?grant_type=refresh_token', { refresh_token: _session.refreshToken });
+  if (tok?.access_token) return adopt(tok);
+
+  const left = _session.expiresAt - Date.now();
+  // Revoked and expired — nothing left to keep
+  if (rejected && left <= 0) { setSession(null); return null; }
+  // Offline (or revoked, until expiry) — keep the session and its refresh token, retrying
+  // with backoff. Past expiry the stale JWT isn't sent; calls go out as anon meanwhile.
+  setAccessToken(left > 0 ? _session.accessToken : null);
+  scheduleRefresh(left > 0 ? Math.min(_retryMs, left) : _retryMs);
+  _retryMs = Math.min(_retryMs * 2, RETRY_MAX_MS);
+  return _session;
+}
+
+/** Restores the saved session on page load, refreshing it if it has expired. */
+export async function restoreSession(): Promise<Session | null> {
+  let saved: Session | null = null;
+  try { saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'); } catch { /* corrupt */ }
+  if (!saved) return null;
+
+  _session = saved;
+  if (saved.expiresAt - Date.now() > REFRESH_LEAD_MS) {
+    setSession(saved);
+    return saved;
+  }
+  return refreshSession();
+}
+
+export async function signOut(): Promise<void> {
+  if (_session) await gotrue('logout');
+  setSession(null);
+}
+
+export function getSession(): Session | null {
+  return _session;
+}
+
+/** Admins may do anything a driver can. */
+export function hasRole(role: Role): boolean {
+  if (!_session) return role === 'passenger';
+  if (_session.role === 'admin') return true;
+  return _session.role === role || role === 'passenger';
+}
@@ -0,0 +1,104 @@
+/**
+ * deviationDetector.ts — Off-route detection against the route corridor
+ *
+ * ⚡ Pure logic, no DOM or network: feed it each driver fix with its distance
+ *    from the route polyline (etaEngine's `offRouteM`), get back events.
+ *    main.ts toasts the driver, flags the live row for passengers and logs
+ *    the deviation for the admin.
+ *
+ * Corridor with hysteresis — GPS drift in a bus stand can't raise an alert:
+ *   start  once fixes have stayed beyond `corridorM` for CONFIRM_MS
+ *          (a wrong turn, a diversion, an unauthorised trip)
+ *   end    when a fix is back within REJOIN_RATIO × corridorM
+ *
+ * The deviation's distance is what the bus drove while outside the corridor
+ * (sum of fix-to-fix hops), not how far it strayed — that's `maxOffRouteM`.
+ */
+
+export interface DeviationFix { lat: number; lon: number; ts?: number; offRouteM: number }
+
+export interface Deviation {
+  id          : string;    // stable per deviation — start and end rows upsert onto it
+  startedAt   : number;    // epoch ms of the first fix outside the corridor
+  endedAt     : number | null;
+  durationSec : number;
+  distanceKm  : number;
+  maxOffRouteM: number;
+  start       : { lat: number; lon: number };
+  end         : { lat: number; lon: number } | null;
+}
+
+export interface DeviationEvent { kind: 'start' | 'end'; deviation: Deviation }
+
+export interface DeviationDetector {
+  update(fix: DeviationFix): DeviationEvent | null;
+  /** Sharing stopped — ends a confirmed deviation where the bus last was. */
+  close(ts?: number): DeviationEvent | null;
+  /** The deviation in progress (confirmed or not yet), or null while on route. */
+  readonly current: Deviation | null;
+  readonly offRoute: boolean;
+}
+
+export const DEFAULT_CORRIDOR_M = 150;
+const CONFIRM_MS   = 45_000;   // ~15 fixes — long enough to ride out a bad GPS patch
+const REJOIN_RATIO = 0.6;
+
+function distKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lon - a.lon) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * createDeviationDetector — `idPrefix` namespaces deviation ids (the trip id),
+ * `corridorM` is how far from the route polyline still counts as on route.
+ */
+export function createDeviationDetector(idPrefix: string, corridorM = DEFAULT_CORRIDOR_M): DeviationDetector {
+  let dev      : Deviation | null = null;
+  let confirmed = false;
+  let last     : { lat: number; lon: number } | null = null;
+
+  function finish(ts: number, at: { lat: number; lon: number } | null): DeviationEvent | null {
+    if (!dev) return null;
+    const ended = { ...dev, endedAt: ts, durationSec: Math.round((ts - dev.startedAt) / 1000), end: at };
+    const wasConfirmed = confirmed;
+    dev = null; confirmed = false; last = null;
+    return wasConfirmed ? { kind: 'end', deviation: ended } : null;  // unconfirmed = GPS noise, forget it
+  }
+
+  return {
+    get current() { return dev; },
+    get offRoute() { return confirmed; },
+
+    update(fix) {
+      const ts = fix.ts ?? Date.now();
+      const at = { lat: fix.lat, lon: fix.lon };
+
+      if (!dev) {
+        if (fix.offRouteM > corridorM) {
+          dev = { id: `${idPrefix}:${ts}`, startedAt: ts, endedAt: null, durationSec: 0, distanceKm: 0, maxOffRouteM: fix.offRouteM, start: at, end: null };
+          last = at;
+        }
+        return null;
+      }
+
+      if (fix.offRouteM <= corridorM * REJOIN_RATIO) return finish(ts, at);
+
+      dev.distanceKm  += last ? distKm(last, at) : 0;
+      dev.maxOffRouteM = Math.max(dev.maxOffRouteM, fix.offRouteM);
+      dev.durationSec  = Math.round((ts - dev.startedAt) / 1000);
+      last = at;
+
+      if (!confirmed && ts - dev.startedAt >= CONFIRM_MS && fix.offRouteM > corridorM) {
+        confirmed = true;
+        return { kind: 'start', deviation: { ...dev } };
+      }
+      return null;
+    },
+
+    close(ts = Date.now()) {
+      return finish(ts, last);
+    },
+  };
+}
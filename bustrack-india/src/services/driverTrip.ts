@@ -0,0 +1,92 @@
+/**
+ * driverTrip.ts — One driver sharing session: trip id, route context, upload rows
+ *
+ * ⚡ Pure logic, no DOM or network: main.ts starts a trip when sharing
+ *    starts, keeps it in localStorage (K.DRIVER) so a reload mid-trip keeps
+ *    the same trip id, and builds every upload from it here. tests/ drive
+ *    a whole sharing session through the same functions.
+ *
+ * ⚡ Everything the server records per trip keys on `trip_id` — trip samples
+ *    (the driver_location trigger), stop events, deviations and the learned
+ *    segment times — so a row without one is only a live position.
+ */
+import type { DriverLocationRow, RouteDeviationRow, StopEventRow } from './supabaseService';
+import type { StopEvent } from './stopDetector';
+import type { Deviation } from './deviationDetector';
+import type { Occupancy } from '../shared/occupancy';
+
+export interface DriverTrip {
+  vehicleId : string;
+  tripId    : string;
+  busId     : number;
+  busName   : string;
+  routeStops: string[];
+  startedAt : number;   // epoch ms
+}
+
+export interface TripFix {
+  lat     : number;
+  lon     : number;
+  speedKmh: number;
+  heading : number;
+}
+
+/** Fresh id for each sharing session — lets passengers tell a new trip from a stale row. */
+export function newTripId(vehicleId: string, now = Date.now()): string {
+  return `${vehicleId}-${now.toString(36)}`;
+}
+
+export function startTrip(vehicleId: string, bus: { id: number; name: string; stops: string[] }, now = Date.now()): DriverTrip {
+  return { vehicleId, tripId: newTripId(vehicleId, now), busId: bus.id, busName: bus.name, routeStops: [...bus.stops], startedAt: now };
+}
+
+/** The driver_location upsert for one smoothed fix of the trip. */
+export function locationRow(trip: DriverTrip, fix: TripFix, occupancy: { level: Occupancy; at: number } | null): Omit<Partial<DriverLocationRow>, 'vehicle_id'> {
+  return {
+    trip_id     : trip.tripId,
+    bus_id      : trip.busId,
+    bus_name    : trip.busName,
+    route_stops : trip.routeStops,
+    lat         : fix.lat,
+    lon         : fix.lon,
+    speed       : Math.round(fix.speedKmh),
+    heading     : Math.round(fix.heading),
+    sharing     : true,
+    occupancy   : occupancy?.level ?? null,
+    occupancy_at: occupancy ? new Date(occupancy.at).toISOString() : null,
+  };
+}
+
+export function stopEventRow(trip: DriverTrip, ev: StopEvent): StopEventRow {
+  return {
+    trip_id   : trip.tripId,
+    vehicle_id: trip.vehicleId,
+    bus_id    : trip.busId,
+    stop_index: ev.stopIndex,
+    stop_name : ev.stopName,
+    kind      : ev.kind,
+    at        : new Date(ev.at).toISOString(),
+    dwell_sec : ev.dwellSec ?? null,
+    reversed  : ev.reversed,
+  };
+}
+
+/** The route_deviations upsert — same row at start and end (keyed on `dev.id`). */
+export function deviationRow(trip: DriverTrip, dev: Deviation, corridorM: number): RouteDeviationRow {
+  return {
+    id             : dev.id,
+    trip_id        : trip.tripId,
+    vehicle_id     : trip.vehicleId,
+    bus_id         : trip.busId,
+    started_at     : new Date(dev.startedAt).toISOString(),
+    ended_at       : dev.endedAt !== null ? new Date(dev.endedAt).toISOString() : null,
+    duration_sec   : dev.durationSec,
+    distance_km    : Math.round(dev.distanceKm * 100) / 100,
+    max_off_route_m: Math.round(dev.maxOffRouteM),
+    start_lat      : dev.start.lat,
+    start_lon      : dev.start.lon,
+    end_lat        : dev.end?.lat ?? null,
+    end_lon        : dev.end?.lon ?? null,
+    corridor_m     : corridorM,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * etaEngine.ts — Route-progress ETAs from the cached OSRM polyline
+ *
+ * ⚡ Haversine "air km" underestimates badly on ghat roads (a 12 km hop can be
+ *    30 km of hairpins). Instead the bus position is snapped onto the route
+ *    geometry from RouteCache and every distance is measured ALONG the road.
+ *
+ * ⚡ The snapping runs in workers/routeWorker.ts ('routeProgress') — the worker
+ *    keeps the polyline + cumulative km, so each GPS fix only posts a lat/lon.
+ *
+ * ETA per remaining stop = sum over legs of (km left on leg ÷ blended speed):
+ *   base speed   = leg km ÷ historical median for that hop at that hour
+ *                  (services/travelTimeModel.ts), else ÷ OSRM leg duration
+ *   observed     = along-route km the bus actually covered over the last few
+ *                  minutes (immune to GPS speed spikes and stationary jitter)
+ *   blend weight = OBSERVED_WEIGHT near the bus, fading with distance ahead —
+ *                  current traffic says little about the road 40 km away.
+ */
+import { RouteCache } from './routeCache';
+import type { RouteLeg } from './routeCache';
+import { askRouteWorker } from './routeWorkerClient';
+
+export interface EtaStop { name: string; lat: number; lon: number }
+
+export interface StopEta {
+  index     : number;
+  name      : string;
+  distanceKm: number;   // along the road from the bus
+  etaSec    : number;
+  historical: boolean;  // true when the leg into this stop used learned hop times
+}
+
+/** Historical seconds for leg `leg` (stops[leg] → stops[leg + 1]) starting at `at`, or null. */
+export type HopTimeLookup = (leg: number, at: Date) => number | null;
+
+export interface RouteProgress {
+  snapped    : [number, number];
+  offRouteM  : number;
+  alongKm    : number;
+  totalKm    : number;
+  remainingKm: number;
+  observedKmh: number | null;
+  upcoming   : StopEta[];   // stops still ahead, in route order
+}
+
+const OBSERVED_WEIGHT    = 0.6;            // blend weight for observed speed at the bus
+const OBSERVED_FADE_KM   = 15;             // …halving roughly every ~10 km ahead
+const OBSERVED_WINDOW_MS = 5 * 60_000;
+const MIN_MOVING_KMH     = 5;              // slower than this = parked at a stand; ignore
+const FALLBACK_KMH       = 30;             // typical mofussil average when OSRM gave no legs
+const PASSED_STOP_KM     = 0.05;
+
+let _sentKey: string | null = null;
+const _samples = new Map<string, Array<{ km: number; ts: number }>>();
+
+const ask = (msg: Record<string, unknown>) => askRouteWorker('routeProgress', msg);
+
+/** Along-route speed over the recent window; null until the bus has moved. */
+function observedSpeed(trackKey: string, alongKm: number, ts: number): number | null {
+  const list = _samples.get(trackKey) ?? [];
+  // A jump backwards means a new trip / reversed route — start over
+  if (list.length && alongKm < list[list.length - 1].km - 0.5) list.length = 0;
+  list.push({ km: alongKm, ts });
+  while (list.length > 2 && ts - list[0].ts > OBSERVED_WINDOW_MS) list.shift();
+  _samples.set(trackKey, list);
+
+  const first = list[0];
+  const hours = (ts - first.ts) / 3600_000;
+  if (hours <= 0) return null;
+  const kmh = (alongKm - first.km) / hours;
+  return kmh >= MIN_MOVING_KMH ? kmh : null;
+}
+
+const routeKeyOf = (stops: EtaStop[]) => stops.map(s => `${s.lat.toFixed(5)},${s.lon.toFixed(5)}`).join(';');
+
+function legSpeedKmh(leg: RouteLeg | undefined): number {
+  return leg && leg.durationSec > 0 ? leg.distanceKm / (leg.durationSec / 3600) : FALLBACK_KMH;
+}
+
+/**
+ * computeRouteProgress — snaps `pos` onto the route through `stops` and
+ * returns along-road distance + ETA to every stop still ahead.
+ * Null when the route geometry isn't cached yet (caller shows air km).
+ *
+ * `trackKey` identifies whose recent speed to use (vehicle id or trip id).
+ * `hopTime` supplies learned per-leg times; each leg is looked up at the
+ * time the bus is expected to start it, so a 2-hour trip crosses into the
+ * right hour-of-day bucket.
+ */
+export async function computeRouteProgress(
+  stops: EtaStop[],
+  pos: { lat: number; lon: number; ts?: number },
+  trackKey = 'default',
+  hopTime?: HopTimeLookup
+): Promise<RouteProgress | null> {
+  if (stops.length < 2) return null;
+  const route = await RouteCache.load(stops);
+  if (!route || route.points.length < 2) return null;
+
+  const routeKey = routeKeyOf(stops);
+  const base = { routeKey, pos: [pos.lat, pos.lon], stops: stops.map(s => [s.lat, s.lon]) };
+  let res = await ask(_sentKey === routeKey ? base : { ...base, points: route.points });
+  if ('error' in res) res = await ask({ ...base, points: route.points });
+  _sentKey = routeKey;
+  if ('error' in res) return null;
+
+  const { alongKm, stopKm } = res;
+  const now      = pos.ts ?? Date.now();
+  const observed = observedSpeed(trackKey, alongKm, now);
+
+  const upcoming: StopEta[] = [];
+  let etaSec = 0, cursorKm = alongKm;
+  for (let i = 1; i < stops.length; i++) {
+    if (stopKm[i] <= alongKm + PASSED_STOP_KM) continue;
+    // Walk leg by leg (leg i-1 ends at stop i) from where the bus is now
+    const legKm   = Math.max(0, stopKm[i] - Math.max(cursorKm, stopKm[i - 1]));
+    const aheadKm = cursorKm - alongKm;
+    const w       = observed ? OBSERVED_WEIGHT * Math.exp(-aheadKm / OBSERVED_FADE_KM) : 0;
+    const histSec = hopTime?.(i - 1, new Date(now + etaSec * 1000)) ?? null;
+    const fullKm  = stopKm[i] - stopKm[i - 1];
+    const baseKmh = histSec && fullKm > 0 ? fullKm / (histSec / 3600) : legSpeedKmh(route.legs?.[i - 1]);
+    const kmh     = w * (observed ?? 0) + (1 - w) * baseKmh;
+    etaSec  += legKm / kmh * 3600;
+    cursorKm = stopKm[i];
+    upcoming.push({ index: i, name: stops[i].name, distanceKm: stopKm[i] - alongKm, etaSec: Math.round(etaSec), historical: histSec !== null });
+  }
+
+  return {
+    snapped    : res.snapped,
+    offRouteM  : res.offRouteM,
+    alongKm,
+    totalKm    : res.totalKm,
+    remainingKm: Math.max(0, res.totalKm - alongKm),
+    observedKmh: observed,
+    upcoming,
+  };
+}
+
+/**
+ * routePathBetween — the road between two along-route positions of the route
+ * last passed to computeRouteProgress, for animating the bus marker.
+ * Null if the worker holds a different route.
+ */
+export async function routePathBetween(stops: EtaStop[], fromKm: number, toKm: number): Promise<[number, number][] | null> {
+  const res = await askRouteWorker('routePath', { routeKey: routeKeyOf(stops), fromKm, toKm });
+  return res.points;
+}
+
+/** Straight-line km — only for the "away (straight)" figure, never for ETAs. */
+export function straightKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lon - a.lon) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/** "4 min", "1 h 12 min", "Arriving" — for the distance panel / info card. */
+export function formatEta(sec: number): string {
+  if (sec < 60) return 'Arriving';
+  const min = Math.round(sec / 60);
+  return min < 60 ? `${min} min` : `${Math.floor(min / 60)} h ${min % 60} min`;
+}
@@ -1,16 +1,45 @@
 /**
- * geoValidator.ts — Nominatim geocoding with anchor heuristic + in-memory cache
+ * geoValidator.ts — Stop geocoding with anchor heuristic + in-memory cache
+ *
+ * ⚡ Provider chain (shared/geocoders.ts): local bus-stand gazetteer first,
+ *    then Nominatim (public or self-hosted) or Photon — no hard dependency
+ *    on the public service.
  *
  * ⚡ Anchor heuristic: once the first stop is geocoded, subsequent stops
  *    pick the Nominatim result nearest to the anchor. This dramatically
  *    reduces false positives for common Indian town names.
  *
- * ⚡ In-memory cache: same stop name within a session never hits Nominatim twice.
+ * ⚡ In-memory cache: same stop name within a session never hits the network twice.
+ *
+ * ⚡ Region-aware: queries are scoped to the route's / deployment's state and
+ *    viewbox (shared/geoRegion.ts) — same rules as the edge route-resolver.
  */
+import { DEFAULT_REGION, regionKey } from '../shared/geoRegion';
+import type { GeoRegion } from '../shared/geoRegion';
+import { nominatimGeocoder, chainGeocoders, normalizeStopName, parseGazetteer } from '../shared/geocoders';
+import type { Geocoder, GeocodeHit, GazetteerEntry, StopCoord } from '../shared/geocoders';
 
-const _cache = new Map<string, { lat: number; lon: number; corrected: string } | null>();
+const _cache = new Map<string, GeocodeHit[]>();
 
-const NOMINATIM = 'https://nominatim.openstreetmap.org/search';
+// ⚡ Public Nominatim until configureGeocoders() installs the deployment's chain
+let _geocoder: Geocoder = nominatimGeocoder();
+
+/**
+ * configureGeocoders — installs the provider chain (gazetteer first, then the
+ * remote provider). Clears the cache so earlier answers don't mask the gazetteer.
+ */
+export function configureGeocoders(providers: Geocoder[]): void {
+  _geocoder = providers.length === 1 ? providers[0] : chainGeocoders(providers);
+  _cache.clear();
+}
+
+/** Loads a CSV / GeoJSON gazetteer file; [] if missing or unparseable. */
+export async function loadGazetteer(url: string): Promise<GazetteerEntry[]> {
+  try {
+    const r = await fetch(url);
+    return r.ok ? parseGazetteer(await r.text(), url) : [];
+  } catch { return []; }
+}
 
 function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371, d = (v: number) => v * Math.PI / 180;
@@ -18,49 +47,38 @@ function haversine(lat1: number, lon1: number, lat2: number, lon2: number): numb
   return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 }
 
+/** All candidates for one stop from the active provider chain (cached per region + name). */
+export async function geocodeCandidates(name: string, region: GeoRegion = DEFAULT_REGION): Promise<GeocodeHit[]> {
+  const cacheKey = `${regionKey(region)}:${name.trim().toLowerCase()}`;
+  if (_cache.has(cacheKey)) return _cache.get(cacheKey)!;
+  const hits = await _geocoder.search(normalizeStopName(name), region);
+  _cache.set(cacheKey, hits);
+  return hits;
+}
+
 export async function geocodeStop(
   name: string,
-  anchor?: { lat: number; lon: number }
+  anchor?: { lat: number; lon: number },
+  region: GeoRegion = DEFAULT_REGION
 ): Promise<{ lat: number; lon: number; corrected: string } | null> {
-  const cacheKey = name.trim().toLowerCase();
-  if (_cache.has(cacheKey)) return _cache.get(cacheKey)!;
-
-  const queries = [
-    `${name} bus stand Tamil Nadu India`,
-    `${name} bus stand India`,
-    `${name} India`,
-  ];
-
-  for (const q of queries) {
-    await new Promise(r => setTimeout(r, 250)); // Nominatim rate limit
-    const url = `${NOMINATIM}?q=${encodeURIComponent(q)}&format=json&countrycodes=in&namedetails=1&limit=3`;
-    const results: any[] = await fetch(url, { headers: { 'User-Agent': 'BusTrackIndia/4.0' } }).then(r => r.json()).catch(() => []);
-    if (!results.length) continue;
-
-    let best = results[0];
-    if (anchor && results.length > 1) {
-      best = results.reduce((a: any, b: any) =>
-        haversine(anchor.lat, anchor.lon, +a.lat, +a.lon) <= haversine(anchor.lat, anchor.lon, +b.lat, +b.lon) ? a : b
-      );
-    }
+  const hits = await geocodeCandidates(name, region);
+  if (!hits.length) return null;
 
-    const nd        = best.namedetails || {};
-    const corrected = nd['name'] || nd['name:en'] || best.display_name.split(',')[0].trim();
-    const result    = { lat: +best.lat, lon: +best.lon, corrected };
-    _cache.set(cacheKey, result);
-    return result;
+  let best = hits[0];
+  if (anchor && hits.length > 1) {
+    best = hits.reduce((a, b) =>
+      haversine(anchor.lat, anchor.lon, a.lat, a.lon) <= haversine(anchor.lat, anchor.lon, b.lat, b.lon) ? a : b
+    );
   }
-
-  _cache.set(cacheKey, null);
-  return null;
+  return { lat: best.lat, lon: best.lon, corrected: best.corrected };
 }
 
-export async function geocodeStopSequence(names: string[]): Promise<Array<{ lat: number; lon: number; corrected: string } | null>> {
+export async function geocodeStopSequence(names: string[], region: GeoRegion = DEFAULT_REGION): Promise<Array<{ lat: number; lon: number; corrected: string } | null>> {
   const results: Array<{ lat: number; lon: number; corrected: string } | null> = [];
   let anchor: { lat: number; lon: number } | undefined;
 
   for (const name of names) {
-    const r = await geocodeStop(name, anchor);
+    const r = await geocodeStop(name, anchor, region);
     results.push(r);
     if (r && !anchor) anchor = r;
   }
@@ -68,6 +86,67 @@ export async function geocodeStopSequence(names: string[]): Promise<Array<{ lat:
   return results;
 }
 
-export async function prewarmCache(names: string[]): Promise<void> {
-  await geocodeStopSequence(names);
+export async function prewarmCache(names: string[], region: GeoRegion = DEFAULT_REGION): Promise<void> {
+  await geocodeStopSequence(names, region);
+}
+
+// ── Admin review: confidence flags + confirmed-coordinate reuse ───────────────
+
+export type StopFlag = 'confirmed' | 'ok' | 'low' | 'unresolved';
+
+const AMBIGUOUS_SPREAD_KM = 10;   // candidates this far apart = the geocoder is guessing
+const MAX_HOP_KM          = 150;  // a stop this far from both neighbours is probably the wrong town
+
+/**
+ * assessStops — flags each stop for the admin before saving:
+ *   confirmed  — admin pinned / approved it
+ *   ok         — single confident geocode, close to its neighbours
+ *   low        — ambiguous candidates, or far from the rest of the route
+ *   unresolved — no coordinate at all (saving is blocked)
+ */
+export function assessStops(coords: Array<StopCoord | null>, candidates: GeocodeHit[][]): StopFlag[] {
+  return coords.map((c, i) => {
+    if (!c) return 'unresolved';
+    if (c.confirmed) return 'confirmed';
+
+    const cands  = candidates[i] ?? [];
+    const spread = cands.reduce((m, h) => Math.max(m, haversine(c.lat, c.lon, h.lat, h.lon)), 0);
+    if (cands.length > 1 && spread > AMBIGUOUS_SPREAD_KM) return 'low';
+
+    const neighbours = [coords[i - 1], coords[i + 1]].filter((n): n is StopCoord => !!n);
+    if (neighbours.length && neighbours.every(n => haversine(c.lat, c.lon, n.lat, n.lon) > MAX_HOP_KM)) return 'low';
+
+    return 'ok';
+  });
+}
+
+/**
+ * resolveRouteStops — coordinates for a whole route, reusing admin-confirmed
+ * ones as-is (and as anchors) and geocoding only the rest. Also returns every
+ * candidate so the admin map can offer alternatives.
+ */
+export async function resolveRouteStops(
+  names: string[],
+  existing: Array<StopCoord | null> | null | undefined,
+  region: GeoRegion = DEFAULT_REGION
+): Promise<{ coords: Array<StopCoord | null>; candidates: GeocodeHit[][] }> {
+  const coords: Array<StopCoord | null> = [];
+  const candidates: GeocodeHit[][] = [];
+  let anchor: { lat: number; lon: number } | undefined = existing?.find(c => c?.confirmed) ?? undefined;
+
+  for (let i = 0; i < names.length; i++) {
+    const kept = existing?.[i];
+    if (kept?.confirmed) {
+      coords.push(kept);
+      candidates.push([]);
+      continue;
+    }
+    const hits = await geocodeCandidates(names[i], region);
+    const r    = await geocodeStop(names[i], anchor, region);
+    coords.push(r ? { lat: r.lat, lon: r.lon, confirmed: false, source: hits[0]?.source } : null);
+    candidates.push(hits);
+    if (r && !anchor) anchor = r;
+  }
+
+  return { coords, candidates };
 }
@@ -0,0 +1,44 @@
+/**
+ * gpsFilter.ts — Kalman-smoothed positions for the driver upload and the passenger marker
+ *
+ * ⚡ The filter itself runs in workers/routeWorker.ts ('kalmanGps'), one track
+ *    per bus, so smoothing never competes with marker animation for the main thread.
+ *
+ * Driver side : raw navigator.geolocation fixes (with accuracy) → smoothed
+ *               lat/lon/speed/heading are what gets uploaded.
+ * Passenger   : positions from older app builds arrive unfiltered, so the
+ *               passenger filters too; an already-smoothed track passes
+ *               through nearly unchanged.
+ */
+import { askRouteWorker, tellRouteWorker } from './routeWorkerClient';
+
+export interface RawFix {
+  lat      : number;
+  lon      : number;
+  ts       : number;          // epoch ms
+  accuracy?: number | null;   // metres (GeolocationCoordinates.accuracy)
+}
+
+export interface SmoothedFix {
+  lat     : number;
+  lon     : number;
+  ts      : number;
+  speedKmh: number;
+  heading : number;           // degrees clockwise from north
+}
+
+/** Smoothed fix, or null when the fix was rejected as an impossible jump. */
+export async function smoothFix(trackId: string, fix: RawFix): Promise<SmoothedFix | null> {
+  const res = await askRouteWorker('kalmanGps', { trackId, fix: { ...fix, accuracy: fix.accuracy ?? undefined } });
+  if (!res.accepted) return null;
+  return { lat: res.lat, lon: res.lon, ts: fix.ts, speedKmh: res.speedKmh, heading: res.heading };
+}
+
+/** Forget a track — call when a trip ends or the passenger switches bus. */
+export function resetTrack(trackId: string): void {
+  tellRouteWorker('kalmanReset', { trackId });
+}
+
+export function fromGeolocation(pos: GeolocationPosition): RawFix {
+  return { lat: pos.coords.latitude, lon: pos.coords.longitude, ts: pos.timestamp, accuracy: pos.coords.accuracy };
+}
@@ -0,0 +1,87 @@
+/**
+ * idb.ts — Minimal promise wrapper around the app's single IndexedDB database
+ *
+ * ⚡ One database ("bustrack"), one connection per page, opened lazily on
+ *    first use. Stores are created in `upgrade` — bump DB_VERSION and add a
+ *    `contains()` guard when a new store is needed.
+ *
+ * ⚡ No idb / Dexie dependency — the handful of calls we need fit in 60 lines.
+ *    Every helper resolves to null / [] when IndexedDB is unavailable
+ *    (private mode on some browsers), so callers degrade instead of throwing.
+ */
+
+const DB_NAME    = 'bustrack';
+const DB_VERSION = 2;
+
+export type StoreName = 'outbox' | 'routes' | 'routeMeta';
+
+let _db: Promise<IDBDatabase | null> | null = null;
+
+function upgrade(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains('outbox')) {
+    const s = db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+    s.createIndex('collapseKey', 'collapseKey', { unique: false });
+  }
+  // v2 — persistent OSRM cache: geometry in `routes`, small LRU bookkeeping rows in `routeMeta`
+  if (!db.objectStoreNames.contains('routes')) {
+    db.createObjectStore('routes', { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains('routeMeta')) {
+    const s = db.createObjectStore('routeMeta', { keyPath: 'key' });
+    s.createIndex('lastUsed', 'lastUsed', { unique: false });
+  }
+}
+
+export function openDb(): Promise<IDBDatabase | null> {
+  if (_db) return _db;
+  _db = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') { resolve(null); return; }
+    const r = indexedDB.open(DB_NAME, DB_VERSION);
+    r.onupgradeneeded = () => upgrade(r.result);
+    r.onsuccess = () => resolve(r.result);
+    r.onerror   = () => resolve(null);
+    r.onblocked = () => resolve(null);
+  });
+  return _db;
+}
+
+export function promisify<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror   = () => reject(r.error);
+  });
+}
+
+/**
+ * withTx — runs `fn` inside a transaction over one or more stores and resolves
+ * once it COMMITS (not when the last request succeeds), so a following read
+ * sees the write.
+ */
+export async function withTx<T>(
+  names: StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T | null> {
+  const db = await openDb();
+  if (!db) return null;
+  try {
+    const tx = db.transaction(names, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror    = () => reject(tx.error);
+      tx.onabort    = () => reject(tx.error);
+    });
+    const result = await fn(tx);
+    await done;
+    return result;
+  } catch { return null; }
+}
+
+/** withStore — single-store shorthand for withTx. */
+export function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T | null> {
+  return withTx([name], mode, tx => fn(tx.objectStore(name)));
+}
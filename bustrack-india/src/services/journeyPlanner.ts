@@ -0,0 +1,242 @@
+/**
+ * journeyPlanner.ts — Stop-to-stop journeys across routes, with transfers
+ *
+ * ⚡ Pure logic, no DOM or network: main.ts hands it every SavedBus (placed
+ *    stops + cached OSRM legs) and draws whatever it returns.
+ *
+ * Stop graph: a stop is a resolved coordinate, so the same bus stand on two
+ * routes is one node (names differ between routes — "Salem New Bus Stand" vs
+ * "Salem NBS" — coordinates from the gazetteer / pinned stops don't). Every
+ * route is ridden in both directions, since buses reverse at the terminus.
+ *
+ * Search is round-based (RAPTOR without timetables): round k holds the
+ * stops first reached — or reached faster — with k rides. Each round scans
+ * every route serving a stop improved in the previous round once per
+ * direction, boarding at the best label seen so far along it, so a round is
+ * linear in the network size and labels no faster than the best known
+ * arrival at a stop are dropped. Options end with a ride from any round's
+ * label to the destination, keeping the fastest per sequence of routes.
+ *
+ * Ride time comes from the cached OSRM legs (straight line × detour at
+ * FALLBACK_KMH where a route was never drawn); each transfer adds
+ * TRANSFER_MIN of waiting. An option with more transfers is only offered
+ * when it is faster than every option with fewer. main.ts runs the search
+ * in routeWorker ('planJourneys').
+ */
+import type { RouteLeg } from './routeCache';
+
+export interface PlannerRoute {
+  id    : number;
+  name  : string;
+  stops : Array<{ name: string; lat: number; lon: number }>;   // placed stops, saved order
+  legs? : RouteLeg[];                                           // between consecutive placed stops
+}
+
+export interface StopNode {
+  key   : string;
+  name  : string;      // first name seen for this coordinate
+  lat   : number;
+  lon   : number;
+  serves: Array<{ route: number; pos: number }>;   // index into graph.routes, position on it
+}
+
+export interface StopGraph {
+  routes: PlannerRoute[];
+  nodes : Map<string, StopNode>;
+  keys  : string[][];    // per route, node key of each stop
+  cumMin: number[][];    // per route, minutes from its first stop
+  cumKm : number[][];
+}
+
+export interface JourneyLeg {
+  routeId  : number;
+  routeName: string;
+  reversed : boolean;
+  from     : string;      // stop names as on this route
+  to       : string;
+  stops    : Array<{ name: string; lat: number; lon: number }>;   // travel order, board → alight
+  km       : number;
+  minutes  : number;
+}
+
+export interface Journey {
+  legs     : JourneyLeg[];
+  transfers: number;
+  minutes  : number;     // riding + TRANSFER_MIN per transfer
+  km       : number;
+}
+
+const FALLBACK_KMH  = 30;
+const DETOUR_FACTOR = 1.3;
+const TRANSFER_MIN  = 10;
+const MAX_TRANSFERS = 2;
+
+function straightKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lon - a.lon) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/** Node key — coordinates to ~11 m, so re-geocodes of the same stand coincide. */
+export function stopKey(c: { lat: number; lon: number }): string {
+  return `${c.lat.toFixed(4)},${c.lon.toFixed(4)}`;
+}
+
+export function buildStopGraph(routes: PlannerRoute[]): StopGraph {
+  const nodes = new Map<string, StopNode>();
+  const keys: string[][] = [], cumMin: number[][] = [], cumKm: number[][] = [];
+
+  routes.forEach((r, ri) => {
+    const k: string[] = [], mins = [0], kms = [0];
+    r.stops.forEach((s, pos) => {
+      const key = stopKey(s);
+      if (!nodes.has(key)) nodes.set(key, { key, name: s.name, lat: s.lat, lon: s.lon, serves: [] });
+      nodes.get(key)!.serves.push({ route: ri, pos });
+      k.push(key);
+      if (!pos) return;
+      const leg = r.legs?.[pos - 1];
+      const km  = leg?.distanceKm ?? straightKm(r.stops[pos - 1], s) * DETOUR_FACTOR;
+      kms.push(kms[pos - 1] + km);
+      mins.push(mins[pos - 1] + (leg && leg.durationSec > 0 ? leg.durationSec / 60 : km / FALLBACK_KMH * 60));
+    });
+    keys.push(k); cumMin.push(mins); cumKm.push(kms);
+  });
+  return { routes, nodes, keys, cumMin, cumKm };
+}
+
+/** Ride on graph route `ri` from position `a` to `b` (either direction). */
+function ride(g: StopGraph, ri: number, a: number, b: number): JourneyLeg {
+  const r = g.routes[ri], lo = Math.min(a, b), hi = Math.max(a, b);
+  const stops = r.stops.slice(lo, hi + 1);
+  return {
+    routeId  : r.id,
+    routeName: r.name,
+    reversed : b < a,
+    from     : r.stops[a].name,
+    to       : r.stops[b].name,
+    stops    : b < a ? stops.reverse() : stops,
+    km       : g.cumKm[ri][hi] - g.cumKm[ri][lo],
+    minutes  : g.cumMin[ri][hi] - g.cumMin[ri][lo],
+  };
+}
+
+/** A stop reached by `ride` (route, board → alight positions) after the label it boarded from. */
+interface Label {
+  minutes: number;   // riding + transfers so far
+  ride   : { ri: number; a: number; b: number } | null;
+  prev   : Label | null;
+}
+
+function legsOf(g: StopGraph, l: Label): JourneyLeg[] {
+  const legs: JourneyLeg[] = [];
+  for (let at: Label | null = l; at?.ride; at = at.prev) legs.unshift(ride(g, at.ride.ri, at.ride.a, at.ride.b));
+  return legs;
+}
+
+function journeyOf(legs: JourneyLeg[]): Journey {
+  return {
+    legs,
+    transfers: legs.length - 1,
+    minutes  : legs.reduce((n, l) => n + l.minutes, 0) + (legs.length - 1) * TRANSFER_MIN,
+    km       : legs.reduce((n, l) => n + l.km, 0),
+  };
+}
+
+/**
+ * planJourneys — fastest options from any of `fromKeys` to any of `toKeys`
+ * (node keys; a town can have several stands), best first.
+ */
+export function planJourneys(g: StopGraph, fromKeys: string[], toKeys: string[], limit = 5, maxTransfers = MAX_TRANSFERS): Journey[] {
+  const from = new Set(fromKeys), to = new Set(toKeys);
+  const best = new Map<string, Journey>();   // one per route sequence
+  const offer = (legs: JourneyLeg[]) => {
+    const j   = journeyOf(legs);
+    const key = legs.map(l => `${l.routeId}${l.reversed ? 'r' : ''}`).join('>');
+    if (!best.has(key) || j.minutes < best.get(key)!.minutes) best.set(key, j);
+  };
+
+  const bestAt = new Map<string, number>();   // fastest known arrival per stop, any round
+  let marked   = new Map<string, Label>();    // stops improved in the last round
+  for (const key of from) { marked.set(key, { minutes: 0, ride: null, prev: null }); bestAt.set(key, 0); }
+
+  for (let round = 0; round <= maxTransfers && marked.size; round++) {
+    const penalty = round ? TRANSFER_MIN : 0;
+    const routes  = new Set<number>();
+    for (const key of marked.keys()) for (const s of g.nodes.get(key)?.serves ?? []) routes.add(s.route);
+
+    // Options ending this round: board at a marked stop, ride straight to the destination
+    for (const ri of routes) {
+      const keys = g.keys[ri];
+      keys.forEach((key, b) => {
+        if (!to.has(key)) return;
+        keys.forEach((k, a) => {
+          const l = marked.get(k);
+          if (l && a !== b && !from.has(key) && !to.has(k) && l.ride?.ri !== ri) offer([...legsOf(g, l), ride(g, ri, a, b)]);
+        });
+      });
+    }
+    if (round === maxTransfers) break;
+
+    const next = new Map<string, Label>();
+    for (const ri of routes) {
+      const keys = g.keys[ri], cum = g.cumMin[ri];
+      for (const dir of [1, -1]) {
+        let on: { label: Label; pos: number } | null = null;
+        for (let i = 0; i < keys.length; i++) {
+          const pos = dir > 0 ? i : keys.length - 1 - i, key = keys[pos];
+          const arrive = on ? on.label.minutes + penalty + Math.abs(cum[pos] - cum[on.pos]) : Infinity;
+          if (on && arrive < (bestAt.get(key) ?? Infinity)) {
+            bestAt.set(key, arrive);
+            next.set(key, { minutes: arrive, ride: { ri, a: on.pos, b: pos }, prev: on.label });
+          }
+          // Board here instead if this stop's label beats staying on
+          const l = marked.get(key);
+          if (l && l.ride?.ri !== ri && (!on || l.minutes + penalty < arrive)) on = { label: l, pos };
+        }
+      }
+    }
+    marked = next;
+  }
+
+  // Pareto front on (transfers, minutes): more changes must buy time
+  const ranked = [...best.values()].sort((a, b) => a.minutes - b.minutes);
+  return ranked
+    .filter(j => !ranked.some(o => o.transfers < j.transfers && o.minutes <= j.minutes))
+    .slice(0, limit);
+}
+
+/**
+ * findStops — node keys for a typed place: stops whose name equals it,
+ * else stops whose name contains it (case- and spacing-insensitive).
+ */
+export function findStops(g: StopGraph, query: string, normalize: (s: string) => string = s => s): string[] {
+  const q = normalize(query).toLowerCase();
+  if (!q) return [];
+  const names = [...g.nodes.values()].flatMap(n => n.serves.map(s => ({ key: n.key, name: normalize(g.routes[s.route].stops[s.pos].name).toLowerCase() })));
+  const exact = names.filter(n => n.name === q);
+  return [...new Set((exact.length ? exact : names.filter(n => n.name.includes(q))).map(n => n.key))];
+}
+
+/**
+ * legPath — the road geometry of one leg, cut from its route's cached OSRM
+ * polyline (stops matched in route order, so a route passing a stand twice
+ * cuts at the right pass). Straight lines between stops without a polyline.
+ */
+export function legPath(leg: JourneyLeg, points: [number, number][] | null | undefined): [number, number][] {
+  const stops = leg.reversed ? [...leg.stops].reverse() : leg.stops;
+  if (!points || points.length < 2) return leg.stops.map(s => [s.lat, s.lon]);
+  let from = 0;
+  const cut: number[] = [];
+  for (const s of [stops[0], stops[stops.length - 1]]) {
+    let best = from, bestD = Infinity;
+    for (let i = from; i < points.length; i++) {
+      const d = (points[i][0] - s.lat) ** 2 + (points[i][1] - s.lon) ** 2;
+      if (d < bestD) { best = i; bestD = d; }
+    }
+    cut.push(best);
+    from = best;
+  }
+  const path = points.slice(cut[0], cut[1] + 1);
+  return leg.reversed ? path.reverse() : path;
+}
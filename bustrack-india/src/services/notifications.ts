@@ -0,0 +1,54 @@
+/**
+ * notifications.ts — Notification permission, in-page alerts, Web Push subscription
+ *
+ * ⚡ In-page notifications go through the service worker's
+ *    registration.showNotification() when there is one — Chrome on Android
+ *    throws on `new Notification()` — and fall back to the constructor.
+ *
+ * ⚡ The push subscription is the browser's, one per origin: every alert the
+ *    passenger sets reuses it, keyed server-side by its endpoint.
+ */
+import { b64urlDecode } from '../shared/webPush';
+import type { AlertMessage } from '../shared/arrivalAlerts';
+
+export function notificationsAvailable(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+export function pushAvailable(): boolean {
+  return 'serviceWorker' in navigator && typeof PushManager !== 'undefined';
+}
+
+/** Asks once; true when notifications may be shown. */
+export async function requestNotifications(): Promise<boolean> {
+  if (!notificationsAvailable()) return false;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  return Notification.permission === 'granted';
+}
+
+export async function notify(msg: AlertMessage, tag: string): Promise<void> {
+  if (!notificationsAvailable() || Notification.permission !== 'granted') return;
+  const reg = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (reg) { await reg.showNotification(msg.title, { body: msg.body, tag }); return; }
+  try { new Notification(msg.title, { body: msg.body, tag }); } catch { /* no notification support in this context */ }
+}
+
+/** This browser's push subscription for `vapidPublicKey`, created if needed; null if unsupported or refused. */
+export async function pushSubscription(vapidPublicKey: string): Promise<PushSubscriptionJSON | null> {
+  if (!pushAvailable()) return null;
+  try {
+    const reg = await navigator.serviceWorker.ready;
+    const sub = await reg.pushManager.getSubscription()
+             ?? await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: b64urlDecode(vapidPublicKey) as BufferSource });
+    return sub.toJSON();
+  } catch {
+    return null;   // permission revoked, or the push service is unreachable
+  }
+}
+
+/** Endpoint of the existing subscription (to cancel server alerts), without creating one. */
+export async function pushEndpoint(): Promise<string | null> {
+  if (!pushAvailable()) return null;
+  const reg = await navigator.serviceWorker.getRegistration();
+  return (await reg?.pushManager.getSubscription())?.endpoint ?? null;
+}
@@ -0,0 +1,201 @@
+/**
+ * offlineTiles.ts — "Download this route for offline" + tile storage management
+ *
+ * ⚡ Works out which OSM tiles cover a corridor around the route's cached
+ *    OSRM geometry, then hands the list to the service worker, which fetches
+ *    them in the background (the page can keep rendering the map).
+ *
+ * ⚡ Zoom levels 10–15 by default: 10–12 for the overview, 13–15 for following
+ *    the bus. A 200 km route with a 1 km corridor is ~2–3k tiles (~40 MB).
+ *    MAX_TILES caps a single download.
+ *
+ * ⚡ Tiles come from the deployment's own tile server (`tile_url` settings row,
+ *    "https://tiles.example.in/{z}/{x}/{y}.png"). The public
+ *    tile.openstreetmap.org servers forbid bulk pre-fetching, so downloads are
+ *    refused until a different source is configured.
+ *
+ * ⚡ Every service-worker round trip times out and resolves to null — the page
+ *    may not be controlled by a worker at all (first visit, private mode).
+ */
+import { RouteCache } from './routeCache';
+
+export interface OfflineOptions {
+  minZoom?   : number;
+  maxZoom?   : number;
+  corridorKm?: number;
+  tileUrl?   : string;   // {z}/{x}/{y} template, e.g. the `tile_url` settings row
+}
+
+export interface StorageUsage {
+  usedBytes : number | null;
+  quotaBytes: number | null;
+  tileCount : number;
+}
+
+/** Replies from the service worker (tileServiceWorker.ts MESSAGES). */
+type WorkerReply =
+  | { type: 'precacheProgress'; jobId: string; done: number; total: number }
+  | { type: 'precacheDone';     jobId: string; done: number; failed: number; total: number }
+  | { type: 'tileUsage';        count: number }
+  | { type: 'tilesPurged' };
+
+type Reply<K extends WorkerReply['type']> = Extract<WorkerReply, { type: K }>;
+
+const MAX_TILES      = 4000;
+const ASK_TIMEOUT_MS = 5_000;    // a worker that answers at all answers at once
+const JOB_IDLE_MS    = 60_000;   // precache: longest wait between progress replies (25 tiles on 2G)
+const OSM_TILE_HOST  = /^https?:\/\/([^/]+\.)?tile\.openstreetmap\.org\//i;
+
+/** False for the public OSM tile servers (and no source at all) — their usage policy forbids bulk downloads. */
+export function canPrefetchFrom(tileUrl: string | null | undefined): boolean {
+  return !!tileUrl && tileUrl.includes('{z}') && !OSM_TILE_HOST.test(tileUrl);
+}
+
+// ── Registration ──────────────────────────────────────────────────────────────
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null;
+  try { return await navigator.serviceWorker.register('/sw.js'); }
+  catch { return null; }
+}
+
+async function activeWorker(): Promise<ServiceWorker | null> {
+  if (!('serviceWorker' in navigator)) return null;
+  // Not `ready` — it never settles when no worker is registered
+  const reg = await navigator.serviceWorker.getRegistration().catch(() => undefined);
+  return reg?.active ?? null;
+}
+
+/** The message as a WorkerReply, or null for anything else the worker posts. */
+function parseReply(data: unknown): WorkerReply | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const d   = data as Record<string, unknown>;
+  const num = (k: string) => typeof d[k] === 'number';
+  switch (d.type) {
+    case 'precacheProgress': return typeof d.jobId === 'string' && num('done') && num('total') ? d as Reply<'precacheProgress'> : null;
+    case 'precacheDone'    : return typeof d.jobId === 'string' && num('done') && num('failed') && num('total') ? d as Reply<'precacheDone'> : null;
+    case 'tileUsage'       : return num('count') ? d as Reply<'tileUsage'> : null;
+    case 'tilesPurged'     : return { type: 'tilesPurged' };
+    default                : return null;
+  }
+}
+
+/**
+ * Sends one message and resolves with the first reply matching `accept`, or
+ * null once `timeoutMs` passes without any reply (each reply restarts the clock).
+ */
+async function ask<T extends WorkerReply>(msg: Record<string, unknown>, accept: (r: WorkerReply) => r is T, onOther?: (r: WorkerReply) => void, timeoutMs = ASK_TIMEOUT_MS): Promise<T | null> {
+  const sw = await activeWorker();
+  if (!sw) return null;
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout>;
+    const finish = (value: T | null) => {
+      clearTimeout(timer);
+      navigator.serviceWorker.removeEventListener('message', handler);
+      resolve(value);
+    };
+    const arm = () => { clearTimeout(timer); timer = setTimeout(() => finish(null), timeoutMs); };
+    const handler = (e: MessageEvent) => {
+      const r = parseReply(e.data);
+      if (!r) return;
+      if (accept(r)) finish(r);
+      else { arm(); onOther?.(r); }
+    };
+    navigator.serviceWorker.addEventListener('message', handler);
+    arm();
+    sw.postMessage(msg);
+  });
+}
+
+// ── Tile maths (slippy map) ───────────────────────────────────────────────────
+
+function lonToTileX(lon: number, z: number): number {
+  return Math.floor((lon + 180) / 360 * 2 ** z);
+}
+
+function latToTileY(lat: number, z: number): number {
+  const r = lat * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2 * 2 ** z);
+}
+
+/** Ground width of one tile in km at this latitude/zoom. */
+function tileKm(lat: number, z: number): number {
+  return 40075 * Math.cos(lat * Math.PI / 180) / 2 ** z;
+}
+
+/**
+ * tilesForCorridor — every tile within `corridorKm` of the polyline, for each
+ * zoom level. Points are sampled at roughly half a tile apart per zoom, so
+ * dense OSRM geometry doesn't cost extra work at low zooms.
+ */
+export function tilesForCorridor(points: [number, number][], opts: OfflineOptions = {}): string[] {
+  const { minZoom = 10, maxZoom = 15, corridorKm = 1, tileUrl = '' } = opts;
+  const tile = (z: number, x: number, y: number) => tileUrl.replace('{s}', 'a').replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+  const urls = new Set<string>();
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    let lastX = NaN, lastY = NaN;
+    for (const [lat, lon] of points) {
+      const x = lonToTileX(lon, z), y = latToTileY(lat, z);
+      if (x === lastX && y === lastY) continue;
+      lastX = x; lastY = y;
+      const pad = Math.ceil(corridorKm / tileKm(lat, z));
+      for (let dx = -pad; dx <= pad; dx++) {
+        for (let dy = -pad; dy <= pad; dy++) {
+          urls.add(tile(z, x + dx, y + dy));
+        }
+      }
+    }
+  }
+  return [...urls];
+}
+
+// ── Public actions ────────────────────────────────────────────────────────────
+
+/**
+ * downloadRouteForOffline — pre-fetches tiles along a route's cached geometry
+ * from `opts.tileUrl`. Fetches the geometry first if it isn't cached yet.
+ * Resolves to the number of tiles now available offline for this route, or
+ * null if not possible (including a source that forbids bulk downloads).
+ */
+export async function downloadRouteForOffline(
+  stops: Array<{ lat: number; lon: number }>,
+  onProgress?: (done: number, total: number) => void,
+  opts: OfflineOptions = {}
+): Promise<{ total: number; failed: number } | null> {
+  if (stops.length < 2 || !canPrefetchFrom(opts.tileUrl)) return null;
+  await RouteCache.prewarm(stops).catch(() => {});
+  const route = await RouteCache.load(stops);
+  if (!route) return null;
+
+  let urls = tilesForCorridor(route.points, opts);
+  if (urls.length > MAX_TILES) {
+    // Drop the highest zoom until we fit — overview tiles matter more than street detail
+    const maxZoom = (opts.maxZoom ?? 15) - 1;
+    if (maxZoom < (opts.minZoom ?? 10)) urls = urls.slice(0, MAX_TILES);
+    else return downloadRouteForOffline(stops, onProgress, { ...opts, maxZoom });
+  }
+
+  const jobId = `job-${Date.now()}`;
+  const res = await ask(
+    { type: 'precacheTiles', jobId, urls },
+    (r): r is Reply<'precacheDone'> => r.type === 'precacheDone' && r.jobId === jobId,
+    r => { if (r.type === 'precacheProgress' && r.jobId === jobId) onProgress?.(r.done, r.total); },
+    JOB_IDLE_MS
+  );
+  return res ? { total: res.total, failed: res.failed } : null;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const est   = await navigator.storage?.estimate?.().catch(() => null);
+  const reply = await ask({ type: 'tileUsage' }, (r): r is Reply<'tileUsage'> => r.type === 'tileUsage');
+  return {
+    usedBytes : est?.usage ?? null,
+    quotaBytes: est?.quota ?? null,
+    tileCount : reply?.count ?? 0,
+  };
+}
+
+export async function purgeOfflineTiles(): Promise<boolean> {
+  return (await ask({ type: 'purgeTiles' }, (r): r is Reply<'tilesPurged'> => r.type === 'tilesPurged')) !== null;
+}
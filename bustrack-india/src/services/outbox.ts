@@ -0,0 +1,138 @@
+/**
+ * outbox.ts — Persistent write queue for when the network drops
+ *
+ * ⚡ Failed Supabase writes are stored in IndexedDB instead of vanishing,
+ *    and replayed in order once connectivity returns ('online' event,
+ *    or exponential backoff 2s → 2min while still failing).
+ *
+ * ⚡ Collapsing: entries with the same `collapseKey` replace each other.
+ *    A driver crossing a 20-minute dead zone on the highway queues ONE
+ *    location update (the latest), not 400 stale ones.
+ *    A live write that gets through drops the queued copy of its key —
+ *    including one a replay pass has already read and is about to send.
+ *
+ * ⚡ Survives reloads and tab closes — an admin's saveBus on a flaky
+ *    connection is sent the next time the app is opened online.
+ */
+import { withStore, promisify } from './idb';
+
+export interface OutboxEntry {
+  id?         : number;
+  path        : string;
+  method      : string;
+  body        : string | null;
+  headers     : Record<string, string>;
+  collapseKey : string | null;
+  conditional?: boolean;   // PATCH guarded by a filter — 0 rows on replay = conflict
+  queuedAt    : number;
+  attempts    : number;
+}
+
+/** 'sent' and 'drop' remove the entry; 'retry' keeps it and stops this flush pass. */
+export type ReplayResult = 'sent' | 'retry' | 'drop';
+
+const MIN_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 120_000;
+
+let _replay   : ((e: OutboxEntry) => Promise<ReplayResult>) | null = null;
+let _count    = 0;
+let _flushing = false;
+let _failures = 0;
+let _listening = false;
+let _retryTimer: ReturnType<typeof setTimeout> | null = null;
+const _listeners = new Set<(pending: number) => void>();
+// collapseKey → when a live write last superseded it. A flush pass holds the
+// queue in memory, so it checks this right before sending each entry.
+const _supersededAt = new Map<string, number>();
+
+function notify(): void {
+  _listeners.forEach(fn => fn(_count));
+}
+
+async function refreshCount(): Promise<void> {
+  _count = (await withStore('outbox', 'readonly', s => promisify(s.count()))) ?? 0;
+  notify();
+}
+
+async function deleteByKey(s: IDBObjectStore, key: string): Promise<void> {
+  const ids = await promisify(s.index('collapseKey').getAllKeys(key));
+  await Promise.all(ids.map(id => promisify(s.delete(id))));
+}
+
+function scheduleRetry(): void {
+  if (_retryTimer) return;
+  const delay = Math.min(MIN_BACKOFF_MS * 2 ** _failures, MAX_BACKOFF_MS);
+  _failures++;
+  _retryTimer = setTimeout(() => { _retryTimer = null; Outbox.flush(); }, delay);
+}
+
+export const Outbox = {
+  /**
+   * Registers the sender and starts listening for connectivity. Called at boot
+   * and again whenever the Supabase project is (re)configured — writes queued
+   * while there was none replay then.
+   */
+  init(replay: (e: OutboxEntry) => Promise<ReplayResult>): void {
+    _replay = replay;
+    if (!_listening) {
+      window.addEventListener('online', () => { _failures = 0; Outbox.flush(); });
+      _listening = true;
+    }
+    refreshCount().then(() => { if (_count) Outbox.flush(); });
+  },
+
+  async enqueue(entry: Omit<OutboxEntry, 'id' | 'queuedAt' | 'attempts'>): Promise<void> {
+    await withStore('outbox', 'readwrite', async s => {
+      if (entry.collapseKey) await deleteByKey(s, entry.collapseKey);
+      await promisify(s.add({ ...entry, queuedAt: Date.now(), attempts: 0 }));
+    });
+    await refreshCount();
+    scheduleRetry();
+  },
+
+  /**
+   * discard — drops a queued write that a newer live write has superseded,
+   * so the stale entry cannot overwrite it when the queue replays.
+   */
+  async discard(collapseKey: string): Promise<void> {
+    _supersededAt.set(collapseKey, Date.now());
+    if (!_count) return;
+    await withStore('outbox', 'readwrite', s => deleteByKey(s, collapseKey));
+    await refreshCount();
+  },
+
+  async flush(): Promise<void> {
+    if (_flushing || !_replay) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    _flushing = true;
+    try {
+      const entries = (await withStore('outbox', 'readonly', s => promisify(s.getAll() as IDBRequest<OutboxEntry[]>))) ?? [];
+      for (const e of entries) {
+        // A live write superseded it after this pass read the queue — the copy in hand is stale
+        const stale  = e.collapseKey !== null && (_supersededAt.get(e.collapseKey) ?? -1) > e.queuedAt;
+        const result = stale ? 'drop' : await _replay(e);
+        if (result === 'retry') {
+          await withStore('outbox', 'readwrite', s => promisify(s.put({ ...e, attempts: e.attempts + 1 })));
+          scheduleRetry();
+          return;
+        }
+        await withStore('outbox', 'readwrite', s => promisify(s.delete(e.id!)));
+      }
+      _failures = 0;
+    } finally {
+      _flushing = false;
+      await refreshCount();
+    }
+  },
+
+  pendingCount(): number {
+    return _count;
+  },
+
+  /** Subscribe to pending-count changes; returns an unsubscribe function. */
+  onChange(fn: (pending: number) => void): () => void {
+    _listeners.add(fn);
+    fn(_count);
+    return () => _listeners.delete(fn);
+  },
+};
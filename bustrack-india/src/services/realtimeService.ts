@@ -0,0 +1,253 @@
+/**
+ * realtimeService.ts — Supabase Realtime over a plain WebSocket (zero SDK)
+ *
+ * ⚡ Speaks the Phoenix channel protocol directly:
+ *    phx_join → postgres_changes pushes → heartbeat every 25s → phx_leave.
+ *    A raw socket is ~200 lines; @supabase/realtime-js is 40KB+ gzipped.
+ *
+ * ⚡ Push, not poll: a passenger receives a bus fix the moment the driver's
+ *    upsert commits — no interval lag, no empty polls burning mobile data.
+ *
+ * ⚡ Never goes dark: if the socket cannot open, drops, or misses a heartbeat
+ *    reply, the subscription falls back to REST polling immediately and keeps
+ *    reconnecting with exponential backoff. Polling stops once the channel rejoins.
+ *
+ * TESTING:
+ *   Pass `socketUrl` (e.g. ws://localhost:4000/socket) and/or `createSocket`
+ *   to run against a local mock Phoenix server instead of supabase.co.
+ */
+import { getConfig, getAccessToken, pollDriverLocation, loadFleetLocations } from './supabaseService';
+import type { DriverLocationRow } from './supabaseService';
+
+export type RealtimeStatus = 'connecting' | 'live' | 'polling' | 'closed';
+
+export interface RealtimeOptions {
+  socketUrl?     : string;
+  createSocket?  : (url: string) => WebSocket;
+  heartbeatMs?   : number;
+  pollMs?        : number;
+  minBackoffMs?  : number;
+  maxBackoffMs?  : number;
+  onStatus?      : (status: RealtimeStatus) => void;
+}
+
+export interface RealtimeSubscription {
+  readonly status: RealtimeStatus;
+  unsubscribe(): void;
+}
+
+interface PhxMessage {
+  topic  : string;
+  event  : string;
+  payload: unknown;   // shape depends on the event — read it with field()
+  ref    : string | null;
+}
+
+const DEFAULTS = {
+  heartbeatMs : 25_000,
+  pollMs      : 3_000,
+  minBackoffMs: 1_000,
+  maxBackoffMs: 30_000,
+};
+
+/** `v[key]` when `v` is an object, else undefined — walks a payload of unknown shape. */
+function field(v: unknown, key: string): unknown {
+  return typeof v === 'object' && v !== null ? (v as Record<string, unknown>)[key] : undefined;
+}
+
+function parseMessage(data: unknown): PhxMessage | null {
+  let msg: unknown;
+  try { msg = JSON.parse(String(data)); } catch { return null; }
+  const topic = field(msg, 'topic'), event = field(msg, 'event'), ref = field(msg, 'ref');
+  if (typeof topic !== 'string' || typeof event !== 'string') return null;
+  return { topic, event, payload: field(msg, 'payload'), ref: typeof ref === 'string' ? ref : null };
+}
+
+/** A pushed record is passed on only if it is a driver_location row at all. */
+function isLocationRow(v: unknown): v is DriverLocationRow {
+  return typeof field(v, 'vehicle_id') === 'string';
+}
+
+export function realtimeSocketUrl(): string {
+  const { url, anonKey } = getConfig();
+  if (!url || !anonKey) return '';
+  return `${url.replace(/^http/, 'ws')}/realtime/v1/websocket?apikey=${encodeURIComponent(anonKey)}&vsn=1.0.0`;
+}
+
+/**
+ * subscribeDriverLocation — live driver_location changes for one vehicle,
+ * or for every vehicle when `vehicleId` is null (fleet view).
+ *
+ * `onRow` receives each changed row; during polling fallback it receives the
+ * polled rows instead, so callers never need to know which transport is active.
+ */
+export function subscribeDriverLocation(
+  vehicleId: string | null,
+  onRow: (row: DriverLocationRow) => void,
+  opts: RealtimeOptions = {}
+): RealtimeSubscription {
+  const cfg = { ...DEFAULTS, ...opts };
+  const filter = vehicleId ? `vehicle_id=eq.${vehicleId}` : undefined;
+  const topic  = `realtime:public:driver_location${filter ? ':' + filter : ''}`;
+
+  let ws            : WebSocket | null = null;
+  let status        : RealtimeStatus   = 'connecting';
+  let ref           = 0;
+  let joinRef       : string | null = null;
+  let pendingBeat   : string | null = null;
+  let attempts      = 0;
+  let closed        = false;
+  let beatTimer     : ReturnType<typeof setInterval> | null = null;
+  let pollTimer     : ReturnType<typeof setInterval> | null = null;
+  let retryTimer    : ReturnType<typeof setTimeout>  | null = null;
+
+  const setStatus = (s: RealtimeStatus) => {
+    if (status === s) return;
+    status = s;
+    cfg.onStatus?.(s);
+  };
+
+  const send = (msg: Omit<PhxMessage, 'ref'>): string => {
+    const r = String(++ref);
+    if (ws?.readyState === 1) ws.send(JSON.stringify({ ...msg, ref: r }));
+    return r;
+  };
+
+  // ── Polling fallback ──────────────────────────────────────────────────────
+  const poll = async () => {
+    const rows = vehicleId
+      ? [await pollDriverLocation(vehicleId)].filter((r): r is DriverLocationRow => !!r)
+      : await loadFleetLocations();
+    if (!closed && status === 'polling') rows.forEach(onRow);
+  };
+
+  const startPolling = () => {
+    if (closed || pollTimer) return;
+    setStatus('polling');
+    poll();
+    pollTimer = setInterval(poll, cfg.pollMs);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  // ── Socket lifecycle ──────────────────────────────────────────────────────
+  const stopHeartbeat = () => {
+    if (beatTimer) clearInterval(beatTimer);
+    beatTimer   = null;
+    pendingBeat = null;
+  };
+
+  const startHeartbeat = () => {
+    stopHeartbeat();
+    beatTimer = setInterval(() => {
+      // ⚡ Previous heartbeat never answered — connection is half-open, drop it
+      if (pendingBeat) { ws?.close(); return; }
+      pendingBeat = send({ topic: 'phoenix', event: 'heartbeat', payload: {} });
+    }, cfg.heartbeatMs);
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+    const base  = Math.min(cfg.minBackoffMs * 2 ** attempts, cfg.maxBackoffMs);
+    const delay = base / 2 + Math.random() * base / 2; // jitter so a depot full of phones doesn't reconnect in lockstep
+    attempts++;
+    retryTimer = setTimeout(() => { retryTimer = null; connect(); }, delay);
+  };
+
+  const onMessage = (ev: MessageEvent) => {
+    const msg = parseMessage(ev.data);
+    if (!msg) return;
+
+    if (msg.event === 'phx_reply') {
+      if (msg.ref === pendingBeat) { pendingBeat = null; return; }
+      if (msg.ref === joinRef) {
+        if (field(msg.payload, 'status') === 'ok') {
+          attempts = 0;
+          stopPolling();
+          setStatus('live');
+        } else {
+          ws?.close();   // join rejected — poll until a reconnect is accepted
+        }
+      }
+      return;
+    }
+
+    if (msg.topic !== topic) return;
+
+    if (msg.event === 'postgres_changes') {
+      const record = field(field(msg.payload, 'data'), 'record');
+      if (isLocationRow(record)) onRow(record);
+    } else if (msg.event === 'INSERT' || msg.event === 'UPDATE') {
+      // Legacy (pre-postgres_changes) Realtime servers push the row directly
+      const record = field(msg.payload, 'record');
+      if (isLocationRow(record)) onRow(record);
+    } else if (msg.event === 'phx_error' || msg.event === 'phx_close') {
+      ws?.close();
+    }
+  };
+
+  function connect(): void {
+    if (closed) return;
+    const url = cfg.socketUrl ?? realtimeSocketUrl();
+    if (!url) { startPolling(); return; }
+
+    setStatus(pollTimer ? 'polling' : 'connecting');
+    try {
+      ws = cfg.createSocket ? cfg.createSocket(url) : new WebSocket(url);
+    } catch {
+      startPolling();
+      scheduleReconnect();
+      return;
+    }
+
+    const socket = ws;
+    socket.onopen = () => {
+      joinRef = send({
+        topic,
+        event  : 'phx_join',
+        payload: {
+          config: {
+            broadcast       : { self: false },
+            presence        : { key: '' },
+            postgres_changes: [{ event: '*', schema: 'public', table: 'driver_location', ...(filter ? { filter } : {}) }],
+          },
+          access_token: getAccessToken() || undefined,
+        },
+      });
+      startHeartbeat();
+    };
+    socket.onmessage = onMessage;
+    socket.onerror   = () => socket.close();
+    socket.onclose   = () => {
+      if (ws !== socket) return; // superseded by a newer connection
+      ws = null;
+      stopHeartbeat();
+      if (closed) return;
+      startPolling();
+      scheduleReconnect();
+    };
+  }
+
+  connect();
+
+  return {
+    get status() { return status; },
+    unsubscribe() {
+      closed = true;
+      stopHeartbeat();
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      if (ws) {
+        send({ topic, event: 'phx_leave', payload: {} });
+        const socket = ws;
+        ws = null;
+        socket.close();
+      }
+      setStatus('closed');
+    },
+  };
+}
@@ -1,51 +1,213 @@
 /**
- * routeCache.ts — Two-tier OSRM result cache (memory + sessionStorage)
+ * routeCache.ts — Three-tier OSRM result cache (memory + sessionStorage + IndexedDB)
  *
  * ⚡ Tier 1: In-memory Map — zero-latency lookup, lost on page reload.
  * ⚡ Tier 2: sessionStorage — survives page reload, cleared on tab close.
+ * ⚡ Tier 3: IndexedDB — survives new tabs and restarts; no 5MB quota, so
+ *    long ghat routes that sessionStorage rejects still get cached here.
  *
  * Key format: "route:<lon1,lat1>;<lon2,lat2>;..."
  * This ensures the same stop sequence always hits the same cache entry.
+ *
+ * ⚡ Expiry: entries older than `ttlMs` (by `cachedAt`) are misses in every tier.
+ * ⚡ Size budget: IndexedDB is trimmed least-recently-used first once the
+ *    stored geometry exceeds `maxBytes`. Only the small `routeMeta` rows are
+ *    scanned for eviction — geometry is never loaded just to be deleted.
  */
+import { withStore, withTx, promisify } from './idb';
+
+/** One OSRM leg = the road between two consecutive stops. */
+export interface RouteLeg {
+  distanceKm : number;
+  durationSec: number;
+}
+
+/** The parts of an OSRM /route response (geometries=geojson) kept in the cache. */
+interface OsrmRoute {
+  distance: number;                                   // metres
+  geometry: { coordinates: [number, number][] };      // [lon, lat]
+  legs?   : Array<{ distance: number; duration: number }>;
+}
 
 interface CachedRoute {
   points: [number, number][];
   distanceKm: number;
+  legs?: RouteLeg[];   // absent on entries cached before ETAs used leg durations
   cachedAt: number;
 }
 
+interface RouteMeta {
+  key: string;
+  bytes: number;
+  cachedAt: number;
+  lastUsed: number;
+}
+
+export interface RouteCacheStats {
+  hits: { memory: number; session: number; idb: number };
+  misses: number;
+  expired: number;
+  evicted: number;
+  memoryEntries: number;
+  idbEntries: number;
+  idbBytes: number;
+}
+
 const _mem = new Map<string, CachedRoute>();
 const PREFIX = 'btrc_';
 
+const _cfg = {
+  ttlMs   : 7 * 24 * 3600_000, // roads don't move; a week keeps OSRM load low
+  maxBytes: 20 * 1024 * 1024,
+};
+
+const _stats = { hits: { memory: 0, session: 0, idb: 0 }, misses: 0, expired: 0, evicted: 0 };
+
 function makeKey(stops: Array<{ lat: number; lon: number }>, profile: string): string {
   return `${profile}:` + stops.map(s => `${s.lon.toFixed(5)},${s.lat.toFixed(5)}`).join(';');
 }
 
+const isFresh = (e: CachedRoute) => Date.now() - e.cachedAt < _cfg.ttlMs;
+
+function dropKey(key: string): void {
+  _mem.delete(key);
+  try { sessionStorage.removeItem(PREFIX + key); } catch { /* ignore */ }
+}
+
+async function idbGet(key: string): Promise<CachedRoute | null> {
+  const entry = await withTx(['routes', 'routeMeta'], 'readwrite', async tx => {
+    const row = await promisify(tx.objectStore('routes').get(key)) as (CachedRoute & { key: string }) | undefined;
+    if (!row) return null;
+    if (!isFresh(row)) {
+      tx.objectStore('routes').delete(key);
+      tx.objectStore('routeMeta').delete(key);
+      _stats.expired++;
+      return null;
+    }
+    const meta = await promisify(tx.objectStore('routeMeta').get(key)) as RouteMeta | undefined;
+    if (meta) tx.objectStore('routeMeta').put({ ...meta, lastUsed: Date.now() });
+    return { points: row.points, distanceKm: row.distanceKm, legs: row.legs, cachedAt: row.cachedAt };
+  });
+  return entry ?? null;
+}
+
+async function idbPut(key: string, entry: CachedRoute): Promise<void> {
+  const json = JSON.stringify(entry);
+  const meta: RouteMeta = { key, bytes: json.length * 2, cachedAt: entry.cachedAt, lastUsed: Date.now() }; // UTF-16 estimate
+  await withTx(['routes', 'routeMeta'], 'readwrite', tx => {
+    tx.objectStore('routes').put({ key, ...entry });
+    tx.objectStore('routeMeta').put(meta);
+  });
+  await enforceBudget();
+}
+
+/** Evicts least-recently-used geometry until the store fits in maxBytes. */
+async function enforceBudget(): Promise<void> {
+  await withTx(['routes', 'routeMeta'], 'readwrite', async tx => {
+    const metas = await promisify(tx.objectStore('routeMeta').index('lastUsed').getAll()) as RouteMeta[];
+    let total = metas.reduce((sum, m) => sum + m.bytes, 0);
+    for (const m of metas) { // ascending lastUsed = oldest first
+      if (total <= _cfg.maxBytes) break;
+      tx.objectStore('routes').delete(m.key);
+      tx.objectStore('routeMeta').delete(m.key);
+      total -= m.bytes;
+      _stats.evicted++;
+    }
+  });
+}
+
 export const RouteCache = {
+  configure(opts: Partial<typeof _cfg>): void {
+    Object.assign(_cfg, opts);
+  },
+
+  /** Synchronous lookup — memory and sessionStorage only. Use load() to include IndexedDB. */
   get(stops: Array<{ lat: number; lon: number }>, profile = 'driving'): CachedRoute | null {
     const key = makeKey(stops, profile);
-    if (_mem.has(key)) return _mem.get(key)!;
+    const mem = _mem.get(key);
+    if (mem) {
+      if (isFresh(mem)) { _stats.hits.memory++; return mem; }
+      dropKey(key);
+      _stats.expired++;
+    }
     try {
       const raw = sessionStorage.getItem(PREFIX + key);
-      if (raw) { const v = JSON.parse(raw); _mem.set(key, v); return v; }
+      if (raw) {
+        const v: CachedRoute = JSON.parse(raw);
+        if (isFresh(v)) { _mem.set(key, v); _stats.hits.session++; return v; }
+        dropKey(key);
+        _stats.expired++;
+      }
     } catch { /* ignore */ }
     return null;
   },
 
+  /** Full lookup through all three tiers; an IndexedDB hit is promoted to memory. */
+  async load(stops: Array<{ lat: number; lon: number }>, profile = 'driving'): Promise<CachedRoute | null> {
+    const hit = this.get(stops, profile);
+    if (hit) return hit;
+    const key = makeKey(stops, profile);
+    const v = await idbGet(key);
+    if (!v) { _stats.misses++; return null; }
+    _stats.hits.idb++;
+    _mem.set(key, v);
+    return v;
+  },
+
   set(stops: Array<{ lat: number; lon: number }>, data: Omit<CachedRoute, 'cachedAt'>, profile = 'driving'): void {
     const key = makeKey(stops, profile);
     const entry: CachedRoute = { ...data, cachedAt: Date.now() };
     _mem.set(key, entry);
-    try { sessionStorage.setItem(PREFIX + key, JSON.stringify(entry)); } catch { /* quota exceeded */ }
+    try { sessionStorage.setItem(PREFIX + key, JSON.stringify(entry)); } catch { /* quota exceeded — IndexedDB still has it */ }
+    idbPut(key, entry).catch(() => {});
+  },
+
+  /**
+   * invalidate — forget a stop sequence everywhere.
+   * Called when an admin edits a route so the old geometry cannot be served.
+   */
+  async invalidate(stops: Array<{ lat: number; lon: number }>, profile = 'driving'): Promise<void> {
+    const key = makeKey(stops, profile);
+    dropKey(key);
+    await withTx(['routes', 'routeMeta'], 'readwrite', tx => {
+      tx.objectStore('routes').delete(key);
+      tx.objectStore('routeMeta').delete(key);
+    });
+  },
+
+  async clear(): Promise<void> {
+    _mem.clear();
+    try {
+      Object.keys(sessionStorage).filter(k => k.startsWith(PREFIX)).forEach(k => sessionStorage.removeItem(k));
+    } catch { /* ignore */ }
+    await withTx(['routes', 'routeMeta'], 'readwrite', tx => {
+      tx.objectStore('routes').clear();
+      tx.objectStore('routeMeta').clear();
+    });
+  },
+
+  async stats(): Promise<RouteCacheStats> {
+    const metas = (await withStore('routeMeta', 'readonly', s => promisify(s.getAll() as IDBRequest<RouteMeta[]>))) ?? [];
+    return {
+      hits         : { ..._stats.hits },
+      misses       : _stats.misses,
+      expired      : _stats.expired,
+      evicted      : _stats.evicted,
+      memoryEntries: _mem.size,
+      idbEntries   : metas.length,
+      idbBytes     : metas.reduce((sum, m) => sum + m.bytes, 0),
+    };
   },
 
   async prewarm(stops: Array<{ lat: number; lon: number }>, profile = 'driving'): Promise<void> {
-    if (this.get(stops, profile)) return; // already cached
+    if (await this.load(stops, profile)) return; // already cached
     const coords = stops.map(s => `${s.lon},${s.lat}`).join(';');
     const resp = await fetch(`/osrm/route/v1/${profile}/${coords}?overview=full&geometries=geojson`);
-    const data = await resp.json();
-    if (!data?.routes?.length) return;
-    const points: [number, number][] = data.routes[0].geometry.coordinates.map((c: number[]) => [c[1], c[0]]);
-    this.set(stops, { points, distanceKm: data.routes[0].distance / 1000 }, profile);
+    const data: { routes?: OsrmRoute[] } | null = await resp.json();
+    const route = data?.routes?.[0];
+    if (!route) return;
+    const points = route.geometry.coordinates.map(([lon, lat]): [number, number] => [lat, lon]);
+    const legs   = (route.legs ?? []).map((l): RouteLeg => ({ distanceKm: l.distance / 1000, durationSec: l.duration }));
+    this.set(stops, { points, distanceKm: route.distance / 1000, legs }, profile);
   },
 };
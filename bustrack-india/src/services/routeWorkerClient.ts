@@ -0,0 +1,59 @@
+/**
+ * routeWorkerClient.ts — One shared routeWorker for the whole page
+ *
+ * ⚡ The worker is created lazily on first use and shared by every caller
+ *    (ETA engine, GPS filter), so the page never spins up duplicate threads.
+ *    Replies are matched to requests by reqId — calls may overlap freely.
+ *
+ * ⚡ RouteWorkerReplies is the reply to each request type (see the Output
+ *    lines in workers/routeWorker.ts), so callers get typed results.
+ */
+import type { GpsEstimate } from '../shared/kalmanGps';
+import type { Journey } from './journeyPlanner';
+
+export interface RouteProgressReply {
+  snapped  : [number, number];
+  offRouteM: number;
+  alongKm  : number;
+  totalKm  : number;
+  stopKm   : number[];
+}
+
+export interface RouteWorkerReplies {
+  routeProgress: RouteProgressReply | { error: 'unknownRoute' };
+  routePath    : { points: [number, number][] | null };
+  kalmanGps    : GpsEstimate & { trackId: string };
+  planJourneys : { fromFound: boolean; toFound: boolean; journeys: Journey[] };
+}
+
+let _worker: Worker | null = null;
+let _reqId = 0;
+const _pending = new Map<number, (data: unknown) => void>();
+
+function worker(): Worker {
+  if (_worker) return _worker;
+  _worker = new Worker(new URL('../workers/routeWorker.ts', import.meta.url), { type: 'module' });
+  _worker.onmessage = (e: MessageEvent<unknown>) => {
+    const reqId = typeof e.data === 'object' && e.data !== null ? (e.data as { reqId?: unknown }).reqId : undefined;
+    const done  = typeof reqId === 'number' ? _pending.get(reqId) : undefined;
+    if (!done) return;
+    _pending.delete(reqId as number);
+    done(e.data);
+  };
+  return _worker;
+}
+
+/** Sends `{ type, ...msg }` and resolves with the worker's reply to it. */
+export function askRouteWorker<K extends keyof RouteWorkerReplies>(type: K, msg: Record<string, unknown>): Promise<RouteWorkerReplies[K]> {
+  const reqId = ++_reqId;
+  return new Promise(resolve => {
+    // Our own worker answers `type` with RouteWorkerReplies[type]
+    _pending.set(reqId, data => resolve(data as RouteWorkerReplies[K]));
+    worker().postMessage({ type, reqId, ...msg });
+  });
+}
+
+/** Fire-and-forget message (no reply expected). */
+export function tellRouteWorker(type: string, msg: Record<string, unknown>): void {
+  worker().postMessage({ type, ...msg });
+}
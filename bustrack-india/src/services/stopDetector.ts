@@ -0,0 +1,114 @@
+/**
+ * stopDetector.ts — Geofenced stop arrival / departure detection for drivers
+ *
+ * ⚡ Pure logic, no DOM or network: feed it GPS fixes, get back events.
+ *    main.ts decides what to show (driver stop list, toast) and publishes
+ *    the events so passengers see "Departed Salem 4 min ago".
+ *
+ * Geofence with hysteresis — one noisy fix can't flap arrive/depart:
+ *   arrive  when within ARRIVE_M of the stop we're heading to (plus the fix's
+ *           reported accuracy, capped), or of one of the next few stops
+ *           (the bus didn't halt, or GPS dropped out passing the stop)
+ *   depart  when farther than DEPART_M from the stop we arrived at
+ *
+ * ⚡ Terminus: arriving at the last stop reverses the route automatically —
+ *    the terminus becomes stop 1 of the return trip, and leaving it is that
+ *    trip's first departure.
+ */
+
+export type StopEventKind = 'arrive' | 'depart';
+
+export interface StopEvent {
+  kind     : StopEventKind;
+  stopIndex: number;          // index in the route as saved (not the travel direction)
+  stopName : string;
+  at       : number;          // epoch ms of the fix that triggered it
+  dwellSec?: number;          // departures only
+  reversed : boolean;         // travel direction after this event
+}
+
+export interface StopFix { lat: number; lon: number; ts?: number; accuracy?: number }
+
+export interface StopDetector {
+  update(fix: StopFix): StopEvent[];
+  /** Position of the current / next stop in the travel-direction list. */
+  readonly highlightIndex: number;
+  readonly reversed: boolean;
+  readonly atStop: boolean;
+}
+
+const ARRIVE_M       = 60;
+const DEPART_M       = 120;
+const MAX_ACCURACY_M = 50;   // worse fixes don't widen the fence further
+const LOOKAHEAD      = 3;    // how many stops ahead a skipped stop can be detected
+
+interface FenceStop { name: string; lat: number; lon: number; routeIndex: number }
+
+function distM(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lon - a.lon) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * createStopDetector — `stops` in their saved route order; stops without
+ * coordinates are never fenced (they can't be detected) but keep their index.
+ * `reversed` = the driver is currently running the return direction.
+ */
+export function createStopDetector(
+  stops: Array<{ name: string; lat?: number; lon?: number }>,
+  reversed = false
+): StopDetector {
+  const fenced: FenceStop[] = stops
+    .map((s, i) => ({ name: s.name, lat: s.lat as number, lon: s.lon as number, routeIndex: i }))
+    .filter(s => typeof s.lat === 'number' && typeof s.lon === 'number');
+
+  let rev       = reversed;
+  let order     = rev ? [...fenced].reverse() : fenced;
+  let next      = 0;                 // position in `order` we're heading to / standing at
+  let atStop    = false;
+  let arrivedAt = 0;
+
+  /** Position of a fenced stop in the driver's travel-direction list (all stops, incl. unfenced). */
+  const listIndex = (f: FenceStop) => rev ? stops.length - 1 - f.routeIndex : f.routeIndex;
+
+  return {
+    get highlightIndex() { return order[next] ? listIndex(order[next]) : 0; },
+    get reversed() { return rev; },
+    get atStop() { return atStop; },
+
+    update(fix) {
+      if (order.length < 2) return [];
+      const ts     = fix.ts ?? Date.now();
+      const fence  = ARRIVE_M + Math.min(fix.accuracy ?? 0, MAX_ACCURACY_M);
+      const events: StopEvent[] = [];
+
+      if (atStop) {
+        const here = order[next];
+        if (distM(fix, here) <= DEPART_M) return events;
+        atStop = false;
+        events.push({ kind: 'depart', stopIndex: here.routeIndex, stopName: here.name, at: ts, dwellSec: Math.round((ts - arrivedAt) / 1000), reversed: rev });
+        next = Math.min(next + 1, order.length - 1);
+        return events;
+      }
+
+      for (let k = next; k < Math.min(order.length, next + 1 + LOOKAHEAD); k++) {
+        if (distM(fix, order[k]) > fence) continue;
+        const stop = order[k];
+        atStop    = true;
+        arrivedAt = ts;
+        next      = k;
+        if (k === order.length - 1) {
+          // Terminus — turn around; this stop is now the start of the return trip
+          rev   = !rev;
+          order = rev ? [...fenced].reverse() : fenced;
+          next  = 0;
+        }
+        events.push({ kind: 'arrive', stopIndex: stop.routeIndex, stopName: stop.name, at: ts, reversed: rev });
+        break;
+      }
+      return events;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * stopIndex.ts — Grid spatial index over every placed stop, for "near me"
+ *
+ * ⚡ Pure logic, no DOM or network. Built once per route list (main.ts keeps
+ *    it until the saved routes change); a query only looks at the grid cells
+ *    the radius touches, so thousands of stops cost the same as a dozen.
+ *
+ * Stops on different routes at the same resolved coordinate are one entry
+ * (journeyPlanner.stopKey) listing every route that serves it.
+ *
+ * Walking distance is the straight line × WALK_DETOUR — Indian street grids
+ * rarely allow a direct line, and the OSRM proxy only routes for buses —
+ * at WALK_KMH.
+ */
+import { stopKey } from './journeyPlanner';
+
+export interface IndexedStop {
+  key   : string;
+  name  : string;      // first name seen for this coordinate
+  lat   : number;
+  lon   : number;
+  routes: Array<{ busId: number; stopIndex: number }>;   // stopIndex in the saved order
+}
+
+export interface NearbyStop extends IndexedStop {
+  distanceKm: number;   // straight line
+  walkKm    : number;
+  walkMin   : number;
+}
+
+export interface StopIndex {
+  readonly size: number;
+  /** Stops within `radiusKm` of `at`, nearest first. */
+  nearby(at: { lat: number; lon: number }, radiusKm: number, limit?: number): NearbyStop[];
+}
+
+const CELL_DEG    = 0.01;   // ~1.1 km of latitude
+const WALK_KMH    = 4.5;
+const WALK_DETOUR = 1.3;
+
+function straightKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lon - a.lon) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+const cellOf = (lat: number, lon: number) => `${Math.floor(lat / CELL_DEG)}:${Math.floor(lon / CELL_DEG)}`;
+
+export function createStopIndex(
+  routes: Array<{ id: number; stops: Array<{ name: string; lat: number; lon: number; routeIndex: number }> }>
+): StopIndex {
+  const stops = new Map<string, IndexedStop>();
+  for (const r of routes) {
+    for (const s of r.stops) {
+      const key = stopKey(s);
+      if (!stops.has(key)) stops.set(key, { key, name: s.name, lat: s.lat, lon: s.lon, routes: [] });
+      stops.get(key)!.routes.push({ busId: r.id, stopIndex: s.routeIndex });
+    }
+  }
+  const grid = new Map<string, IndexedStop[]>();
+  for (const s of stops.values()) {
+    const cell = cellOf(s.lat, s.lon);
+    if (!grid.has(cell)) grid.set(cell, []);
+    grid.get(cell)!.push(s);
+  }
+
+  return {
+    size: stops.size,
+
+    nearby(at, radiusKm, limit = 10) {
+      // Cells the radius can reach — longitude degrees shrink towards the poles
+      const dLat = radiusKm / 111.2;
+      const dLon = dLat / Math.max(0.1, Math.cos(at.lat * Math.PI / 180));
+      const out: NearbyStop[] = [];
+      for (let y = Math.floor((at.lat - dLat) / CELL_DEG); y <= Math.floor((at.lat + dLat) / CELL_DEG); y++) {
+        for (let x = Math.floor((at.lon - dLon) / CELL_DEG); x <= Math.floor((at.lon + dLon) / CELL_DEG); x++) {
+          for (const s of grid.get(`${y}:${x}`) ?? []) {
+            const km = straightKm(at, s);
+            if (km > radiusKm) continue;
+            const walkKm = km * WALK_DETOUR;
+            out.push({ ...s, distanceKm: km, walkKm, walkMin: Math.max(1, Math.round(walkKm / WALK_KMH * 60)) });
+          }
+        }
+      }
+      return out.sort((a, b) => a.distanceKm - b.distanceKm).slice(0, limit);
+    },
+  };
+}
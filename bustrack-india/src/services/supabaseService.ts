@@ -4,26 +4,141 @@
  * ⚡ No Supabase JS SDK — that's 120KB+ gzipped.
  *    Direct REST calls via fetch() — same API, 0 bytes overhead.
  *    All functions gracefully return empty/null when Supabase is unconfigured.
+ *
+ * ⚡ Writes that fail on the network (or with a 5xx / 429) are parked in the
+ *    IndexedDB outbox and replayed when connectivity returns — see outbox.ts.
+ *    A replayed conditional write that matches no row is reported as a
+ *    conflict, never counted as sent; a 401 refreshes the session first.
  */
+import { Outbox } from './outbox';
+import type { OutboxEntry, ReplayResult } from './outbox';
+import type { GeoRegion } from '../shared/geoRegion';
+import type { StopCoord } from '../shared/geocoders';
+import type { Occupancy } from '../shared/occupancy';
 
-let _url = '';
-let _key = '';
+let _url   = '';
+let _key   = '';
+let _token = ''; // user JWT from authService — falls back to the anon key when signed out
 
 export function configure(cfg: { url: string; anonKey: string }): void {
   _url = cfg.url.replace(/\/$/, '');
   _key = cfg.anonKey;
 }
 
-function headers(): Record<string, string> {
-  return { 'apikey': _key, 'Authorization': `Bearer ${_key}`, 'Content-Type': 'application/json', 'Prefer': 'return=representation' };
+/**
+ * setAccessToken — called by authService on sign-in / refresh / sign-out.
+ * Every REST call then carries the user's JWT, so RLS policies see auth.uid().
+ */
+export function setAccessToken(token: string | null): void {
+  _token = token ?? '';
 }
 
-async function rest<T>(path: string, init?: RequestInit): Promise<T | null> {
-  if (!_url || !_key) return null;
+export function getAccessToken(): string {
+  return _token || _key;
+}
+
+/** Current project URL + anon key — shared with the realtime socket layer. */
+export function getConfig(): { url: string; anonKey: string } {
+  return { url: _url, anonKey: _key };
+}
+
+function headers(extra?: HeadersInit): Record<string, string> {
+  return { 'apikey': _key, 'Authorization': `Bearer ${getAccessToken()}`, 'Content-Type': 'application/json', 'Prefer': 'return=representation', ...(extra as Record<string, string> | undefined) };
+}
+
+/**
+ * Queue the write in the outbox if it fails; same collapseKey = only the latest is kept.
+ * `conditional`: the path filters on a version column, so an empty result is a conflict.
+ */
+interface QueueOpts { collapseKey?: string; conditional?: boolean }
+
+/** Hooks for outbox replay — see startOutbox(). */
+export interface OutboxHooks {
+  /** Called on a 401; should refresh the session (setAccessToken) if it can. */
+  refreshAuth?: () => Promise<unknown>;
+  /** A queued conditional write found the row changed; `collapseKey` names it. */
+  onConflict? : (collapseKey: string | null) => void;
+}
+
+let _hooks: OutboxHooks = {};
+
+const isRetryable = (status: number) => status >= 500 || status === 408 || status === 429;
+
+async function rest<T>(path: string, init?: RequestInit, queue?: QueueOpts): Promise<T | null> {
+  return (await request<T>(path, init, queue)).data;
+}
+
+/**
+ * Like rest(), but also reports whether a failed write was parked in the
+ * outbox, and the HTTP status (0 when nothing was sent or no answer came).
+ */
+async function request<T>(path: string, init?: RequestInit, queue?: QueueOpts): Promise<{ data: T | null; queued: boolean; status: number }> {
+  const none = { data: null, queued: false, status: 0 };
+  if (!_url || !_key) return none;
+  const park = () => Outbox.enqueue({
+    path,
+    method     : init?.method ?? 'GET',
+    body       : typeof init?.body === 'string' ? init.body : null,
+    headers    : { ...(init?.headers as Record<string, string> | undefined) }, // auth re-added at replay time
+    collapseKey: queue?.collapseKey ?? null,
+    conditional: queue?.conditional ?? false,
+  });
+
+  // ⚡ Known offline — skip the doomed fetch and queue straight away
+  if (queue && typeof navigator !== 'undefined' && navigator.onLine === false) { await park(); return { data: null, queued: true, status: 0 }; }
+
   try {
-    const r = await fetch(`${_url}/rest/v1/${path}`, { ...init, headers: headers() });
-    return r.ok ? r.json() : null;
-  } catch { return null; }
+    const r = await fetch(`${_url}/rest/v1/${path}`, { ...init, headers: headers(init?.headers) });
+    if (!r.ok) {
+      if (!queue || !isRetryable(r.status)) return { ...none, status: r.status };
+      await park();
+      return { data: null, queued: true, status: r.status };
+    }
+    // A live write supersedes any older queued copy of the same record
+    if (queue?.collapseKey) Outbox.discard(queue.collapseKey);
+    const text = await r.text();
+    return { data: (text ? JSON.parse(text) : []) as T, queued: false, status: r.status };
+  } catch {
+    if (!queue) return none;
+    await park();
+    return { data: null, queued: true, status: 0 };
+  }
+}
+
+async function replay(e: OutboxEntry): Promise<ReplayResult> {
+  if (!_url || !_key) return 'retry';
+  // return=representation so a conditional PATCH shows whether it matched a row
+  const send = () => fetch(`${_url}/rest/v1/${e.path}`, {
+    method : e.method,
+    body   : e.body ?? undefined,
+    headers: headers(e.conditional ? { ...e.headers, 'Prefer': 'return=representation' } : e.headers),
+  });
+  try {
+    let r = await send();
+    if (r.status === 401) {
+      // Token expired while offline — refresh and try once more; keep the write if we can't
+      const before = getAccessToken();
+      await _hooks.refreshAuth?.();
+      if (getAccessToken() === before) return 'retry';
+      r = await send();
+      if (r.status === 401) return 'retry';
+    }
+    if (r.ok) {
+      if (e.conditional) {
+        const text = await r.text();
+        const rows = text ? JSON.parse(text) : [];
+        if (Array.isArray(rows) && !rows.length) { _hooks.onConflict?.(e.collapseKey); return 'drop'; }
+      }
+      return 'sent';
+    }
+    return isRetryable(r.status) ? 'retry' : 'drop'; // 4xx (RLS, conflict) will never succeed
+  } catch { return 'retry'; }
+}
+
+/** Starts replaying queued writes — call once after configure(). */
+export function startOutbox(hooks: OutboxHooks = {}): void {
+  _hooks = hooks;
+  Outbox.init(replay);
 }
 
 export async function testConnection(): Promise<boolean> {
@@ -31,29 +146,419 @@ export async function testConnection(): Promise<boolean> {
   return Array.isArray(r);
 }
 
-export async function loadBuses(): Promise<any[]> {
-  return (await rest<any[]>('buses?select=*&order=added_at.desc')) ?? [];
+export async function loadBuses(): Promise<BusRow[]> {
+  return (await rest<BusRow[]>('buses?select=*&order=added_at.desc')) ?? [];
+}
+
+export interface BusRow {
+  id            : number;
+  name          : string;
+  stops         : string[];
+  stop_coords   : Array<StopCoord | null> | null;
+  region        : GeoRegion | null;
+  shape?        : [number, number][] | null;   // imported GTFS geometry, [lat, lon]
+  gtfs_route_id?: string | null;
+  stop_offsets? : Array<number | null> | null;   // timetable minutes from the first stop
+  added_at      : string;
+  version       : number;
+  updated_at    : string;
+}
+
+export interface BusVersionRow {
+  bus_id      : number;
+  version     : number;
+  name        : string;
+  stops       : string[];
+  stop_coords : BusRow['stop_coords'];
+  region      : GeoRegion | null;
+  shape       : BusRow['shape'];
+  stop_offsets: BusRow['stop_offsets'];
+  saved_at    : string;
+}
+
+export type BusPatch = Partial<Pick<BusRow, 'name' | 'stops' | 'stop_coords' | 'region' | 'shape' | 'gtfs_route_id' | 'stop_offsets'>>;
+
+/**
+ * Result of a route write. `conflict` carries the row as the other admin left
+ * it (or, for a new route, the one already imported under its GTFS route_id),
+ * so the editor can show what changed before retrying.
+ */
+export type BusWriteResult =
+  | { status: 'saved';    bus: BusRow }
+  | { status: 'conflict'; current: BusRow | null }
+  | { status: 'queued' }   // offline — parked in the outbox, sent when back online
+  | { status: 'failed' };
+
+/** saveBus — adds a new route. Queued in the outbox when offline. */
+export async function saveBus(bus: BusPatch & Pick<BusRow, 'name' | 'stops'>): Promise<BusWriteResult> {
+  const { data: rows, queued, status } = await request<BusRow[]>('buses', { method: 'POST', body: JSON.stringify(bus) }, {});
+  if (queued)       return { status: 'queued' };
+  if (rows?.length) return { status: 'saved', bus: rows[0] };
+  if (status === 409 && bus.gtfs_route_id) {
+    const current = await rest<BusRow[]>(`buses?gtfs_route_id=eq.${encodeURIComponent(bus.gtfs_route_id)}&select=*`);
+    return { status: 'conflict', current: current?.[0] ?? null };
+  }
+  return { status: 'failed' };
+}
+
+export async function loadBus(id: number): Promise<BusRow | null> {
+  const rows = await rest<BusRow[]>(`buses?id=eq.${id}&select=*`);
+  return rows?.[0] ?? null;
+}
+
+/**
+ * updateBus — edits a route in place, keeping its id.
+ * Only succeeds if the row still carries `expectedUpdatedAt` (the value the
+ * editor loaded); the DB trigger then bumps `version` and archives the old stops.
+ */
+export async function updateBus(id: number, patch: BusPatch, expectedUpdatedAt: string): Promise<BusWriteResult> {
+  const { data: rows, queued } = await request<BusRow[]>(`buses?id=eq.${id}&updated_at=eq.${encodeURIComponent(expectedUpdatedAt)}`, {
+    method: 'PATCH',
+    body  : JSON.stringify(patch),
+  }, { collapseKey: `bus:${id}`, conditional: true });
+  if (queued)        return { status: 'queued' };
+  if (rows === null) return { status: 'failed' };
+  if (rows.length)   return { status: 'saved', bus: rows[0] };
+  return { status: 'conflict', current: await loadBus(id) };
+}
+
+/** Insert-or-update keyed on id — used when importing routes that already have ids. */
+export async function upsertBus(bus: BusPatch & { id: number }): Promise<BusRow | null> {
+  const rows = await rest<BusRow[]>('buses?on_conflict=id', {
+    method : 'POST',
+    body   : JSON.stringify(bus),
+    headers: { 'Prefer': 'resolution=merge-duplicates,return=representation' },
+  });
+  return rows?.[0] ?? null;
+}
+
+export async function loadBusVersions(busId: number): Promise<BusVersionRow[]> {
+  return (await rest<BusVersionRow[]>(`bus_versions?bus_id=eq.${busId}&select=*&order=version.desc`)) ?? [];
 }
 
-export async function saveBus(bus: { name: string; stops: string[]; stop_coords?: unknown }): Promise<any> {
-  return rest('buses', { method: 'POST', body: JSON.stringify(bus) });
+/**
+ * rollbackBus — restores an archived version's stops (with its shape and
+ * stop offsets) as a NEW version.
+ * History is never rewritten; the current stops are archived like any other edit.
+ */
+export async function rollbackBus(busId: number, version: number, expectedUpdatedAt: string): Promise<BusWriteResult> {
+  const rows = await rest<BusVersionRow[]>(`bus_versions?bus_id=eq.${busId}&version=eq.${version}&select=*`);
+  const v = rows?.[0];
+  if (!v) return { status: 'failed' };
+  return updateBus(busId, { name: v.name, stops: v.stops, stop_coords: v.stop_coords, region: v.region, shape: v.shape ?? null, stop_offsets: v.stop_offsets ?? null }, expectedUpdatedAt);
 }
 
 export async function deleteBus(id: number): Promise<void> {
-  await rest(`buses?id=eq.${id}`, { method: 'DELETE' });
+  await rest(`buses?id=eq.${id}`, { method: 'DELETE' }, { collapseKey: `bus:${id}` });
 }
 
-export async function saveDriverLocation(loc: Record<string, unknown>): Promise<void> {
-  await rest('driver_location?id=eq.1', { method: 'PATCH', body: JSON.stringify(loc) });
+/**
+ * Driver locations are keyed by vehicle — one row per bus that has ever shared.
+ * `trip_id` changes every time a driver starts sharing, so a passenger can tell
+ * a fresh trip from a stale row left behind by the previous run.
+ */
+export interface DriverLocationRow {
+  vehicle_id : string;
+  trip_id    : string | null;
+  bus_id     : number | null;
+  lat        : number;
+  lon        : number;
+  speed      : number;
+  heading    : number;
+  sharing    : boolean;
+  bus_name   : string;
+  route_stops: string[];
+  updated_at : string;
+  // Latest stop event (stopDetector) — "Departed Salem 4 min ago"
+  last_stop?      : string | null;
+  last_stop_event?: 'arrived' | 'departed' | null;
+  last_stop_at?   : string | null;
+  reversed?       : boolean;
+  // Deviation in progress (deviationDetector) — passenger "diverted" banner
+  off_route?      : boolean;
+  off_route_since?: string | null;
+  off_route_m?    : number | null;
+  // Driver's one-tap occupancy — sent with every update
+  occupancy?      : Occupancy | null;
+  occupancy_at?   : string | null;
 }
 
-export async function pollDriverLocation(): Promise<any | null> {
-  const rows = await rest<any[]>('driver_location?id=eq.1&select=*');
+/** `queued` = offline, parked in the outbox; `failed` = refused (RLS, bad row) or not configured — never sent. */
+export type LocationWriteResult = 'saved' | 'queued' | 'failed';
+
+export async function saveDriverLocation(vehicleId: string, loc: Omit<Partial<DriverLocationRow>, 'vehicle_id'>): Promise<LocationWriteResult> {
+  const at = new Date().toISOString();
+  // ⚡ Upsert on vehicle_id — first fix of a new bus creates its row, later fixes update in place
+  const { data, queued } = await request('driver_location?on_conflict=vehicle_id', {
+    method: 'POST',
+    body  : JSON.stringify({ ...loc, vehicle_id: vehicleId, updated_at: at }),
+    headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+  }, { collapseKey: `loc:${vehicleId}` });
+
+  // ⚡ The queued upsert collapses to the latest fix — queue this one as its own
+  //    trip sample too (no collapse key), so the trip recording keeps the offline stretch
+  if (queued && loc.trip_id && loc.sharing !== false && loc.lat != null && loc.lon != null) {
+    await rest('trip_samples?on_conflict=trip_id,recorded_at', {
+      method : 'POST',
+      body   : JSON.stringify({ trip_id: loc.trip_id, vehicle_id: vehicleId, bus_id: loc.bus_id ?? null, lat: loc.lat, lon: loc.lon, speed: loc.speed ?? null, heading: loc.heading ?? null, recorded_at: at }),
+      headers: { 'Prefer': 'resolution=ignore-duplicates,return=minimal' },
+    }, {});
+  }
+  return queued ? 'queued' : data === null ? 'failed' : 'saved';
+}
+
+export async function pollDriverLocation(vehicleId: string): Promise<DriverLocationRow | null> {
+  const rows = await rest<DriverLocationRow[]>(`driver_location?vehicle_id=eq.${encodeURIComponent(vehicleId)}&select=*`);
   return rows?.[0] ?? null;
 }
 
-export async function clearDriverSharing(): Promise<void> {
-  await rest('driver_location?id=eq.1', { method: 'PATCH', body: JSON.stringify({ sharing: false }) });
+/** Every vehicle currently sharing, optionally narrowed to one route. */
+export async function loadFleetLocations(busId?: number): Promise<DriverLocationRow[]> {
+  const filter = busId !== undefined ? `&bus_id=eq.${busId}` : '';
+  return (await rest<DriverLocationRow[]>(`driver_location?sharing=is.true${filter}&select=*&order=updated_at.desc`)) ?? [];
+}
+
+/** Every vehicle heard from since `sinceIso`, sharing or not — the admin fleet dashboard. */
+export async function loadRecentVehicles(sinceIso: string): Promise<DriverLocationRow[]> {
+  return (await rest<DriverLocationRow[]>(`driver_location?updated_at=gte.${encodeURIComponent(sinceIso)}&lat=not.is.null&select=*&order=updated_at.desc`)) ?? [];
+}
+
+/** The driver's new occupancy level, right away — not waiting for the next GPS fix. */
+export async function saveDriverOccupancy(vehicleId: string, occupancy: Occupancy): Promise<void> {
+  await rest(`driver_location?vehicle_id=eq.${encodeURIComponent(vehicleId)}`, {
+    method : 'PATCH',
+    body   : JSON.stringify({ occupancy, occupancy_at: new Date().toISOString() }),
+    headers: { 'Prefer': 'return=minimal' },
+  }, { collapseKey: `occ:${vehicleId}` });
+}
+
+export interface CrowdReportRow {
+  vehicle_id : string;
+  bus_id     : number | null;
+  level      : Occupancy;
+  reported_at: string;
+  reporter   : string | null;   // md5 of the user / device id
+}
+
+export type CrowdReportResult = 'ok' | 'too_soon' | 'rate_limited' | 'invalid';
+
+/**
+ * A passenger's on-bus crowding report, through the rate-limited
+ * report_crowding RPC; null when it could not be sent (not queued — stale by replay).
+ */
+export async function publishCrowdReport(report: Pick<CrowdReportRow, 'vehicle_id' | 'bus_id' | 'level'>, deviceId: string): Promise<CrowdReportResult | null> {
+  return rest<CrowdReportResult>('rpc/report_crowding', {
+    method: 'POST',
+    body  : JSON.stringify({ p_vehicle: report.vehicle_id, p_bus: report.bus_id, p_level: report.level, p_device: deviceId }),
+  });
+}
+
+export async function loadCrowdReports(vehicleId: string, sinceIso: string): Promise<CrowdReportRow[]> {
+  return (await rest<CrowdReportRow[]>(`crowd_reports?vehicle_id=eq.${encodeURIComponent(vehicleId)}&reported_at=gte.${encodeURIComponent(sinceIso)}&select=vehicle_id,bus_id,level,reported_at,reporter&order=reported_at.desc`)) ?? [];
+}
+
+export async function clearDriverSharing(vehicleId: string): Promise<void> {
+  await rest(`driver_location?vehicle_id=eq.${encodeURIComponent(vehicleId)}`, {
+    method: 'PATCH',
+    body  : JSON.stringify({ sharing: false, updated_at: new Date().toISOString() }),
+  }, { collapseKey: `loc:${vehicleId}` });
+}
+
+export interface StopEventRow {
+  trip_id   : string;
+  vehicle_id: string;
+  bus_id    : number | null;
+  stop_index: number;
+  stop_name : string;
+  kind      : 'arrive' | 'depart';
+  at        : string;
+  dwell_sec : number | null;
+  reversed  : boolean;
+}
+
+/**
+ * publishStopEvent — logs the event and stamps it on the vehicle's live row.
+ * The PATCH touches only the last_stop* columns and has its own collapse key,
+ * so a queued position upsert can never overwrite it (or vice versa).
+ */
+export async function publishStopEvent(ev: StopEventRow): Promise<void> {
+  await rest('stop_events', { method: 'POST', body: JSON.stringify(ev) }, {});
+  await rest(`driver_location?vehicle_id=eq.${encodeURIComponent(ev.vehicle_id)}`, {
+    method: 'PATCH',
+    body  : JSON.stringify({
+      last_stop      : ev.stop_name,
+      last_stop_event: ev.kind === 'arrive' ? 'arrived' : 'departed',
+      last_stop_at   : ev.at,
+      reversed       : ev.reversed,
+    }),
+  }, { collapseKey: `stop:${ev.vehicle_id}` });
+}
+
+export interface RouteDeviationRow {
+  id             : string;
+  trip_id        : string;
+  vehicle_id     : string;
+  bus_id         : number | null;
+  started_at     : string;
+  ended_at       : string | null;
+  duration_sec   : number;
+  distance_km    : number;
+  max_off_route_m: number;
+  start_lat      : number;
+  start_lon      : number;
+  end_lat        : number | null;
+  end_lon        : number | null;
+  corridor_m     : number;
+}
+
+/**
+ * publishDeviation — upserts the deviation log row (same id at start and end)
+ * and flags / clears off_route on the vehicle's live row. Like stop events,
+ * the PATCH has its own collapse key so position upserts never clobber it.
+ */
+export async function publishDeviation(dev: RouteDeviationRow): Promise<void> {
+  await rest('route_deviations?on_conflict=id', {
+    method : 'POST',
+    body   : JSON.stringify(dev),
+    headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+  }, { collapseKey: `dev:${dev.id}` });
+  const active = dev.ended_at === null;
+  await rest(`driver_location?vehicle_id=eq.${encodeURIComponent(dev.vehicle_id)}`, {
+    method: 'PATCH',
+    body  : JSON.stringify({
+      off_route      : active,
+      off_route_since: active ? dev.started_at : null,
+      off_route_m    : active ? dev.max_off_route_m : null,
+    }),
+  }, { collapseKey: `offroute:${dev.vehicle_id}` });
+}
+
+/** Admin deviation log, newest first — one route, or every route when busId is omitted. */
+export async function loadDeviations(busId?: number, limit = 100): Promise<RouteDeviationRow[]> {
+  const filter = busId !== undefined ? `bus_id=eq.${busId}&` : '';
+  return (await rest<RouteDeviationRow[]>(`route_deviations?${filter}select=*&order=started_at.desc&limit=${limit}`)) ?? [];
+}
+
+/** One recorded sharing session (trips_on_day() over trip_samples). */
+export interface TripSummaryRow {
+  trip_id    : string;
+  vehicle_id : string;
+  bus_id     : number | null;
+  day        : string;   // YYYY-MM-DD (IST)
+  started_at : string;
+  ended_at   : string;
+  samples    : number;
+  distance_km: number;
+}
+
+export interface TripSampleRow {
+  lat        : number;
+  lon        : number;
+  speed      : number | null;
+  heading    : number | null;
+  recorded_at: string;
+}
+
+const SAMPLE_PAGE = 1000; // PostgREST's default max-rows — a 3-hour trip is ~3600 fixes
+
+/** Trips for one route on one IST day (YYYY-MM-DD), newest first. */
+export async function loadTrips(busId: number, day: string): Promise<TripSummaryRow[]> {
+  return (await rest<TripSummaryRow[]>('rpc/trips_on_day', { method: 'POST', body: JSON.stringify({ p_bus: busId, p_day: day }) })) ?? [];
+}
+
+/** Every fix of a trip in time order, fetched page by page. */
+export async function loadTripSamples(tripId: string): Promise<TripSampleRow[]> {
+  const out: TripSampleRow[] = [];
+  for (let offset = 0; ; offset += SAMPLE_PAGE) {
+    const page = await rest<TripSampleRow[]>(`trip_samples?trip_id=eq.${encodeURIComponent(tripId)}&select=lat,lon,speed,heading,recorded_at&order=recorded_at&limit=${SAMPLE_PAGE}&offset=${offset}`);
+    if (!page) break;
+    out.push(...page);
+    if (page.length < SAMPLE_PAGE) break;
+  }
+  return out;
+}
+
+export async function loadTripStopEvents(tripId: string): Promise<StopEventRow[]> {
+  return (await rest<StopEventRow[]>(`stop_events?trip_id=eq.${encodeURIComponent(tripId)}&select=*&order=at`)) ?? [];
+}
+
+export interface ScheduledTripRow {
+  id      : number;
+  bus_id  : number;
+  reversed: boolean;
+  departs : number;   // minutes after midnight IST at the first stop
+  days    : number;   // weekday bitmask, Monday = 1 … Sunday = 64
+  note    : string | null;
+}
+
+export interface ServiceExceptionRow {
+  id    : number;
+  bus_id: number | null;   // null = every route
+  day   : string;          // YYYY-MM-DD
+  runs  : boolean;
+  note  : string | null;
+}
+
+/** Every route's scheduled trips (or one route's), in departure order. */
+export async function loadScheduledTrips(busId?: number): Promise<ScheduledTripRow[] | null> {
+  const filter = busId !== undefined ? `bus_id=eq.${busId}&` : '';
+  return rest<ScheduledTripRow[]>(`scheduled_trips?${filter}select=*&order=departs`);
+}
+
+export async function saveScheduledTrip(trip: Omit<ScheduledTripRow, 'id'>): Promise<ScheduledTripRow | null> {
+  const rows = await rest<ScheduledTripRow[]>('scheduled_trips', { method: 'POST', body: JSON.stringify(trip) });
+  return rows?.[0] ?? null;
+}
+
+export async function deleteScheduledTrip(id: number): Promise<boolean> {
+  return (await rest(`scheduled_trips?id=eq.${id}`, { method: 'DELETE' })) !== null;
+}
+
+/** Exceptions from `fromDay` (YYYY-MM-DD) on — past holidays no longer matter. */
+export async function loadServiceExceptions(fromDay: string): Promise<ServiceExceptionRow[] | null> {
+  return rest<ServiceExceptionRow[]>(`service_exceptions?day=gte.${fromDay}&select=*&order=day`);
+}
+
+export async function saveServiceException(ex: Omit<ServiceExceptionRow, 'id'>): Promise<ServiceExceptionRow | null> {
+  const rows = await rest<ServiceExceptionRow[]>('service_exceptions', { method: 'POST', body: JSON.stringify(ex) });
+  return rows?.[0] ?? null;
+}
+
+export async function deleteServiceException(id: number): Promise<boolean> {
+  return (await rest(`service_exceptions?id=eq.${id}`, { method: 'DELETE' })) !== null;
+}
+
+/**
+ * Learned stop-to-stop hop times (view over segment_traversals). Rows with
+ * `dow` null pool every weekday for that hour — used when one weekday alone
+ * has too few trips.
+ */
+export interface SegmentStatRow {
+  bus_id    : number;
+  seg_index : number;
+  reversed  : boolean;        // driven stops[seg_index + 1] → stops[seg_index] (return trip)
+  from_stop : string;
+  to_stop   : string;
+  dow       : number | null;  // ISO weekday, 1 = Monday (IST)
+  hour      : number;         // 0–23 (IST)
+  median_sec: number;
+  trips     : number;
+}
+
+export async function loadSegmentStats(busId: number): Promise<SegmentStatRow[]> {
+  return (await rest<SegmentStatRow[]>(`segment_time_stats?bus_id=eq.${busId}&select=*&order=seg_index,hour`)) ?? [];
+}
+
+export interface ProfileRow {
+  id          : string;
+  role        : 'passenger' | 'driver' | 'admin';
+  display_name: string | null;
+  vehicle_id  : string | null;
+}
+
+export async function loadProfile(userId: string): Promise<ProfileRow | null> {
+  const rows = await rest<ProfileRow[]>(`profiles?id=eq.${userId}&select=*`);
+  return rows?.[0] ?? null;
 }
 
 export async function loadSettings(): Promise<Record<string, string>> {
@@ -62,5 +567,25 @@ export async function loadSettings(): Promise<Record<string, string>> {
 }
 
 export async function saveSetting(key: string, value: string): Promise<void> {
-  await rest('settings', { method: 'POST', body: JSON.stringify({ key, value }), });
+  await rest('settings?on_conflict=key', {
+    method : 'POST',
+    body   : JSON.stringify({ key, value }),
+    headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+  }, { collapseKey: `setting:${key}` });
+}
+
+/**
+ * callFunction — invokes an edge function (GET without a body, else POST).
+ * Null on any failure, like the REST helpers.
+ */
+export async function callFunction<T>(name: string, body?: unknown): Promise<T | null> {
+  if (!_url || !_key) return null;
+  try {
+    const r = await fetch(`${_url}/functions/v1/${name}`, {
+      method : body === undefined ? 'GET' : 'POST',
+      headers: headers(),
+      body   : body === undefined ? undefined : JSON.stringify(body),
+    });
+    return r.ok ? await r.json() as T : null;
+  } catch { return null; }
 }
@@ -0,0 +1,55 @@
+/**
+ * travelTimeModel.ts — Historical stop-to-stop times by weekday + hour
+ *
+ * ⚡ The learning happens in Postgres (migration 20261019000400_trip_history):
+ *    finished trips become hop times, and `segment_time_stats` serves medians
+ *    per direction (20261019001500_segment_direction).
+ *    This module only fetches those medians once per route and picks the
+ *    right one for "now".
+ *
+ * Lookup, most specific first (each needs MIN_TRIPS trips behind it):
+ *   1. same weekday + same hour     — "Monday 9am"
+ *   2. any weekday  + same hour     — "9am"
+ *   3. nothing                       — caller falls back to OSRM durations
+ */
+import { loadSegmentStats } from './supabaseService';
+import type { SegmentStatRow } from './supabaseService';
+
+export interface HistoricalHop {
+  sec  : number;
+  trips: number;
+  scope: 'weekday' | 'hour';
+}
+
+export const MIN_TRIPS = 5;
+const STATS_TTL_MS     = 30 * 60_000; // medians move slowly; refresh twice an hour
+
+const _stats = new Map<number, { rows: SegmentStatRow[]; at: number }>();
+
+/** Medians for one route, cached in memory for STATS_TTL_MS. */
+export async function loadTravelTimes(busId: number): Promise<SegmentStatRow[]> {
+  const hit = _stats.get(busId);
+  if (hit && Date.now() - hit.at < STATS_TTL_MS) return hit.rows;
+  const rows = await loadSegmentStats(busId);
+  _stats.set(busId, { rows, at: Date.now() });
+  return rows;
+}
+
+/** Weekday (ISO, 1 = Monday) and hour in IST — the same buckets the DB uses. */
+export function istBucket(when: Date): { dow: number; hour: number } {
+  const ist = new Date(when.getTime() + 330 * 60_000); // UTC+5:30, no DST
+  return { dow: ist.getUTCDay() || 7, hour: ist.getUTCHours() };
+}
+
+/**
+ * Historical time for hop `segIndex` — stops[segIndex] → stops[segIndex + 1],
+ * or back the other way when `reversed` (the return trip) — or null.
+ */
+export function historicalHop(rows: SegmentStatRow[], segIndex: number, when = new Date(), reversed = false): HistoricalHop | null {
+  const { dow, hour } = istBucket(when);
+  const seg = rows.filter(r => r.seg_index === segIndex && r.reversed === reversed && r.hour === hour && r.trips >= MIN_TRIPS);
+  const day = seg.find(r => r.dow === dow);
+  if (day) return { sec: day.median_sec, trips: day.trips, scope: 'weekday' };
+  const any = seg.find(r => r.dow === null);
+  return any ? { sec: any.median_sec, trips: any.trips, scope: 'hour' } : null;
+}
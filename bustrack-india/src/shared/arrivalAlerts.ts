@@ -0,0 +1,55 @@
+/**
+ * arrivalAlerts.ts — When an arrival alert is due, and what it says
+ *
+ * ⚡ Pure TypeScript, no DOM / Deno APIs — the page checks alerts on every
+ *    live update of the bus it is tracking (Notification API), and the
+ *    push-alerts edge function checks the same rules every minute for
+ *    passengers who closed the tab (Web Push). Same rule, same wording, and
+ *    the same notification tag so a passenger never gets both.
+ *
+ *   approach     waiting at a stop: "Bus X is 5 min from Salem"
+ *   destination  riding the bus: "Get ready — Salem in 5 min"
+ *
+ * An alert fires once, when the bus is within `minutes` OR `km` of the stop.
+ * Thresholds outside ALERT_MINUTES / ALERT_KM are refused by both.
+ */
+
+export type AlertKind = 'approach' | 'destination';
+
+export interface AlertRule {
+  kind    : AlertKind;
+  busName : string;
+  stopName: string;
+  minutes : number | null;
+  km      : number | null;
+}
+
+export interface AlertMessage { title: string; body: string }
+
+export const ALERT_MINUTES = { min: 1,   max: 120 };
+export const ALERT_KM      = { min: 0.1, max: 50 };
+
+/** At least one threshold, and each one given within its range. */
+export function validAlertThresholds(minutes: number | null, km: number | null): boolean {
+  const within = (v: number | null, r: { min: number; max: number }) =>
+    v === null || (Number.isFinite(v) && v >= r.min && v <= r.max);
+  return (minutes !== null || km !== null) && within(minutes, ALERT_MINUTES) && within(km, ALERT_KM);
+}
+
+export function alertDue(rule: AlertRule, eta: { km: number; etaSec: number }): boolean {
+  return (rule.minutes !== null && eta.etaSec <= rule.minutes * 60)
+      || (rule.km !== null && eta.km <= rule.km);
+}
+
+export function alertMessage(rule: AlertRule, eta: { km: number; etaSec: number }): AlertMessage {
+  const min  = Math.round(eta.etaSec / 60);
+  const away = min < 1 ? 'arriving now' : `${min} min (${eta.km.toFixed(1)} km) away`;
+  return rule.kind === 'destination'
+    ? { title: `🔔 Get ready — ${rule.stopName}`, body: `Your stop is ${away}. ${rule.busName}` }
+    : { title: `🚌 ${rule.busName}`, body: `${min < 1 ? 'Arriving at' : `${min} min from`} ${rule.stopName} (${eta.km.toFixed(1)} km)` };
+}
+
+/** Notification tag — the page and the push share it, so the OS shows one. */
+export function alertTag(id: number | string): string {
+  return `arrival-alert-${id}`;
+}
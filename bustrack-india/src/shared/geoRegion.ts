@@ -0,0 +1,107 @@
+/**
+ * geoRegion.ts — Geocoding region config shared by the client and the edge resolver
+ *
+ * ⚡ Pure TypeScript, no DOM / Deno APIs — imported by services/geoValidator.ts
+ *    and by supabase/functions/route-resolver so both geocode a stop the same way.
+ *
+ * Resolution order (most specific wins):
+ *   route.region  →  deployment `geo_region` setting  →  DEFAULT_REGION
+ * `district` and `viewbox` describe one area and travel together: a level that
+ * sets either, or moves to another state / country, replaces both — a Kerala
+ * route never inherits the Tamil Nadu box.
+ *
+ * ⚡ A viewbox turns "Kollam" from a coin toss between Kerala and Tamil Nadu
+ *    into a deterministic hit: region queries are sent with `bounded=1`, and
+ *    only the last-resort "<name> India" query may land outside the box.
+ */
+
+export interface GeoRegion {
+  state?   : string;
+  district?: string;
+  country? : string;                            // ISO 3166-1 alpha-2, lower case
+  viewbox? : [number, number, number, number];  // [minLon, minLat, maxLon, maxLat]
+}
+
+export interface RegionQuery {
+  q     : string;
+  params: string; // extra Nominatim query-string parameters, already encoded
+}
+
+export const DEFAULT_REGION: GeoRegion = {
+  state  : 'Tamil Nadu',
+  country: 'in',
+  viewbox: [76.2, 8.0, 80.4, 13.6],
+};
+
+/** Ready-made regions for the states we operate in — pick one in the admin panel. */
+export const REGION_PRESETS: Record<string, GeoRegion> = {
+  'Tamil Nadu': DEFAULT_REGION,
+  'Karnataka' : { state: 'Karnataka', country: 'in', viewbox: [74.0, 11.5, 78.6, 18.5] },
+  'Kerala'    : { state: 'Kerala',    country: 'in', viewbox: [74.8, 8.2, 77.5, 12.8] },
+  'Puducherry': { state: 'Puducherry', country: 'in', viewbox: [79.6, 10.8, 79.9, 12.1] },
+};
+
+/** Merges route → deployment → default; see the header for district / viewbox. */
+export function resolveRegion(deployment?: GeoRegion | null, route?: GeoRegion | null): GeoRegion {
+  return overlay(overlay(DEFAULT_REGION, deployment), route);
+}
+
+/** Parses a stored region (settings value or JSONB column); null if malformed. */
+export function parseRegion(raw: unknown): GeoRegion | null {
+  let v: any = raw;
+  if (typeof raw === 'string') {
+    if (REGION_PRESETS[raw]) return REGION_PRESETS[raw];
+    try { v = JSON.parse(raw); } catch { return null; }
+  }
+  if (!v || typeof v !== 'object') return null;
+  const region: GeoRegion = {};
+  if (typeof v.state === 'string')    region.state    = v.state;
+  if (typeof v.district === 'string') region.district = v.district;
+  if (typeof v.country === 'string')  region.country  = v.country.toLowerCase();
+  if (Array.isArray(v.viewbox) && v.viewbox.length === 4 && v.viewbox.every((n: unknown) => typeof n === 'number')) {
+    region.viewbox = v.viewbox as GeoRegion['viewbox'];
+  }
+  return region;
+}
+
+/** Stable short string for cache keys — same region, same key. */
+export function regionKey(region: GeoRegion): string {
+  return [region.country, region.state, region.district, region.viewbox?.join(',')].map(v => v ?? '').join('|');
+}
+
+/**
+ * regionQueries — Nominatim queries from most to least specific.
+ * `name` should already be normalised ("Salem New Bus Stand" → "Salem bus stand").
+ */
+export function regionQueries(name: string, region: GeoRegion): RegionQuery[] {
+  const base    = region.country ? `countrycodes=${encodeURIComponent(region.country)}` : '';
+  const viewbox = region.viewbox ? `viewbox=${region.viewbox.join(',')}` : '';
+  const bounded = [base, viewbox, viewbox ? 'bounded=1' : ''].filter(Boolean).join('&');
+  const biased  = [base, viewbox].filter(Boolean).join('&');
+
+  const place = [region.district, region.state].filter(Boolean).join(', ');
+  const queries: RegionQuery[] = [];
+  if (region.district) queries.push({ q: `${name} bus stand ${place} India`, params: bounded });
+  if (region.state)    queries.push({ q: `${name} bus stand ${region.state} India`, params: bounded });
+  queries.push({ q: `${name} bus stand India`, params: bounded });
+  queries.push({ q: `${name} India`, params: biased }); // last resort — may fall outside the box
+  return queries;
+}
+
+function overlay(base: GeoRegion, r?: GeoRegion | null): GeoRegion {
+  const top    = stripEmpty(r);
+  const moved  = (top.state !== undefined && top.state !== base.state) || (top.country !== undefined && top.country !== base.country);
+  const merged = { ...base, ...top };
+  if (moved || top.district !== undefined || top.viewbox !== undefined) {
+    delete merged.district;
+    delete merged.viewbox;
+    if (top.district) merged.district = top.district;
+    if (top.viewbox)  merged.viewbox  = top.viewbox;
+  }
+  return merged;
+}
+
+function stripEmpty(r?: GeoRegion | null): GeoRegion {
+  if (!r) return {};
+  return Object.fromEntries(Object.entries(r).filter(([, v]) => v !== undefined && v !== null && v !== '')) as GeoRegion;
+}
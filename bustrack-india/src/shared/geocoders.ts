@@ -0,0 +1,250 @@
+/**
+ * geocoders.ts — Pluggable geocoder providers (shared by client + edge resolver)
+ *
+ * ⚡ Providers, tried in order — first one with a hit wins:
+ *    1. Local gazetteer  — CSV / GeoJSON of known bus stands + local aliases
+ *                          ("Mofussil", "Central", "Thiruvalluvar BS"). Zero network.
+ *    2. Nominatim        — public or self-hosted (just a different base URL).
+ *    3. Photon           — self-hosted Photon (komoot) instance.
+ *
+ * ⚡ Pure TypeScript + fetch() — no DOM or Deno APIs, so the edge function and
+ *    the browser resolve a stop to the same coordinates.
+ */
+import { regionQueries } from './geoRegion.ts';
+import type { GeoRegion } from './geoRegion.ts';
+
+export interface GeocodeHit {
+  lat      : number;
+  lon      : number;
+  corrected: string;
+  source   : string;   // provider name — shown to admins when reviewing stops
+}
+
+export interface Geocoder {
+  readonly name: string;
+  /** Candidates for one stop, best first; [] when nothing matched. */
+  search(name: string, region: GeoRegion): Promise<GeocodeHit[]>;
+}
+
+/**
+ * One stop's stored coordinate (buses.stop_coords[i]). `confirmed` means an
+ * admin placed or approved it on the map — neither the client nor the edge
+ * resolver will ever re-geocode a confirmed stop.
+ */
+export interface StopCoord {
+  lat       : number;
+  lon       : number;
+  confirmed?: boolean;
+  source?   : string;
+}
+
+export interface GazetteerEntry {
+  name    : string;
+  lat     : number;
+  lon     : number;
+  aliases : string[];
+  district?: string;
+  state?  : string;
+}
+
+export const PUBLIC_NOMINATIM = 'https://nominatim.openstreetmap.org';
+
+// ── Name normalisation ────────────────────────────────────────────────────────
+
+/** "Salem  New Bus Stop" → "Salem bus stand" — the form sent to remote geocoders. */
+export function normalizeStopName(raw: string): string {
+  return raw.trim()
+    .replace(/\s+/g, ' ')
+    .replace(/\b(old|new)\s+bus\s*st(?:and|op)?\b/i, 'bus stand')
+    .replace(/\bbus\s*st(?:and|op)?\b/i, 'bus stand');
+}
+
+/** Loose match key for gazetteer lookups: lower case, no "bus stand"/punctuation. */
+function matchKey(raw: string): string {
+  return raw.toLowerCase()
+    .replace(/\b(old|new|central|main)?\s*bus\s*(st(and|op)?|terminus|depot|bs)\b/g, '')
+    .replace(/\bbs\b/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function inViewbox(lat: number, lon: number, region: GeoRegion): boolean {
+  const vb = region.viewbox;
+  return !vb || (lon >= vb[0] && lon <= vb[2] && lat >= vb[1] && lat <= vb[3]);
+}
+
+// ── Gazetteer ─────────────────────────────────────────────────────────────────
+
+/**
+ * parseGazetteerCsv — header row required; columns (any order):
+ *   name, lat, lon, aliases (pipe-separated), district, state
+ */
+export function parseGazetteerCsv(text: string): GazetteerEntry[] {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() && !l.startsWith('#'));
+  if (!lines.length) return [];
+  const head = splitCsvLine(lines[0]).map(h => h.trim().toLowerCase());
+  const col  = (row: string[], name: string) => { const i = head.indexOf(name); return i >= 0 ? (row[i] ?? '').trim() : ''; };
+
+  return lines.slice(1).map(l => {
+    const row = splitCsvLine(l);
+    return {
+      name    : col(row, 'name'),
+      lat     : parseFloat(col(row, 'lat')),
+      lon     : parseFloat(col(row, 'lon')),
+      aliases : col(row, 'aliases').split('|').map(a => a.trim()).filter(Boolean),
+      district: col(row, 'district') || undefined,
+      state   : col(row, 'state') || undefined,
+    };
+  }).filter(e => e.name && isFinite(e.lat) && isFinite(e.lon));
+}
+
+/** parseGazetteerGeoJson — Point features; properties.name / aliases / district / state. */
+export function parseGazetteerGeoJson(json: any): GazetteerEntry[] {
+  const features: any[] = json?.type === 'FeatureCollection' ? json.features ?? [] : [];
+  return features
+    .filter(f => f?.geometry?.type === 'Point' && f.properties?.name)
+    .map(f => {
+      const aliases = f.properties.aliases;
+      return {
+        name    : String(f.properties.name),
+        lon     : +f.geometry.coordinates[0],
+        lat     : +f.geometry.coordinates[1],
+        aliases : Array.isArray(aliases) ? aliases.map(String) : typeof aliases === 'string' ? aliases.split('|').map(a => a.trim()).filter(Boolean) : [],
+        district: f.properties.district,
+        state   : f.properties.state,
+      };
+    })
+    .filter(e => isFinite(e.lat) && isFinite(e.lon));
+}
+
+/** Picks CSV or GeoJSON parsing from the file name / content. */
+export function parseGazetteer(text: string, fileName = ''): GazetteerEntry[] {
+  const looksJson = /\.(geo)?json$/i.test(fileName) || text.trimStart().startsWith('{');
+  if (!looksJson) return parseGazetteerCsv(text);
+  try { return parseGazetteerGeoJson(JSON.parse(text)); } catch { return []; }
+}
+
+export function gazetteerGeocoder(entries: GazetteerEntry[]): Geocoder {
+  // ⚡ Index once: every name and alias → entries, so lookup is O(1)
+  const index = new Map<string, GazetteerEntry[]>();
+  for (const e of entries) {
+    for (const n of [e.name, ...e.aliases]) {
+      const k = matchKey(n);
+      if (!k) continue;
+      if (!index.has(k)) index.set(k, []);
+      index.get(k)!.push(e);
+    }
+  }
+
+  return {
+    name: 'gazetteer',
+    async search(name, region) {
+      const found = index.get(matchKey(name)) ?? [];
+      return found
+        .filter(e => inViewbox(e.lat, e.lon, region))
+        .filter(e => !region.state || !e.state || e.state.toLowerCase() === region.state.toLowerCase())
+        .map(e => ({ lat: e.lat, lon: e.lon, corrected: e.name, source: 'gazetteer' }));
+    },
+  };
+}
+
+// ── Nominatim (public or self-hosted) ─────────────────────────────────────────
+
+export function nominatimGeocoder(opts: { baseUrl?: string; userAgent?: string; rateLimitMs?: number } = {}): Geocoder {
+  const base = (opts.baseUrl ?? PUBLIC_NOMINATIM).replace(/\/$/, '');
+  // Public instance: 1 req/s usage policy. Self-hosted: no throttle unless asked.
+  const wait = opts.rateLimitMs ?? (base === PUBLIC_NOMINATIM ? 250 : 0);
+  const name = base === PUBLIC_NOMINATIM ? 'nominatim' : `nominatim@${base}`;
+
+  return {
+    name,
+    async search(stop, region) {
+      for (const { q, params } of regionQueries(stop, region)) {
+        if (wait) await new Promise(r => setTimeout(r, wait));
+        const url = `${base}/search?q=${encodeURIComponent(q)}&format=json&namedetails=1&limit=3${params ? '&' + params : ''}`;
+        const results: any[] = await fetch(url, { headers: { 'User-Agent': opts.userAgent ?? 'BusTrackIndia/4.0', 'Accept-Language': 'en' } })
+          .then(r => r.json()).catch(() => []);
+        if (!Array.isArray(results) || !results.length) continue;
+        return results.map(r => {
+          const nd = r.namedetails || {};
+          return {
+            lat      : +r.lat,
+            lon      : +r.lon,
+            corrected: nd['name'] || nd['name:en'] || String(r.display_name).split(',')[0].trim(),
+            source   : name,
+          };
+        });
+      }
+      return [];
+    },
+  };
+}
+
+// ── Photon (self-hosted) ──────────────────────────────────────────────────────
+
+export function photonGeocoder(opts: { baseUrl: string }): Geocoder {
+  const base = opts.baseUrl.replace(/\/$/, '');
+  return {
+    name: `photon@${base}`,
+    async search(stop, region) {
+      const bbox = region.viewbox ? `&bbox=${region.viewbox.join(',')}` : '';
+      const q    = [`${stop} bus stand`, region.district, region.state].filter(Boolean).join(' ');
+      const json: any = await fetch(`${base}/api?q=${encodeURIComponent(q)}&limit=3&lang=en${bbox}`)
+        .then(r => r.json()).catch(() => null);
+      return (json?.features ?? []).map((f: any) => ({
+        lat      : +f.geometry.coordinates[1],
+        lon      : +f.geometry.coordinates[0],
+        corrected: f.properties?.name ?? stop,
+        source   : `photon@${base}`,
+      }));
+    },
+  };
+}
+
+// ── Composition ───────────────────────────────────────────────────────────────
+
+/** chainGeocoders — asks each provider in turn; the first non-empty answer wins. */
+export function chainGeocoders(providers: Geocoder[]): Geocoder {
+  return {
+    name: providers.map(p => p.name).join(' → '),
+    async search(stop, region) {
+      for (const p of providers) {
+        const hits = await p.search(stop, region).catch(() => []);
+        if (hits.length) return hits;
+      }
+      return [];
+    },
+  };
+}
+
+/**
+ * geocoderFromSpec — builds a provider from a config string:
+ *   "nominatim"                         public Nominatim
+ *   "nominatim:https://geo.example.in"  self-hosted Nominatim
+ *   "photon:https://photon.example.in"  self-hosted Photon
+ */
+export function geocoderFromSpec(spec: string | null | undefined, userAgent?: string): Geocoder {
+  const [kind, ...rest] = (spec ?? 'nominatim').trim().split(':');
+  const url = rest.join(':');
+  if (kind === 'photon' && url) return photonGeocoder({ baseUrl: url });
+  return nominatimGeocoder({ baseUrl: url || undefined, userAgent });
+}
+
+// ── Utility ───────────────────────────────────────────────────────────────────
+
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = '', quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { out.push(cur); cur = ''; }
+    else cur += ch;
+  }
+  out.push(cur);
+  return out;
+}
@@ -0,0 +1,316 @@
+/**
+ * gtfs.ts — GTFS static feed import / export
+ *
+ * ⚡ Pure TypeScript, no DOM / Deno APIs — the admin panel imports feeds in
+ *    the browser, and edge functions can build the same feed server-side.
+ *
+ * A SavedBus is one stop sequence, so GTFS maps onto it like this:
+ *
+ *   import  one bus per GTFS route, taken from its representative trip (the
+ *           direction-0 trip with the most stops). Stop coordinates come from
+ *           stops.txt — marked `confirmed`, so they are never re-geocoded —
+ *           and the trip's shape (if any) replaces the OSRM road geometry.
+ *   export  one route per bus. A route with a timetable (shared/timetable.ts)
+ *           gets one trip per scheduled departure, on a calendar per set of
+ *           weekdays plus calendar_dates for holidays; stop times come from
+ *           its stop offsets. A route without one gets an outbound and a
+ *           return trip at 00:00 on an every-day service, timed from the
+ *           route's leg durations and flagged timepoint=0 (approximate).
+ *           Shapes are the imported or cached OSRM geometry.
+ *
+ * Only the files listed in REQUIRED / optional shapes.txt are read; the
+ * rest of a feed (fares, transfers, frequencies…) is ignored.
+ */
+import { readZip, writeZip } from './zip.ts';
+import type { StopCoord } from './geocoders.ts';
+import { tripOffsets, weekdayBit } from './timetable.ts';
+import type { ScheduledTrip, ServiceException } from './timetable.ts';
+
+export type GtfsRecord = Record<string, string>;
+
+export interface GtfsRoute {
+  gtfsRouteId: string;
+  name       : string;
+  stops      : string[];
+  stopCoords : StopCoord[];
+  shape      : [number, number][] | null;   // [lat, lon]
+}
+
+export interface GtfsImport {
+  routes  : GtfsRoute[];
+  warnings: string[];
+}
+
+export interface GtfsExportRoute {
+  id         : number;
+  name       : string;
+  stops      : string[];
+  stopCoords : Array<StopCoord | null>;
+  shape?     : [number, number][] | null;   // [lat, lon]
+  legSeconds?: number[];                     // running time between consecutive LOCATED stops (OSRM legs)
+  offsets?   : Array<number | null> | null;  // timetable minutes from the first stop, per saved stop
+  timetable? : ScheduledTrip[];
+}
+
+export interface GtfsAgency {
+  name    : string;
+  url     : string;
+  timezone: string;   // e.g. Asia/Kolkata
+  lang?   : string;
+}
+
+const REQUIRED   = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+const BUS_TYPES  = new Set(['3', '700', '701', '702', '704', '711', '712', '715']);
+const FALLBACK_KMH = 30;
+
+// ── CSV (RFC 4180) ────────────────────────────────────────────────────────────
+
+/** Parses CSV with a header row into records keyed by column name. Quoted fields may contain commas, quotes and newlines. */
+export function parseCsv(text: string): GtfsRecord[] {
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f !== '')) rows.push(row);
+      row = [];
+    } else field += c;
+  }
+  row.push(field);
+  if (row.some(f => f !== '')) rows.push(row);
+  if (!rows.length) return [];
+
+  const head = rows[0].map(h => h.trim());
+  return rows.slice(1).map(r => Object.fromEntries(head.map((h, i) => [h, (r[i] ?? '').trim()])));
+}
+
+function csvField(v: string | number): string {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Serialises records with the given column order (CRLF line endings, as the spec recommends). */
+export function toCsv(columns: string[], rows: Array<Record<string, string | number>>): string {
+  return [columns.join(','), ...rows.map(r => columns.map(c => csvField(r[c] ?? '')).join(','))].join('\r\n') + '\r\n';
+}
+
+// ── Import ────────────────────────────────────────────────────────────────────
+
+/** parseGtfs — feed files (name → text) into one route per GTFS bus route. */
+export function parseGtfs(files: Record<string, string>): GtfsImport {
+  const warnings: string[] = [];
+  const missing = REQUIRED.filter(f => !(f in files));
+  if (missing.length) return { routes: [], warnings: [`Missing ${missing.join(', ')}`] };
+
+  const stops = new Map(parseCsv(files['stops.txt']).map(s => [s.stop_id, s]));
+  const routes = parseCsv(files['routes.txt']);
+  const trips  = parseCsv(files['trips.txt']);
+
+  // stop_times grouped per trip, in stop_sequence order
+  const times = new Map<string, GtfsRecord[]>();
+  for (const st of parseCsv(files['stop_times.txt'])) {
+    if (!times.has(st.trip_id)) times.set(st.trip_id, []);
+    times.get(st.trip_id)!.push(st);
+  }
+  times.forEach(list => list.sort((a, b) => +a.stop_sequence - +b.stop_sequence));
+
+  const shapes = new Map<string, Array<{ seq: number; pt: [number, number] }>>();
+  for (const p of files['shapes.txt'] ? parseCsv(files['shapes.txt']) : []) {
+    if (!shapes.has(p.shape_id)) shapes.set(p.shape_id, []);
+    shapes.get(p.shape_id)!.push({ seq: +p.shape_pt_sequence, pt: [+p.shape_pt_lat, +p.shape_pt_lon] });
+  }
+
+  const out: GtfsRoute[] = [];
+  for (const r of routes) {
+    const name = [r.route_short_name, r.route_long_name].filter(Boolean).join(' ') || r.route_id;
+    if (r.route_type && !BUS_TYPES.has(r.route_type)) { warnings.push(`${name}: not a bus route (type ${r.route_type}) — skipped`); continue; }
+
+    // Representative trip: direction 0 preferred, then the most stops
+    const candidates = trips.filter(t => t.route_id === r.route_id && times.has(t.trip_id));
+    const trip = candidates.sort((a, b) =>
+      (+(a.direction_id === '1') - +(b.direction_id === '1')) || times.get(b.trip_id)!.length - times.get(a.trip_id)!.length)[0];
+    if (!trip) { warnings.push(`${name}: no trips with stop times — skipped`); continue; }
+
+    const seq = times.get(trip.trip_id)!
+      .map(st => stops.get(st.stop_id))
+      .filter((s): s is GtfsRecord => !!s && isFinite(parseFloat(s.stop_lat)) && isFinite(parseFloat(s.stop_lon)));
+    if (seq.length < 2) { warnings.push(`${name}: fewer than 2 located stops — skipped`); continue; }
+
+    const pts = trip.shape_id ? shapes.get(trip.shape_id) : undefined;
+    if (trip.shape_id && !pts) warnings.push(`${name}: shape ${trip.shape_id} not in shapes.txt — OSRM will be used`);
+
+    out.push({
+      gtfsRouteId: r.route_id,
+      name,
+      stops      : seq.map(s => s.stop_name || s.stop_id),
+      stopCoords : seq.map(s => ({ lat: +s.stop_lat, lon: +s.stop_lon, confirmed: true, source: 'gtfs' })),
+      shape      : pts && pts.length >= 2 ? pts.sort((a, b) => a.seq - b.seq).map(p => p.pt) : null,
+    });
+  }
+  return { routes: out, warnings };
+}
+
+/** readGtfsZip — unzips a feed (files may sit in one sub-folder) and parses it. */
+export async function readGtfsZip(bytes: Uint8Array): Promise<GtfsImport> {
+  const zip = await readZip(bytes);
+  if (!zip) return { routes: [], warnings: ['Not a ZIP file'] };
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  for (const [path, data] of Object.entries(zip.files)) {
+    const base = path.split('/').pop()!;
+    if (base.endsWith('.txt')) files[base] = decoder.decode(data);
+  }
+  // A file that would not inflate is an import error, not an empty table
+  const broken = zip.unreadable.filter(path => path.endsWith('.txt')).map(path => `Could not unzip ${path.split('/').pop()} (corrupt or unsupported compression)`);
+  const res    = parseGtfs(files);
+  return { routes: res.routes, warnings: [...broken, ...res.warnings] };
+}
+
+// ── Export ────────────────────────────────────────────────────────────────────
+
+function haversineKm(a: [number, number], b: [number, number]): number {
+  const dLat = (b[0] - a[0]) * Math.PI / 180;
+  const dLon = (b[1] - a[1]) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a[0] * Math.PI / 180) * Math.cos(b[0] * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/** Seconds → GTFS "HH:MM:SS" (hours may exceed 24 for after-midnight service). */
+export function gtfsTime(sec: number): string {
+  const s = Math.max(0, Math.round(sec));
+  return [Math.floor(s / 3600), Math.floor(s / 60) % 60, s % 60].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * GTFS ids for a bus — shared by this static export and the realtime feed
+ * (shared/gtfsRealtime.ts), so consumers can join live data to the schedule.
+ * Stop ids come from name + position, so routes sharing a stand share the stop.
+ */
+export const gtfsIds = {
+  route    : (busId: number) => `R${busId}`,
+  trip     : (busId: number, reversed = false) => `T${busId}${reversed ? 'R' : ''}`,
+  scheduled: (tripId: number) => `ST${tripId}`,          // a timetabled departure (scheduled_trips.id)
+  service  : (busId: number, days: number) => `C${busId}-${days}`,
+  shape    : (busId: number, reversed = false) => `S${busId}${reversed ? 'R' : ''}`,
+  stop (name: string, c: { lat: number; lon: number }): string {
+    const slug = name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'stop';
+    return `${slug}-${c.lat.toFixed(4)}-${c.lon.toFixed(4)}`;
+  },
+};
+
+const CALENDAR_COLS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/**
+ * buildGtfs — feed files (name → CSV text) for the given routes, in both
+ * directions, since buses reverse at the terminus. Stops without coordinates
+ * can't be expressed in GTFS and are left out of the trips.
+ * `today` (YYYYMMDD) starts the one-year calendar; `exceptions` become
+ * calendar_dates.txt for timetabled routes.
+ */
+export function buildGtfs(routes: GtfsExportRoute[], agency: GtfsAgency, today: string, exceptions: ServiceException[] = []): Record<string, string> {
+  const stops = new Map<string, Record<string, string | number>>();
+  const routeRows: Array<Record<string, string | number>> = [];
+  const tripRows : Array<Record<string, string | number>> = [];
+  const timeRows : Array<Record<string, string | number>> = [];
+  const shapeRows: Array<Record<string, string | number>> = [];
+  const services = new Map<string, { busId: number | null; days: number }>();
+
+  for (const r of routes) {
+    const seq = r.stops
+      .map((name, i) => ({ name, c: r.stopCoords[i], index: i }))
+      .filter((s): s is { name: string; c: StopCoord; index: number } => !!s.c);
+    if (seq.length < 2) continue;
+
+    // Name as the long name only, so re-importing the feed gives back the same name
+    routeRows.push({ route_id: gtfsIds.route(r.id), agency_id: 'A1', route_short_name: '', route_long_name: r.name, route_type: 3 });
+
+    for (const reversed of [false, true]) {
+      const dirSeq = reversed ? [...seq].reverse() : seq;
+      const shape  = r.shape && r.shape.length >= 2 ? (reversed ? [...r.shape].reverse() : r.shape) : null;
+      const legs   = reversed ? r.legSeconds && [...r.legSeconds].reverse() : r.legSeconds;
+      const shapeId = gtfsIds.shape(r.id, reversed);
+
+      // Seconds from the first stop: the timetable's offsets when every stop has one, else leg durations
+      const timed = tripOffsets(r.offsets, r.stops.length, reversed);
+      const exact = dirSeq.every(s => typeof timed[s.index] === 'number');
+      let t = 0;
+      const run = dirSeq.map((s, i) => {
+        if (exact) return timed[s.index]! * 60;
+        // No leg time → straight line with a typical road detour factor, at FALLBACK_KMH
+        const leg = i ? legs?.[i - 1] : 0;
+        if (i) t += leg && leg > 0 ? leg : haversineKm([dirSeq[i - 1].c.lat, dirSeq[i - 1].c.lon], [s.c.lat, s.c.lon]) * 1.3 / FALLBACK_KMH * 3600;
+        return t;
+      });
+
+      const trips = r.timetable?.length
+        ? r.timetable.filter(tt => tt.reversed === reversed).map(tt => ({ id: gtfsIds.scheduled(tt.id), service: gtfsIds.service(r.id, tt.days), busId: r.id, days: tt.days, start: tt.departs * 60 }))
+        : [{ id: gtfsIds.trip(r.id, reversed), service: 'DAILY', busId: null, days: 127, start: 0 }];
+      if (!trips.length) continue;
+
+      let km = 0;
+      shape?.forEach((pt, i) => {
+        if (i) km += haversineKm(shape[i - 1], pt);
+        shapeRows.push({ shape_id: shapeId, shape_pt_lat: pt[0].toFixed(6), shape_pt_lon: pt[1].toFixed(6), shape_pt_sequence: i + 1, shape_dist_traveled: km.toFixed(3) });
+      });
+
+      for (const trip of trips) {
+        services.set(trip.service, { busId: trip.busId, days: trip.days });
+        tripRows.push({ route_id: gtfsIds.route(r.id), service_id: trip.service, trip_id: trip.id, trip_headsign: dirSeq[dirSeq.length - 1].name, direction_id: reversed ? 1 : 0, shape_id: shape ? shapeId : '' });
+        dirSeq.forEach((s, i) => {
+          const id = gtfsIds.stop(s.name, s.c);
+          if (!stops.has(id)) stops.set(id, { stop_id: id, stop_name: s.name, stop_lat: s.c.lat.toFixed(6), stop_lon: s.c.lon.toFixed(6) });
+          const at = gtfsTime(trip.start + run[i]);
+          timeRows.push({ trip_id: trip.id, arrival_time: at, departure_time: at, stop_id: id, stop_sequence: i + 1, timepoint: exact ? 1 : 0 });
+        });
+      }
+    }
+  }
+
+  const end = `${+today.slice(0, 4) + 1}${today.slice(4)}`;
+  const calendar = [...services].map(([id, sv]) => ({
+    service_id: id,
+    ...Object.fromEntries(CALENDAR_COLS.map((col, i) => [col, sv.days & (1 << i) ? 1 : 0])),
+    start_date: today,
+    end_date  : end,
+  }));
+  // A route's own exception wins over an all-routes one on the same day
+  const dates: Array<Record<string, string | number>> = [];
+  for (const [id, sv] of services) {
+    if (sv.busId === null) continue;
+    const days = new Set(exceptions.filter(e => e.busId === sv.busId || e.busId === null).map(e => e.day));
+    for (const day of days) {
+      const ex = exceptions.find(e => e.day === day && e.busId === sv.busId) ?? exceptions.find(e => e.day === day && e.busId === null)!;
+      const scheduled = (sv.days & weekdayBit(day)) !== 0;
+      const compact = day.replace(/-/g, '');
+      if (ex.runs !== scheduled && compact >= today && compact <= end) dates.push({ service_id: id, date: compact, exception_type: ex.runs ? 1 : 2 });
+    }
+  }
+
+  const files: Record<string, string> = {
+    'agency.txt'    : toCsv(['agency_id', 'agency_name', 'agency_url', 'agency_timezone', 'agency_lang'],
+                            [{ agency_id: 'A1', agency_name: agency.name, agency_url: agency.url, agency_timezone: agency.timezone, agency_lang: agency.lang ?? 'en' }]),
+    'stops.txt'     : toCsv(['stop_id', 'stop_name', 'stop_lat', 'stop_lon'], [...stops.values()]),
+    'routes.txt'    : toCsv(['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_type'], routeRows),
+    'trips.txt'     : toCsv(['route_id', 'service_id', 'trip_id', 'trip_headsign', 'direction_id', 'shape_id'], tripRows),
+    'stop_times.txt': toCsv(['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence', 'timepoint'], timeRows),
+    'calendar.txt'  : toCsv(['service_id', ...CALENDAR_COLS, 'start_date', 'end_date'], calendar),
+  };
+  if (dates.length) files['calendar_dates.txt'] = toCsv(['service_id', 'date', 'exception_type'], dates);
+  if (shapeRows.length) files['shapes.txt'] = toCsv(['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence', 'shape_dist_traveled'], shapeRows);
+  return files;
+}
+
+/** writeGtfsZip — buildGtfs packed as a feed ZIP. */
+export function writeGtfsZip(routes: GtfsExportRoute[], agency: GtfsAgency, today: string, exceptions: ServiceException[] = []): Uint8Array {
+  return writeZip(buildGtfs(routes, agency, today, exceptions));
+}
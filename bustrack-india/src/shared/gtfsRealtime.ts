@@ -0,0 +1,283 @@
+/**
+ * gtfsRealtime.ts — GTFS-Realtime VehiclePositions + TripUpdates
+ *
+ * ⚡ Pure TypeScript, no DOM / Deno APIs and no protobuf library: the feed is
+ *    built as a plain object using the .proto field names (that object IS the
+ *    JSON debug form) and encoded by a small schema-driven protobuf writer.
+ *    Used by supabase/functions/gtfs-realtime.
+ *
+ * ⚡ Ids match the static feed (shared/gtfs.ts `gtfsIds`): route R<bus>,
+ *    stop ids from name + position, stop_sequence counting located stops in
+ *    travel direction. On a timetabled route the bus is matched to its
+ *    scheduled trip (ST<id>) from its last stop event, with the delay; a bus
+ *    matching none is an ADDED trip. Untimetabled routes use T<bus> / T<bus>R.
+ *
+ * Occupancy (driver + passenger reports, shared/occupancy.ts) is sent as
+ * VehiclePosition.occupancy_status when the function supplies it.
+ *
+ * ETAs follow etaEngine.ts on the client: the bus is projected onto the
+ * route geometry (imported shape, else stop-to-stop lines), distances are
+ * measured along it, and each leg runs at its learned median (when one
+ * exists for this hour) blended with the bus's current speed near the bus.
+ */
+import { gtfsIds, gtfsTime } from './gtfs.ts';
+import { matchLastStop } from './timetable.ts';
+import type { ScheduledTrip, ServiceException } from './timetable.ts';
+import type { StopCoord } from './geocoders.ts';
+import { gtfsOccupancy } from './occupancy.ts';
+import type { Occupancy } from './occupancy.ts';
+
+// ── Protobuf encoding ─────────────────────────────────────────────────────────
+
+type Scalar = 'string' | 'uint32' | 'uint64' | 'int32' | 'int64' | 'enum' | 'bool' | 'float' | 'double';
+
+/** The subset of gtfs-realtime.proto this feed emits: field → [number, type or message]. */
+const SCHEMA: Record<string, Record<string, [number, Scalar | string]>> = {
+  FeedMessage      : { header: [1, 'FeedHeader'], entity: [2, 'FeedEntity'] },
+  FeedHeader       : { gtfs_realtime_version: [1, 'string'], incrementality: [2, 'enum'], timestamp: [3, 'uint64'] },
+  FeedEntity       : { id: [1, 'string'], is_deleted: [2, 'bool'], trip_update: [3, 'TripUpdate'], vehicle: [4, 'VehiclePosition'] },
+  TripUpdate       : { trip: [1, 'TripDescriptor'], stop_time_update: [2, 'StopTimeUpdate'], vehicle: [3, 'VehicleDescriptor'], timestamp: [4, 'uint64'], delay: [5, 'int32'] },
+  StopTimeUpdate   : { stop_sequence: [1, 'uint32'], arrival: [2, 'StopTimeEvent'], departure: [3, 'StopTimeEvent'], stop_id: [4, 'string'], schedule_relationship: [5, 'enum'] },
+  StopTimeEvent    : { delay: [1, 'int32'], time: [2, 'int64'], uncertainty: [3, 'int32'] },
+  TripDescriptor   : { trip_id: [1, 'string'], start_time: [2, 'string'], start_date: [3, 'string'], schedule_relationship: [4, 'enum'], route_id: [5, 'string'], direction_id: [6, 'uint32'] },
+  VehicleDescriptor: { id: [1, 'string'], label: [2, 'string'], license_plate: [3, 'string'] },
+  VehiclePosition  : { trip: [1, 'TripDescriptor'], position: [2, 'Position'], current_stop_sequence: [3, 'uint32'], current_status: [4, 'enum'], timestamp: [5, 'uint64'], stop_id: [7, 'string'], vehicle: [8, 'VehicleDescriptor'], occupancy_status: [9, 'enum'] },
+  Position         : { latitude: [1, 'float'], longitude: [2, 'float'], bearing: [3, 'float'], odometer: [4, 'double'], speed: [5, 'float'] },
+};
+
+function varint(out: number[], n: number | bigint): void {
+  let v = BigInt.asUintN(64, BigInt(n));   // negatives → 10-byte two's complement, per spec
+  while (v > 0x7fn) { out.push(Number(v & 0x7fn) | 0x80); v >>= 7n; }
+  out.push(Number(v));
+}
+
+function encodeMessage(obj: Record<string, any>, type: string): number[] {
+  const out: number[] = [];
+  const fields = SCHEMA[type];
+  for (const [name, value] of Object.entries(obj)) {
+    const spec = fields[name];
+    if (!spec || value === undefined || value === null) continue;
+    const [num, kind] = spec;
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (SCHEMA[kind]) {
+        const body = encodeMessage(v, kind);
+        varint(out, (num << 3) | 2); varint(out, body.length); out.push(...body);
+      } else if (kind === 'string') {
+        const bytes = new TextEncoder().encode(String(v));
+        varint(out, (num << 3) | 2); varint(out, bytes.length); out.push(...bytes);
+      } else if (kind === 'float' || kind === 'double') {
+        const buf = new DataView(new ArrayBuffer(kind === 'float' ? 4 : 8));
+        if (kind === 'float') buf.setFloat32(0, v, true); else buf.setFloat64(0, v, true);
+        varint(out, (num << 3) | (kind === 'float' ? 5 : 1));
+        out.push(...new Uint8Array(buf.buffer));
+      } else {
+        varint(out, num << 3);
+        varint(out, kind === 'bool' ? (v ? 1 : 0) : Math.round(v));
+      }
+    }
+  }
+  return out;
+}
+
+/** Protobuf bytes of a feed built by buildFeed (or any FeedMessage-shaped object). */
+export function encodeFeed(feed: FeedMessage): Uint8Array {
+  return new Uint8Array(encodeMessage(feed, 'FeedMessage'));
+}
+
+// ── Feed types (proto field names) ────────────────────────────────────────────
+
+export interface FeedMessage {
+  header: { gtfs_realtime_version: string; incrementality: number; timestamp: number };
+  entity: Array<Record<string, any>>;
+}
+
+export interface RtVehicle {
+  vehicle_id: string;
+  bus_id    : number | null;
+  lat       : number;
+  lon       : number;
+  speed     : number;          // km/h
+  heading   : number;
+  updated_at: string;
+  reversed? : boolean;
+  last_stop?      : string | null;
+  last_stop_event?: 'arrived' | 'departed' | null;
+  last_stop_at?   : string | null;
+  occupancy?      : Occupancy | null;   // driver + passenger reports combined (occupancy.crowdLevel)
+}
+
+export interface RtRoute {
+  id        : number;
+  name      : string;
+  stops     : string[];
+  stopCoords: Array<StopCoord | null>;
+  shape?    : [number, number][] | null;   // [lat, lon]
+  offsets?  : Array<number | null> | null; // timetable minutes from the first stop
+  timetable?: ScheduledTrip[];
+}
+
+/**
+ * Learned seconds for hop stops[seg] → stops[seg + 1] (saved order) at this
+ * hour — or stops[seg + 1] → stops[seg] when `reversed` — or null.
+ */
+export type HopSeconds = (busId: number, segIndex: number, reversed: boolean) => number | null;
+
+export type FeedKind = 'vehicles' | 'trips' | 'all';
+
+const FALLBACK_KMH     = 25;
+const OBSERVED_WEIGHT  = 0.6;
+const OBSERVED_FADE_KM = 15;
+const MIN_MOVING_KMH   = 5;
+const PASSED_STOP_KM   = 0.05;
+const AT_STOP_KM       = 0.06;
+const STATUS = { INCOMING_AT: 0, STOPPED_AT: 1, IN_TRANSIT_TO: 2 } as const;
+const SCHEDULED = 0, ADDED = 1;   // TripDescriptor.ScheduleRelationship
+
+// ── Geometry ──────────────────────────────────────────────────────────────────
+
+function haversineKm(a: [number, number], b: [number, number]): number {
+  const dLat = (b[0] - a[0]) * Math.PI / 180;
+  const dLon = (b[1] - a[1]) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a[0] * Math.PI / 180) * Math.cos(b[0] * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/** Along-line km of the point nearest `p`, searching segments from `fromSeg` on. */
+function project(line: [number, number][], cum: number[], p: [number, number], fromSeg = 0): { km: number; seg: number } {
+  const kx = Math.cos(p[0] * Math.PI / 180);
+  let best = { d: Infinity, km: 0, seg: fromSeg };
+  for (let i = fromSeg; i < line.length - 1; i++) {
+    const [ay, ax] = [line[i][0], line[i][1] * kx], [by, bx] = [line[i + 1][0], line[i + 1][1] * kx];
+    const dx = bx - ax, dy = by - ay, len2 = dx * dx + dy * dy;
+    const t  = len2 ? Math.max(0, Math.min(1, ((p[1] * kx - ax) * dx + (p[0] - ay) * dy) / len2)) : 0;
+    const d  = (ax + t * dx - p[1] * kx) ** 2 + (ay + t * dy - p[0]) ** 2;
+    if (d < best.d) best = { d, km: cum[i] + t * (cum[i + 1] - cum[i]), seg: i };
+  }
+  return { km: best.km, seg: best.seg };
+}
+
+export interface Upcoming { seq: number; index: number; stopId: string; km: number; etaSec: number }   // index = saved stop order
+
+/**
+ * Stops still ahead of the vehicle with along-route km and ETA, in travel
+ * order. Also used by the push-alerts function for arrival alerts.
+ */
+export function upcomingStops(v: RtVehicle, route: RtRoute, hopSec?: HopSeconds): Upcoming[] {
+  const located = route.stops
+    .map((name, i) => ({ name, c: route.stopCoords[i], index: i }))
+    .filter((s): s is { name: string; c: StopCoord; index: number } => !!s.c);
+  if (located.length < 2) return [];
+  const seq  = v.reversed ? [...located].reverse() : located;
+  const base = route.shape && route.shape.length >= 2 ? route.shape : located.map(s => [s.c.lat, s.c.lon] as [number, number]);
+  const line = v.reversed ? [...base].reverse() : base;
+  const cum  = [0];
+  for (let i = 1; i < line.length; i++) cum.push(cum[i - 1] + haversineKm(line[i - 1], line[i]));
+
+  const along = project(line, cum, [v.lat, v.lon]).km;
+  let seg = 0;
+  const stopKm = seq.map(s => { const p = project(line, cum, [s.c.lat, s.c.lon], seg); seg = p.seg; return p.km; });
+
+  // The stop the bus is standing at (if any) leads the list at distance 0 — and
+  // only there, even when it is a few metres ahead (the two thresholds overlap)
+  const found = stopKm.findIndex(km => Math.abs(km - along) <= AT_STOP_KM);
+  const at    = found < seq.length - 1 ? found : -1;
+
+  const observed = v.speed >= MIN_MOVING_KMH ? v.speed : null;
+  const out: Upcoming[] = [];
+  let eta = 0, cursor = along;
+  for (let i = 1; i < seq.length; i++) {
+    if (i <= at || stopKm[i] <= along + PASSED_STOP_KM) continue;
+    const legKm  = Math.max(0, stopKm[i] - Math.max(cursor, stopKm[i - 1]));
+    const fullKm = stopKm[i] - stopKm[i - 1];
+    // History is recorded per direction, between consecutive saved stops only
+    const hist   = seq[i].index - seq[i - 1].index === (v.reversed ? -1 : 1)
+      ? hopSec?.(route.id, Math.min(seq[i].index, seq[i - 1].index), !!v.reversed) ?? null
+      : null;
+    const baseKmh = hist && fullKm > 0 ? fullKm / (hist / 3600) : FALLBACK_KMH;
+    const w      = observed ? OBSERVED_WEIGHT * Math.exp(-(cursor - along) / OBSERVED_FADE_KM) : 0;
+    eta   += legKm / (w * (observed ?? 0) + (1 - w) * baseKmh) * 3600;
+    cursor = stopKm[i];
+    out.push({ seq: i + 1, index: seq[i].index, stopId: gtfsIds.stop(seq[i].name, seq[i].c), km: stopKm[i] - along, etaSec: Math.round(eta) });
+  }
+  if (at >= 0) out.unshift({ seq: at + 1, index: seq[at].index, stopId: gtfsIds.stop(seq[at].name, seq[at].c), km: 0, etaSec: 0 });
+  return out;
+}
+
+// ── Feed ──────────────────────────────────────────────────────────────────────
+
+/** Service day (YYYYMMDD) in IST — start_date of trips not matched to the timetable. */
+function istDate(ms: number): string {
+  return new Date(ms + 330 * 60_000).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/** TripDescriptor for a live bus, and its delay when it matched a scheduled trip. */
+function describeTrip(v: RtVehicle, route: RtRoute, nowMs: number, exceptions: ServiceException[]): { trip: Record<string, any>; delaySec?: number } {
+  const base = { route_id: gtfsIds.route(route.id), direction_id: v.reversed ? 1 : 0 };
+  if (!route.timetable?.length) {
+    return { trip: { trip_id: gtfsIds.trip(route.id, !!v.reversed), start_date: istDate(nowMs), schedule_relationship: SCHEDULED, ...base } };
+  }
+  const last  = v.last_stop && v.last_stop_event && v.last_stop_at
+    ? { name: v.last_stop, event: v.last_stop_event, at: new Date(v.last_stop_at).getTime() } : null;
+  const match = last ? matchLastStop(route.timetable, route.offsets, route.stops, !!v.reversed, last, exceptions) : null;
+  if (!match) return { trip: { trip_id: `${gtfsIds.trip(route.id, !!v.reversed)}-${v.vehicle_id}`, start_date: istDate(nowMs), schedule_relationship: ADDED, ...base } };
+  return {
+    trip: {
+      trip_id              : gtfsIds.scheduled(match.trip.id),
+      start_time           : gtfsTime(match.trip.departs * 60),
+      start_date           : match.day.replace(/-/g, ''),
+      schedule_relationship: SCHEDULED,
+      ...base,
+    },
+    delaySec: Math.round(match.delayMin * 60),
+  };
+}
+
+/**
+ * buildFeed — one FULL_DATASET FeedMessage. `kind` picks VehiclePositions,
+ * TripUpdates or both (one entity each per vehicle). Vehicles without a
+ * known route still get a position, just no trip.
+ */
+export function buildFeed(kind: FeedKind, vehicles: RtVehicle[], routes: RtRoute[], nowMs: number, hopSec?: HopSeconds, exceptions: ServiceException[] = []): FeedMessage {
+  const byId   = new Map(routes.map(r => [r.id, r]));
+  const entity: Array<Record<string, any>> = [];
+
+  for (const v of vehicles) {
+    const route    = v.bus_id !== null ? byId.get(v.bus_id) : undefined;
+    const upcoming = route ? upcomingStops(v, route, hopSec) : [];
+    const ts       = Math.floor((new Date(v.updated_at).getTime() || nowMs) / 1000);
+    const desc     = route ? describeTrip(v, route, nowMs, exceptions) : null;
+    const trip     = desc?.trip;
+    const vehicle  = { id: v.vehicle_id, label: route?.name ?? v.vehicle_id };
+
+    if (kind !== 'trips') {
+      const next = upcoming[0];
+      entity.push({
+        id     : `vp-${v.vehicle_id}`,
+        vehicle: {
+          trip,
+          vehicle,
+          position             : { latitude: v.lat, longitude: v.lon, bearing: v.heading, speed: v.speed / 3.6 },
+          current_stop_sequence: next?.seq,
+          stop_id              : next?.stopId,
+          current_status       : next ? (next.km === 0 ? STATUS.STOPPED_AT : next.km <= AT_STOP_KM * 3 ? STATUS.INCOMING_AT : STATUS.IN_TRANSIT_TO) : undefined,
+          timestamp            : ts,
+          occupancy_status     : v.occupancy ? gtfsOccupancy(v.occupancy) : undefined,
+        },
+      });
+    }
+    if (kind !== 'vehicles' && trip && upcoming.length) {
+      entity.push({
+        id         : `tu-${v.vehicle_id}`,
+        trip_update: {
+          trip,
+          vehicle,
+          stop_time_update: upcoming.map(u => ({ stop_sequence: u.seq, stop_id: u.stopId, arrival: { time: ts + u.etaSec } })),
+          timestamp       : ts,
+          delay           : desc?.delaySec,
+        },
+      });
+    }
+  }
+
+  return { header: { gtfs_realtime_version: '2.0', incrementality: 0, timestamp: Math.floor(nowMs / 1000) }, entity };
+}
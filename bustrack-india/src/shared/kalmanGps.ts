@@ -0,0 +1,121 @@
+/**
+ * kalmanGps.ts — Constant-velocity Kalman filter for GPS fixes, one track per bus
+ *
+ * ⚡ Pure TypeScript, no DOM / worker APIs — workers/routeWorker.ts runs it
+ *    off the main thread ('kalmanGps'), and tests/ replay GPS traces through
+ *    it directly.
+ *
+ * ⚡ Two independent east / north filters in metres around the track's first
+ *    fix. Reported accuracy is the measurement noise — a 60 m bus-stand fix
+ *    barely moves the estimate, a 5 m open-road fix nearly snaps to it.
+ * ⚡ A fix is rejected (accepted: false, estimate unchanged) when it is both
+ *    statistically implausible for the filter AND implies > MAX_SPEED_MS —
+ *    multipath jumps under flyovers / in bus stands. After MAX_REJECTS in a
+ *    row the filter trusts the GPS again and restarts at the new position.
+ */
+
+export interface GpsFix {
+  lat      : number;
+  lon      : number;
+  ts       : number;   // epoch ms
+  accuracy?: number;   // metres
+}
+
+export interface GpsEstimate {
+  accepted: boolean;
+  lat     : number;
+  lon     : number;
+  speedKmh: number;
+  heading : number;    // degrees clockwise from north
+}
+
+export interface GpsTracks {
+  step(trackId: string, fix: GpsFix): GpsEstimate;
+  reset(trackId: string): void;
+}
+
+const ACCEL_NOISE   = 1.5;   // m/s² — how hard a bus can brake / accelerate
+const DEFAULT_ACC_M = 15;    // when the fix carries no accuracy
+const MAX_SPEED_MS  = 33;    // ~120 km/h — faster than any bus on these roads
+const GATE_CHI2     = 13.8;  // 2 DOF, 99.9% — innovation beyond this is suspicious
+const STILL_MS      = 1;     // below this, keep the last heading (stationary heading is noise)
+
+/** Rejections in a row before the filter re-anchors on the GPS. */
+export const MAX_REJECTS = 5;
+
+interface Axis { p: number; v: number; pp: number; pv: number; vv: number } // position, velocity + covariance
+interface Track { lat0: number; lon0: number; kx: number; x: Axis; y: Axis; ts: number; rejects: number; heading: number }
+
+function newAxis(p: number, r: number): Axis {
+  return { p, v: 0, pp: r, pv: 0, vv: 25 }; // unknown speed: σ ≈ 5 m/s
+}
+
+/** Predict one axis `dt` seconds ahead (white-noise acceleration model). */
+function predict(a: Axis, dt: number): Axis {
+  const q = ACCEL_NOISE * ACCEL_NOISE;
+  return {
+    p : a.p + a.v * dt,
+    v : a.v,
+    pp: a.pp + 2 * dt * a.pv + dt * dt * a.vv + q * dt ** 4 / 4,
+    pv: a.pv + dt * a.vv + q * dt ** 3 / 2,
+    vv: a.vv + q * dt * dt,
+  };
+}
+
+function correct(a: Axis, z: number, r: number): Axis {
+  const s  = a.pp + r;
+  const kp = a.pp / s, kv = a.pv / s;
+  const y  = z - a.p;
+  return { p: a.p + kp * y, v: a.v + kv * y, pp: (1 - kp) * a.pp, pv: (1 - kp) * a.pv, vv: a.vv - kv * a.pv };
+}
+
+export function createGpsTracks(): GpsTracks {
+  const tracks = new Map<string, Track>();
+
+  function step(trackId: string, fix: GpsFix): GpsEstimate {
+    const r = Math.max(fix.accuracy || DEFAULT_ACC_M, 3) ** 2;
+    let t = tracks.get(trackId);
+
+    const start = (): GpsEstimate => {
+      t = { lat0: fix.lat, lon0: fix.lon, kx: Math.cos(fix.lat * Math.PI / 180), x: newAxis(0, r), y: newAxis(0, r), ts: fix.ts, rejects: 0, heading: t?.heading ?? 0 };
+      tracks.set(trackId, t);
+      return { accepted: true, lat: fix.lat, lon: fix.lon, speedKmh: 0, heading: t.heading };
+    };
+    if (!t) return start();
+
+    const dt = Math.max(0.001, (fix.ts - t.ts) / 1000);
+    const zx = (fix.lon - t.lon0) * t.kx * 111_320;
+    const zy = (fix.lat - t.lat0) * 110_540;
+    const px = predict(t.x, dt), py = predict(t.y, dt);
+
+    // Innovation gate + physical speed check — both must fail to reject
+    const d2    = (zx - px.p) ** 2 / (px.pp + r) + (zy - py.p) ** 2 / (py.pp + r);
+    const jumpM = Math.hypot(zx - t.x.p, zy - t.y.p);
+    const slack = Math.sqrt(r) + Math.sqrt(t.x.pp);
+    if (d2 > GATE_CHI2 && (jumpM - slack) / dt > MAX_SPEED_MS) {
+      if (++t.rejects >= MAX_REJECTS) return start();
+      const lat = t.lat0 + t.y.p / 110_540, lon = t.lon0 + t.x.p / (t.kx * 111_320);
+      return { accepted: false, lat, lon, speedKmh: Math.hypot(t.x.v, t.y.v) * 3.6, heading: t.heading };
+    }
+
+    t.x = correct(px, zx, r);
+    t.y = correct(py, zy, r);
+    t.ts = fix.ts;
+    t.rejects = 0;
+
+    // Heading only moves once the speed stands out from the filter's own velocity
+    // noise — a parked bus's jitter otherwise spins the marker round the stand
+    const speed = Math.hypot(t.x.v, t.y.v);
+    const sigV  = Math.sqrt((t.x.vv + t.y.vv) / 2);
+    if (speed >= Math.max(STILL_MS, sigV)) t.heading = (Math.atan2(t.x.v, t.y.v) * 180 / Math.PI + 360) % 360;
+    return {
+      accepted: true,
+      lat     : t.lat0 + t.y.p / 110_540,
+      lon     : t.lon0 + t.x.p / (t.kx * 111_320),
+      speedKmh: speed * 3.6,
+      heading : t.heading,
+    };
+  }
+
+  return { step, reset: trackId => { tracks.delete(trackId); } };
+}
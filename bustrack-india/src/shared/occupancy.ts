@@ -0,0 +1,93 @@
+/**
+ * occupancy.ts — How full a bus is: levels, labels, and driver vs crowd reports
+ *
+ * ⚡ Pure TypeScript, no DOM / Deno APIs — the passenger screen and the
+ *    gtfs-realtime function (VehiclePosition.occupancy_status) combine the
+ *    same two sources the same way.
+ *
+ * Sources (migration 20261019001100_occupancy):
+ *   driver      one tap on the driver screen; sent with every location update
+ *               (driver_location.occupancy / occupancy_at)
+ *   passengers  optional reports from on-bus mode (crowd_reports)
+ *
+ * The driver's level stands until passengers disagree: MIN_REPORTS or more
+ * distinct reporters newer than it, within REPORT_WINDOW_MIN, replace it with
+ * the median of their latest reports. With no driver level, any recent report
+ * counts. A driver level older than DRIVER_STALE_MIN is treated as unknown.
+ * Reports carry a reporter hash (migration 20261019001400_crowd_report_limits,
+ * which also rate-limits them server-side), so one phone tapping twice is
+ * still one voice.
+ */
+
+export type Occupancy = 'empty' | 'seats' | 'standing' | 'full';
+
+export const OCCUPANCY_LEVELS: Occupancy[] = ['empty', 'seats', 'standing', 'full'];
+
+export const OCCUPANCY_LABELS: Record<Occupancy, string> = {
+  empty   : 'Empty',
+  seats   : 'Seats available',
+  standing: 'Standing room',
+  full    : 'Full',
+};
+
+export const OCCUPANCY_COLORS: Record<Occupancy, string> = {
+  empty   : '#1e8e3e',
+  seats   : '#1e8e3e',
+  standing: '#e8820c',
+  full    : '#c5221f',
+};
+
+/** GTFS-Realtime OccupancyStatus enum values. */
+const GTFS_OCCUPANCY: Record<Occupancy, number> = {
+  empty   : 0,   // EMPTY
+  seats   : 1,   // MANY_SEATS_AVAILABLE
+  standing: 3,   // STANDING_ROOM_ONLY
+  full    : 5,   // FULL
+};
+
+export const REPORT_WINDOW_MIN = 15;   // passenger reports older than this are ignored
+const DRIVER_STALE_MIN         = 90;   // a level set at the depot says nothing by mid-route
+const MIN_REPORTS              = 2;    // distinct reporters
+
+export interface OccupancyReport {
+  level    : Occupancy;
+  at       : number;          // epoch ms
+  reporter?: string | null;   // passenger reports: hashed user / device id
+}
+
+export interface Crowding {
+  level : Occupancy;
+  source: 'driver' | 'passengers';
+  at    : number;
+}
+
+export function isOccupancy(v: unknown): v is Occupancy {
+  return typeof v === 'string' && (OCCUPANCY_LEVELS as string[]).includes(v);
+}
+
+export function gtfsOccupancy(level: Occupancy): number {
+  return GTFS_OCCUPANCY[level];
+}
+
+/** Combined level for one bus, or null when nobody has said. */
+export function crowdLevel(driver: OccupancyReport | null, reports: OccupancyReport[], now = Date.now()): Crowding | null {
+  const fresh  = driver && now - driver.at < DRIVER_STALE_MIN * 60_000 ? driver : null;
+  // Each reporter's latest report only; rows without a reporter predate it and count alone
+  const latest = new Map<string | number, OccupancyReport>();
+  reports.forEach((r, i) => {
+    if (now - r.at >= REPORT_WINDOW_MIN * 60_000 || (fresh && r.at <= fresh.at)) return;
+    const key  = r.reporter ?? i;
+    const prev = latest.get(key);
+    if (!prev || r.at > prev.at) latest.set(key, r);
+  });
+  const recent = [...latest.values()].map(r => OCCUPANCY_LEVELS.indexOf(r.level)).sort((a, b) => a - b);
+  if (recent.length && (!fresh || recent.length >= MIN_REPORTS)) {
+    return { level: OCCUPANCY_LEVELS[recent[Math.floor(recent.length / 2)]], source: 'passengers', at: now };
+  }
+  return fresh ? { level: fresh.level, source: 'driver', at: fresh.at } : null;
+}
+
+/** "Standing room" / "Full (passengers)" — for the bus info card. */
+export function crowdingLabel(c: Crowding): string {
+  return c.source === 'passengers' ? `${OCCUPANCY_LABELS[c.level]} (passengers)` : OCCUPANCY_LABELS[c.level];
+}
@@ -0,0 +1,213 @@
+/**
+ * timetable.ts — Scheduled trips, days of operation and holiday exceptions
+ *
+ * ⚡ Pure TypeScript, no DOM / Deno APIs — passengers get "next departures"
+ *    from it in the browser (offline too, from the synced copy), and the GTFS
+ *    export and gtfs-realtime edge function read the same schedule.
+ *
+ * Model (tables in migration 20261019000900_timetables):
+ *   trip        leaves the first stop of its direction `departs` minutes after
+ *               midnight IST, on the weekdays set in `days` (Monday = bit 0)
+ *   offsets     buses.stop_offsets — minutes from the first saved stop to
+ *               each stop; the return direction runs them backwards
+ *   exception   a date on which a route (or every route, busId null) does not
+ *               run (holiday) or runs although its days exclude it. A route's
+ *               own exception wins over an all-routes one.
+ *
+ * Times are minutes after midnight of the service day; trips running past
+ * midnight simply go beyond 1440, as in GTFS.
+ */
+
+export interface ScheduledTrip {
+  id      : number;
+  busId   : number;
+  reversed: boolean;   // runs the saved stop list backwards
+  departs : number;    // minutes after midnight (IST) at its first stop
+  days    : number;    // weekday bitmask, Monday = 1 … Sunday = 64
+}
+
+export interface ServiceException {
+  busId: number | null;   // null = every route
+  day  : string;          // YYYY-MM-DD (IST)
+  runs : boolean;
+}
+
+export type Punctuality = 'early' | 'on-time' | 'late';
+
+export const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+export const EVERY_DAY = 0b1111111;
+export const WEEKDAYS  = 0b0011111;
+
+const EARLY_MIN        = -2;   // Indian operators count up to 5 min late as on time
+const LATE_MIN         = 5;
+const MATCH_WINDOW_MIN = 45;   // a live bus further off than this is on no scheduled trip
+
+// ── Clock + calendar ──────────────────────────────────────────────────────────
+
+/** "06:30" / "6:30" / "24:15" → minutes after midnight; null if not a time. */
+export function parseClock(s: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(s.trim());
+  if (!m || +m[2] > 59 || +m[1] > 47) return null;
+  return +m[1] * 60 + +m[2];
+}
+
+/** Minutes after midnight → "HH:MM" on a 24-hour clock (wraps past midnight). */
+export function formatClock(min: number): string {
+  const m = ((Math.round(min) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+/** "Daily", "Mon–Fri", "Sat, Sun", "Mon, Wed, Fri"… */
+export function daysLabel(days: number): string {
+  if ((days & EVERY_DAY) === EVERY_DAY) return 'Daily';
+  if (days === WEEKDAYS) return 'Mon–Fri';
+  return DAY_NAMES.filter((_, i) => days & (1 << i)).join(', ') || 'Never';
+}
+
+export function addDays(day: string, n: number): string {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+/** The `days` bit of a YYYY-MM-DD date. */
+export function weekdayBit(day: string): number {
+  return 1 << ((new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7);
+}
+
+/** IST service day (YYYY-MM-DD) and minutes after its midnight for an instant. */
+export function istClock(ms: number): { day: string; min: number } {
+  const ist = new Date(ms + 330 * 60_000);
+  return { day: ist.toISOString().slice(0, 10), min: ist.getUTCHours() * 60 + ist.getUTCMinutes() + ist.getUTCSeconds() / 60 };
+}
+
+export function runsOn(trip: ScheduledTrip, day: string, exceptions: ServiceException[]): boolean {
+  const ex = exceptions.find(e => e.day === day && e.busId === trip.busId)
+          ?? exceptions.find(e => e.day === day && e.busId === null);
+  return ex ? ex.runs : (trip.days & weekdayBit(day)) !== 0;
+}
+
+// ── Stop times ────────────────────────────────────────────────────────────────
+
+/**
+ * tripOffsets — minutes after departure at each saved stop for a trip in
+ * this direction (null where unknown). Empty when the offsets were saved for
+ * a different stop list, so an edited route never shows stale times.
+ */
+export function tripOffsets(offsets: Array<number | null> | null | undefined, stopCount: number, reversed: boolean): Array<number | null> {
+  if (!offsets || offsets.length !== stopCount) return [];
+  const known = offsets.filter((o): o is number => o !== null);
+  if (!known.length) return [];
+  const first = reversed ? Math.max(...known) : Math.min(...known);
+  return offsets.map(o => o === null ? null : reversed ? first - o : o - first);
+}
+
+/** A route's trips through one stop, with that direction's tripOffsets. */
+export interface StopService {
+  trip     : ScheduledTrip;
+  offsets  : Array<number | null>;
+  stopIndex: number;   // saved order
+}
+
+export interface Departure {
+  trip: ScheduledTrip;
+  day : string;   // service day the trip belongs to
+  at  : number;   // minutes after midnight of `today` (≥ 1440 = tomorrow)
+}
+
+/**
+ * nextDepartures — the next `limit` departures from a stop at or after
+ * `nowMin` on `today`, across every route serving it. Yesterday's late trips
+ * still running and tomorrow's early ones are included; a trip's last stop
+ * is only an arrival and never listed.
+ */
+export function nextDepartures(services: StopService[], exceptions: ServiceException[], today: string, nowMin: number, limit = 5): Departure[] {
+  const out: Departure[] = [];
+  for (const s of services) {
+    const off  = s.offsets[s.stopIndex];
+    const last = Math.max(...s.offsets.filter((o): o is number => o !== null));
+    if (off === null || off === undefined || off === last) continue;
+    for (const shift of [-1, 0, 1]) {
+      const day = addDays(today, shift);
+      const at  = s.trip.departs + off + shift * 1440;
+      if (at >= nowMin && runsOn(s.trip, day, exceptions)) out.push({ trip: s.trip, day, at });
+    }
+  }
+  return out.sort((a, b) => a.at - b.at).slice(0, limit);
+}
+
+// ── Live vs schedule ──────────────────────────────────────────────────────────
+
+export interface TripMatch {
+  trip    : ScheduledTrip;
+  day     : string;
+  delayMin: number;   // actual − scheduled; negative = early
+}
+
+/**
+ * matchTrip — which scheduled trip a live bus is running, from one observed
+ * stop time: among the route's trips in the bus's direction that run today
+ * (or started yesterday), the one due at `stopIndex` closest to `atMin`.
+ * Null when nothing is due within MATCH_WINDOW_MIN.
+ */
+export function matchTrip(
+  trips: ScheduledTrip[],
+  offsets: Array<number | null> | null | undefined,
+  stopCount: number,
+  reversed: boolean,
+  stopIndex: number,
+  exceptions: ServiceException[],
+  today: string,
+  atMin: number
+): TripMatch | null {
+  const off = tripOffsets(offsets, stopCount, reversed)[stopIndex];
+  if (off === null || off === undefined) return null;
+  let best: TripMatch | null = null;
+  for (const trip of trips) {
+    if (trip.reversed !== reversed) continue;
+    for (const shift of [-1, 0]) {
+      const day = addDays(today, shift);
+      const delayMin = atMin - (trip.departs + off + shift * 1440);
+      if (Math.abs(delayMin) > MATCH_WINDOW_MIN || !runsOn(trip, day, exceptions)) continue;
+      if (!best || Math.abs(delayMin) < Math.abs(best.delayMin)) best = { trip, day, delayMin };
+    }
+  }
+  return best;
+}
+
+/** A live bus's latest stop event (driver_location.last_stop*). */
+export interface LastStopEvent {
+  name : string;
+  event: 'arrived' | 'departed';
+  at   : number;   // epoch ms
+}
+
+/**
+ * matchLastStop — matchTrip from a live bus's last stop event. Arriving at
+ * the first stop of its direction says nothing (buses wait at the terminus;
+ * only leaving it is scheduled), so that event never matches.
+ */
+export function matchLastStop(
+  trips: ScheduledTrip[],
+  offsets: Array<number | null> | null | undefined,
+  stops: string[],
+  reversed: boolean,
+  last: LastStopEvent,
+  exceptions: ServiceException[]
+): TripMatch | null {
+  const index = reversed ? stops.lastIndexOf(last.name) : stops.indexOf(last.name);
+  if (index < 0) return null;
+  if (last.event === 'arrived' && tripOffsets(offsets, stops.length, reversed)[index] === 0) return null;
+  const { day, min } = istClock(last.at);
+  return matchTrip(trips, offsets, stops.length, reversed, index, exceptions, day, min);
+}
+
+export function punctuality(delayMin: number): Punctuality {
+  return delayMin < EARLY_MIN ? 'early' : delayMin > LATE_MIN ? 'late' : 'on-time';
+}
+
+/** "On time" / "7 min late" / "3 min early". */
+export function punctualityLabel(delayMin: number): string {
+  const p = punctuality(delayMin), n = Math.abs(Math.round(delayMin));
+  return p === 'on-time' ? 'On time' : `${n} min ${p}`;
+}
@@ -0,0 +1,138 @@
+/**
+ * webPush.ts — Web Push message encryption and VAPID signing
+ *
+ * ⚡ WebCrypto only, no npm `web-push` — runs unchanged in the push-alerts
+ *    edge function (Deno) and, for tests, in the browser.
+ *
+ * A push is one POST to the subscription's endpoint (FCM, Mozilla, Apple…):
+ *   Authorization  vapid t=<ES256 JWT for the endpoint's origin>, k=<public key>
+ *   body           payload encrypted for the subscriber (RFC 8291, aes128gcm):
+ *                  ECDH with the browser's p256dh key, HKDF with its auth
+ *                  secret, one AES-GCM record behind a salt + key-id header
+ *
+ * Only endpoints on PUSH_SERVICE_HOSTS are accepted (isPushTarget), so a
+ * stored subscription can't point the sender at an arbitrary URL.
+ *
+ * VAPID keys are the usual base64url pair (`npx web-push generate-vapid-keys`):
+ * public = 65-byte uncompressed P-256 point, private = 32-byte scalar.
+ */
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh  : string;   // base64url, from PushSubscription.toJSON().keys
+  auth    : string;
+}
+
+export interface VapidKeys {
+  publicKey : string;   // base64url
+  privateKey: string;
+  subject   : string;   // mailto: or https: contact for the push service
+}
+
+/** Browser push services — an endpoint's host must be one of these or a subdomain. */
+export const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',               // Chrome, Edge, Opera, Samsung Internet
+  'updates.push.services.mozilla.com',
+  'push.services.mozilla.com',
+  'push.apple.com',                   // Safari (web.push.apple.com)
+  'notify.windows.com',               // legacy Edge (*.notify.windows.com)
+];
+
+const RECORD_SIZE = 4096;
+const JWT_TTL_SEC = 12 * 3600;   // push services reject tokens valid for more than 24 h
+
+const enc = new TextEncoder();
+
+export function b64urlEncode(bytes: Uint8Array): string {
+  let s = '';
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function b64urlDecode(s: string): Uint8Array {
+  const bin = atob(s.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((s.length + 3) % 4));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+}
+
+/** An https endpoint on a known push service, with a P-256 public key and a 16-byte auth secret. */
+export function isPushTarget(t: PushTarget): boolean {
+  let url: URL;
+  try { url = new URL(t.endpoint); } catch { return false; }
+  if (url.protocol !== 'https:' || url.port) return false;
+  if (!PUSH_SERVICE_HOSTS.some(h => url.hostname === h || url.hostname.endsWith(`.${h}`))) return false;
+  try {
+    const pub = b64urlDecode(t.p256dh), auth = b64urlDecode(t.auth);
+    return pub.length === 65 && pub[0] === 4 && auth.length === 16;
+  } catch {
+    return false;
+  }
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) { out.set(p, at); at += p.length; }
+  return out;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, bytes: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm as BufferSource, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt: salt as BufferSource, info: info as BufferSource }, key, bytes * 8));
+}
+
+/** RFC 8291 body: salt(16) ‖ record size ‖ key id (our ephemeral public key) ‖ ciphertext. */
+export async function encryptPayload(target: PushTarget, payload: string): Promise<Uint8Array> {
+  const uaPublic = b64urlDecode(target.p256dh);
+  const secret   = b64urlDecode(target.auth);
+  const local    = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const asPublic = new Uint8Array(await crypto.subtle.exportKey('raw', local.publicKey));
+  const uaKey    = await crypto.subtle.importKey('raw', uaPublic as BufferSource, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const shared   = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: uaKey }, local.privateKey, 256));
+
+  const ikm   = await hkdf(secret, shared, concat(enc.encode('WebPush: info\0'), uaPublic, asPublic), 32);
+  const salt  = crypto.getRandomValues(new Uint8Array(16));
+  const cek   = await hkdf(salt, ikm, enc.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, enc.encode('Content-Encoding: nonce\0'), 12);
+
+  const key    = await crypto.subtle.importKey('raw', cek as BufferSource, 'AES-GCM', false, ['encrypt']);
+  const record = concat(enc.encode(payload), new Uint8Array([2]));   // 0x02 = last (only) record
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce as BufferSource }, key, record as BufferSource));
+
+  const header = new Uint8Array(21);
+  header.set(salt);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = asPublic.length;
+  return concat(header, asPublic, cipher);
+}
+
+/** ES256 JWT for the push service at `endpoint` (audience = its origin). */
+export async function vapidToken(endpoint: string, keys: VapidKeys, nowSec = Math.floor(Date.now() / 1000)): Promise<string> {
+  const pub = b64urlDecode(keys.publicKey);
+  const jwk = { kty: 'EC', crv: 'P-256', d: keys.privateKey, x: b64urlEncode(pub.slice(1, 33)), y: b64urlEncode(pub.slice(33, 65)) };
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+  const part = (o: object) => b64urlEncode(enc.encode(JSON.stringify(o)));
+  const unsigned = `${part({ typ: 'JWT', alg: 'ES256' })}.${part({ aud: new URL(endpoint).origin, exp: nowSec + JWT_TTL_SEC, sub: keys.subject })}`;
+  // WebCrypto ECDSA signatures are already the raw r ‖ s form JWS wants
+  const sig = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, enc.encode(unsigned)));
+  return `${unsigned}.${b64urlEncode(sig)}`;
+}
+
+/**
+ * sendPush — delivers one notification. Returns the push service's status:
+ * 201 sent, 404 / 410 = subscription gone (delete it), others = retry later.
+ */
+export async function sendPush(target: PushTarget, payload: string, keys: VapidKeys, ttlSec = 60): Promise<number> {
+  const body = await encryptPayload(target, payload);
+  const resp = await fetch(target.endpoint, {
+    method : 'POST',
+    headers: {
+      'Authorization'   : `vapid t=${await vapidToken(target.endpoint, keys)}, k=${keys.publicKey}`,
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type'    : 'application/octet-stream',
+      'TTL'             : String(ttlSec),
+      'Urgency'         : 'high',
+    },
+    body: body as BodyInit,
+  });
+  return resp.status;
+}
@@ -0,0 +1,131 @@
+/**
+ * zip.ts — Minimal ZIP reader / writer for GTFS feeds
+ *
+ * ⚡ Pure TypeScript on web-standard APIs only (DecompressionStream, Blob),
+ *    so the same code runs in the browser and in Deno edge functions — no
+ *    JSZip (~100 KB) in the bundle.
+ *
+ * Reading walks the central directory (the authoritative file list) and
+ * inflates `deflate` entries with DecompressionStream('deflate-raw').
+ * Writing emits `stored` (uncompressed) entries — valid for every GTFS
+ * consumer, and the feed is gzip-compressed in transit anyway.
+ * ZIP64 archives (> 4 GB or > 65535 files) are not supported.
+ */
+
+const SIG_LOCAL   = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END     = 0x06054b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export interface ZipContents {
+  files     : Record<string, Uint8Array>;   // file name → contents
+  unreadable: string[];                     // entries left out: corrupt or unsupported compression
+}
+
+/** Every file in the archive; directories are skipped. Null if not a ZIP. */
+export async function readZip(bytes: Uint8Array): Promise<ZipContents | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  // End-of-central-directory record sits in the last 22 bytes + up to 64 KB of comment
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === SIG_END) { end = i; break; }
+  }
+  if (end < 0) return null;
+
+  const count = view.getUint16(end + 10, true);
+  let p = view.getUint32(end + 16, true);
+  const files: Record<string, Uint8Array> = {};
+  const unreadable: string[] = [];
+  const decoder = new TextDecoder();
+
+  for (let n = 0; n < count && p + 46 <= bytes.length; n++) {
+    if (view.getUint32(p, true) !== SIG_CENTRAL) break;
+    const method   = view.getUint16(p + 10, true);
+    const size     = view.getUint32(p + 20, true);
+    const nameLen  = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const noteLen  = view.getUint16(p + 32, true);
+    const local    = view.getUint32(p + 42, true);
+    const name     = decoder.decode(bytes.subarray(p + 46, p + 46 + nameLen));
+    p += 46 + nameLen + extraLen + noteLen;
+
+    if (name.endsWith('/') || view.getUint32(local, true) !== SIG_LOCAL) continue;
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data  = bytes.subarray(start, start + size);
+    const out   = method === 0 ? data : method === 8 ? await inflateRaw(data).catch(() => null) : null;
+    if (out) files[name] = out;
+    else unreadable.push(name);
+  }
+  return { files, unreadable };
+}
+
+let _crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!_crcTable) {
+    _crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let c = i;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      _crcTable[i] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = _crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Builds a ZIP of stored entries; string contents are UTF-8 encoded. */
+export function writeZip(files: Record<string, Uint8Array | string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = Object.entries(files).map(([name, body]) => {
+    const data = typeof body === 'string' ? encoder.encode(body) : body;
+    return { name: encoder.encode(name), data, crc: crc32(data), offset: 0 };
+  });
+
+  const localSize   = entries.reduce((n, e) => n + 30 + e.name.length + e.data.length, 0);
+  const centralSize = entries.reduce((n, e) => n + 46 + e.name.length, 0);
+  const out  = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let p = 0;
+
+  const header = (sig: number, e: typeof entries[number], central: boolean) => {
+    view.setUint32(p, sig, true);
+    let q = p + 4;
+    if (central) { view.setUint16(q, 20, true); q += 2; }    // version made by
+    view.setUint16(q,      20, true);                         // version needed
+    view.setUint16(q + 2,  0x0800, true);                     // flags: UTF-8 names
+    view.setUint16(q + 4,  0, true);                          // method: stored
+    view.setUint16(q + 6,  0, true);                          // mod time
+    view.setUint16(q + 8,  0x21, true);                       // mod date (1980-01-01)
+    view.setUint32(q + 10, e.crc, true);
+    view.setUint32(q + 14, e.data.length, true);
+    view.setUint32(q + 18, e.data.length, true);
+    view.setUint16(q + 22, e.name.length, true);
+    view.setUint16(q + 24, 0, true);                          // extra length
+    q += 26;
+    if (central) { q += 10; view.setUint32(q, e.offset, true); q += 4; } // comment/disk/attrs, local offset
+    out.set(e.name, q);
+    p = q + e.name.length;
+  };
+
+  for (const e of entries) {
+    e.offset = p;
+    header(SIG_LOCAL, e, false);
+    out.set(e.data, p);
+    p += e.data.length;
+  }
+  const centralStart = p;
+  for (const e of entries) header(SIG_CENTRAL, e, true);
+
+  view.setUint32(p, SIG_END, true);
+  view.setUint16(p + 8,  entries.length, true);
+  view.setUint16(p + 10, entries.length, true);
+  view.setUint32(p + 12, p - centralStart, true);
+  view.setUint32(p + 16, centralStart, true);
+  return out;
+}
@@ -0,0 +1,307 @@
+/**
+ * adminPanel.ts — HTML builders for the admin screen
+ *
+ * ⚡ Same rule as floatingInfoBox: every builder returns ONE string for a
+ *    single innerHTML assignment (one reflow), never N appendChild calls.
+ *    Buttons call window-level handlers registered in main.ts.
+ */
+import type { StopCoord } from '../shared/geocoders';
+import type { StopFlag } from '../services/geoValidator';
+import type { SegmentStatRow, RouteDeviationRow, TripSummaryRow, ScheduledTripRow, ServiceExceptionRow } from '../services/supabaseService';
+import { DAY_NAMES, daysLabel, formatClock } from '../shared/timetable';
+import type { FleetStatus } from '../map/fleetLayer';
+
+export interface RouteVersionItem {
+  version : number;
+  name    : string;
+  stops   : string[];
+  savedAt : string;
+  current : boolean;
+}
+
+/**
+ * buildVersionHistoryHTML — route history list with a Restore button per
+ * archived version. The current version is shown first and cannot be restored.
+ */
+export function buildVersionHistoryHTML(busId: number, versions: RouteVersionItem[]): string {
+  if (!versions.length) return '<div class="hint">No earlier versions yet.</div>';
+  return versions.map(v => `<div class="stop-item${v.current ? ' current' : ''}">
+      <div class="stop-num">v${v.version}</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(v.name)}</div>
+        <div class="stop-dist">${escHtml(v.stops.join(' → '))}</div>
+        <div class="stop-dist">${escHtml(formatWhen(v.savedAt))}</div>
+      </div>
+      ${v.current
+        ? '<span class="stop-badge stop-start">CURRENT</span>'
+        : `<button class="btn-sm btn-logout" onclick="rollbackRoute(${busId},${v.version})">↩ Restore</button>`}
+    </div>`).join('');
+}
+
+/** buildConflictHTML — shown when another admin saved the route first. */
+export function buildConflictHTML(theirs: { name: string; stops: string[]; version: number } | null): string {
+  if (!theirs) return '<div class="alert-err">❌ This route was deleted by another admin.</div>';
+  return `<div class="alert-err">
+      ⚠️ Another admin saved v${theirs.version} while you were editing:<br/>
+      <b>${escHtml(theirs.name)}</b> — ${escHtml(theirs.stops.join(' → '))}<br/>
+      Reload the route and re-apply your changes.
+    </div>`;
+}
+
+/**
+ * buildRegionOptionsHTML — <option>s for the route editor's region picker.
+ * The empty option means "use the deployment default".
+ */
+export function buildRegionOptionsHTML(presets: string[], selected: string | null): string {
+  return ['<option value="">Deployment default</option>',
+    ...presets.map(p => `<option value="${escHtml(p)}"${p === selected ? ' selected' : ''}>${escHtml(p)}</option>`),
+  ].join('');
+}
+
+const FLAG_BADGES: Record<StopFlag, { cls: string; icon: string }> = {
+  confirmed : { cls: 'ok',   icon: '📌' },
+  ok        : { cls: 'ok',   icon: '✓' },
+  low       : { cls: 'warn', icon: '!' },
+  unresolved: { cls: 'err',  icon: '✕' },
+};
+
+/**
+ * buildStopReviewHTML — one validation row per stop with its geocode confidence.
+ * "Pin" makes the stop active on the admin map (click/drag to place it);
+ * "Confirm" accepts the current geocode as-is.
+ */
+export function buildStopReviewHTML(names: string[], coords: Array<StopCoord | null>, flags: StopFlag[], active: number): string {
+  const blocking = flags.filter(f => f === 'unresolved').length;
+  const doubtful = flags.filter(f => f === 'low').length;
+  const summary  = blocking
+    ? `<div class="alert-err">❌ ${blocking} stop(s) not found — pin them on the map before saving.</div>`
+    : doubtful ? `<div class="hint">⚠️ ${doubtful} stop(s) look doubtful — check their pins.</div>` : '';
+
+  return summary + names.map((n, i) => {
+    const c = coords[i], b = FLAG_BADGES[flags[i]];
+    return `<div class="val-stop-row ${b.cls}"${i === active ? ' style="background:rgba(25,103,210,.06)"' : ''}>
+      <div class="val-stop-badge ${b.cls}">${b.icon}</div>
+      <span>${i + 1}. ${escHtml(n)}</span>
+      <span class="val-stop-coords">${c ? `${c.lat.toFixed(5)}, ${c.lon.toFixed(5)}` : 'NOT FOUND'}</span>
+      <button class="btn-sm" onclick="selectStopForPin(${i})">📍 Pin</button>
+      ${c && !c.confirmed ? `<button class="btn-sm" onclick="confirmStop(${i})">✓</button>` : ''}
+    </div>`;
+  }).join('');
+}
+
+/**
+ * buildSegmentTimesHTML — learned hop times per segment: the median for each
+ * hour of day (all weekdays pooled) and how many trips back it. Hours with
+ * fewer than `minTrips` trips are greyed — ETAs don't use them yet. Outbound
+ * hops come first in route order, then the return trip's in its travel order.
+ */
+export function buildSegmentTimesHTML(rows: SegmentStatRow[], minTrips = 5): string {
+  const pooled = rows.filter(r => r.dow === null);
+  if (!pooled.length) return '<div class="hint">No completed trips recorded for this route yet.</div>';
+
+  const segs = [...new Map(pooled.map(r => [`${r.reversed}:${r.seg_index}`, r])).values()]
+    .sort((a, b) => Number(a.reversed) - Number(b.reversed) || (a.reversed ? b.seg_index - a.seg_index : a.seg_index - b.seg_index));
+  return segs.map((seg, i) => {
+    const hours = pooled.filter(r => r.seg_index === seg.seg_index && r.reversed === seg.reversed).sort((a, b) => a.hour - b.hour);
+    const trips = hours.reduce((n, r) => n + r.trips, 0);
+    const chips = hours.map(r => `<span class="stop-badge${r.trips >= minTrips ? ' stop-start' : ''}" title="${r.trips} trip(s)">${String(r.hour).padStart(2, '0')}h · ${Math.round(r.median_sec / 60)} min · ${r.trips}</span>`).join(' ');
+    return `<div class="stop-item">
+      <div class="stop-num">${i + 1}</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(hours[0].from_stop)} → ${escHtml(hours[0].to_stop)}</div>
+        <div class="stop-dist">${trips} trip(s)</div>
+        <div class="stop-dist">${chips}</div>
+      </div>
+    </div>`;
+  }).join('');
+}
+
+/**
+ * buildDeviationLogHTML — the admin's off-route log, newest first. Open
+ * deviations (bus still off route, or sharing stopped mid-deviation) are
+ * badged; each row links to the spot where the bus left the route.
+ */
+export function buildDeviationLogHTML(rows: RouteDeviationRow[], busNames: Record<number, string> = {}): string {
+  if (!rows.length) return '<div class="hint">No route deviations recorded.</div>';
+  return rows.map((r, i) => {
+    const route = r.bus_id !== null ? busNames[r.bus_id] ?? `Route #${r.bus_id}` : 'No route';
+    const mins  = Math.max(1, Math.round(r.duration_sec / 60));
+    const map   = `https://www.openstreetmap.org/?mlat=${r.start_lat}&mlon=${r.start_lon}#map=16/${r.start_lat}/${r.start_lon}`;
+    return `<div class="stop-item">
+      <div class="stop-num">${i + 1}</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(route)} · ${escHtml(r.vehicle_id)}</div>
+        <div class="stop-dist">${formatWhen(r.started_at)} · ${mins} min · ${r.distance_km.toFixed(1)} km driven · up to ${r.max_off_route_m} m off (corridor ${r.corridor_m} m)</div>
+        <div class="stop-dist"><a href="${map}" target="_blank" rel="noopener">Where it left the route</a></div>
+      </div>
+      ${r.ended_at ? '' : '<span class="stop-badge stop-end">OPEN</span>'}
+    </div>`;
+  }).join('');
+}
+
+/** buildTripListHTML — one route's recorded trips for a day, each with a ▶ Play button. */
+export function buildTripListHTML(trips: TripSummaryRow[]): string {
+  if (!trips.length) return '<div class="hint">No trips recorded on this day.</div>';
+  return trips.map((t, i) => {
+    const mins = Math.round((new Date(t.ended_at).getTime() - new Date(t.started_at).getTime()) / 60_000);
+    return `<div class="stop-item">
+      <div class="stop-num">${i + 1}</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(formatTime(t.started_at))} – ${escHtml(formatTime(t.ended_at))} · ${escHtml(t.vehicle_id)}</div>
+        <div class="stop-dist">${mins} min · ${t.distance_km.toFixed(1)} km · ${t.samples} fixes</div>
+      </div>
+      <button class="btn-sm" onclick="playTrip('${escHtml(t.trip_id)}')">▶ Play</button>
+    </div>`;
+  }).join('');
+}
+
+export const PLAYBACK_SPEEDS = [1, 5, 10, 30, 60];
+
+/**
+ * buildPlaybackControlsHTML — play/pause, time slider and speed picker for
+ * tripPlayback. The slider works in seconds from the trip start; main.ts
+ * updates #trip-seek / #trip-clock on every frame.
+ */
+export function buildPlaybackControlsHTML(durationMs: number, speed = 10): string {
+  const max = Math.max(1, Math.round(durationMs / 1000));
+  return `<div class="pass-search-row" style="gap:8px;align-items:center">
+      <button class="btn-sm" id="trip-play" onclick="toggleTripPlayback()">▶</button>
+      <input type="range" id="trip-seek" min="0" max="${max}" value="0" step="1" style="flex:1" oninput="seekTrip(this.value)"/>
+      <span class="stop-dist" id="trip-clock">--:--</span>
+      <select id="trip-speed" onchange="setTripSpeed(this.value)">
+        ${PLAYBACK_SPEEDS.map(x => `<option value="${x}"${x === speed ? ' selected' : ''}>${x}×</option>`).join('')}
+      </select>
+    </div>`;
+}
+
+/**
+ * buildTimetableHTML — one route's timetable editor: minutes from the first
+ * stop for every stop (prefilled with an estimate until saved), the scheduled
+ * departures in both directions, and a form to add one. Stops without
+ * coordinates can still be timed; blank = no scheduled time.
+ */
+export function buildTimetableHTML(bus: { id: number; stops: string[] }, trips: ScheduledTripRow[], offsets: Array<number | null>, saved: boolean): string {
+  const first = bus.stops[0] ?? '', last = bus.stops[bus.stops.length - 1] ?? '';
+  const times = bus.stops.map((n, i) => `<div class="val-stop-row ok">
+      <span>${i + 1}. ${escHtml(n)}</span>
+      <input type="number" id="tt-off-${i}" min="0" step="1" value="${offsets[i] ?? ''}" style="width:72px"/> min
+    </div>`).join('');
+
+  const list = trips.length ? trips.map(t => `<div class="stop-item">
+      <div class="stop-num">${formatClock(t.departs)}</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(t.reversed ? `${last} → ${first}` : `${first} → ${last}`)}</div>
+        <div class="stop-dist">${daysLabel(t.days)}${t.note ? ` · ${escHtml(t.note)}` : ''}</div>
+      </div>
+      <button class="btn-sm btn-logout" onclick="removeScheduledTrip(${t.id},${bus.id})">✕</button>
+    </div>`).join('') : '<div class="hint">No scheduled departures yet.</div>';
+
+  const days = DAY_NAMES.map((d, i) => `<label><input type="checkbox" id="tt-day-${i}" checked/> ${d}</label>`).join(' ');
+  return `${saved ? '' : '<div class="hint">⚠️ Stop times below are estimated from the road route — check and save them.</div>'}
+    ${times}
+    <button class="btn-sm" onclick="saveStopOffsets(${bus.id})">💾 Save stop times</button>
+    ${list}
+    <div class="pass-search-row" style="gap:8px;align-items:center;flex-wrap:wrap">
+      <input type="time" id="tt-departs"/>
+      <select id="tt-dir">
+        <option value="0">${escHtml(first)} → ${escHtml(last)}</option>
+        <option value="1">${escHtml(last)} → ${escHtml(first)}</option>
+      </select>
+      <span class="stop-dist">${days}</span>
+      <input type="text" id="tt-note" placeholder="Note (optional)"/>
+      <button class="btn-sm" onclick="addScheduledTrip(${bus.id})">＋ Add departure</button>
+    </div>`;
+}
+
+/**
+ * buildServiceExceptionsHTML — upcoming holidays and extra service days,
+ * for one route or all, with a form to add one.
+ */
+export function buildServiceExceptionsHTML(rows: ServiceExceptionRow[], busNames: Record<number, string>): string {
+  const list = rows.length ? rows.map(r => `<div class="stop-item">
+      <div class="stop-num">${escHtml(r.day.slice(5))}</div>
+      <div class="stop-info">
+        <div class="stop-name">${r.bus_id !== null ? escHtml(busNames[r.bus_id] ?? `Route #${r.bus_id}`) : 'All routes'}</div>
+        <div class="stop-dist">${escHtml(r.day)}${r.note ? ` · ${escHtml(r.note)}` : ''}</div>
+      </div>
+      <span class="stop-badge ${r.runs ? 'stop-start' : 'stop-end'}">${r.runs ? 'RUNS' : 'NO SERVICE'}</span>
+      <button class="btn-sm btn-logout" onclick="removeServiceException(${r.id})">✕</button>
+    </div>`).join('') : '<div class="hint">No upcoming holidays or extra service days.</div>';
+
+  const routes = Object.entries(busNames).map(([id, name]) => `<option value="${id}">${escHtml(name)}</option>`).join('');
+  return `${list}
+    <div class="pass-search-row" style="gap:8px;align-items:center;flex-wrap:wrap">
+      <input type="date" id="ex-day"/>
+      <select id="ex-bus"><option value="">All routes</option>${routes}</select>
+      <label><input type="checkbox" id="ex-runs"/> Extra service day</label>
+      <input type="text" id="ex-note" placeholder="e.g. Pongal"/>
+      <button class="btn-sm" onclick="addServiceException()">＋ Add</button>
+    </div>`;
+}
+
+export type FleetSortKey = 'route' | 'vehicle' | 'age' | 'speed' | 'delay';
+export type FleetFilter  = 'all' | FleetStatus;
+
+export interface FleetRow {
+  vehicleId: string;
+  route    : string;
+  color    : string;
+  status   : FleetStatus;
+  ageSec   : number;
+  speed    : number;
+  delayMin : number | null;   // null = not on the timetable
+  onTime   : string;          // "On time" / "6 min late" / ''
+  lastStop : string;
+}
+
+const FLEET_COLUMNS: Array<[FleetSortKey, string]> = [['route', 'Route'], ['vehicle', 'Vehicle'], ['age', 'Last seen'], ['speed', 'Speed'], ['delay', 'On time']];
+const FLEET_FILTERS: Array<[FleetFilter, string]>  = [['all', 'All'], ['live', '🟢 Live'], ['stale', '🟡 Stale'], ['offline', '⚫ Offline']];
+
+/**
+ * buildFleetTableHTML — the fleet dashboard's vehicle table, already sorted
+ * and filtered by main.ts. Column headers call sortFleet(key) (again to
+ * reverse), the filter chips filterFleet(status), a row focusFleetVehicle(id).
+ */
+export function buildFleetTableHTML(rows: FleetRow[], sort: { key: FleetSortKey; desc: boolean }, filter: FleetFilter, counts: Record<FleetFilter, number>): string {
+  const chips = FLEET_FILTERS.map(([f, label]) =>
+    `<button class="btn-sm"${f === filter ? ' style="background:var(--bus);color:#fff"' : ''} onclick="filterFleet('${f}')">${label} ${counts[f]}</button>`).join(' ');
+  const head = FLEET_COLUMNS.map(([k, label]) =>
+    `<th style="text-align:left;padding:6px 4px;cursor:pointer;white-space:nowrap" onclick="sortFleet('${k}')">${label}${k === sort.key ? (sort.desc ? ' ▼' : ' ▲') : ''}</th>`).join('');
+  const body = rows.map(r => {
+    const late = r.delayMin !== null && r.onTime !== 'On time';
+    return `<tr style="border-top:1px solid var(--border);cursor:pointer${r.status === 'offline' ? ';opacity:.55' : ''}" onclick="focusFleetVehicle(${escHtml(JSON.stringify(r.vehicleId))})">
+      <td style="padding:6px 4px"><span style="display:inline-block;width:10px;height:10px;border-radius:50%;background:${r.color};margin-right:6px"></span>${escHtml(r.route)}</td>
+      <td style="padding:6px 4px">${escHtml(r.vehicleId)}${r.lastStop ? `<div class="stop-dist">${escHtml(r.lastStop)}</div>` : ''}</td>
+      <td style="padding:6px 4px;white-space:nowrap">${formatAge(r.ageSec)}${r.status === 'live' ? '' : ` <span class="stop-badge stop-end"${r.status === 'stale' ? ' style="background:rgba(245,166,35,.15);color:#d4830c"' : ''}>${r.status.toUpperCase()}</span>`}</td>
+      <td style="padding:6px 4px;white-space:nowrap">${Math.round(r.speed)} km/h</td>
+      <td style="padding:6px 4px;white-space:nowrap${late ? ';color:var(--red)' : ''}">${escHtml(r.onTime) || '—'}</td>
+    </tr>`;
+  }).join('');
+  return `<div class="pass-search-row" style="gap:6px;flex-wrap:wrap">${chips}</div>
+    ${rows.length
+      ? `<table style="width:100%;border-collapse:collapse;font-size:12px;margin-top:8px"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`
+      : '<div class="hint">No vehicles match this filter.</div>'}`;
+}
+
+// ── Utility ───────────────────────────────────────────────────────────────────
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? '' : d.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? '' : d.toLocaleTimeString('en-IN', { timeStyle: 'short' });
+}
+
+/** 42 → "42s ago", 300 → "5 min ago", 7200 → "2 h ago". */
+function formatAge(sec: number): string {
+  if (sec < 60)   return `${Math.max(0, Math.round(sec))}s ago`;
+  if (sec < 3600) return `${Math.round(sec / 60)} min ago`;
+  return `${Math.round(sec / 3600)} h ago`;
+}
+
+function escHtml(s: string): string {
+  return String(s || '').replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/"/g,'&quot;');
+}
@@ -13,6 +13,8 @@
  *   - Stop list does NOT appear in page layout
  *   - Floating info box is "very small, transparent, does not disturb the map"
  */
+import { OCCUPANCY_LEVELS, OCCUPANCY_LABELS, OCCUPANCY_COLORS } from '../shared/occupancy';
+import type { Occupancy } from '../shared/occupancy';
 
 export interface BusInfo {
   name      : string;
@@ -21,6 +23,8 @@ export interface BusInfo {
   speed     : number | string;
   distAway  : string;
   eta       : string;
+  lastStop? : string;   // "Departed Salem 4 min ago"
+  crowding? : string;   // "Standing room"
 }
 
 export interface DistanceInfo {
@@ -89,7 +93,7 @@ export function updateBusInfoCard(info: BusInfo): void {
   // ⚡ Only update text content elements — no structural DOM changes
   setTextSafe('bic-num',   info.name);
   setTextSafe('bic-name',  info.routeName);
-  setTextSafe('bic-stops', `${info.stops.length} stops`);
+  setTextSafe('bic-stops', [`${info.stops.length} stops`, info.lastStop, info.crowding && `👥 ${info.crowding}`].filter(Boolean).join(' · '));
   setTextSafe('ps-speed',  String(info.speed));
   setTextSafe('ps-dist',   info.distAway);
   setTextSafe('ps-eta',    info.eta);
@@ -129,17 +133,68 @@ export function hideDistancePanel(): void {
 
 // ── On-bus mode banner ────────────────────────────────────────────────────────
 
-export function setOnBusMode(active: boolean, speed?: number | string): void {
+let _crowdKey: string | null = null;
+
+/**
+ * setOnBusMode — shows / hides the "on the bus" banner. While on the bus the
+ * passenger gets one-tap crowding buttons (reportCrowding), `reported`
+ * highlighted; they're only re-rendered when that changes, so a speed
+ * update never swallows a tap.
+ */
+export function setOnBusMode(active: boolean, speed?: number | string, reported: Occupancy | null = null): void {
   const banner = document.getElementById('on-bus-banner');
   if (!banner) return;
   if (active) {
     banner.classList.add('show');
-    setTextSafe('on-bus-speed', String(speed ?? 0));
+    if (speed !== undefined) setTextSafe('on-bus-speed', String(speed));
+    let crowd = document.getElementById('on-bus-crowd');
+    if (!crowd) {
+      crowd = document.createElement('span');
+      crowd.id = 'on-bus-crowd';
+      banner.appendChild(crowd);
+    }
+    if (_crowdKey !== String(reported)) {
+      crowd.innerHTML = buildOccupancyButtonsHTML(reported, 'reportCrowding');
+      _crowdKey = String(reported);
+    }
   } else {
     banner.classList.remove('show');
   }
 }
 
+/** Four occupancy buttons calling `handler(level)`; the current one is filled. */
+export function buildOccupancyButtonsHTML(current: Occupancy | null, handler: 'setOccupancy' | 'reportCrowding'): string {
+  return OCCUPANCY_LEVELS.map(l => `<button class="btn-sm" onclick="${handler}('${l}')" style="border-color:${OCCUPANCY_COLORS[l]};${l === current ? `background:${OCCUPANCY_COLORS[l]};color:#fff` : ''}">${OCCUPANCY_LABELS[l]}</button>`).join(' ');
+}
+
+// ── Route alert banner (bus off its route) ────────────────────────────────────
+
+let _alertEl: HTMLElement | null = null;
+
+/**
+ * showRouteAlert — amber banner under the top of the map, e.g. "Bus diverted
+ * from its route for 6 min". Pass null to hide it.
+ *
+ * ⚡ Same reused-element approach as the status pill — no markup needed in the shell.
+ */
+export function showRouteAlert(message: string | null): void {
+  if (!message) { if (_alertEl) _alertEl.style.display = 'none'; return; }
+  if (!_alertEl) {
+    _alertEl = document.createElement('div');
+    _alertEl.style.cssText = [
+      'position:fixed', 'top:54px', 'left:50%', 'transform:translateX(-50%)',
+      'z-index:2100', 'background:#e37400', 'color:#fff',
+      'border-radius:50px', 'padding:8px 18px', 'font-size:12px',
+      'font-weight:700', 'white-space:nowrap', 'max-width:90vw',
+      'overflow:hidden', 'text-overflow:ellipsis',
+      'pointer-events:none',
+    ].join(';');
+    document.body.appendChild(_alertEl);
+  }
+  _alertEl.textContent = message;
+  _alertEl.style.display = 'block';
+}
+
 // ── Driver toast ──────────────────────────────────────────────────────────────
 
 let _toastTimer: ReturnType<typeof setTimeout> | null = null;
@@ -188,6 +243,101 @@ export function buildStopListHTML(stops: string[], highlightIndex = 0): string {
   }).join('');
 }
 
+export interface DepartureItem {
+  time   : string;   // "06:30"
+  route  : string;
+  towards: string;   // last stop of the trip's direction
+  inMin  : number;
+}
+
+/**
+ * buildDeparturesHTML — timetabled "next departures" from one stop, for when
+ * no driver is sharing. Same stop-item rows as the driver's stop list.
+ */
+export function buildDeparturesHTML(stop: string, items: DepartureItem[]): string {
+  const head = `<div class="hint">🕒 Next departures from <b>${escHtml(stop)}</b></div>`;
+  if (!items.length) return `${head}<div class="hint">No scheduled departures in the next day.</div>`;
+  return head + items.map(d => `<div class="stop-item">
+      <div class="stop-num">${escHtml(d.time)}</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(d.route)}</div>
+        <div class="stop-dist">to ${escHtml(d.towards)}</div>
+      </div>
+      <span class="stop-badge stop-start">${d.inMin < 1 ? 'NOW' : d.inMin < 60 ? `${d.inMin} MIN` : `${Math.floor(d.inMin / 60)} H ${d.inMin % 60} MIN`}</span>
+    </div>`).join('');
+}
+
+export interface JourneyItem {
+  minutes  : number;
+  km       : number;
+  transfers: number;
+  legs     : Array<{ route: string; from: string; to: string; color: string }>;
+}
+
+/**
+ * buildJourneysHTML — planned journeys between two stops, fastest first.
+ * Each leg's bullet uses the colour it is drawn in; tapping an option draws it.
+ */
+export function buildJourneysHTML(from: string, to: string, items: JourneyItem[]): string {
+  const head = `<div class="hint">🧭 <b>${escHtml(from)}</b> → <b>${escHtml(to)}</b></div>`;
+  if (!items.length) return `${head}<div class="hint">No route connects these stops with two changes or fewer.</div>`;
+  return head + items.map((j, i) => `<div class="stop-item" onclick="showJourney(${i})">
+      <div class="stop-num">${i + 1}</div>
+      <div class="stop-info">
+        ${j.legs.map(l => `<div class="stop-name"><span style="color:${l.color}">●</span> ${escHtml(l.route)}</div>
+        <div class="stop-dist">${escHtml(l.from)} → ${escHtml(l.to)}</div>`).join('')}
+      </div>
+      <span class="stop-badge stop-start">${j.minutes < 60 ? `${j.minutes} MIN` : `${Math.floor(j.minutes / 60)} H ${j.minutes % 60} MIN`}${j.transfers ? ` · ${j.transfers} CHANGE${j.transfers > 1 ? 'S' : ''}` : ''}</span>
+    </div>`).join('');
+}
+
+export interface NearbyItem {
+  name       : string;
+  walkM      : number;
+  walkMin    : number;
+  routes     : string[];
+  approaching: Array<{ bus: string; eta: string }>;   // live buses, soonest first
+}
+
+/**
+ * buildNearbyHTML — "near me": closest stops with walking distance, the
+ * routes serving each and live buses on their way. Tapping a stop shows
+ * its timetabled departures.
+ */
+export function buildNearbyHTML(items: NearbyItem[], radiusKm: number): string {
+  const head = `<div class="hint">📍 Stops within ${radiusKm < 1 ? `${Math.round(radiusKm * 1000)} m` : `${radiusKm} km`} of you</div>`;
+  if (!items.length) return `${head}<div class="hint">No stops nearby — try a wider radius.</div>`;
+  return head + items.map(s => `<div class="stop-item" onclick="showNextDepartures(${escHtml(JSON.stringify(s.name))})">
+      <div class="stop-num">🚶</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(s.name)}</div>
+        <div class="stop-dist">${s.walkM < 1000 ? `${s.walkM} m` : `${(s.walkM / 1000).toFixed(1)} km`} · ${s.walkMin} min walk · ${escHtml(s.routes.join(', '))}</div>
+        ${s.approaching.map(a => `<div class="stop-dist">🚌 ${escHtml(a.bus)} — ${escHtml(a.eta)}</div>`).join('')}
+      </div>
+      ${s.approaching.length ? `<span class="stop-badge stop-start">${escHtml(s.approaching[0].eta.toUpperCase())}</span>` : ''}
+    </div>`).join('');
+}
+
+export interface AlertItem {
+  id   : string;
+  title: string;    // "🚌 Salem–Attur → Salem"
+  rule : string;    // "within 5 min or 2 km"
+  push : boolean;   // also delivered with the page closed
+}
+
+/** buildAlertsHTML — the passenger's pending arrival alerts, each cancellable. */
+export function buildAlertsHTML(items: AlertItem[]): string {
+  if (!items.length) return '<div class="hint">No alerts set. Pick a bus and a stop to be notified as it gets close.</div>';
+  return items.map(a => `<div class="stop-item">
+      <div class="stop-num">🔔</div>
+      <div class="stop-info">
+        <div class="stop-name">${escHtml(a.title)}</div>
+        <div class="stop-dist">${escHtml(a.rule)}${a.push ? '' : ' · only while this page is open'}</div>
+      </div>
+      <button class="btn-sm" onclick="removeArrivalAlert('${escHtml(a.id)}')">✕</button>
+    </div>`).join('');
+}
+
 function escHtml(s: string): string {
   return String(s || '').replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/"/g,'&quot;');
 }
@@ -7,6 +7,9 @@
  *   2. Bearing calculation for direction arrows
  *   3. Haversine chain distance along polylines
  *   4. GPS noise filtering (removes sub-20m jitter points)
+ *   5. Route progress: snapping the bus onto the OSRM polyline (ETA engine)
+ *   6. Kalman GPS smoothing with outlier rejection (driver upload + passenger marker)
+ *   7. Journey planning across routes (services/journeyPlanner.ts)
  *
  * Main thread sends messages; worker replies with processed data.
  * Worker CANNOT access DOM or Leaflet directly.
@@ -16,6 +19,9 @@
  *   worker.postMessage({ type: 'parseGeometry', geometry: data.routes[0].geometry, totalDistance: data.routes[0].distance });
  *   worker.onmessage = e => { const { points, distanceKm } = e.data; drawRoute(points); };
  */
+import { buildStopGraph, findStops, planJourneys } from '../services/journeyPlanner';
+import { normalizeStopName } from '../shared/geocoders';
+import { createGpsTracks } from '../shared/kalmanGps';
 
 self.onmessage = function (e) {
   const { type } = e.data;
@@ -33,7 +39,7 @@ self.onmessage = function (e) {
      */
     case 'parseGeometry': {
       const { geometry, totalDistance } = e.data;
-      const points = geometry.coordinates.map(function (c) {
+      const points = geometry.coordinates.map(function (c: number[]) {
         return [c[1], c[0]]; // flip lon,lat → lat,lon
       });
       self.postMessage({
@@ -105,6 +111,99 @@ self.onmessage = function (e) {
       break;
     }
 
+    /**
+     * routeProgress
+     * Input:  { reqId, routeKey, points?: [lat,lon][], stops: [lat,lon][], pos: [lat,lon] }
+     * Output: { type: 'routeProgress', reqId, snapped: [lat,lon], offRouteM,
+     *           alongKm, totalKm, stopKm: number[] }
+     *
+     * ⚡ Cumulative km along the polyline and each stop's position on it are
+     *    computed once per route and kept here — later calls only send
+     *    routeKey + pos, not 3000+ points every GPS fix.
+     * ⚡ Snapping searches a window just behind/ahead of the last snapped
+     *    segment first, so a route that doubles back on itself (ghat hairpins,
+     *    out-and-back town loops) doesn't jump to the other carriageway.
+     */
+    case 'routeProgress': {
+      const msg = e.data;
+      if (msg.points && msg.routeKey !== _route.key) {
+        const cum = cumulativeKm(msg.points);
+        _route = { key: msg.routeKey, points: msg.points, cumKm: cum, stopKm: stopPositions(msg.points, cum, msg.stops), lastSeg: 0 };
+      }
+      if (msg.routeKey !== _route.key) {
+        self.postMessage({ type: 'routeProgress', reqId: msg.reqId, error: 'unknownRoute' });
+        break;
+      }
+
+      const pts    = _route.points;
+      const near   = projectOnto(pts, msg.pos, Math.max(0, _route.lastSeg - 20), Math.min(pts.length - 1, _route.lastSeg + 200));
+      const best   = near.distM <= SNAP_WINDOW_MAX_M ? near : projectOnto(pts, msg.pos, 0, pts.length - 1);
+      _route.lastSeg = best.seg;
+
+      self.postMessage({
+        type     : 'routeProgress',
+        reqId    : msg.reqId,
+        snapped  : best.point,
+        offRouteM: best.distM,
+        alongKm  : _route.cumKm[best.seg] + best.t * (_route.cumKm[best.seg + 1] - _route.cumKm[best.seg]),
+        totalKm  : _route.cumKm[pts.length - 1],
+        stopKm   : _route.stopKm,
+      });
+      break;
+    }
+
+    /**
+     * routePath
+     * Input:  { reqId, routeKey, fromKm, toKm }   (route already sent via routeProgress)
+     * Output: { type: 'routePath', reqId, points: [lat,lon][] | null }
+     *
+     * ⚡ The stretch of road between two along-route positions — what the bus
+     *    marker animates through between fixes (map/animationWorker.ts).
+     */
+    case 'routePath': {
+      const { reqId, routeKey, fromKm, toKm } = e.data;
+      self.postMessage({ type: 'routePath', reqId, points: routeKey === _route.key ? slicePath(fromKm, toKm) : null });
+      break;
+    }
+
+    /**
+     * kalmanGps
+     * Input:  { reqId, trackId, fix: {lat, lon, ts, accuracy?} }   (accuracy in metres)
+     * Output: { type: 'kalmanGps', reqId, trackId, accepted, lat, lon, speedKmh, heading }
+     *
+     * ⚡ Constant-velocity Kalman filter per track (one per bus) with outlier
+     *    rejection — see shared/kalmanGps.ts.
+     */
+    case 'kalmanGps': {
+      const out = _gps.step(e.data.trackId, e.data.fix);
+      self.postMessage({ type: 'kalmanGps', reqId: e.data.reqId, trackId: e.data.trackId, ...out });
+      break;
+    }
+
+    /**
+     * planJourneys
+     * Input:  { reqId, routes: PlannerRoute[], from: string, to: string }   (typed stop names)
+     * Output: { type: 'planJourneys', reqId, fromFound, toFound, journeys: Journey[] }
+     *
+     * ⚡ The graph is rebuilt per query (linear in stops); the round-based
+     *    search is linear per round too, but on a large network it is still
+     *    tens of thousands of label updates the map shouldn't wait on.
+     */
+    case 'planJourneys': {
+      const { reqId, routes, from, to } = e.data;
+      const graph    = buildStopGraph(routes);
+      const fromKeys = findStops(graph, from, normalizeStopName);
+      const toKeys   = findStops(graph, to, normalizeStopName);
+      const journeys = fromKeys.length && toKeys.length ? planJourneys(graph, fromKeys, toKeys) : [];
+      self.postMessage({ type: 'planJourneys', reqId, fromFound: fromKeys.length > 0, toFound: toKeys.length > 0, journeys });
+      break;
+    }
+
+    case 'kalmanReset': {
+      _gps.reset(e.data.trackId);
+      break;
+    }
+
     /**
      * filterNoisyGps
      * Input:  { rawPoints: [{lat,lon,timestamp?}][], minDistMeters?: number }
@@ -140,3 +239,74 @@ self.onmessage = function (e) {
       console.warn('[RouteWorker] Unknown message type:', type);
   }
 };
+
+// ── Route progress helpers ────────────────────────────────────────────────────
+
+const SNAP_WINDOW_MAX_M = 200; // farther than this from the windowed match → search the whole route
+
+let _route: { key: string | null; points: [number, number][]; cumKm: number[]; stopKm: number[]; lastSeg: number } =
+  { key: null, points: [], cumKm: [], stopKm: [], lastSeg: 0 };
+
+function haversineKm(a: [number, number], b: [number, number]): number {
+  const dLat = (b[0] - a[0]) * Math.PI / 180;
+  const dLon = (b[1] - a[1]) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2
+             + Math.cos(a[0] * Math.PI / 180) * Math.cos(b[0] * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function cumulativeKm(points: [number, number][]): number[] {
+  const cum = [0];
+  for (let i = 1; i < points.length; i++) cum.push(cum[i - 1] + haversineKm(points[i - 1], points[i]));
+  return cum;
+}
+
+/**
+ * projectOnto — nearest point on segments [from, to) of the polyline.
+ * Uses a local equirectangular plane per segment — exact enough at the
+ * few-hundred-metre scale of one OSRM segment.
+ */
+function projectOnto(points: [number, number][], pos: [number, number], from: number, to: number): { seg: number; t: number; point: [number, number]; distM: number } {
+  let best = { seg: 0, t: 0, point: points[0], distM: Infinity };
+  const kx = Math.cos(pos[0] * Math.PI / 180);
+  for (let i = from; i < Math.min(to, points.length - 1); i++) {
+    const a = points[i], b = points[i + 1];
+    const dx = (b[1] - a[1]) * kx, dy = b[0] - a[0];
+    const len2 = dx * dx + dy * dy;
+    const t = len2 ? Math.max(0, Math.min(1, (((pos[1] - a[1]) * kx) * dx + (pos[0] - a[0]) * dy) / len2)) : 0;
+    const p: [number, number] = [a[0] + t * dy, a[1] + t * (b[1] - a[1])];
+    const d = haversineKm(pos, p) * 1000;
+    if (d < best.distM) best = { seg: i, t, point: p, distM: d };
+  }
+  return best;
+}
+
+function pointAtKm(km: number): [number, number] {
+  const cum = _route.cumKm, pts = _route.points;
+  let i = 0;
+  while (i < cum.length - 2 && cum[i + 1] < km) i++;
+  const f = cum[i + 1] > cum[i] ? Math.max(0, Math.min(1, (km - cum[i]) / (cum[i + 1] - cum[i]))) : 0;
+  return [pts[i][0] + (pts[i + 1][0] - pts[i][0]) * f, pts[i][1] + (pts[i + 1][1] - pts[i][1]) * f];
+}
+
+/** Polyline from fromKm to toKm along the current route, endpoints interpolated. */
+function slicePath(fromKm: number, toKm: number): [number, number][] {
+  const path: [number, number][] = [pointAtKm(fromKm)];
+  _route.cumKm.forEach((km, i) => { if (km > fromKm && km < toKm) path.push(_route.points[i]); });
+  path.push(pointAtKm(toKm));
+  return path;
+}
+
+/** Along-route km of each stop, searched forward so stops stay in route order. */
+function stopPositions(points: [number, number][], cum: number[], stops: [number, number][]): number[] {
+  let from = 0;
+  return stops.map(s => {
+    const p = projectOnto(points, s, from, points.length - 1);
+    from = p.seg;
+    return cum[p.seg] + p.t * (cum[p.seg + 1] - cum[p.seg]);
+  });
+}
+
+// ── Kalman GPS filter (shared/kalmanGps.ts) ───────────────────────────────────
+
+const _gps = createGpsTracks();
@@ -0,0 +1,205 @@
+/**
+ * tileServiceWorker.ts — Service Worker: offline app shell + OSM map tiles + push
+ * (Built to /sw.js at the site root; registered via navigator.serviceWorker.register('/sw.js'))
+ *
+ * ⚡ Caches:
+ *   1. App shell (index.html, Leaflet JS/CSS) — network-first, cache fallback,
+ *      so the app still opens with no signal.
+ *   2. Map tiles — cache-first. Every tile the passenger has seen, plus every
+ *      tile pre-fetched by "Download route for offline", keeps rendering in
+ *      rural dead zones where our buses actually run.
+ *
+ * ⚡ The tile cache is bounded: a tile older than TILE_MAX_AGE_MS is fetched
+ *    again when there is signal (and still served when there isn't), and past
+ *    MAX_CACHED_TILES the least recently fetched tiles are evicted.
+ *
+ * ⚡ Tile URLs are normalised to one host (a./b./c. subdomains → tile.openstreetmap.org)
+ *    so a tile fetched from "b." is a hit when Leaflet later asks "c.".
+ *    Tiles from the deployment's own server (`tile_url` setting) are
+ *    recognised by their /{z}/{x}/{y}.png path, whatever the host.
+ *
+ * MESSAGES (page → worker):
+ *   { type: 'precacheTiles', jobId, urls: string[] } → progress / done replies
+ *   { type: 'tileUsage' }                            → { type: 'tileUsage', count }
+ *   { type: 'purgeTiles' }                           → { type: 'tilesPurged' }
+ *
+ * PUSH (push-alerts edge function): { title, body, tag } → one notification;
+ * tapping it focuses an open BusTrack tab or opens one.
+ */
+export {};
+declare const self: ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = 'bt-shell-v1';
+const TILE_CACHE  = 'bt-tiles-v1';
+const SHELL_URLS  = [
+  '/',
+  '/index.html',
+  'https://unpkg.com/leaflet@1.9.4/dist/leaflet.js',
+  'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css',
+];
+const TILE_HOST   = /^https:\/\/[abc]\.tile\.openstreetmap\.org\//;
+const TILE_PATH   = /\/\d{1,2}\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)(\?.*)?$/i;
+const PRECACHE_CONCURRENCY = 4; // OSM tile policy: keep bulk fetches gentle
+const TILE_MAX_AGE_MS  = 30 * 86_400_000;
+const MAX_CACHED_TILES = 12_000;  // ~120 MB; three or four downloaded routes plus browsing
+const TRIM_EVERY       = 50;      // tile writes between two eviction passes
+const CACHED_AT        = 'x-bt-cached-at';
+
+function canonicalTileUrl(url: string): string {
+  return url.replace(TILE_HOST, 'https://tile.openstreetmap.org/');
+}
+
+self.addEventListener('install', e => {
+  e.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(c => c.addAll(SHELL_URLS))
+      .catch(() => { /* offline install — shell is cached on next online visit */ })
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', e => {
+  e.waitUntil((async () => {
+    const keep = [SHELL_CACHE, TILE_CACHE];
+    for (const k of await caches.keys()) if (!keep.includes(k)) await caches.delete(k);
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', e => {
+  const req = e.request;
+  if (req.method !== 'GET') return;
+
+  const url = new URL(req.url);
+  if (url.origin !== self.location.origin && TILE_PATH.test(url.pathname + url.search)) {
+    e.respondWith(tileFirst(req));
+    return;
+  }
+
+  const isShell = req.mode === 'navigate' || SHELL_URLS.includes(req.url) || (url.origin === self.location.origin && url.pathname.startsWith('/assets/'));
+  if (isShell) e.respondWith(networkFirst(req));
+  // Everything else (Supabase, OSRM, Nominatim) goes straight to the network
+});
+
+async function tileFirst(req: Request): Promise<Response> {
+  const key   = canonicalTileUrl(req.url);
+  const cache = await caches.open(TILE_CACHE);
+  const hit   = await cache.match(key);
+  if (hit && isFresh(hit)) return hit;
+  try {
+    const resp = await fetch(req);
+    if (!resp.ok) return hit ?? resp;
+    putTile(cache, key, resp.clone());
+    return resp;
+  } catch {
+    return hit ?? new Response('', { status: 504, statusText: 'Tile offline' });
+  }
+}
+
+// ── Tile cache bounds ─────────────────────────────────────────────────────────
+
+let putsSinceTrim = 0;
+
+function isFresh(resp: Response): boolean {
+  const at = Number(resp.headers.get(CACHED_AT));
+  return at > 0 && Date.now() - at < TILE_MAX_AGE_MS;
+}
+
+/** Stores a tile stamped with the time it was fetched; trims the cache now and then. */
+async function putTile(cache: Cache, key: string, resp: Response): Promise<void> {
+  const headers = new Headers(resp.headers);
+  headers.set(CACHED_AT, String(Date.now()));
+  await cache.put(key, new Response(resp.body, { status: resp.status, statusText: resp.statusText, headers }));
+  if (++putsSinceTrim >= TRIM_EVERY) await trimTiles(cache);
+}
+
+/**
+ * Evicts the least recently fetched tiles past MAX_CACHED_TILES. A put
+ * replaces its entry at the end of keys(), so keys() runs oldest fetch first.
+ */
+async function trimTiles(cache: Cache): Promise<void> {
+  putsSinceTrim = 0;
+  const keys = await cache.keys();
+  for (const k of keys.slice(0, Math.max(0, keys.length - MAX_CACHED_TILES))) await cache.delete(k);
+}
+
+async function networkFirst(req: Request): Promise<Response> {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const resp = await fetch(req);
+    if (resp.ok) cache.put(req, resp.clone());
+    return resp;
+  } catch {
+    return (await cache.match(req)) ?? (await cache.match('/index.html')) ?? Response.error();
+  }
+}
+
+self.addEventListener('message', e => {
+  const data   = e.data || {};
+  const source = e.source as Client | null;
+  const reply  = (msg: unknown) => source?.postMessage(msg);
+
+  switch (data.type) {
+    case 'precacheTiles':
+      e.waitUntil(precacheTiles(data.jobId, data.urls as string[], reply));
+      break;
+
+    case 'tileUsage':
+      e.waitUntil(caches.open(TILE_CACHE).then(c => c.keys()).then(keys => reply({ type: 'tileUsage', count: keys.length })));
+      break;
+
+    case 'purgeTiles':
+      e.waitUntil(caches.delete(TILE_CACHE).then(() => reply({ type: 'tilesPurged' })));
+      break;
+  }
+});
+
+/**
+ * precacheTiles — fetches the given tiles into TILE_CACHE, skipping any already
+ * cached and fresh, with a small worker pool. Reports progress every 25 tiles.
+ */
+async function precacheTiles(jobId: string, urls: string[], reply: (msg: unknown) => void): Promise<void> {
+  const cache = await caches.open(TILE_CACHE);
+  let done = 0, failed = 0, next = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const key = canonicalTileUrl(urls[next++]);
+      try {
+        const hit = await cache.match(key);
+        if (!hit || !isFresh(hit)) {
+          const resp = await fetch(key);
+          if (resp.ok) await putTile(cache, key, resp);
+          else failed++;
+        }
+      } catch { failed++; }
+      done++;
+      if (done % 25 === 0) reply({ type: 'precacheProgress', jobId, done, total: urls.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: PRECACHE_CONCURRENCY }, worker));
+  await trimTiles(cache);
+  reply({ type: 'precacheDone', jobId, done, failed, total: urls.length });
+}
+
+// ── Web Push (arrival alerts) ─────────────────────────────────────────────────
+
+self.addEventListener('push', e => {
+  let msg: { title?: string; body?: string; tag?: string } = {};
+  try { msg = e.data?.json() ?? {}; } catch { msg = { body: e.data?.text() }; }
+  e.waitUntil(self.registration.showNotification(msg.title || 'BusTrack', {
+    body    : msg.body ?? '',
+    tag     : msg.tag,          // same tag as the page's own notification — shown once
+    renotify: true,
+  } as NotificationOptions));
+});
+
+self.addEventListener('notificationclick', e => {
+  e.notification.close();
+  e.waitUntil((async () => {
+    const open = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (open.length) return (open[0] as WindowClient).focus();
+    return self.clients.openWindow('/');
+  })());
+});
@@ -0,0 +1,162 @@
+/**
+ * gtfs-realtime/index.ts — Edge Function serving a GTFS-Realtime feed
+ *
+ * PURPOSE:
+ *  Publishes live buses to trip planners and aggregators (Google Maps,
+ *  Transit, OpenTripPlanner) as GTFS-Realtime, next to the static feed the
+ *  admin panel exports (src/shared/gtfs.ts). Same route / trip / stop ids, so
+ *  consumers join the two feeds without any mapping.
+ *
+ * ENDPOINTS (GET):
+ *  ?feed=vehicles   VehiclePositions — position, bearing, speed, next stop
+ *  ?feed=trips      TripUpdates — predicted arrival at every stop ahead
+ *  (no feed)        both entity types in one message
+ *  &format=json     human-readable debug form (proto field names), else
+ *                   protobuf (application/x-protobuf)
+ *
+ * ⚡ Built from driver_location (sharing buses updated in the last
+ *    STALE_MIN minutes) and the learned hop medians in segment_time_stats
+ *    for the current IST hour — the same ETA model passengers see. Buses on
+ *    timetabled routes are matched to their scheduled trip (scheduled_trips,
+ *    service_exceptions) and carry its delay, and each bus carries its
+ *    occupancy from the driver's level and passengers' crowd_reports.
+ *
+ * ⚡ Each isolate caches the built feed for CACHE_SEC; consumers poll every
+ *    10–30 s, so the database sees at most a few reads per interval however
+ *    many clients poll.
+ *
+ * DEPLOYMENT:
+ *  supabase functions deploy gtfs-realtime --no-verify-jwt
+ *  (the feed is public; the function reads with the service role key)
+ */
+
+// Deno / Supabase Edge Function runtime
+declare const Deno: any;
+
+import { buildFeed, encodeFeed } from '../../../src/shared/gtfsRealtime.ts';
+import type { FeedKind, FeedMessage, RtRoute, RtVehicle } from '../../../src/shared/gtfsRealtime.ts';
+import { addDays, istClock } from '../../../src/shared/timetable.ts';
+import type { ScheduledTrip, ServiceException } from '../../../src/shared/timetable.ts';
+import { crowdLevel, isOccupancy, REPORT_WINDOW_MIN } from '../../../src/shared/occupancy.ts';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const STALE_MIN = 10;
+const CACHE_SEC = 10;
+const MIN_TRIPS = 3;   // hop medians from fewer trips are too noisy to use
+
+const _cache = new Map<FeedKind, { at: number; feed: FeedMessage }>();
+
+// ── Edge Function handler ─────────────────────────────────────────────────────
+
+export default async function handler(req: Request): Promise<Response> {
+  // CORS headers for browser clients
+  const corsHeaders: Record<string, string> = {
+    'Access-Control-Allow-Origin' : '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const feedParam = params.get('feed');
+  const kind: FeedKind = feedParam === 'vehicles' || feedParam === 'trips' ? feedParam : 'all';
+
+  try {
+    const feed = await currentFeed(kind);
+    const headers = {
+      ...corsHeaders,
+      'Cache-Control': `public, max-age=${CACHE_SEC}`,
+      'Last-Modified': new Date(feed.header.timestamp * 1000).toUTCString(),
+    };
+    if (params.get('format') === 'json') {
+      return new Response(JSON.stringify(feed, null, 2), { status: 200, headers: { ...headers, 'Content-Type': 'application/json' } });
+    }
+    return new Response(encodeFeed(feed) as BodyInit, { status: 200, headers: { ...headers, 'Content-Type': 'application/x-protobuf' } });
+  } catch (err: any) {
+    console.error('[gtfs-realtime] Error:', err);
+    return new Response(JSON.stringify({ error: 'Internal server error', detail: err.message }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  }
+}
+
+// ── Feed assembly ─────────────────────────────────────────────────────────────
+
+async function currentFeed(kind: FeedKind): Promise<FeedMessage> {
+  const now    = Date.now();
+  const cached = _cache.get(kind);
+  if (cached && now - cached.at < CACHE_SEC * 1000) return cached.feed;
+
+  const since = new Date(now - STALE_MIN * 60_000).toISOString();
+  const vehicles: RtVehicle[] = (await dbSelect(
+    `driver_location?sharing=is.true&lat=not.is.null&updated_at=gte.${encodeURIComponent(since)}` +
+    '&select=vehicle_id,bus_id,lat,lon,speed,heading,updated_at,reversed,last_stop,last_stop_event,last_stop_at,occupancy,occupancy_at'
+  )) ?? [];
+  await addOccupancy(vehicles as Array<RtVehicle & { occupancy_at?: string | null }>, now);
+
+  const busIds = [...new Set(vehicles.map(v => v.bus_id).filter((id): id is number => id !== null))];
+  const routes: RtRoute[] = [];
+  const hops = new Map<string, number>();
+  let exceptions: ServiceException[] = [];
+  if (busIds.length) {
+    const ids = busIds.join(',');
+    const [buses, trips, exRows] = await Promise.all([
+      dbSelect(`buses?id=in.(${ids})&select=id,name,stops,stop_coords,shape,stop_offsets`),
+      dbSelect(`scheduled_trips?bus_id=in.(${ids})&select=id,bus_id,reversed,departs,days`),
+      dbSelect(`service_exceptions?day=gte.${addDays(istClock(now).day, -1)}&or=(bus_id.is.null,bus_id.in.(${ids}))&select=bus_id,day,runs`),
+    ]);
+    const timetable: ScheduledTrip[] = (trips ?? []).map(t => ({ id: t.id, busId: t.bus_id, reversed: t.reversed, departs: t.departs, days: t.days }));
+    exceptions = (exRows ?? []).map(e => ({ busId: e.bus_id, day: e.day, runs: e.runs }));
+    for (const b of buses ?? []) {
+      routes.push({
+        id        : b.id,
+        name      : b.name,
+        stops     : b.stops ?? [],
+        stopCoords: b.stop_coords ?? [],
+        shape     : b.shape ?? null,
+        offsets   : b.stop_offsets ?? null,
+        timetable : timetable.filter(t => t.busId === b.id),
+      });
+    }
+    // All-weekday medians for this IST hour (the dow IS NULL grouping set)
+    const hour  = new Date(now + 330 * 60_000).getUTCHours();
+    const stats = await dbSelect(
+      `segment_time_stats?bus_id=in.(${busIds.join(',')})&hour=eq.${hour}&dow=is.null&trips=gte.${MIN_TRIPS}&select=bus_id,seg_index,reversed,median_sec`
+    ) ?? [];
+    for (const s of stats) hops.set(`${s.bus_id}:${s.seg_index}:${s.reversed}`, s.median_sec);
+  }
+
+  const feed = buildFeed(kind, vehicles, routes, now, (busId, seg, rev) => hops.get(`${busId}:${seg}:${rev}`) ?? null, exceptions);
+  _cache.set(kind, { at: now, feed });
+  return feed;
+}
+
+/** Replaces each bus's driver-set occupancy with the level combined with passenger reports. */
+async function addOccupancy(vehicles: Array<RtVehicle & { occupancy_at?: string | null }>, now: number): Promise<void> {
+  if (!vehicles.length) return;
+  const since   = new Date(now - REPORT_WINDOW_MIN * 60_000).toISOString();
+  const ids     = vehicles.map(v => `"${v.vehicle_id.replace(/"/g, '')}"`).join(',');
+  const reports = await dbSelect(`crowd_reports?vehicle_id=in.(${encodeURIComponent(ids)})&reported_at=gte.${encodeURIComponent(since)}&select=vehicle_id,level,reported_at,reporter`) ?? [];
+  for (const v of vehicles) {
+    const driver = isOccupancy(v.occupancy) && v.occupancy_at ? { level: v.occupancy, at: new Date(v.occupancy_at).getTime() } : null;
+    const crowd  = reports.filter(r => r.vehicle_id === v.vehicle_id && isOccupancy(r.level)).map(r => ({ level: r.level, at: new Date(r.reported_at).getTime(), reporter: r.reporter }));
+    v.occupancy = crowdLevel(driver, crowd, now)?.level ?? null;
+  }
+}
+
+// ── Utility functions ─────────────────────────────────────────────────────────
+
+async function dbSelect(path: string): Promise<any[] | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const resp = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    headers: { 'apikey': supabaseKey, 'Authorization': `Bearer ${supabaseKey}` },
+  });
+  return resp.ok ? resp.json() : null;
+}
@@ -0,0 +1,245 @@
+/**
+ * push-alerts/index.ts — Edge Function for arrival alerts over Web Push
+ *
+ * PURPOSE:
+ *  Passengers ask to be notified when a bus is N minutes / N km from their
+ *  stop, or before their destination. While the page is open it notifies
+ *  them itself; this function covers the closed tab: it stores the browser's
+ *  push subscription with the alert and, every minute, pushes the alerts
+ *  that have come due.
+ *
+ * ENDPOINTS:
+ *  GET                              { publicKey } — VAPID key for pushManager.subscribe()
+ *  POST { action: 'subscribe', subscription, alert }   → { id } (429 over the limits)
+ *  POST { action: 'cancel', endpoint, id }             → { ok }
+ *  POST { action: 'check' }         service role only — send due alerts
+ *                                   (pg_cron schedule in migration 20261019001000)
+ *
+ * ⚡ Due = the same rule and ETA model as the page (src/shared/arrivalAlerts.ts,
+ *    upcomingStops from src/shared/gtfsRealtime.ts with the learned hop
+ *    medians for this hour), so the push and the in-page notification agree.
+ *
+ * ⚡ Subscriptions must be https endpoints on a known push service with
+ *    well-formed keys (isPushTarget) — the function never POSTs anywhere else.
+ *
+ * ⚡ Alerts are stored through add_arrival_alert() (migration
+ *    20261019001600): thresholds of 1–120 min / 0.1–50 km, at most
+ *    MAX_PENDING pending per subscription, and rate limits per subscription
+ *    and client IP (429 when hit).
+ *
+ * ⚡ A subscription the push service reports gone (404 / 410), or one that
+ *    can't be encrypted for, is deleted with its alerts; other failures are
+ *    retried on the next check. One bad subscription never stops the rest.
+ *    Alerts expire after ALERT_TTL_H whether or not they fired.
+ *
+ * DEPLOYMENT:
+ *  supabase secrets set VAPID_PUBLIC_KEY=… VAPID_PRIVATE_KEY=… VAPID_SUBJECT=mailto:ops@example.in
+ *  supabase functions deploy push-alerts
+ *  (keys from `npx web-push generate-vapid-keys`)
+ */
+
+// Deno / Supabase Edge Function runtime
+declare const Deno: any;
+
+import { upcomingStops } from '../../../src/shared/gtfsRealtime.ts';
+import type { RtRoute, RtVehicle } from '../../../src/shared/gtfsRealtime.ts';
+import { ALERT_KM, ALERT_MINUTES, alertDue, alertMessage, alertTag, validAlertThresholds } from '../../../src/shared/arrivalAlerts.ts';
+import { isPushTarget, sendPush } from '../../../src/shared/webPush.ts';
+import type { VapidKeys } from '../../../src/shared/webPush.ts';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+interface AlertInput {
+  bus_id    : number;
+  vehicle_id: string | null;
+  stop_index: number;
+  stop_name : string;
+  kind      : 'approach' | 'destination';
+  minutes   : number | null;
+  km        : number | null;
+}
+
+interface PushRequest {
+  action       : 'subscribe' | 'cancel' | 'check';
+  subscription?: { endpoint: string; keys: { p256dh: string; auth: string } };
+  alert?       : AlertInput;
+  endpoint?    : string;
+  id?          : number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const STALE_MIN   = 10;
+const MIN_TRIPS   = 3;
+const ALERT_TTL_H = 6;   // nobody waits longer for one bus
+const MAX_PENDING = 10;  // per subscription — enforced by add_arrival_alert()
+
+// ── Edge Function handler ─────────────────────────────────────────────────────
+
+export default async function handler(req: Request): Promise<Response> {
+  // CORS headers for browser clients
+  const corsHeaders = {
+    'Access-Control-Allow-Origin' : '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, apikey',
+    'Content-Type': 'application/json',
+  };
+  const reply = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  const vapid = vapidKeys();
+  if (!vapid) return reply({ error: 'Web Push is not configured (VAPID_* secrets)' }, 503);
+  if (req.method === 'GET') return reply({ publicKey: vapid.publicKey });
+  if (req.method !== 'POST') return reply({ error: 'Method not allowed' }, 405);
+
+  let body: PushRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return reply({ error: 'Invalid JSON body' }, 400);
+  }
+
+  try {
+    if (body.action === 'subscribe') {
+      const sub = body.subscription, a = body.alert;
+      if (!sub?.endpoint || !sub.keys?.p256dh || !sub.keys?.auth || !a || !Number.isInteger(a.bus_id) || !Number.isInteger(a.stop_index)) {
+        return reply({ error: 'subscription and alert (bus_id, stop_index, minutes or km) required' }, 400);
+      }
+      const minutes = typeof a.minutes === 'number' ? Math.round(a.minutes) : null;
+      const km      = typeof a.km === 'number' ? a.km : null;
+      if (!validAlertThresholds(minutes, km)) {
+        return reply({ error: `minutes (${ALERT_MINUTES.min}–${ALERT_MINUTES.max}) or km (${ALERT_KM.min}–${ALERT_KM.max}) required` }, 400);
+      }
+      if (!isPushTarget({ endpoint: sub.endpoint, p256dh: sub.keys.p256dh, auth: sub.keys.auth })) {
+        return reply({ error: 'Unsupported push service or malformed subscription keys' }, 400);
+      }
+      const [res] = await db('rpc/add_arrival_alert', 'POST', {
+        p_endpoint  : sub.endpoint,
+        p_p256dh    : sub.keys.p256dh,
+        p_auth      : sub.keys.auth,
+        p_bus       : a.bus_id,
+        p_vehicle   : a.vehicle_id ?? null,
+        p_stop_index: a.stop_index,
+        p_stop_name : String(a.stop_name ?? ''),
+        p_kind      : a.kind === 'destination' ? 'destination' : 'approach',
+        p_minutes   : minutes,
+        p_km        : km,
+        p_ip        : req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      }) ?? [];
+      if (!res) return reply({ error: 'Could not store alert' }, 500);
+      if (res.result === 'ok')           return reply({ id: res.alert_id });
+      if (res.result === 'too_many')     return reply({ error: `At most ${MAX_PENDING} alerts at a time` }, 429);
+      if (res.result === 'rate_limited') return reply({ error: 'Too many alerts — try again later' }, 429);
+      return reply({ error: 'Unknown bus or stop' }, 400);
+    }
+
+    if (body.action === 'cancel') {
+      if (!body.endpoint || !Number.isInteger(body.id)) return reply({ error: 'endpoint and id required' }, 400);
+      const [sub] = await dbSelect(`push_subscriptions?endpoint=eq.${encodeURIComponent(body.endpoint)}&select=id`) ?? [];
+      // Kept until it expires, so cancelling does not free up the rate limit
+      if (sub) await db(`arrival_alerts?id=eq.${body.id}&subscription_id=eq.${sub.id}`, 'PATCH', { cancelled_at: new Date().toISOString() });
+      return reply({ ok: true });
+    }
+
+    if (body.action === 'check') {
+      if (req.headers.get('Authorization') !== `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) return reply({ error: 'Forbidden' }, 403);
+      return reply(await checkAlerts(vapid));
+    }
+
+    return reply({ error: 'Unknown action' }, 400);
+  } catch (err: any) {
+    console.error('[push-alerts] Error:', err);
+    return reply({ error: 'Internal server error', detail: err.message }, 500);
+  }
+}
+
+// ── Due-alert check ───────────────────────────────────────────────────────────
+
+async function checkAlerts(vapid: VapidKeys): Promise<{ pending: number; sent: number }> {
+  const now = Date.now();
+  await db(`arrival_alerts?created_at=lt.${encodeURIComponent(new Date(now - ALERT_TTL_H * 3600_000).toISOString())}`, 'DELETE');
+
+  const alerts = await dbSelect('arrival_alerts?fired_at=is.null&cancelled_at=is.null&select=*,push_subscriptions(id,endpoint,p256dh,auth)') ?? [];
+  if (!alerts.length) return { pending: 0, sent: 0 };
+
+  const ids   = [...new Set(alerts.map(a => a.bus_id))].join(',');
+  const since = new Date(now - STALE_MIN * 60_000).toISOString();
+  const hour  = new Date(now + 330 * 60_000).getUTCHours();
+  const [vehicles, buses, stats] = await Promise.all([
+    dbSelect(`driver_location?sharing=is.true&lat=not.is.null&bus_id=in.(${ids})&updated_at=gte.${encodeURIComponent(since)}` +
+      '&select=vehicle_id,bus_id,lat,lon,speed,heading,updated_at,reversed'),
+    dbSelect(`buses?id=in.(${ids})&select=id,name,stops,stop_coords,shape`),
+    dbSelect(`segment_time_stats?bus_id=in.(${ids})&hour=eq.${hour}&dow=is.null&trips=gte.${MIN_TRIPS}&select=bus_id,seg_index,reversed,median_sec`),
+  ]);
+  const routes = new Map<number, RtRoute>();
+  for (const b of buses ?? []) routes.set(b.id, { id: b.id, name: b.name, stops: b.stops ?? [], stopCoords: b.stop_coords ?? [], shape: b.shape ?? null });
+  const hops = new Map<string, number>();
+  for (const s of stats ?? []) hops.set(`${s.bus_id}:${s.seg_index}:${s.reversed}`, s.median_sec);
+  const hopSec = (busId: number, seg: number, rev: boolean) => hops.get(`${busId}:${seg}:${rev}`) ?? null;
+
+  let sent = 0;
+  for (const a of alerts) {
+    const route = routes.get(a.bus_id);
+    const sub   = a.push_subscriptions;
+    if (!route || !sub) continue;
+    // Soonest bus on the route (or the one the passenger picked) still heading to the stop
+    let eta: { km: number; etaSec: number } | null = null;
+    for (const v of (vehicles ?? []) as RtVehicle[]) {
+      if (v.bus_id !== a.bus_id || (a.vehicle_id && v.vehicle_id !== a.vehicle_id)) continue;
+      const up = upcomingStops(v, route, hopSec).find(u => u.index === a.stop_index);
+      if (up && (!eta || up.etaSec < eta.etaSec)) eta = { km: up.km, etaSec: up.etaSec };
+    }
+    const rule = { kind: a.kind, busName: route.name, stopName: a.stop_name, minutes: a.minutes, km: a.km };
+    if (!eta || !alertDue(rule, eta)) continue;
+
+    let status: number;
+    try {
+      if (!isPushTarget(sub)) throw new Error('not a push service endpoint');
+      status = await sendPush(sub, JSON.stringify({ ...alertMessage(rule, eta), tag: alertTag(a.id) }), vapid);
+    } catch (err: any) {
+      console.error(`[push-alerts] Dropping subscription ${sub.id}:`, err.message);
+      await db(`push_subscriptions?id=eq.${sub.id}`, 'DELETE');
+      continue;
+    }
+    if (status === 404 || status === 410) { await db(`push_subscriptions?id=eq.${sub.id}`, 'DELETE'); continue; }
+    if (status >= 200 && status < 300) {
+      await db(`arrival_alerts?id=eq.${a.id}`, 'PATCH', { fired_at: new Date().toISOString() });
+      sent++;
+    }
+  }
+  return { pending: alerts.length, sent };
+}
+
+// ── Utility functions ─────────────────────────────────────────────────────────
+
+function vapidKeys(): VapidKeys | null {
+  const publicKey  = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: Deno.env.get('VAPID_SUBJECT') || 'mailto:admin@localhost' };
+}
+
+async function dbSelect(path: string): Promise<any[] | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const resp = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    headers: { 'apikey': supabaseKey, 'Authorization': `Bearer ${supabaseKey}` },
+  });
+  return resp.ok ? resp.json() : null;
+}
+
+async function db(path: string, method: string, body?: unknown, prefer = 'return=representation'): Promise<any[] | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const resp = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    method,
+    headers: { 'apikey': supabaseKey, 'Authorization': `Bearer ${supabaseKey}`, 'Content-Type': 'application/json', 'Prefer': prefer },
+    body   : body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!resp.ok) return null;
+  const text = await resp.text();
+  return text ? JSON.parse(text) : [];
+}
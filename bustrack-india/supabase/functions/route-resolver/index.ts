@@ -9,6 +9,8 @@
  * ⚡ PERFORMANCE GAINS vs. client-side only:
  *  - OSRM response cached at edge (Supabase Edge Functions use Deno Deploy)
  *  - Multiple Nominatim calls collapsed into 1 edge-to-Nominatim call
+ *  - Geocoder is pluggable (src/shared/geocoders.ts): local gazetteer, then
+ *    public / self-hosted Nominatim or Photon — set GAZETTEER_URL / GEOCODER
  *  - Clients receive a single JSON payload (stop coords + OSRM geometry)
  *  - Mobile devices skip 5–15 sequential Nominatim round-trips entirely
  *  - Edge function co-located with Supabase DB — DB reads are near-zero latency
@@ -18,8 +20,19 @@
  *  2. Deploy: supabase functions deploy route-resolver
  *  3. Call from client: fetch('<SUPABASE_URL>/functions/v1/route-resolver', { method:'POST', body: JSON.stringify({ busId: 42 }) })
  *
+ * REGION:
+ *  Geocoding is scoped by src/shared/geoRegion.ts (same module the client uses):
+ *  request `region` → buses.region → settings `geo_region` → GEO_REGION env → Tamil Nadu.
+ *
+ * CONFIRMED STOPS:
+ *  Stops an admin pinned on the map (buses.stop_coords[i].confirmed) are used
+ *  as-is and never re-geocoded. Stops nothing could place are listed in
+ *  `unresolved` instead of silently disappearing from the route.
+ *
  * CACHING:
- *  - KV cache key: "route_<busId>_<stops_hash>"
+ *  - KV cache key: "route_" + SHA-256 of "<region>_<stops>_<pinned coords>" —
+ *    fixed length however long the route, and Tamil / Malayalam stop names
+ *    don't collapse into the same key
  *  - TTL: 24 hours (routes don't change intraday)
  *  - Cache stored in Supabase Edge KV (Deno.openKv())
  *  - Cache invalidated when admin saves/updates a route
@@ -32,12 +45,18 @@
 // Deno / Supabase Edge Function runtime
 declare const Deno: any;
 
+import { regionKey, resolveRegion, parseRegion } from '../../../src/shared/geoRegion.ts';
+import type { GeoRegion } from '../../../src/shared/geoRegion.ts';
+import { chainGeocoders, gazetteerGeocoder, geocoderFromSpec, normalizeStopName, parseGazetteer } from '../../../src/shared/geocoders.ts';
+import type { Geocoder, StopCoord } from '../../../src/shared/geocoders.ts';
+
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 interface ResolveRequest {
   busId?  : number;
   busName?: string;
   stops?  : string[];  // allow direct stop list (no DB lookup needed)
+  region? : GeoRegion; // overrides the route's / deployment's region
 }
 
 interface ResolvedStop {
@@ -51,6 +70,7 @@ interface RouteResponse {
   busId?      : number;
   busName?    : string;
   stops       : ResolvedStop[];
+  unresolved  : string[];             // stop names nothing could place — not on the route
   geometry    : [number, number][];   // [lat, lon] pairs for Leaflet
   distanceKm  : number;
   durationSec : number;
@@ -60,9 +80,7 @@ interface RouteResponse {
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 
-const NOMINATIM_BASE = 'https://nominatim.openstreetmap.org/search';
 const OSRM_BASE      = 'https://router.project-osrm.org/route/v1/driving';
-const RATE_LIMIT_MS  = 250; // Nominatim usage policy: 1 req/s max
 
 // ── Edge Function handler ─────────────────────────────────────────────────────
 
@@ -91,29 +109,31 @@ export default async function handler(req: Request): Promise<Response> {
   }
 
   try {
-    // ── Step 1: Get stop names ────────────────────────────────────────────────
+    // ── Step 1: Get stop names + geocoding region ─────────────────────────────
     let stops: string[] = body.stops || [];
+    let routeRegion: GeoRegion | null = null;
+    let stopCoords: Array<StopCoord | null> = [];
 
     if (!stops.length && body.busId) {
       // Look up stops from Supabase DB
-      const supabaseUrl = Deno.env.get('SUPABASE_URL');
-      const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-      const dbResp = await fetch(`${supabaseUrl}/rest/v1/buses?id=eq.${body.busId}&select=stops`, {
-        headers: { 'apikey': supabaseKey, 'Authorization': `Bearer ${supabaseKey}` },
-      });
-      const rows = await dbResp.json();
+      const rows = await dbSelect(`buses?id=eq.${body.busId}&select=stops,stop_coords,region`);
       if (!rows?.length) {
         return new Response(JSON.stringify({ error: 'Bus not found' }), { status: 404, headers: corsHeaders });
       }
       stops = Array.isArray(rows[0].stops) ? rows[0].stops : JSON.parse(rows[0].stops);
+      routeRegion = parseRegion(rows[0].region);
+      stopCoords  = Array.isArray(rows[0].stop_coords) ? rows[0].stop_coords : [];
     }
 
+    const region = resolveRegion(await deploymentRegion(), body.region ? parseRegion(body.region) : routeRegion);
+
     if (stops.length < 2) {
       return new Response(JSON.stringify({ error: 'At least 2 stops required' }), { status: 400, headers: corsHeaders });
     }
 
     // ── Step 2: Check edge cache ──────────────────────────────────────────────
-    const cacheKey = `route_${stops.join('|').replace(/[^a-z0-9|]/gi, '_').slice(0, 200)}`;
+    const pinned   = stopCoords.map((c, i) => c?.confirmed ? `${i}@${c.lat.toFixed(5)},${c.lon.toFixed(5)}` : '').filter(Boolean).join(';');
+    const cacheKey = `route_${await sha256Hex(`${regionKey(region)}_${stops.join('|')}_${pinned}`)}`;
 
     // Edge KV cache (Deno KV — available in Supabase Edge Functions)
     let kv: any = null;
@@ -128,61 +148,54 @@ export default async function handler(req: Request): Promise<Response> {
 
     // ── Step 3: Geocode all stops (server-side, no client round-trips) ────────
     const resolvedStops: ResolvedStop[] = [];
-    let anchorLat: number | null = null;
-    let anchorLon: number | null = null;
+    const unresolved: string[] = [];
+    const firstPinned = stopCoords.find(c => c?.confirmed);
+    let anchorLat: number | null = firstPinned?.lat ?? null;
+    let anchorLon: number | null = firstPinned?.lon ?? null;
 
-    for (let i = 0; i < stops.length; i++) {
-      if (i > 0) await sleep(RATE_LIMIT_MS);
+    const geocoder = await edgeGeocoder();
 
+    for (let i = 0; i < stops.length; i++) {
       const rawName    = stops[i].trim();
-      const normalized = normalizeName(rawName);
+      const confirmed  = stopCoords[i]?.confirmed ? stopCoords[i]! : null;
+      if (confirmed) {
+        resolvedStops.push({ name: rawName, corrected: rawName, lat: confirmed.lat, lon: confirmed.lon });
+        anchorLat = confirmed.lat;
+        anchorLon = confirmed.lon;
+        continue;
+      }
 
-      const queries = [
-        `${normalized} bus stand Tamil Nadu India`,
-        `${normalized} bus stand India`,
-        `${normalized} India`,
-        `${rawName} India`,
-      ];
+      const normalized = normalizeStopName(rawName);
 
-      let found = false;
-      for (const q of queries) {
-        const url  = `${NOMINATIM_BASE}?q=${encodeURIComponent(q)}&format=json&countrycodes=in&namedetails=1&limit=3`;
-        const resp = await fetch(url, { headers: { 'User-Agent': 'BusTrackIndia/4.0-edge', 'Accept-Language': 'en' } });
-        const results = await resp.json().catch(() => []);
-
-        if (!results.length) continue;
+      // Provider chain: gazetteer → Nominatim / Photon (public instance throttles itself)
+      const results = await geocoder.search(normalized, region);
 
+      let found = false;
+      if (results.length) {
         // Pick nearest to anchor if anchor available
         let best = results[0];
         if (anchorLat !== null && results.length > 1) {
-          best = results.reduce((a: any, b: any) => {
-            const da = haversine(anchorLat!, anchorLon!, parseFloat(a.lat), parseFloat(a.lon));
-            const db = haversine(anchorLat!, anchorLon!, parseFloat(b.lat), parseFloat(b.lon));
+          best = results.reduce((a, b) => {
+            const da = haversine(anchorLat!, anchorLon!, a.lat, a.lon);
+            const db = haversine(anchorLat!, anchorLon!, b.lat, b.lon);
             return da <= db ? a : b;
           });
         }
 
-        const nd        = best.namedetails || {};
-        const corrected = nd['name'] || nd['name:en'] || best.display_name.split(',')[0].trim();
-        const lat       = parseFloat(best.lat);
-        const lon       = parseFloat(best.lon);
-
-        resolvedStops.push({ name: rawName, corrected, lat, lon });
-        anchorLat = lat;
-        anchorLon = lon;
+        resolvedStops.push({ name: rawName, corrected: best.corrected, lat: best.lat, lon: best.lon });
+        anchorLat = best.lat;
+        anchorLon = best.lon;
         found = true;
-        break;
       }
 
       if (!found) {
         console.warn(`[EdgeResolver] Could not geocode stop: ${rawName}`);
-        // Push null placeholder to keep index alignment
-        // (caller skips null entries)
+        unresolved.push(rawName);
       }
     }
 
     if (resolvedStops.length < 2) {
-      return new Response(JSON.stringify({ error: 'Could not geocode enough stops' }), { status: 422, headers: corsHeaders });
+      return new Response(JSON.stringify({ error: 'Could not geocode enough stops', unresolved }), { status: 422, headers: corsHeaders });
     }
 
     // ── Step 4: Fetch OSRM route ──────────────────────────────────────────────
@@ -205,6 +218,7 @@ export default async function handler(req: Request): Promise<Response> {
       busId      : body.busId,
       busName    : body.busName,
       stops      : resolvedStops,
+      unresolved,
       geometry,
       distanceKm,
       durationSec: route.duration,
@@ -227,11 +241,43 @@ export default async function handler(req: Request): Promise<Response> {
 
 // ── Utility functions ─────────────────────────────────────────────────────────
 
-function normalizeName(raw: string): string {
-  return raw.trim()
-    .replace(/\s+/g, ' ')
-    .replace(/\b(old|new)\s+bus\s*st(?:and|op)?\b/i, 'bus stand')
-    .replace(/\bbus\s*st(?:and|op)?\b/i, 'bus stand');
+async function dbSelect(path: string): Promise<any[] | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const resp = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    headers: { 'apikey': supabaseKey, 'Authorization': `Bearer ${supabaseKey}` },
+  });
+  return resp.ok ? resp.json() : null;
+}
+
+/**
+ * edgeGeocoder — GAZETTEER_URL (CSV / GeoJSON of bus stands) first, then the
+ * GEOCODER provider spec ("nominatim", "nominatim:<url>", "photon:<url>").
+ * Built once per isolate; the gazetteer file is not re-downloaded per request.
+ */
+let _geocoder: Promise<Geocoder> | null = null;
+function edgeGeocoder(): Promise<Geocoder> {
+  if (_geocoder) return _geocoder;
+  _geocoder = (async () => {
+    const remote = geocoderFromSpec(Deno.env.get('GEOCODER'), 'BusTrackIndia/4.0-edge');
+    const url    = Deno.env.get('GAZETTEER_URL');
+    if (!url) return remote;
+    const text    = await fetch(url).then(r => r.ok ? r.text() : '').catch(() => '');
+    const entries = parseGazetteer(text, url);
+    return entries.length ? chainGeocoders([gazetteerGeocoder(entries), remote]) : remote;
+  })();
+  return _geocoder;
+}
+
+/** Deployment-wide region: `geo_region` settings row, else GEO_REGION env var. */
+async function deploymentRegion(): Promise<GeoRegion | null> {
+  const rows = await dbSelect('settings?key=eq.geo_region&select=value').catch(() => null);
+  return parseRegion(rows?.[0]?.value) ?? parseRegion(Deno.env.get('GEO_REGION') ?? null);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
 function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
@@ -244,4 +290,3 @@ function haversine(lat1: number, lon1: number, lat2: number, lon2: number): numb
   return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 }
 
-const sleep = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
@@ -0,0 +1,47 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- driver_location: one row per vehicle instead of the single shared row.
+--
+--   vehicle_id — primary key (registration number, e.g. 'TN-30-N-1234');
+--                replaces the old `id BIGINT` that was always 1
+--   trip_id    — new id for every sharing session, so passengers can tell a
+--                fresh trip from a stale row
+--   bus_id     — the route the vehicle is running; the fleet query filters
+--                on (sharing, bus_id)
+--
+-- A no-op on projects created from the README's SQL, which already has this
+-- shape. Upgrading drops the old row: it is live position state only, and
+-- the next fix from each phone recreates it under its vehicle id.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS driver_location (
+  vehicle_id  TEXT PRIMARY KEY,
+  trip_id     TEXT,
+  bus_id      BIGINT REFERENCES buses(id) ON DELETE SET NULL,
+  lat         FLOAT8,
+  lon         FLOAT8,
+  speed       FLOAT8 DEFAULT 0,
+  heading     FLOAT8 DEFAULT 0,
+  sharing     BOOLEAN DEFAULT FALSE,
+  bus_name    TEXT DEFAULT '',
+  route_stops JSONB DEFAULT '[]',
+  updated_at  TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS vehicle_id TEXT;
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS trip_id    TEXT;
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS bus_id     BIGINT REFERENCES buses(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+              WHERE table_schema = 'public' AND table_name = 'driver_location' AND column_name = 'id') THEN
+    DELETE FROM driver_location;
+    ALTER TABLE driver_location DROP CONSTRAINT IF EXISTS driver_location_pkey;
+    ALTER TABLE driver_location DROP COLUMN id;
+    ALTER TABLE driver_location ADD PRIMARY KEY (vehicle_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS driver_location_sharing_idx ON driver_location (sharing, bus_id);
+
+ALTER TABLE driver_location ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,104 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Auth + roles: replaces the plaintext admin_pw / driver_pw settings rows.
+--
+-- Users sign in with an email or SMS one-time code (Supabase GoTrue).
+-- Each auth user gets a `profiles` row; `role` decides what RLS allows:
+--   passenger — read routes and live locations (also the anon default)
+--   driver    — may publish the location of the vehicle assigned to them
+--   admin     — full route / settings / profile management
+--
+-- Promote a user from the SQL editor:
+--   UPDATE profiles SET role = 'driver', vehicle_id = 'TN-01-N-1234' WHERE id = '<uuid>';
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id           UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role         TEXT NOT NULL DEFAULT 'passenger' CHECK (role IN ('passenger', 'driver', 'admin')),
+  display_name TEXT,
+  vehicle_id   TEXT,
+  created_at   TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every new auth user starts as a passenger
+CREATE OR REPLACE FUNCTION public.handle_new_user() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  INSERT INTO profiles (id, display_name) VALUES (NEW.id, COALESCE(NEW.email, NEW.phone))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Role of the calling user; SECURITY DEFINER so policies can read profiles without recursion
+CREATE OR REPLACE FUNCTION public.app_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE((SELECT role FROM profiles WHERE id = auth.uid()), 'passenger');
+$$;
+
+CREATE OR REPLACE FUNCTION public.app_vehicle_id() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT vehicle_id FROM profiles WHERE id = auth.uid();
+$$;
+
+-- Audit trail: who drove which bus
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS driver_id UUID DEFAULT auth.uid() REFERENCES auth.users(id);
+
+-- Plaintext passwords are gone for good
+DELETE FROM settings WHERE key IN ('admin_pw', 'driver_pw');
+
+-- ── Drop the old wide-open policies ──────────────────────────────────────────
+-- "Public access" from the README's old SQL, the "public …" pairs from the
+-- app's own setup snippet — any one of them left would keep anon writes open
+DROP POLICY IF EXISTS "Public access" ON buses;
+DROP POLICY IF EXISTS "Public access" ON driver_location;
+DROP POLICY IF EXISTS "Public access" ON settings;
+DROP POLICY IF EXISTS "public read buses"     ON buses;
+DROP POLICY IF EXISTS "public write buses"    ON buses;
+DROP POLICY IF EXISTS "public read driver"    ON driver_location;
+DROP POLICY IF EXISTS "public write driver"   ON driver_location;
+DROP POLICY IF EXISTS "public read settings"  ON settings;
+DROP POLICY IF EXISTS "public write settings" ON settings;
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- ── buses: everyone reads, admins write ──────────────────────────────────────
+CREATE POLICY "buses_read"  ON buses FOR SELECT USING (TRUE);
+CREATE POLICY "buses_admin" ON buses FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+
+-- ── driver_location: everyone reads, drivers write only their own vehicle ────
+CREATE POLICY "driver_location_read" ON driver_location FOR SELECT USING (TRUE);
+CREATE POLICY "driver_location_insert" ON driver_location FOR INSERT
+  WITH CHECK (
+    app_role() = 'admin'
+    OR (app_role() = 'driver' AND vehicle_id = app_vehicle_id() AND driver_id = auth.uid())
+  );
+CREATE POLICY "driver_location_update" ON driver_location FOR UPDATE
+  USING      (app_role() = 'admin' OR (app_role() = 'driver' AND vehicle_id = app_vehicle_id()))
+  WITH CHECK (app_role() = 'admin' OR (app_role() = 'driver' AND vehicle_id = app_vehicle_id()));
+CREATE POLICY "driver_location_admin_delete" ON driver_location FOR DELETE USING (app_role() = 'admin');
+
+-- Stamp the updating driver on every upsert, not just the first insert
+CREATE OR REPLACE FUNCTION public.stamp_driver_id() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN NEW.driver_id := auth.uid(); END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS driver_location_stamp ON driver_location;
+CREATE TRIGGER driver_location_stamp BEFORE INSERT OR UPDATE ON driver_location
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_driver_id();
+
+-- ── settings: everyone reads (non-secret config only), admins write ──────────
+CREATE POLICY "settings_read"  ON settings FOR SELECT USING (TRUE);
+CREATE POLICY "settings_admin" ON settings FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+
+-- ── profiles: users read their own, admins manage all ────────────────────────
+CREATE POLICY "profiles_self"  ON profiles FOR SELECT USING (id = auth.uid());
+CREATE POLICY "profiles_admin" ON profiles FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
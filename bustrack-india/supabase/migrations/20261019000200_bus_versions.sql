@@ -0,0 +1,45 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Route versioning: buses are edited in place (id never changes) and every
+-- edit snapshots the previous stop list into bus_versions.
+--
+-- Optimistic concurrency: clients PATCH with `updated_at=eq.<value they loaded>`;
+-- if another admin saved in between, zero rows match and the client reports a
+-- conflict instead of silently overwriting.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE buses ADD COLUMN IF NOT EXISTS version    INT         NOT NULL DEFAULT 1;
+ALTER TABLE buses ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE TABLE IF NOT EXISTS bus_versions (
+  bus_id      BIGINT      NOT NULL REFERENCES buses(id) ON DELETE CASCADE,
+  version     INT         NOT NULL,
+  name        TEXT        NOT NULL,
+  stops       JSONB       NOT NULL,
+  stop_coords JSONB,
+  saved_at    TIMESTAMPTZ NOT NULL,
+  replaced_by UUID        REFERENCES auth.users(id), -- admin whose edit superseded this version
+  PRIMARY KEY (bus_id, version)
+);
+
+CREATE OR REPLACE FUNCTION public.bus_snapshot_version() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  -- Only a change to the route itself is a new version; no-op PATCHes are not
+  IF NEW.name = OLD.name AND NEW.stops = OLD.stops AND NEW.stop_coords IS NOT DISTINCT FROM OLD.stop_coords THEN
+    RETURN NEW;
+  END IF;
+  INSERT INTO bus_versions (bus_id, version, name, stops, stop_coords, saved_at, replaced_by)
+  VALUES (OLD.id, OLD.version, OLD.name, OLD.stops, OLD.stop_coords, OLD.updated_at, auth.uid())
+  ON CONFLICT (bus_id, version) DO NOTHING;
+  NEW.version    := OLD.version + 1;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS buses_version ON buses;
+CREATE TRIGGER buses_version BEFORE UPDATE ON buses
+  FOR EACH ROW EXECUTE FUNCTION public.bus_snapshot_version();
+
+ALTER TABLE bus_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "bus_versions_admin" ON bus_versions FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
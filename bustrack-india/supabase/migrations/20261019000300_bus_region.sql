@@ -0,0 +1,28 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Per-route geocoding region (see src/shared/geoRegion.ts).
+--   buses.region         — optional override for one route
+--   settings 'geo_region' — deployment default (preset name or JSON)
+-- Both accept: {"state":"Karnataka","district":"Mysuru","country":"in","viewbox":[74.0,11.5,78.6,18.5]}
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE buses        ADD COLUMN IF NOT EXISTS region JSONB;
+ALTER TABLE bus_versions ADD COLUMN IF NOT EXISTS region JSONB;
+
+-- Snapshot the region alongside the stops so a rollback restores both
+CREATE OR REPLACE FUNCTION public.bus_snapshot_version() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.name = OLD.name AND NEW.stops = OLD.stops
+     AND NEW.stop_coords IS NOT DISTINCT FROM OLD.stop_coords
+     AND NEW.region IS NOT DISTINCT FROM OLD.region THEN
+    RETURN NEW;
+  END IF;
+  INSERT INTO bus_versions (bus_id, version, name, stops, stop_coords, region, saved_at, replaced_by)
+  VALUES (OLD.id, OLD.version, OLD.name, OLD.stops, OLD.stop_coords, OLD.region, OLD.updated_at, auth.uid())
+  ON CONFLICT (bus_id, version) DO NOTHING;
+  NEW.version    := OLD.version + 1;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END $$;
+
+INSERT INTO settings (key, value) VALUES ('geo_region', 'Tamil Nadu') ON CONFLICT (key) DO NOTHING;
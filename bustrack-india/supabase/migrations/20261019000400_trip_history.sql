@@ -0,0 +1,129 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Historical travel times for ETAs.
+--
+--   trip_samples        — every shared driver position, grouped by trip_id.
+--                         Written by a trigger on driver_location, so drivers
+--                         send nothing extra over their mobile data.
+--   segment_traversals  — one row per stop-to-stop hop of a finished trip:
+--                         time from arriving at stop i to arriving at stop i+1
+--                         (dwell at stop i included, so hops add up to an ETA).
+--   segment_time_stats  — median hop time per route segment by weekday + hour
+--                         (IST), plus an all-weekday row per hour (dow IS NULL)
+--                         for hours with too few trips on any one weekday.
+--
+-- A trip is aggregated when the driver stops sharing or starts a new trip.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS trip_samples (
+  id          BIGSERIAL   PRIMARY KEY,
+  trip_id     TEXT        NOT NULL,
+  vehicle_id  TEXT        NOT NULL,
+  bus_id      BIGINT      REFERENCES buses(id) ON DELETE SET NULL,
+  lat         FLOAT8      NOT NULL,
+  lon         FLOAT8      NOT NULL,
+  speed       FLOAT8,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS trip_samples_trip_idx ON trip_samples (trip_id, recorded_at);
+
+CREATE TABLE IF NOT EXISTS segment_traversals (
+  trip_id      TEXT        NOT NULL,
+  seg_index    INT         NOT NULL,  -- hop from stops[seg_index] to stops[seg_index + 1]
+  bus_id       BIGINT      NOT NULL REFERENCES buses(id) ON DELETE CASCADE,
+  from_stop    TEXT        NOT NULL,
+  to_stop      TEXT        NOT NULL,
+  departed_at  TIMESTAMPTZ NOT NULL,
+  duration_sec INT         NOT NULL,
+  dow          SMALLINT    NOT NULL,  -- ISO weekday, 1 = Monday (IST)
+  hour         SMALLINT    NOT NULL,  -- 0–23 (IST)
+  PRIMARY KEY (trip_id, seg_index)
+);
+CREATE INDEX IF NOT EXISTS segment_traversals_bus_idx ON segment_traversals (bus_id, seg_index);
+
+CREATE OR REPLACE VIEW segment_time_stats AS
+SELECT bus_id, seg_index, from_stop, to_stop, dow, hour,
+       percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_sec)::INT AS median_sec,
+       COUNT(*)::INT                                                 AS trips
+FROM segment_traversals
+GROUP BY GROUPING SETS ((bus_id, seg_index, from_stop, to_stop, dow, hour),
+                        (bus_id, seg_index, from_stop, to_stop, hour));
+
+-- Great-circle distance in metres
+CREATE OR REPLACE FUNCTION public.geo_distance_m(lat1 FLOAT8, lon1 FLOAT8, lat2 FLOAT8, lon2 FLOAT8) RETURNS FLOAT8
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT 6371000 * 2 * asin(sqrt(
+    sin(radians(lat2 - lat1) / 2) ^ 2
+    + cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lon2 - lon1) / 2) ^ 2));
+$$;
+
+/*
+ * record_trip_segments — turns one finished trip's samples into hop times.
+ * Arrival at a stop = first sample within 150 m of it, after the previous
+ * arrival. Only hops between two consecutive stops that were both reached
+ * are recorded; a skipped stop or a GPS gap simply produces no row.
+ */
+CREATE OR REPLACE FUNCTION public.record_trip_segments(p_trip TEXT) RETURNS INT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_bus     BIGINT;
+  v_stops   JSONB;
+  v_coords  JSONB;
+  v_prev_at TIMESTAMPTZ;
+  v_at      TIMESTAMPTZ;
+  v_prev_i  INT;
+  v_local   TIMESTAMP;
+  v_n       INT := 0;
+BEGIN
+  SELECT bus_id INTO v_bus FROM trip_samples WHERE trip_id = p_trip AND bus_id IS NOT NULL LIMIT 1;
+  IF v_bus IS NULL THEN RETURN 0; END IF;
+  SELECT stops, stop_coords INTO v_stops, v_coords FROM buses WHERE id = v_bus;
+  IF v_coords IS NULL OR jsonb_typeof(v_coords) <> 'array' THEN RETURN 0; END IF;
+
+  FOR i IN 0 .. jsonb_array_length(v_coords) - 1 LOOP
+    CONTINUE WHEN jsonb_typeof(v_coords -> i) <> 'object';
+    SELECT s.recorded_at INTO v_at FROM trip_samples s
+     WHERE s.trip_id = p_trip
+       AND (v_prev_at IS NULL OR s.recorded_at > v_prev_at)
+       AND geo_distance_m(s.lat, s.lon, (v_coords -> i ->> 'lat')::FLOAT8, (v_coords -> i ->> 'lon')::FLOAT8) < 150
+     ORDER BY s.recorded_at LIMIT 1;
+    CONTINUE WHEN v_at IS NULL;
+
+    IF v_prev_i = i - 1 THEN
+      v_local := v_prev_at AT TIME ZONE 'Asia/Kolkata';
+      INSERT INTO segment_traversals (trip_id, seg_index, bus_id, from_stop, to_stop, departed_at, duration_sec, dow, hour)
+      VALUES (p_trip, i - 1, v_bus, v_stops ->> (i - 1), v_stops ->> i, v_prev_at,
+              EXTRACT(EPOCH FROM v_at - v_prev_at)::INT, EXTRACT(ISODOW FROM v_local), EXTRACT(HOUR FROM v_local))
+      ON CONFLICT (trip_id, seg_index) DO NOTHING;
+      v_n := v_n + 1;
+    END IF;
+    v_prev_at := v_at;
+    v_prev_i  := i;
+  END LOOP;
+  RETURN v_n;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.driver_location_history() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.sharing AND NEW.trip_id IS NOT NULL AND NEW.lat IS NOT NULL THEN
+    INSERT INTO trip_samples (trip_id, vehicle_id, bus_id, lat, lon, speed)
+    VALUES (NEW.trip_id, NEW.vehicle_id, NEW.bus_id, NEW.lat, NEW.lon, NEW.speed);
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.trip_id IS NOT NULL
+     AND (NEW.trip_id IS DISTINCT FROM OLD.trip_id OR (OLD.sharing AND NOT NEW.sharing)) THEN
+    PERFORM record_trip_segments(OLD.trip_id);
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS driver_location_history ON driver_location;
+CREATE TRIGGER driver_location_history AFTER INSERT OR UPDATE ON driver_location
+  FOR EACH ROW EXECUTE FUNCTION public.driver_location_history();
+
+-- Raw positions are admin-only; learned hop times are public (passenger ETAs)
+ALTER TABLE trip_samples       ENABLE ROW LEVEL SECURITY;
+ALTER TABLE segment_traversals ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "trip_samples_admin" ON trip_samples FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+CREATE POLICY "segment_traversals_read"  ON segment_traversals FOR SELECT USING (TRUE);
+CREATE POLICY "segment_traversals_admin" ON segment_traversals FOR DELETE USING (app_role() = 'admin');
@@ -0,0 +1,34 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Stop arrival / departure events (src/services/stopDetector.ts).
+--
+--   driver_location.last_stop*  — the latest event, so passengers get
+--                                  "Departed Salem 4 min ago" over the same
+--                                  Realtime channel as the bus position.
+--   stop_events                 — full log per trip, with dwell time at each stop.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS last_stop       TEXT;
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS last_stop_event TEXT CHECK (last_stop_event IN ('arrived', 'departed'));
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS last_stop_at    TIMESTAMPTZ;
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS reversed        BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS stop_events (
+  id         BIGSERIAL   PRIMARY KEY,
+  trip_id    TEXT        NOT NULL,
+  vehicle_id TEXT        NOT NULL,
+  bus_id     BIGINT      REFERENCES buses(id) ON DELETE SET NULL,
+  stop_index INT         NOT NULL,  -- index into buses.stops as saved
+  stop_name  TEXT        NOT NULL,
+  kind       TEXT        NOT NULL CHECK (kind IN ('arrive', 'depart')),
+  at         TIMESTAMPTZ NOT NULL,
+  dwell_sec  INT,                   -- departures only
+  reversed   BOOLEAN     NOT NULL DEFAULT FALSE
+);
+CREATE INDEX IF NOT EXISTS stop_events_trip_idx ON stop_events (trip_id, at);
+CREATE INDEX IF NOT EXISTS stop_events_bus_idx  ON stop_events (bus_id, at DESC);
+
+ALTER TABLE stop_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "stop_events_read" ON stop_events FOR SELECT USING (TRUE);
+CREATE POLICY "stop_events_insert" ON stop_events FOR INSERT
+  WITH CHECK (app_role() = 'admin' OR (app_role() = 'driver' AND vehicle_id = app_vehicle_id()));
+CREATE POLICY "stop_events_admin_delete" ON stop_events FOR DELETE USING (app_role() = 'admin');
@@ -0,0 +1,47 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Off-route detection (src/services/deviationDetector.ts).
+--
+--   driver_location.off_route*  — the deviation in progress, so passengers
+--                                  tracking the bus see a "diverted" banner
+--                                  over the same Realtime channel.
+--   route_deviations            — one row per deviation for the admin log.
+--                                  The client upserts the same id when the
+--                                  deviation starts and again when it ends,
+--                                  so an offline driver's queue stays idempotent.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS off_route       BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS off_route_since TIMESTAMPTZ;
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS off_route_m     INT;
+
+CREATE TABLE IF NOT EXISTS route_deviations (
+  id              TEXT        PRIMARY KEY,  -- "<trip_id>:<start epoch ms>"
+  trip_id         TEXT        NOT NULL,
+  vehicle_id      TEXT        NOT NULL,
+  bus_id          BIGINT      REFERENCES buses(id) ON DELETE SET NULL,
+  started_at      TIMESTAMPTZ NOT NULL,
+  ended_at        TIMESTAMPTZ,              -- NULL while still off route
+  duration_sec    INT         NOT NULL DEFAULT 0,
+  distance_km     FLOAT8      NOT NULL DEFAULT 0,
+  max_off_route_m INT         NOT NULL,
+  start_lat       FLOAT8      NOT NULL,
+  start_lon       FLOAT8      NOT NULL,
+  end_lat         FLOAT8,
+  end_lon         FLOAT8,
+  corridor_m      INT         NOT NULL
+);
+CREATE INDEX IF NOT EXISTS route_deviations_bus_idx ON route_deviations (bus_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS route_deviations_at_idx  ON route_deviations (started_at DESC);
+
+-- Admins see the whole log; drivers only their own vehicle's rows (an upsert
+-- needs SELECT + UPDATE on the conflicting row as well as INSERT)
+ALTER TABLE route_deviations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "route_deviations_admin" ON route_deviations FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+CREATE POLICY "route_deviations_driver_read" ON route_deviations FOR SELECT
+  USING (app_role() = 'driver' AND vehicle_id = app_vehicle_id());
+CREATE POLICY "route_deviations_driver_insert" ON route_deviations FOR INSERT
+  WITH CHECK (app_role() = 'driver' AND vehicle_id = app_vehicle_id());
+CREATE POLICY "route_deviations_driver_update" ON route_deviations FOR UPDATE
+  USING (app_role() = 'driver' AND vehicle_id = app_vehicle_id())
+  WITH CHECK (app_role() = 'driver' AND vehicle_id = app_vehicle_id());
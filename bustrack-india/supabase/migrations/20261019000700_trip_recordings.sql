@@ -0,0 +1,50 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Trip recording for admin playback (src/map/tripPlayback.ts).
+--
+-- Every sharing session is already captured in trip_samples by the
+-- driver_location trigger (20261019000400). This adds what playback needs:
+--
+--   trip_samples.heading  — so the replayed marker turns like the live one.
+--   trips                 — one row per recorded trip (bus, IST day, start,
+--                           end, sample count, km driven) for the trip list.
+--
+-- The trigger now records a sample only when the position upsert moves
+-- updated_at, so stop-event and off-route PATCHes on the same row don't
+-- duplicate the last fix.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE trip_samples ADD COLUMN IF NOT EXISTS heading FLOAT8;
+CREATE INDEX IF NOT EXISTS trip_samples_bus_idx ON trip_samples (bus_id, recorded_at DESC);
+
+CREATE OR REPLACE FUNCTION public.driver_location_history() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.sharing AND NEW.trip_id IS NOT NULL AND NEW.lat IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.updated_at IS DISTINCT FROM OLD.updated_at) THEN
+    INSERT INTO trip_samples (trip_id, vehicle_id, bus_id, lat, lon, speed, heading)
+    VALUES (NEW.trip_id, NEW.vehicle_id, NEW.bus_id, NEW.lat, NEW.lon, NEW.speed, NEW.heading);
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.trip_id IS NOT NULL
+     AND (NEW.trip_id IS DISTINCT FROM OLD.trip_id OR (OLD.sharing AND NOT NEW.sharing)) THEN
+    PERFORM record_trip_segments(OLD.trip_id);
+  END IF;
+  RETURN NEW;
+END $$;
+
+-- security_invoker: the view obeys trip_samples' admin-only policy
+CREATE OR REPLACE VIEW trips WITH (security_invoker = true) AS
+SELECT trip_id,
+       MIN(vehicle_id)                                          AS vehicle_id,
+       MAX(bus_id)                                              AS bus_id,
+       (MIN(recorded_at) AT TIME ZONE 'Asia/Kolkata')::DATE     AS day,
+       MIN(recorded_at)                                         AS started_at,
+       MAX(recorded_at)                                         AS ended_at,
+       COUNT(*)::INT                                            AS samples,
+       ROUND((COALESCE(SUM(hop_m), 0) / 1000)::NUMERIC, 2)::FLOAT8 AS distance_km
+FROM (
+  SELECT s.*,
+         geo_distance_m(LAG(lat) OVER w, LAG(lon) OVER w, lat, lon) AS hop_m
+  FROM trip_samples s
+  WINDOW w AS (PARTITION BY trip_id ORDER BY recorded_at)
+) t
+GROUP BY trip_id;
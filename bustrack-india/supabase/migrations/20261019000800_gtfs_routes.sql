@@ -0,0 +1,11 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- GTFS import / export (see src/shared/gtfs.ts).
+--   buses.shape          — road geometry from an imported feed's shapes.txt,
+--                          [[lat,lon],…]; used instead of OSRM when present
+--   buses.gtfs_route_id  — the feed's route_id, so re-importing an updated
+--                          feed edits the same bus instead of adding a copy
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE buses ADD COLUMN IF NOT EXISTS shape         JSONB;
+ALTER TABLE buses ADD COLUMN IF NOT EXISTS gtfs_route_id TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS buses_gtfs_route_idx ON buses (gtfs_route_id) WHERE gtfs_route_id IS NOT NULL;
@@ -0,0 +1,47 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Timetables (see src/shared/timetable.ts).
+--
+--   buses.stop_offsets   — minutes from the first saved stop to each stop,
+--                          [0, 12, null, 40, …]; one entry per stop, null =
+--                          no scheduled time. The return trip runs it backwards.
+--   scheduled_trips      — one row per departure: direction, minutes after
+--                          midnight IST at the first stop, weekday bitmask
+--                          (Monday = 1 … Sunday = 64)
+--   service_exceptions   — holidays (runs = FALSE) and extra service days
+--                          (runs = TRUE), for one route or, with bus_id
+--                          NULL, for every route
+--
+-- Everyone reads (passengers see next departures without signing in);
+-- only admins edit.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE buses ADD COLUMN IF NOT EXISTS stop_offsets JSONB;
+
+CREATE TABLE IF NOT EXISTS scheduled_trips (
+  id         BIGSERIAL   PRIMARY KEY,
+  bus_id     BIGINT      NOT NULL REFERENCES buses(id) ON DELETE CASCADE,
+  reversed   BOOLEAN     NOT NULL DEFAULT FALSE,
+  departs    SMALLINT    NOT NULL CHECK (departs BETWEEN 0 AND 1439),
+  days       SMALLINT    NOT NULL DEFAULT 127 CHECK (days BETWEEN 1 AND 127),
+  note       TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS scheduled_trips_bus_idx ON scheduled_trips (bus_id, departs);
+
+CREATE TABLE IF NOT EXISTS service_exceptions (
+  id     BIGSERIAL PRIMARY KEY,
+  bus_id BIGINT    REFERENCES buses(id) ON DELETE CASCADE,
+  day    DATE      NOT NULL,
+  runs   BOOLEAN   NOT NULL DEFAULT FALSE,
+  note   TEXT
+);
+CREATE UNIQUE INDEX IF NOT EXISTS service_exceptions_day_idx ON service_exceptions (COALESCE(bus_id, 0), day);
+
+ALTER TABLE scheduled_trips    ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_exceptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "scheduled_trips_read"  ON scheduled_trips FOR SELECT USING (TRUE);
+CREATE POLICY "scheduled_trips_admin" ON scheduled_trips FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+CREATE POLICY "service_exceptions_read"  ON service_exceptions FOR SELECT USING (TRUE);
+CREATE POLICY "service_exceptions_admin" ON service_exceptions FOR ALL
+  USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
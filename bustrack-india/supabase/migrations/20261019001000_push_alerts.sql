@@ -0,0 +1,53 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Arrival alerts delivered by Web Push (see supabase/functions/push-alerts).
+--
+--   push_subscriptions  — one browser push endpoint + its encryption keys
+--   arrival_alerts      — "notify me when bus X is N min / N km from stop S",
+--                         kind 'approach' (waiting at the stop) or
+--                         'destination' (on the bus, wake me before my stop).
+--                         vehicle_id NULL = whichever bus on the route comes
+--                         first. fired_at is set when the push goes out.
+--
+-- Passengers never sign in, so neither table is exposed through PostgREST:
+-- the push-alerts function reads and writes them with the service role
+-- (a subscription's endpoint is the passenger's proof of ownership).
+-- Admins may read them for support.
+--
+-- The function checks pending alerts when called with the service role key;
+-- schedule it every minute with pg_cron + pg_net, e.g.
+--   SELECT cron.schedule('push-alerts', '* * * * *', $$
+--     SELECT net.http_post(
+--       url     := '<SUPABASE_URL>/functions/v1/push-alerts',
+--       headers := '{"Authorization": "Bearer <SERVICE_ROLE_KEY>", "Content-Type": "application/json"}'::jsonb,
+--       body    := '{"action": "check"}'::jsonb)
+--   $$);
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id         BIGSERIAL   PRIMARY KEY,
+  endpoint   TEXT        NOT NULL UNIQUE,
+  p256dh     TEXT        NOT NULL,
+  auth       TEXT        NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS arrival_alerts (
+  id              BIGSERIAL   PRIMARY KEY,
+  subscription_id BIGINT      NOT NULL REFERENCES push_subscriptions(id) ON DELETE CASCADE,
+  bus_id          BIGINT      NOT NULL REFERENCES buses(id) ON DELETE CASCADE,
+  vehicle_id      TEXT,
+  stop_index      INT         NOT NULL,
+  stop_name       TEXT        NOT NULL,
+  kind            TEXT        NOT NULL DEFAULT 'approach' CHECK (kind IN ('approach', 'destination')),
+  minutes         SMALLINT    CHECK (minutes > 0),
+  km              REAL        CHECK (km > 0),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  fired_at        TIMESTAMPTZ,
+  CHECK (minutes IS NOT NULL OR km IS NOT NULL)
+);
+CREATE INDEX IF NOT EXISTS arrival_alerts_pending_idx ON arrival_alerts (bus_id) WHERE fired_at IS NULL;
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arrival_alerts     ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "push_subscriptions_admin_read" ON push_subscriptions FOR SELECT USING (app_role() = 'admin');
+CREATE POLICY "arrival_alerts_admin_read"     ON arrival_alerts     FOR SELECT USING (app_role() = 'admin');
@@ -0,0 +1,29 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Bus occupancy (see src/shared/occupancy.ts).
+--
+--   driver_location.occupancy     — the driver's one-tap level, sent with
+--   driver_location.occupancy_at    every location update; when it was set
+--   crowd_reports                 — passengers' reports from on-bus mode
+--
+-- Levels: empty | seats | standing | full. Passengers report without signing
+-- in, so anyone may insert a report — but only one stamped "now", so old
+-- reports can't be back-filled. Everyone reads.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS occupancy    TEXT CHECK (occupancy IN ('empty', 'seats', 'standing', 'full'));
+ALTER TABLE driver_location ADD COLUMN IF NOT EXISTS occupancy_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS crowd_reports (
+  id          BIGSERIAL   PRIMARY KEY,
+  vehicle_id  TEXT        NOT NULL,
+  bus_id      BIGINT      REFERENCES buses(id) ON DELETE CASCADE,
+  level       TEXT        NOT NULL CHECK (level IN ('empty', 'seats', 'standing', 'full')),
+  reported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS crowd_reports_vehicle_idx ON crowd_reports (vehicle_id, reported_at DESC);
+
+ALTER TABLE crowd_reports ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "crowd_reports_read"   ON crowd_reports FOR SELECT USING (TRUE);
+CREATE POLICY "crowd_reports_insert" ON crowd_reports FOR INSERT
+  WITH CHECK (reported_at BETWEEN NOW() - INTERVAL '1 minute' AND NOW() + INTERVAL '1 minute');
+CREATE POLICY "crowd_reports_admin"  ON crowd_reports FOR DELETE USING (app_role() = 'admin');
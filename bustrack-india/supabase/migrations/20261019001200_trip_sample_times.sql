@@ -0,0 +1,79 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Trip samples keep the time of the fix, and survive an offline stretch.
+--
+--   recorded_at  — the trigger now copies driver_location.updated_at (stamped
+--                  by the phone when the fix was taken) instead of NOW(), so a
+--                  position replayed from the outbox lands at its real time.
+--   driver insert — the driver_location upsert is queued under one collapse
+--                  key, so only the last fix of an offline stretch ever gets
+--                  through. While offline the app also queues every fix as
+--                  its own trip_samples row (never collapsed); drivers may
+--                  insert samples for their own vehicle.
+--   (trip_id, recorded_at) is unique, so the replayed upsert and its queued
+--   sample record the fix once (the trigger and the client both skip
+--   duplicates).
+--
+--   trips_on_day(bus, day) — replaces the `trips` view, whose window function
+--                  ran over every trip_samples row before PostgREST's filters
+--                  applied. The function picks the route's trips from that
+--                  IST day first (bus_id + recorded_at index) and only then
+--                  aggregates their samples.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+-- Same-instant duplicates would block the unique index
+DELETE FROM trip_samples a USING trip_samples b
+ WHERE a.trip_id = b.trip_id AND a.recorded_at = b.recorded_at AND a.id > b.id;
+DROP INDEX IF EXISTS trip_samples_trip_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS trip_samples_trip_at_key ON trip_samples (trip_id, recorded_at);
+
+CREATE POLICY "trip_samples_driver_insert" ON trip_samples FOR INSERT
+  WITH CHECK (app_role() = 'driver' AND vehicle_id = app_vehicle_id());
+
+CREATE OR REPLACE FUNCTION public.driver_location_history() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.sharing AND NEW.trip_id IS NOT NULL AND NEW.lat IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.updated_at IS DISTINCT FROM OLD.updated_at) THEN
+    INSERT INTO trip_samples (trip_id, vehicle_id, bus_id, lat, lon, speed, heading, recorded_at)
+    VALUES (NEW.trip_id, NEW.vehicle_id, NEW.bus_id, NEW.lat, NEW.lon, NEW.speed, NEW.heading, COALESCE(NEW.updated_at, NOW()))
+    ON CONFLICT (trip_id, recorded_at) DO NOTHING;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.trip_id IS NOT NULL
+     AND (NEW.trip_id IS DISTINCT FROM OLD.trip_id OR (OLD.sharing AND NOT NEW.sharing)) THEN
+    PERFORM record_trip_segments(OLD.trip_id);
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP VIEW IF EXISTS trips;
+
+-- SECURITY INVOKER (the default): obeys trip_samples' admin-only read policy
+CREATE OR REPLACE FUNCTION public.trips_on_day(p_bus BIGINT, p_day DATE)
+RETURNS TABLE (trip_id TEXT, vehicle_id TEXT, bus_id BIGINT, day DATE, started_at TIMESTAMPTZ,
+               ended_at TIMESTAMPTZ, samples INT, distance_km FLOAT8)
+LANGUAGE sql STABLE SET search_path = public AS $$
+  WITH day_trips AS (
+    SELECT DISTINCT s.trip_id FROM trip_samples s
+     WHERE s.bus_id = p_bus
+       AND s.recorded_at >= (p_day::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+       AND s.recorded_at <  ((p_day + 1)::TIMESTAMP AT TIME ZONE 'Asia/Kolkata')
+  ), hops AS (
+    SELECT s.trip_id, s.vehicle_id, s.bus_id, s.recorded_at,
+           geo_distance_m(LAG(s.lat) OVER w, LAG(s.lon) OVER w, s.lat, s.lon) AS hop_m
+    FROM trip_samples s JOIN day_trips d ON d.trip_id = s.trip_id
+    WINDOW w AS (PARTITION BY s.trip_id ORDER BY s.recorded_at)
+  )
+  SELECT h.trip_id,
+         MIN(h.vehicle_id),
+         MAX(h.bus_id),
+         (MIN(h.recorded_at) AT TIME ZONE 'Asia/Kolkata')::DATE,
+         MIN(h.recorded_at),
+         MAX(h.recorded_at),
+         COUNT(*)::INT,
+         ROUND((COALESCE(SUM(h.hop_m), 0) / 1000)::NUMERIC, 2)::FLOAT8
+  FROM hops h
+  GROUP BY h.trip_id
+  -- A trip that ran past midnight belongs to the day it started
+  HAVING (MIN(h.recorded_at) AT TIME ZONE 'Asia/Kolkata')::DATE = p_day
+  ORDER BY MIN(h.recorded_at) DESC;
+$$;
@@ -0,0 +1,28 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Route versions keep the imported road shape and the timetable offsets.
+--   bus_versions.shape        — buses.shape (GTFS geometry) of that version
+--   bus_versions.stop_offsets — buses.stop_offsets of that version
+-- so restoring a version brings back the road and timing that went with its
+-- stops. A shape change is a new version like a stop change; an offsets-only
+-- edit (timetable screen) still is not.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE bus_versions ADD COLUMN IF NOT EXISTS shape        JSONB;
+ALTER TABLE bus_versions ADD COLUMN IF NOT EXISTS stop_offsets JSONB;
+
+CREATE OR REPLACE FUNCTION public.bus_snapshot_version() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.name = OLD.name AND NEW.stops = OLD.stops
+     AND NEW.stop_coords IS NOT DISTINCT FROM OLD.stop_coords
+     AND NEW.region IS NOT DISTINCT FROM OLD.region
+     AND NEW.shape IS NOT DISTINCT FROM OLD.shape THEN
+    RETURN NEW;
+  END IF;
+  INSERT INTO bus_versions (bus_id, version, name, stops, stop_coords, region, shape, stop_offsets, saved_at, replaced_by)
+  VALUES (OLD.id, OLD.version, OLD.name, OLD.stops, OLD.stop_coords, OLD.region, OLD.shape, OLD.stop_offsets, OLD.updated_at, auth.uid())
+  ON CONFLICT (bus_id, version) DO NOTHING;
+  NEW.version    := OLD.version + 1;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END $$;
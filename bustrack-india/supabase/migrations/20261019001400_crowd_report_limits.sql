@@ -0,0 +1,64 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Crowd reports: one voice per passenger, rate-limited on the server.
+--
+--   crowd_reports.reporter — md5 of the signed-in user id, or of the anonymous
+--                            device id the app keeps in localStorage. Readers
+--                            count distinct reporters (shared/occupancy.ts),
+--                            so repeated taps from one phone are one report.
+--   crowd_reports.ip_hash  — md5 of the client IP, for the per-IP cap only;
+--                            not readable by clients.
+--
+-- Direct inserts are no longer allowed; reports go through report_crowding(),
+-- which only accepts a bus that is sharing right now and allows:
+--   one report per reporter per bus every 2 minutes,
+--   20 reports per reporter per hour,
+--   60 reports per client IP per 15 minutes — generous, since a whole busload
+--   of phones can sit behind one carrier NAT.
+-- Result: 'ok' | 'too_soon' | 'rate_limited' | 'invalid'.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE crowd_reports ADD COLUMN IF NOT EXISTS reporter TEXT;
+ALTER TABLE crowd_reports ADD COLUMN IF NOT EXISTS ip_hash  TEXT;
+CREATE INDEX IF NOT EXISTS crowd_reports_reporter_idx ON crowd_reports (reporter, reported_at DESC);
+CREATE INDEX IF NOT EXISTS crowd_reports_ip_idx       ON crowd_reports (ip_hash, reported_at DESC);
+
+DROP POLICY IF EXISTS "crowd_reports_insert" ON crowd_reports;
+
+-- Everyone still reads reports — every column but the IP hash
+REVOKE SELECT ON crowd_reports FROM anon, authenticated;
+GRANT  SELECT (id, vehicle_id, bus_id, level, reported_at, reporter) ON crowd_reports TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.report_crowding(p_vehicle TEXT, p_bus BIGINT, p_level TEXT, p_device TEXT) RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_ip       TEXT := btrim(split_part(COALESCE(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1));
+  v_reporter TEXT;
+BEGIN
+  IF p_level NOT IN ('empty', 'seats', 'standing', 'full') THEN RETURN 'invalid'; END IF;
+  IF auth.uid() IS NULL AND (p_device IS NULL OR length(p_device) NOT BETWEEN 16 AND 64) THEN RETURN 'invalid'; END IF;
+  IF NOT EXISTS (SELECT 1 FROM driver_location WHERE vehicle_id = p_vehicle AND sharing) THEN RETURN 'invalid'; END IF;
+
+  v_reporter := md5(COALESCE('user:' || auth.uid()::TEXT, 'device:' || p_device));
+  -- Two taps at once from one phone must not both pass the checks below
+  PERFORM pg_advisory_xact_lock(hashtext(v_reporter));
+
+  IF EXISTS (SELECT 1 FROM crowd_reports
+              WHERE reporter = v_reporter AND vehicle_id = p_vehicle
+                AND reported_at > NOW() - INTERVAL '2 minutes') THEN
+    RETURN 'too_soon';
+  END IF;
+  IF (SELECT COUNT(*) FROM crowd_reports
+       WHERE reporter = v_reporter AND reported_at > NOW() - INTERVAL '1 hour') >= 20 THEN
+    RETURN 'rate_limited';
+  END IF;
+  IF v_ip <> '' AND (SELECT COUNT(*) FROM crowd_reports
+                      WHERE ip_hash = md5(v_ip) AND reported_at > NOW() - INTERVAL '15 minutes') >= 60 THEN
+    RETURN 'rate_limited';
+  END IF;
+
+  INSERT INTO crowd_reports (vehicle_id, bus_id, level, reported_at, reporter, ip_hash)
+  VALUES (p_vehicle, p_bus, p_level, NOW(), v_reporter, NULLIF(md5(v_ip), md5('')));
+  RETURN 'ok';
+END $$;
+
+GRANT EXECUTE ON FUNCTION public.report_crowding(TEXT, BIGINT, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,97 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Learned hop times for both directions of a route.
+--
+-- record_trip_segments (20261019000400) walked the saved stops forward only,
+-- so a return trip — and the second half of a session that turned round at
+-- the terminus — recorded nothing. It now follows the bus instead:
+--
+--   arrivals  — each time the samples enter the 150 m fence of a stop other
+--               than the one the bus was last at (first sample counts)
+--   hops      — two consecutive arrivals at neighbouring saved stops; driven
+--               stops[i] → stops[i + 1] is outbound, stops[i + 1] → stops[i]
+--               is the return trip
+--
+--   segment_traversals.reversed — the hop was driven on the return trip.
+--                 seg_index stays the lower saved index, so both directions
+--                 of one stretch of road share it. A session that goes
+--                 there and back more than once records every pass
+--                 (departed_at joins the key).
+--   segment_time_stats.reversed — medians are kept per direction.
+--
+-- Hops already learned are recomputed from trip_samples, so past return
+-- trips count too.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE segment_traversals ADD COLUMN IF NOT EXISTS reversed BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE segment_traversals DROP CONSTRAINT IF EXISTS segment_traversals_pkey;
+ALTER TABLE segment_traversals ADD PRIMARY KEY (trip_id, seg_index, reversed, departed_at);
+DROP INDEX IF EXISTS segment_traversals_bus_idx;
+CREATE INDEX IF NOT EXISTS segment_traversals_bus_idx ON segment_traversals (bus_id, reversed, seg_index);
+
+DROP VIEW IF EXISTS segment_time_stats;
+CREATE VIEW segment_time_stats AS
+SELECT bus_id, seg_index, reversed, from_stop, to_stop, dow, hour,
+       percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_sec)::INT AS median_sec,
+       COUNT(*)::INT                                                 AS trips
+FROM segment_traversals
+GROUP BY GROUPING SETS ((bus_id, seg_index, reversed, from_stop, to_stop, dow, hour),
+                        (bus_id, seg_index, reversed, from_stop, to_stop, hour));
+
+/*
+ * record_trip_segments — turns one finished trip's samples into hop times,
+ * in whichever direction each hop was driven. A sample belongs to the
+ * nearest stop within 150 m; a skipped stop or a GPS gap simply produces
+ * no row.
+ */
+CREATE OR REPLACE FUNCTION public.record_trip_segments(p_trip TEXT) RETURNS INT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_bus    BIGINT;
+  v_stops  JSONB;
+  v_coords JSONB;
+  v_n      INT;
+BEGIN
+  SELECT bus_id INTO v_bus FROM trip_samples WHERE trip_id = p_trip AND bus_id IS NOT NULL LIMIT 1;
+  IF v_bus IS NULL THEN RETURN 0; END IF;
+  SELECT stops, stop_coords INTO v_stops, v_coords FROM buses WHERE id = v_bus;
+  IF v_coords IS NULL OR jsonb_typeof(v_coords) <> 'array' THEN RETURN 0; END IF;
+
+  WITH near AS (
+    SELECT s.recorded_at, n.idx
+    FROM trip_samples s
+    CROSS JOIN LATERAL (
+      SELECT (c.ord - 1)::INT AS idx,
+             geo_distance_m(s.lat, s.lon, (c.stop ->> 'lat')::FLOAT8, (c.stop ->> 'lon')::FLOAT8) AS d
+      FROM jsonb_array_elements(v_coords) WITH ORDINALITY AS c(stop, ord)
+      WHERE jsonb_typeof(c.stop) = 'object'
+      ORDER BY d LIMIT 1
+    ) n
+    WHERE s.trip_id = p_trip AND n.d < 150
+  ), arrivals AS (
+    SELECT idx, recorded_at AS at
+    FROM (SELECT idx, recorded_at, LAG(idx) OVER (ORDER BY recorded_at) AS prev_idx FROM near) v
+    WHERE prev_idx IS DISTINCT FROM idx
+  ), hops AS (
+    SELECT LAG(idx) OVER w AS from_i, idx AS to_i, LAG(at) OVER w AS from_at, at AS to_at
+    FROM arrivals
+    WINDOW w AS (ORDER BY at)
+  )
+  INSERT INTO segment_traversals (trip_id, seg_index, reversed, bus_id, from_stop, to_stop, departed_at, duration_sec, dow, hour)
+  SELECT p_trip, LEAST(from_i, to_i), to_i < from_i, v_bus, v_stops ->> from_i, v_stops ->> to_i, from_at,
+         EXTRACT(EPOCH FROM to_at - from_at)::INT,
+         EXTRACT(ISODOW FROM from_at AT TIME ZONE 'Asia/Kolkata'),
+         EXTRACT(HOUR   FROM from_at AT TIME ZONE 'Asia/Kolkata')
+  FROM hops
+  WHERE abs(to_i - from_i) = 1
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  RETURN v_n;
+END $$;
+
+-- Recompute what the forward-only walk learned; trips still sharing are
+-- recorded by the trigger when they end
+DELETE FROM segment_traversals;
+SELECT record_trip_segments(t.trip_id)
+FROM (SELECT DISTINCT s.trip_id FROM trip_samples s
+       WHERE NOT EXISTS (SELECT 1 FROM driver_location d WHERE d.trip_id = s.trip_id AND d.sharing)) t;
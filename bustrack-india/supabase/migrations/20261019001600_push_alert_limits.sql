@@ -0,0 +1,78 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Arrival alerts: bounded thresholds, a cap per subscription, rate limits.
+--
+-- The push-alerts function used to insert whatever a browser sent. Alerts now
+-- go through add_arrival_alert() (service role only — the function passes the
+-- client IP along), which stores the subscription and the alert and allows:
+--   thresholds of 1–120 minutes and 0.1–50 km (also table CHECKs),
+--   10 pending alerts per subscription,
+--   30 alerts per subscription per hour,
+--   60 alerts per client IP per 15 minutes.
+-- Result: 'ok' | 'too_many' | 'rate_limited' | 'invalid', with the alert id.
+--
+--   arrival_alerts.cancelled_at — a cancelled alert is kept until it expires
+--                                 (like a fired one), so cancelling does not
+--                                 free up the hourly limit.
+--   arrival_alerts.ip_hash      — md5 of the client IP, for the per-IP limit.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE arrival_alerts ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE arrival_alerts ADD COLUMN IF NOT EXISTS ip_hash      TEXT;
+CREATE INDEX IF NOT EXISTS arrival_alerts_subscription_idx ON arrival_alerts (subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS arrival_alerts_ip_idx           ON arrival_alerts (ip_hash, created_at DESC);
+
+-- Out-of-range alerts stored before this are dropped (they expire within hours anyway)
+DELETE FROM arrival_alerts WHERE minutes NOT BETWEEN 1 AND 120 OR km < 0.1 OR km > 50;
+ALTER TABLE arrival_alerts DROP CONSTRAINT IF EXISTS arrival_alerts_minutes_check;
+ALTER TABLE arrival_alerts DROP CONSTRAINT IF EXISTS arrival_alerts_km_check;
+ALTER TABLE arrival_alerts ADD  CONSTRAINT arrival_alerts_minutes_check CHECK (minutes BETWEEN 1 AND 120);
+ALTER TABLE arrival_alerts ADD  CONSTRAINT arrival_alerts_km_check      CHECK (km >= 0.1 AND km <= 50);
+
+CREATE OR REPLACE FUNCTION public.add_arrival_alert(
+  p_endpoint TEXT, p_p256dh TEXT, p_auth TEXT,
+  p_bus BIGINT, p_vehicle TEXT, p_stop_index INT, p_stop_name TEXT, p_kind TEXT,
+  p_minutes INT, p_km REAL, p_ip TEXT
+) RETURNS TABLE (result TEXT, alert_id BIGINT)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_sub BIGINT;
+  v_ip  TEXT := NULLIF(md5(COALESCE(p_ip, '')), md5(''));
+BEGIN
+  IF p_kind NOT IN ('approach', 'destination')
+     OR (p_minutes IS NULL AND p_km IS NULL)
+     OR p_minutes NOT BETWEEN 1 AND 120 OR p_km < 0.1 OR p_km > 50 THEN
+    RETURN QUERY SELECT 'invalid', NULL::BIGINT; RETURN;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM buses WHERE id = p_bus AND p_stop_index >= 0
+                   AND p_stop_index < jsonb_array_length(COALESCE(stops, '[]'::jsonb))) THEN
+    RETURN QUERY SELECT 'invalid', NULL::BIGINT; RETURN;
+  END IF;
+
+  -- Two requests at once from one browser must not both pass the checks below
+  PERFORM pg_advisory_xact_lock(hashtext(p_endpoint));
+
+  INSERT INTO push_subscriptions (endpoint, p256dh, auth) VALUES (p_endpoint, p_p256dh, p_auth)
+  ON CONFLICT (endpoint) DO UPDATE SET p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth
+  RETURNING id INTO v_sub;
+
+  IF (SELECT COUNT(*) FROM arrival_alerts
+       WHERE subscription_id = v_sub AND fired_at IS NULL AND cancelled_at IS NULL) >= 10 THEN
+    RETURN QUERY SELECT 'too_many', NULL::BIGINT; RETURN;
+  END IF;
+  IF (SELECT COUNT(*) FROM arrival_alerts
+       WHERE subscription_id = v_sub AND created_at > NOW() - INTERVAL '1 hour') >= 30 THEN
+    RETURN QUERY SELECT 'rate_limited', NULL::BIGINT; RETURN;
+  END IF;
+  IF v_ip IS NOT NULL AND (SELECT COUNT(*) FROM arrival_alerts
+                            WHERE ip_hash = v_ip AND created_at > NOW() - INTERVAL '15 minutes') >= 60 THEN
+    RETURN QUERY SELECT 'rate_limited', NULL::BIGINT; RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO arrival_alerts (subscription_id, bus_id, vehicle_id, stop_index, stop_name, kind, minutes, km, ip_hash)
+  VALUES (v_sub, p_bus, p_vehicle, p_stop_index, left(COALESCE(p_stop_name, ''), 120), p_kind, p_minutes, p_km, v_ip)
+  RETURNING 'ok'::TEXT, arrival_alerts.id;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION public.add_arrival_alert(TEXT, TEXT, TEXT, BIGINT, TEXT, INT, TEXT, TEXT, INT, REAL, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT  EXECUTE ON FUNCTION public.add_arrival_alert(TEXT, TEXT, TEXT, BIGINT, TEXT, INT, TEXT, TEXT, INT, REAL, TEXT) TO service_role;
@@ -0,0 +1,34 @@
+/**
+ * arrivalAlerts.test.ts — the alert rule shared by the page and the push-alerts
+ * function: accepted thresholds and when an alert is due.
+ */
+import { describe, expect, it } from 'vitest';
+import { alertDue, validAlertThresholds, type AlertRule } from '../src/shared/arrivalAlerts';
+
+const RULE: AlertRule = { kind: 'approach', busName: 'Salem → Attur', stopName: 'Vazhapadi', minutes: 5, km: null };
+
+describe('validAlertThresholds', () => {
+  it('accepts minutes or km within range', () => {
+    expect(validAlertThresholds(1, null)).toBe(true);
+    expect(validAlertThresholds(120, null)).toBe(true);
+    expect(validAlertThresholds(null, 0.1)).toBe(true);
+    expect(validAlertThresholds(10, 50)).toBe(true);
+  });
+
+  it('refuses no threshold, or one out of range', () => {
+    expect(validAlertThresholds(null, null)).toBe(false);
+    expect(validAlertThresholds(0, null)).toBe(false);
+    expect(validAlertThresholds(121, null)).toBe(false);
+    expect(validAlertThresholds(null, 0.05)).toBe(false);
+    expect(validAlertThresholds(5, 500)).toBe(false);
+    expect(validAlertThresholds(NaN, null)).toBe(false);
+  });
+});
+
+describe('alertDue', () => {
+  it('fires within the minutes or the km, whichever comes first', () => {
+    expect(alertDue(RULE, { km: 3, etaSec: 301 })).toBe(false);
+    expect(alertDue(RULE, { km: 3, etaSec: 300 })).toBe(true);
+    expect(alertDue({ ...RULE, km: 1 }, { km: 0.9, etaSec: 600 })).toBe(true);
+  });
+});
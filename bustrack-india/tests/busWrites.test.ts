@@ -0,0 +1,54 @@
+/**
+ * busWrites.test.ts — adding a route: saved, queued offline, refused, or a
+ * conflict with the route already imported under the same GTFS route_id.
+ */
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configure, saveBus, type BusRow } from '../src/services/supabaseService';
+import { promisify, withStore } from '../src/services/idb';
+
+const ROUTE = { name: 'Salem → Attur', stops: ['Salem New Bus Stand', 'Vazhapadi', 'Attur'], gtfs_route_id: 'R12' };
+const ROW   = { ...ROUTE, id: 7, version: 1, updated_at: '2026-10-19T06:00:00Z' } as unknown as BusRow;
+
+let online = true;
+let answer: (url: string, init?: RequestInit) => Response;
+
+beforeAll(() => {
+  configure({ url: 'https://example.supabase.co', anonKey: 'anon' });
+});
+
+beforeEach(async () => {
+  online = true;
+  vi.stubGlobal('navigator', { get onLine() { return online; } });
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => answer(url, init)));
+  await withStore('outbox', 'readwrite', s => promisify(s.clear()));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('saveBus', () => {
+  it('returns the stored row', async () => {
+    answer = () => new Response(JSON.stringify([ROW]), { status: 201 });
+    expect(await saveBus(ROUTE)).toEqual({ status: 'saved', bus: ROW });
+  });
+
+  it('queues the route while offline', async () => {
+    online = false;
+    answer = () => { throw new Error('offline fetch'); };
+    expect(await saveBus(ROUTE)).toEqual({ status: 'queued' });
+  });
+
+  it('reports a refused insert as failed, not queued', async () => {
+    answer = () => new Response('{"message":"new row violates row-level security policy"}', { status: 403 });
+    expect(await saveBus(ROUTE)).toEqual({ status: 'failed' });
+  });
+
+  it('hands back the route already imported under the GTFS route_id', async () => {
+    answer = (url, init) => init?.method === 'POST'
+      ? new Response('{"code":"23505"}', { status: 409 })
+      : new Response(JSON.stringify(url.includes('gtfs_route_id=eq.R12') ? [ROW] : []), { status: 200 });
+    expect(await saveBus(ROUTE)).toEqual({ status: 'conflict', current: ROW });
+  });
+});
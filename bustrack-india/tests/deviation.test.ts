@@ -0,0 +1,86 @@
+/**
+ * deviation.test.ts — off-route fixes through the deviation detector to the
+ * published route_deviations row and the live row's off_route flag, like
+ * trackDeviation / endDeviationTracking.
+ */
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configure, publishDeviation } from '../src/services/supabaseService';
+import { createDeviationDetector, DEFAULT_CORRIDOR_M, type DeviationFix } from '../src/services/deviationDetector';
+import { deviationRow, startTrip } from '../src/services/driverTrip';
+
+const BUS = { id: 7, name: 'Salem → Attur', stops: ['Salem New Bus Stand', 'Vazhapadi', 'Attur'] };
+const T0  = Date.UTC(2026, 9, 19, 6, 0);
+
+// On route, then a minute-long diversion (3 s fixes, up to 420 m off), then back
+const FIXES: DeviationFix[] = [
+  { lat: 11.6702, lon: 78.1401, ts: T0,           offRouteM: 12 },
+  ...Array.from({ length: 21 }, (_, i) => ({
+    lat: 11.6710 + i * 0.0002, lon: 78.1420 + i * 0.0003, ts: T0 + 3_000 * (i + 1), offRouteM: 200 + i * 11,
+  })),
+  { lat: 11.6760, lon: 78.1500, ts: T0 + 90_000, offRouteM: 40 },
+];
+
+let sent: { url: string; method: string; body: Record<string, unknown> }[] = [];
+
+beforeAll(() => {
+  configure({ url: 'https://example.supabase.co', anonKey: 'anon' });
+});
+
+beforeEach(() => {
+  sent = [];
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    sent.push({ url, method: init?.method ?? 'GET', body: JSON.parse(String(init?.body ?? '{}')) });
+    return new Response(null, { status: 201 });
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+async function drive(fixes: DeviationFix[], close = false) {
+  const trip = startTrip('TN-30-N-1234', BUS, T0);
+  const det  = createDeviationDetector(trip.tripId);
+  for (const fix of fixes) {
+    const ev = det.update(fix);
+    if (ev) await publishDeviation(deviationRow(trip, ev.deviation, DEFAULT_CORRIDOR_M));
+  }
+  const ev = close ? det.close(fixes[fixes.length - 1].ts) : null;
+  if (ev) await publishDeviation(deviationRow(trip, ev.deviation, DEFAULT_CORRIDOR_M));
+  return trip;
+}
+
+const logged  = () => sent.filter(r => r.url.includes('/rest/v1/route_deviations')).map(r => r.body);
+const flagged = () => sent.filter(r => r.method === 'PATCH').map(r => r.body);
+
+describe('deviation detection → publish', () => {
+  it('logs the deviation once confirmed and again, on the same row, when the bus rejoins', async () => {
+    const trip = await drive(FIXES);
+    const [start, end] = logged();
+
+    expect(logged()).toHaveLength(2);
+    expect(start).toMatchObject({ trip_id: trip.tripId, vehicle_id: 'TN-30-N-1234', bus_id: 7, ended_at: null, corridor_m: DEFAULT_CORRIDOR_M });
+    expect(String(start.id)).toMatch(new RegExp(`^${trip.tripId}:`));
+    expect(end).toMatchObject({ id: start.id, trip_id: trip.tripId, ended_at: new Date(T0 + 90_000).toISOString(), max_off_route_m: 420 });
+    expect(end.distance_km as number).toBeGreaterThan(0);
+  });
+
+  it('flags the live row while off route and clears it after', async () => {
+    await drive(FIXES);
+    expect(flagged().map(b => b.off_route)).toEqual([true, false]);
+    expect(flagged()[0]).toMatchObject({ off_route_since: new Date(T0 + 3_000).toISOString() });
+    expect(flagged()[1]).toMatchObject({ off_route_since: null, off_route_m: null });
+  });
+
+  it('closes a deviation still open when sharing stops', async () => {
+    await drive(FIXES.slice(0, -1), true);
+    expect(logged().map(d => d.ended_at === null)).toEqual([true, false]);
+    expect(flagged().map(b => b.off_route)).toEqual([true, false]);
+  });
+
+  it('publishes nothing for a short GPS excursion', async () => {
+    await drive([FIXES[0], FIXES[1], FIXES[2], FIXES[FIXES.length - 1]]);
+    expect(sent).toEqual([]);
+  });
+});
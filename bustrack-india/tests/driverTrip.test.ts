@@ -0,0 +1,99 @@
+/**
+ * driverTrip.test.ts — a driver sharing session from start to upload: every
+ * fix carries the trip id, and fixes taken offline queue as trip samples.
+ */
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configure, saveDriverLocation } from '../src/services/supabaseService';
+import { locationRow, startTrip, type TripFix } from '../src/services/driverTrip';
+import { promisify, withStore } from '../src/services/idb';
+import type { OutboxEntry } from '../src/services/outbox';
+
+const BUS = { id: 7, name: 'Salem → Attur', stops: ['Salem New Bus Stand', 'Ayothiyapattinam', 'Vazhapadi', 'Attur'] };
+
+const FIXES: TripFix[] = [
+  { lat: 11.6702, lon: 78.1401, speedKmh: 0,    heading: 0 },
+  { lat: 11.6665, lon: 78.1620, speedKmh: 31.4, heading: 96.2 },
+  { lat: 11.6631, lon: 78.1873, speedKmh: 42.7, heading: 99.8 },
+];
+
+let online = true;
+let sent: { url: string; body: Record<string, unknown> }[] = [];
+
+function queued(): Promise<OutboxEntry[] | null> {
+  return withStore('outbox', 'readonly', s => promisify(s.getAll() as IDBRequest<OutboxEntry[]>));
+}
+
+beforeAll(() => {
+  configure({ url: 'https://example.supabase.co', anonKey: 'anon' });
+});
+
+beforeEach(async () => {
+  online = true;
+  sent = [];
+  vi.stubGlobal('navigator', { get onLine() { return online; } });
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    if (!online) throw new TypeError('Failed to fetch');
+    sent.push({ url, body: JSON.parse(String(init?.body ?? '{}')) });
+    return new Response(null, { status: 201 });
+  }));
+  await withStore('outbox', 'readwrite', s => promisify(s.clear()));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('a sharing session', () => {
+  it('starts a trip with the route it runs', () => {
+    const trip = startTrip('TN-30-N-1234', BUS, Date.UTC(2026, 9, 19, 6, 0));
+    expect(trip.tripId).toMatch(/^TN-30-N-1234-/);
+    expect(trip).toMatchObject({ busId: 7, busName: BUS.name, routeStops: BUS.stops });
+  });
+
+  it('gives the next session of the same vehicle a new trip id', () => {
+    const a = startTrip('TN-30-N-1234', BUS, Date.UTC(2026, 9, 19, 6, 0));
+    const b = startTrip('TN-30-N-1234', BUS, Date.UTC(2026, 9, 19, 9, 30));
+    expect(b.tripId).not.toBe(a.tripId);
+  });
+
+  it('uploads every fix with the trip id, so the server records a sample for each', async () => {
+    const trip = startTrip('TN-30-N-1234', BUS);
+    const results = [];
+    for (const fix of FIXES) results.push(await saveDriverLocation(trip.vehicleId, locationRow(trip, fix, null)));
+
+    expect(results).toEqual(['saved', 'saved', 'saved']);
+    expect(sent).toHaveLength(FIXES.length);
+    expect(sent.every(r => r.url.includes('/rest/v1/driver_location?on_conflict=vehicle_id'))).toBe(true);
+    expect(sent.map(r => r.body)).toEqual(FIXES.map(f => expect.objectContaining({
+      vehicle_id: 'TN-30-N-1234', trip_id: trip.tripId, bus_id: 7, sharing: true, lat: f.lat, lon: f.lon,
+    })));
+    expect(await queued()).toEqual([]);
+  });
+
+  it('reports an upload the server refuses as failed, not queued', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"message":"new row violates row-level security policy"}', { status: 403 })));
+    const trip = startTrip('TN-30-N-1234', BUS);
+    expect(await saveDriverLocation(trip.vehicleId, locationRow(trip, FIXES[0], null))).toBe('failed');
+    expect(await queued()).toEqual([]);
+  });
+
+  it('queues fixes taken offline as trip samples of the same trip', async () => {
+    const trip = startTrip('TN-30-N-1234', BUS);
+    online = false;
+    const results = [];
+    for (const fix of FIXES) results.push(await saveDriverLocation(trip.vehicleId, locationRow(trip, fix, null)));
+    expect(results).toEqual(['queued', 'queued', 'queued']);
+
+    const entries = (await queued()) ?? [];
+    const samples = entries.filter(e => e.path.startsWith('trip_samples'));
+    const locations = entries.filter(e => e.path.startsWith('driver_location'));
+
+    expect(samples.map(e => JSON.parse(e.body ?? '{}'))).toEqual(FIXES.map(f => expect.objectContaining({
+      trip_id: trip.tripId, vehicle_id: 'TN-30-N-1234', bus_id: 7, lat: f.lat, lon: f.lon,
+    })));
+    // The live position collapses to the latest fix
+    expect(locations).toHaveLength(1);
+    expect(JSON.parse(locations[0].body ?? '{}')).toMatchObject({ trip_id: trip.tripId, lat: FIXES[2].lat });
+  });
+});
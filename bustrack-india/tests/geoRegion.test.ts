@@ -0,0 +1,24 @@
+/**
+ * geoRegion.test.ts — route → deployment → default region resolution
+ */
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGION, resolveRegion } from '../src/shared/geoRegion';
+
+describe('resolveRegion', () => {
+  it('falls back to the default region', () => {
+    expect(resolveRegion(null, null)).toEqual(DEFAULT_REGION);
+  });
+
+  it('does not carry the Tamil Nadu viewbox into another state', () => {
+    expect(resolveRegion(null, { state: 'Kerala' })).toEqual({ state: 'Kerala', country: 'in' });
+  });
+
+  it('replaces district and viewbox together', () => {
+    const deployment = { state: 'Tamil Nadu', district: 'Salem', viewbox: [77.6, 11.2, 78.6, 12.1] as [number, number, number, number] };
+    expect(resolveRegion(deployment, { district: 'Namakkal' })).toEqual({ state: 'Tamil Nadu', country: 'in', district: 'Namakkal' });
+  });
+
+  it('keeps the state viewbox when the route only restates the state', () => {
+    expect(resolveRegion(null, { state: 'Tamil Nadu' }).viewbox).toEqual(DEFAULT_REGION.viewbox);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * gtfs.test.ts — GTFS feed export → import round trip through the ZIP writer
+ * and reader, timetabled stop times, and feeds that are not (valid) ZIPs.
+ */
+import { describe, expect, it } from 'vitest';
+import { buildGtfs, parseCsv, readGtfsZip, writeGtfsZip, type GtfsExportRoute } from '../src/shared/gtfs';
+import { readZip, writeZip } from '../src/shared/zip';
+
+const AGENCY = { name: 'TNSTC Salem', url: 'https://tnstc.in', timezone: 'Asia/Kolkata' };
+const TODAY  = '20261019';
+
+const ROUTE: GtfsExportRoute = {
+  id        : 7,
+  name      : 'Salem → Attur',
+  stops     : ['Salem, New Bus Stand', 'Ayothiyapattinam', 'Unplaced Kovil', 'Vazhapadi', 'Attur'],
+  stopCoords: [
+    { lat: 11.670212, lon: 78.140133 },
+    { lat: 11.666501, lon: 78.162044 },
+    null,
+    { lat: 11.656842, lon: 78.402517 },
+    { lat: 11.599804, lon: 78.601371 },
+  ],
+  shape     : [[11.670212, 78.140133], [11.666501, 78.162044], [11.656842, 78.402517], [11.599804, 78.601371]],
+  legSeconds: [420, 1500, 1380],
+};
+
+/** A one-file archive whose entry claims `deflate` but holds bytes that will not inflate. */
+function corruptZip(): Uint8Array {
+  const bytes = writeZip({ 'stops.txt': new Uint8Array([0xff, 0xff, 0xff, 0xff]) });
+  const view  = new DataView(bytes.buffer);
+  const central = view.getUint32(bytes.length - 22 + 16, true);
+  view.setUint16(8, 8, true);             // local header: method
+  view.setUint16(central + 10, 8, true);  // central directory: method
+  return bytes;
+}
+
+describe('GTFS export → import', () => {
+  it('gives back the route as it was saved, without the stop that has no coordinates', async () => {
+    const feed = await readGtfsZip(writeGtfsZip([ROUTE], AGENCY, TODAY));
+
+    expect(feed.warnings).toEqual([]);
+    expect(feed.routes).toHaveLength(1);
+    const [r] = feed.routes;
+    expect(r).toMatchObject({ gtfsRouteId: 'R7', name: ROUTE.name });
+    expect(r.stops).toEqual(['Salem, New Bus Stand', 'Ayothiyapattinam', 'Vazhapadi', 'Attur']);
+    expect(r.stopCoords.map(c => [c.lat, c.lon])).toEqual(ROUTE.stopCoords.filter(c => c).map(c => [c!.lat, c!.lon]));
+    expect(r.stopCoords.every(c => c.confirmed && c.source === 'gtfs')).toBe(true);
+    expect(r.shape).toEqual(ROUTE.shape);
+  });
+
+  it('times an untimetabled route from its legs, both directions, as approximate', () => {
+    const files = buildGtfs([ROUTE], AGENCY, TODAY);
+    const times = parseCsv(files['stop_times.txt']);
+
+    expect(parseCsv(files['trips.txt']).map(t => [t.trip_id, t.direction_id])).toEqual([['T7', '0'], ['T7R', '1']]);
+    expect(times.filter(t => t.trip_id === 'T7').map(t => t.arrival_time)).toEqual(['00:00:00', '00:07:00', '00:32:00', '00:55:00']);
+    expect(times.filter(t => t.trip_id === 'T7R').map(t => t.arrival_time)).toEqual(['00:00:00', '00:23:00', '00:48:00', '00:55:00']);
+    expect(times.every(t => t.timepoint === '0')).toBe(true);
+  });
+
+  it('exports each scheduled departure, past midnight as 24:xx, with holidays as calendar dates', () => {
+    const timed: GtfsExportRoute = {
+      ...ROUTE,
+      offsets  : [0, 10, null, 40, 70],
+      timetable: [
+        { id: 31, busId: 7, reversed: false, departs: 6 * 60 + 30, days: 0b0011111 },
+        { id: 32, busId: 7, reversed: false, departs: 23 * 60 + 30, days: 0b0011111 },
+      ],
+    };
+    // 2026-10-20 is a Tuesday — a weekday the route would run
+    const files = buildGtfs([timed], AGENCY, TODAY, [{ busId: 7, day: '2026-10-20', runs: false }]);
+    const times = parseCsv(files['stop_times.txt']);
+
+    expect(parseCsv(files['trips.txt']).map(t => t.trip_id)).toEqual(['ST31', 'ST32']);
+    expect(times.filter(t => t.trip_id === 'ST31').map(t => t.arrival_time)).toEqual(['06:30:00', '06:40:00', '07:10:00', '07:40:00']);
+    expect(times.filter(t => t.trip_id === 'ST32').map(t => t.arrival_time)).toEqual(['23:30:00', '23:40:00', '24:10:00', '24:40:00']);
+    expect(times.every(t => t.timepoint === '1')).toBe(true);
+    expect(parseCsv(files['calendar.txt'])[0]).toMatchObject({ service_id: 'C7-31', monday: '1', saturday: '0', start_date: TODAY, end_date: '20271019' });
+    expect(parseCsv(files['calendar_dates.txt'])).toEqual([{ service_id: 'C7-31', date: '20261020', exception_type: '2' }]);
+  });
+
+  it('reads a feed zipped inside a folder', async () => {
+    const files = Object.fromEntries(Object.entries(buildGtfs([ROUTE], AGENCY, TODAY)).map(([name, text]) => [`salem-feed/${name}`, text]));
+    const feed  = await readGtfsZip(writeZip(files));
+    expect(feed.routes.map(r => r.gtfsRouteId)).toEqual(['R7']);
+  });
+});
+
+describe('corrupt feeds', () => {
+  it('refuses bytes that are not a ZIP', async () => {
+    expect(await readZip(new TextEncoder().encode('route_id,route_long_name\r\nR7,Salem → Attur\r\n'))).toBeNull();
+    expect(await readGtfsZip(new Uint8Array(10))).toEqual({ routes: [], warnings: ['Not a ZIP file'] });
+  });
+
+  it('refuses a ZIP cut short before its central directory', async () => {
+    const bytes = writeGtfsZip([ROUTE], AGENCY, TODAY);
+    expect((await readGtfsZip(bytes.subarray(0, bytes.length - 30))).warnings).toEqual(['Not a ZIP file']);
+  });
+
+  it('reports an entry that will not inflate instead of reading it as empty', async () => {
+    const zip = await readZip(corruptZip());
+    expect(zip).toEqual({ files: {}, unreadable: ['stops.txt'] });
+
+    const feed = await readGtfsZip(corruptZip());
+    expect(feed.routes).toEqual([]);
+    expect(feed.warnings[0]).toMatch(/^Could not unzip stops\.txt/);
+  });
+});
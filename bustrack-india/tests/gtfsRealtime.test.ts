@@ -0,0 +1,46 @@
+/**
+ * gtfsRealtime.test.ts — upcoming stops for TripUpdate.stop_time_update
+ */
+import { describe, expect, it } from 'vitest';
+import { upcomingStops, type RtRoute, type RtVehicle } from '../src/shared/gtfsRealtime';
+
+const KM_LAT = 1 / 110.574;   // degrees of latitude per km
+
+// Straight road due north, a stop every kilometre
+const route: RtRoute = {
+  id        : 7,
+  name      : 'Salem – Attur',
+  stops     : ['A', 'B', 'C', 'D'],
+  stopCoords: [0, 1, 2, 3].map(km => ({ lat: 11.6 + km * KM_LAT, lon: 78.1 })),
+};
+
+const bus = (km: number, reversed = false): RtVehicle => ({
+  vehicle_id: 'TN30-1234', bus_id: 7, lat: 11.6 + km * KM_LAT, lon: 78.1, speed: 0, heading: 0, updated_at: '2026-10-19T06:00:00Z', reversed,
+});
+
+describe('upcomingStops', () => {
+  it('lists each stop once when the bus is standing just short of it', () => {
+    const seqs = upcomingStops(bus(0.945), route).map(u => u.seq);
+    expect(seqs).toEqual([2, 3, 4]);
+  });
+
+  it('leads with the stop the bus is at, at distance 0', () => {
+    const [first] = upcomingStops(bus(0.945), route);
+    expect(first).toMatchObject({ seq: 2, km: 0, etaSec: 0 });
+  });
+
+  it('drops a stop once the bus is past it', () => {
+    expect(upcomingStops(bus(1.2), route).map(u => u.seq)).toEqual([3, 4]);
+  });
+
+  it('counts stops in travel order on the return trip', () => {
+    expect(upcomingStops(bus(1.5, true), route).map(u => u.index)).toEqual([1, 0]);
+  });
+
+  it('times each hop from the history of the direction it is driven in', () => {
+    // 1 km hops: 4 min outbound, 6 min on the return trip
+    const hopSec = (_bus: number, _seg: number, reversed: boolean) => reversed ? 360 : 240;
+    expect(upcomingStops(bus(0.945), route, hopSec).map(u => u.etaSec)).toEqual([0, 240, 480]);
+    expect(upcomingStops(bus(2.055, true), route, hopSec).map(u => u.etaSec)).toEqual([0, 360, 720]);
+  });
+});
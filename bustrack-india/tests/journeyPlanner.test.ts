@@ -0,0 +1,100 @@
+/**
+ * journeyPlanner.test.ts — journeys across the stop graph: a direct ride, a
+ * transfer between two routes at a shared stand (either direction), when a
+ * transfer is worth offering, and places no route connects.
+ */
+import { describe, expect, it } from 'vitest';
+import { buildStopGraph, findStops, planJourneys, type PlannerRoute } from '../src/services/journeyPlanner';
+
+const SALEM        = { name: 'Salem New Bus Stand', lat: 11.6702, lon: 78.1401 };
+const AYOTHIYA     = { name: 'Ayothiyapattinam',    lat: 11.6665, lon: 78.1620 };
+const VAZHAPADI    = { name: 'Vazhapadi',           lat: 11.6568, lon: 78.4025 };
+const ATTUR        = { name: 'Attur',               lat: 11.5998, lon: 78.6014 };
+const THALAIVASAL  = { name: 'Thalaivasal',         lat: 11.5860, lon: 78.7540 };
+const CHINNASALEM  = { name: 'Chinnasalem',         lat: 11.6350, lon: 78.8770 };
+const KALLAKURICHI = { name: 'Kallakurichi',        lat: 11.7380, lon: 78.9590 };
+
+const leg = (km: number, min: number) => ({ distanceKm: km, durationSec: min * 60 });
+
+const SALEM_ATTUR: PlannerRoute = {
+  id: 1, name: 'Salem → Attur',
+  stops: [SALEM, AYOTHIYA, VAZHAPADI, ATTUR],
+  legs : [leg(2.5, 7), leg(20, 25), leg(22, 23)],          // 55 min
+};
+// Same stand as ATTUR, under the name this route's depot uses
+const ATTUR_KALLAKURICHI: PlannerRoute = {
+  id: 2, name: 'Attur → Kallakurichi',
+  stops: [{ ...ATTUR, name: 'Attur Bus Stand' }, THALAIVASAL, CHINNASALEM, KALLAKURICHI],
+  legs : [leg(10, 15), leg(12, 16), leg(14, 18)],          // 49 min
+};
+const NAMAKKAL_RASIPURAM: PlannerRoute = {
+  id: 3, name: 'Namakkal → Rasipuram',
+  stops: [{ name: 'Namakkal', lat: 11.2190, lon: 78.1670 }, { name: 'Rasipuram', lat: 11.4600, lon: 78.1850 }],
+  legs : [leg(30, 40)],
+};
+/** A through bus Salem → Kallakurichi taking `min` minutes. */
+const through = (min: number): PlannerRoute => ({
+  id: 4, name: 'Salem → Kallakurichi (via Attur bypass)',
+  stops: [SALEM, KALLAKURICHI],
+  legs : [leg(85, min)],
+});
+
+function plan(routes: PlannerRoute[], from: string, to: string) {
+  const g = buildStopGraph(routes);
+  return planJourneys(g, findStops(g, from), findStops(g, to));
+}
+
+const ROUTES = [SALEM_ATTUR, ATTUR_KALLAKURICHI, NAMAKKAL_RASIPURAM];
+
+describe('planJourneys', () => {
+  it('rides one route when it goes all the way', () => {
+    const [j, ...rest] = plan(ROUTES, 'Salem New Bus Stand', 'Vazhapadi');
+    expect(rest).toEqual([]);
+    expect(j).toMatchObject({ transfers: 0, minutes: 32, km: 22.5 });
+    expect(j.legs.map(l => [l.routeId, l.from, l.to, l.reversed])).toEqual([[1, 'Salem New Bus Stand', 'Vazhapadi', false]]);
+  });
+
+  it('changes buses at a stand two routes share, adding the transfer wait', () => {
+    const journeys = plan(ROUTES, 'Salem New Bus Stand', 'Kallakurichi');
+    expect(journeys).toHaveLength(1);
+    const [j] = journeys;
+    expect(j).toMatchObject({ transfers: 1, minutes: 55 + 49 + 10, km: 44.5 + 36 });
+    expect(j.legs.map(l => [l.routeId, l.from, l.to])).toEqual([
+      [1, 'Salem New Bus Stand', 'Attur'],
+      [2, 'Attur Bus Stand', 'Kallakurichi'],
+    ]);
+    expect(j.legs[0].stops.map(s => s.name)).toEqual(['Salem New Bus Stand', 'Ayothiyapattinam', 'Vazhapadi', 'Attur']);
+  });
+
+  it('rides both routes backwards for the return journey', () => {
+    const [j] = plan(ROUTES, 'Chinnasalem', 'Ayothiyapattinam');
+    expect(j.legs.map(l => [l.routeId, l.from, l.to, l.reversed])).toEqual([
+      [2, 'Chinnasalem', 'Attur Bus Stand', true],
+      [1, 'Attur', 'Ayothiyapattinam', true],
+    ]);
+    expect(j.legs[1].stops.map(s => s.name)).toEqual(['Attur', 'Vazhapadi', 'Ayothiyapattinam']);
+    expect(j.minutes).toBe(31 + 48 + 10);
+  });
+
+  it('offers the transfer only when it beats the through bus', () => {
+    const slow = plan([...ROUTES, through(150)], 'Salem New Bus Stand', 'Kallakurichi');
+    expect(slow.map(j => [j.transfers, j.minutes])).toEqual([[1, 114], [0, 150]]);
+
+    const fast = plan([...ROUTES, through(100)], 'Salem New Bus Stand', 'Kallakurichi');
+    expect(fast.map(j => [j.transfers, j.minutes])).toEqual([[0, 100]]);
+  });
+
+  it('finds nothing between places no chain of routes connects', () => {
+    expect(plan(ROUTES, 'Salem New Bus Stand', 'Rasipuram')).toEqual([]);
+    expect(plan(ROUTES, 'Rasipuram', 'Attur')).toEqual([]);
+  });
+});
+
+describe('findStops', () => {
+  it('prefers an exact name, then any stop containing the words', () => {
+    const g = buildStopGraph(ROUTES);
+    expect(findStops(g, 'attur')).toEqual(['11.5998,78.6014']);
+    expect(findStops(g, 'Salem')).toHaveLength(2);              // Salem New Bus Stand, Chinnasalem
+    expect(findStops(g, 'Ooty')).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * kalmanGps.test.ts — replays GPS traces (tests/traces/*.json) through the
+ * driver / passenger Kalman filter, one fix at a time like the watch callback.
+ */
+import { describe, expect, it } from 'vitest';
+import { createGpsTracks, MAX_REJECTS, type GpsEstimate } from '../src/shared/kalmanGps';
+import standTrace from './traces/salem-stand-stop-and-go.json';
+import flyoverTrace from './traces/flyover-multipath.json';
+
+type Fix = [ts: number, lat: number, lon: number, accuracy: number];
+
+function replay(fixes: number[][], trackId = 'drv:test', tracks = createGpsTracks()) {
+  return (fixes as Fix[]).map(([ts, lat, lon, accuracy]) => ({ ts, lat, lon, out: tracks.step(trackId, { ts, lat, lon, accuracy }) }));
+}
+
+function metres(aLat: number, aLon: number, bLat: number, bLon: number): number {
+  return Math.hypot((aLat - bLat) * 110_540, (aLon - bLon) * 111_320 * Math.cos(aLat * Math.PI / 180));
+}
+
+/** Largest distance of any point from the group's centroid. */
+function spread(pts: { lat: number; lon: number }[]): number {
+  const lat = pts.reduce((s, p) => s + p.lat, 0) / pts.length;
+  const lon = pts.reduce((s, p) => s + p.lon, 0) / pts.length;
+  return Math.max(...pts.map(p => metres(p.lat, p.lon, lat, lon)));
+}
+
+function headingGap(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+describe('bus stand → road → stop → road', () => {
+  const steps = replay(standTrace.fixes);
+  const during = ([from, to]: number[]) => steps.filter(s => s.ts > from + 10_000 && s.ts <= to);
+
+  it('accepts every fix of a clean trace', () => {
+    expect(steps.every(s => s.out.accepted)).toBe(true);
+  });
+
+  it('holds a parked bus tighter than the raw jitter', () => {
+    for (const stop of standTrace.stops) {
+      const held = during(stop);
+      expect(spread(held.map(s => s.out))).toBeLessThan(spread(held));
+    }
+  });
+
+  it('reports walking pace at most while stopped, not phantom speed', () => {
+    for (const stop of standTrace.stops) {
+      const held = during(stop);
+      expect(held.reduce((sum, s) => sum + s.out.speedKmh, 0) / held.length).toBeLessThan(8);
+    }
+  });
+
+  it('keeps the heading steady through a stop instead of spinning with the jitter', () => {
+    const held = during(standTrace.stops[1]).map(s => s.out.heading);
+    expect(Math.max(...held.map(h => headingGap(h, standTrace.headingDeg)))).toBeLessThan(20);
+  });
+
+  it('tracks speed and heading on the road', () => {
+    const [, stopEnd] = standTrace.stops[1];
+    const cruising = steps.filter(s => s.ts > stopEnd + 20_000);
+    const meanKmh  = cruising.reduce((sum, s) => sum + s.out.speedKmh, 0) / cruising.length;
+    expect(meanKmh).toBeGreaterThan(9 * 3.6 - 3);
+    expect(meanKmh).toBeLessThan(9 * 3.6 + 3);
+    for (const s of cruising) expect(headingGap(s.out.heading, standTrace.headingDeg)).toBeLessThan(20);
+  });
+});
+
+describe('multipath under a flyover', () => {
+  const steps = replay(flyoverTrace.fixes);
+
+  it('rejects exactly the jumps', () => {
+    const rejected = steps.filter(s => !s.out.accepted).map(s => s.ts);
+    expect(rejected).toEqual(flyoverTrace.multipath);
+  });
+
+  it('stays on the road through the jumps', () => {
+    for (const s of steps) expect(metres(s.out.lat, s.out.lon, flyoverTrace.roadLat, s.out.lon)).toBeLessThan(15);
+  });
+
+  it('holds the last estimate for a rejected fix', () => {
+    const i = steps.findIndex(s => !s.out.accepted);
+    expect(steps[i].out.lat).toBeCloseTo(steps[i - 1].out.lat, 6);
+  });
+});
+
+describe('track lifetime', () => {
+  const [first] = flyoverTrace.fixes as Fix[];
+  const toFix = ([ts, lat, lon, accuracy]: Fix) => ({ ts, lat, lon, accuracy });
+
+  it('starts a reset track at its first fix', () => {
+    const tracks = createGpsTracks();
+    replay(standTrace.fixes, 'drv:1', tracks);
+    tracks.reset('drv:1');
+    const out: GpsEstimate = tracks.step('drv:1', toFix(first));
+    expect(out).toMatchObject({ accepted: true, lat: first[1], lon: first[2], speedKmh: 0 });
+  });
+
+  it('without a reset, rejects the next trip until the GPS has been consistent MAX_REJECTS times', () => {
+    const tracks = createGpsTracks();
+    const last   = standTrace.fixes.at(-1)!;
+    // Next trip's first fixes arrive 10 s later, ~2.5 km away — faster than any bus could get there
+    const next   = (flyoverTrace.fixes as Fix[]).map(([, lat, lon, acc], i): Fix => [last[0] + 10_000 + i * 2000, lat, lon, acc]);
+    replay(standTrace.fixes, 'drv:1', tracks);
+    const outs = replay(next.slice(0, MAX_REJECTS), 'drv:1', tracks).map(s => s.out.accepted);
+    expect(outs).toEqual([...Array(MAX_REJECTS - 1).fill(false), true]);
+  });
+
+  it('keeps tracks of different buses apart', () => {
+    const tracks = createGpsTracks();
+    replay(standTrace.fixes, 'pass:a', tracks);
+    expect(tracks.step('pass:b', toFix(first))).toMatchObject({ accepted: true, lat: first[1] });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * occupancy.test.ts — driver level vs passenger crowd reports
+ */
+import { describe, expect, it } from 'vitest';
+import { crowdLevel, type OccupancyReport } from '../src/shared/occupancy';
+
+const NOW    = Date.parse('2026-10-19T06:00:00Z');
+const MIN    = 60_000;
+const driver: OccupancyReport = { level: 'seats', at: NOW - 10 * MIN };
+
+describe('crowdLevel', () => {
+  it('keeps the driver level when one phone reports twice', () => {
+    const reports: OccupancyReport[] = [
+      { level: 'full', at: NOW - 5 * MIN, reporter: 'a1' },
+      { level: 'full', at: NOW - 1 * MIN, reporter: 'a1' },
+    ];
+    expect(crowdLevel(driver, reports, NOW)).toMatchObject({ level: 'seats', source: 'driver' });
+  });
+
+  it('lets two distinct passengers override the driver', () => {
+    const reports: OccupancyReport[] = [
+      { level: 'full', at: NOW - 5 * MIN, reporter: 'a1' },
+      { level: 'full', at: NOW - 1 * MIN, reporter: 'b2' },
+    ];
+    expect(crowdLevel(driver, reports, NOW)).toMatchObject({ level: 'full', source: 'passengers' });
+  });
+
+  it('counts only each reporter\'s latest report in the median', () => {
+    const reports: OccupancyReport[] = [
+      { level: 'empty',    at: NOW - 9 * MIN, reporter: 'a1' },
+      { level: 'empty',    at: NOW - 8 * MIN, reporter: 'a1' },
+      { level: 'standing', at: NOW - 2 * MIN, reporter: 'a1' },
+      { level: 'standing', at: NOW - 1 * MIN, reporter: 'b2' },
+    ];
+    expect(crowdLevel(null, reports, NOW)?.level).toBe('standing');
+  });
+
+  it('ignores reports older than the driver level', () => {
+    const reports: OccupancyReport[] = [
+      { level: 'full', at: NOW - 12 * MIN, reporter: 'a1' },
+      { level: 'full', at: NOW - 11 * MIN, reporter: 'b2' },
+    ];
+    expect(crowdLevel(driver, reports, NOW)?.source).toBe('driver');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * outbox.test.ts — the IndexedDB write queue (fake-indexeddb): collapsing,
+ * replay order and results, and a live write racing a replay pass.
+ */
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Outbox, type OutboxEntry, type ReplayResult } from '../src/services/outbox';
+import { promisify, withStore } from '../src/services/idb';
+
+type Write = Omit<OutboxEntry, 'id' | 'queuedAt' | 'attempts'>;
+
+const write = (path: string, collapseKey: string | null = null, body: object = {}): Write =>
+  ({ path, method: 'POST', body: JSON.stringify(body), headers: {}, collapseKey });
+
+let replayed: string[];
+let answer  : (e: OutboxEntry) => Promise<ReplayResult>;
+
+function queued(): Promise<OutboxEntry[]> {
+  return withStore('outbox', 'readonly', s => promisify(s.getAll() as IDBRequest<OutboxEntry[]>)).then(r => r ?? []);
+}
+
+beforeAll(() => {
+  // The retry timer and the clock are faked — fake-indexeddb schedules its work with setImmediate
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+  vi.setSystemTime(Date.UTC(2026, 9, 19, 6, 0));
+  vi.stubGlobal('window', new EventTarget());
+  Outbox.init(e => answer(e));
+});
+
+beforeEach(async () => {
+  replayed = [];
+  answer   = async e => { replayed.push(e.path); return 'sent'; };
+  await withStore('outbox', 'readwrite', s => promisify(s.clear()));
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+});
+
+describe('outbox', () => {
+  it('keeps only the latest write of a collapse key, and every write without one', async () => {
+    await Outbox.enqueue(write('driver_location', 'loc:TN-30-N-1234', { lat: 1 }));
+    await Outbox.enqueue(write('trip_samples', null, { lat: 1 }));
+    await Outbox.enqueue(write('driver_location', 'loc:TN-30-N-1234', { lat: 2 }));
+    await Outbox.enqueue(write('trip_samples', null, { lat: 2 }));
+
+    const entries = await queued();
+    expect(entries.map(e => [e.path, JSON.parse(e.body ?? '{}').lat])).toEqual([
+      ['trip_samples', 1], ['driver_location', 2], ['trip_samples', 2],
+    ]);
+    expect(Outbox.pendingCount()).toBe(3);
+  });
+
+  it('replays in queue order and empties the queue', async () => {
+    await Outbox.enqueue(write('buses'));
+    await Outbox.enqueue(write('stop_events'));
+    await Outbox.enqueue(write('route_deviations'));
+    await Outbox.flush();
+
+    expect(replayed).toEqual(['buses', 'stop_events', 'route_deviations']);
+    expect(await queued()).toEqual([]);
+    expect(Outbox.pendingCount()).toBe(0);
+  });
+
+  it('stops the pass at a write to retry, keeps it and what follows', async () => {
+    await Outbox.enqueue(write('buses'));
+    await Outbox.enqueue(write('stop_events'));
+    await Outbox.enqueue(write('route_deviations'));
+    answer = async e => { replayed.push(e.path); return e.path === 'stop_events' ? 'retry' : 'sent'; };
+    await Outbox.flush();
+
+    expect(replayed).toEqual(['buses', 'stop_events']);
+    expect((await queued()).map(e => [e.path, e.attempts])).toEqual([['stop_events', 1], ['route_deviations', 0]]);
+  });
+
+  it('drops a write the server will never accept', async () => {
+    await Outbox.enqueue(write('buses'));
+    answer = async () => 'drop';
+    await Outbox.flush();
+    expect(await queued()).toEqual([]);
+  });
+
+  it('discards the queued copy once a live write of the same key gets through', async () => {
+    await Outbox.enqueue(write('driver_location', 'loc:TN-30-N-1234'));
+    await Outbox.enqueue(write('buses', 'bus:7'));
+    await Outbox.discard('loc:TN-30-N-1234');
+
+    expect((await queued()).map(e => e.path)).toEqual(['buses']);
+  });
+
+  it('never sends a copy superseded while the replay pass was already running', async () => {
+    await Outbox.enqueue(write('buses', 'bus:7'));
+    await Outbox.enqueue(write('driver_location', 'loc:TN-30-N-1234'));
+
+    // The live upsert lands while the first queued write is still being replayed
+    let release!: () => void;
+    answer = async e => {
+      replayed.push(e.path);
+      if (e.path === 'buses') await new Promise<void>(r => { release = r; });
+      return 'sent';
+    };
+    const pass = Outbox.flush();
+    await vi.waitFor(() => expect(replayed).toEqual(['buses']));
+    vi.setSystemTime(Date.now() + 1_000);
+    await Outbox.discard('loc:TN-30-N-1234');
+    release();
+    await pass;
+
+    expect(replayed).toEqual(['buses']);
+    expect(await queued()).toEqual([]);
+  });
+
+  it('still sends a write queued after the live one', async () => {
+    vi.setSystemTime(Date.now() + 1_000);
+    await Outbox.discard('loc:TN-30-N-1234');
+    vi.setSystemTime(Date.now() + 1_000);
+    await Outbox.enqueue(write('driver_location', 'loc:TN-30-N-1234'));
+    await Outbox.flush();
+
+    expect(replayed).toEqual(['driver_location']);
+  });
+
+  it('replays what is queued as soon as a sender is registered again (new project settings)', async () => {
+    await Outbox.enqueue(write('buses'));
+    Outbox.init(e => answer(e));
+    await vi.waitFor(() => expect(replayed).toEqual(['buses']));
+  });
+
+  it('replays when the connection comes back', async () => {
+    await Outbox.enqueue(write('buses'));
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => expect(replayed).toEqual(['buses']));
+  });
+});
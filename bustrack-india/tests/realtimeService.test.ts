@@ -0,0 +1,183 @@
+/**
+ * realtimeService.test.ts — the Phoenix channel client against a fake socket
+ * (the `createSocket` hook): join → live, rejected join or missed heartbeat
+ * → REST polling, reconnect with backoff → polling stops.
+ */
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configure, type DriverLocationRow } from '../src/services/supabaseService';
+import { subscribeDriverLocation, type RealtimeStatus, type RealtimeSubscription } from '../src/services/realtimeService';
+
+interface Sent { topic: string; event: string; payload: Record<string, unknown>; ref: string }
+
+/** Just enough of a browser WebSocket for realtimeService, driven by the test. */
+class FakeSocket {
+  readyState = 0;
+  sent: Sent[] = [];
+  onopen   : (() => void) | null = null;
+  onmessage: ((ev: { data: string }) => void) | null = null;
+  onerror  : (() => void) | null = null;
+  onclose  : (() => void) | null = null;
+
+  constructor(readonly url: string) {}
+
+  send(data: string) { this.sent.push(JSON.parse(data)); }
+  close() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  // ── Test side ──
+  open() { this.readyState = 1; this.onopen?.(); }
+  receive(msg: object) { this.onmessage?.({ data: JSON.stringify(msg) }); }
+  last(event: string) { return [...this.sent].reverse().find(m => m.event === event); }
+  reply(to: Sent | undefined, status: 'ok' | 'error') {
+    this.receive({ topic: to?.topic, event: 'phx_reply', payload: { status, response: {} }, ref: to?.ref });
+  }
+}
+
+const VEHICLE = 'TN-30-N-1234';
+const TOPIC   = `realtime:public:driver_location:vehicle_id=eq.${VEHICLE}`;
+const ROW     = { vehicle_id: VEHICLE, trip_id: `${VEHICLE}-m1`, bus_id: 7, lat: 11.6702, lon: 78.1401, sharing: true } as DriverLocationRow;
+const OPTS    = { socketUrl: 'ws://test/socket', heartbeatMs: 25_000, pollMs: 3_000, minBackoffMs: 1_000, maxBackoffMs: 8_000 };
+
+let sockets : FakeSocket[];
+let statuses: RealtimeStatus[];
+let rows    : DriverLocationRow[];
+let polls   : number;
+let sub     : RealtimeSubscription | null;
+
+function subscribe(): RealtimeSubscription {
+  sub = subscribeDriverLocation(VEHICLE, r => rows.push(r), {
+    ...OPTS,
+    createSocket: url => { const s = new FakeSocket(url); sockets.push(s); return s as unknown as WebSocket; },
+    onStatus    : s => statuses.push(s),
+  });
+  return sub;
+}
+
+/** Opens the newest socket and accepts (or rejects) its join. */
+function join(status: 'ok' | 'error' = 'ok'): FakeSocket {
+  const s = sockets[sockets.length - 1];
+  s.open();
+  s.reply(s.last('phx_join'), status);
+  return s;
+}
+
+beforeAll(() => {
+  configure({ url: 'https://example.supabase.co', anonKey: 'anon' });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  sockets = []; statuses = []; rows = []; polls = 0; sub = null;
+  vi.stubGlobal('fetch', vi.fn(async () => {
+    polls++;
+    return new Response(JSON.stringify([ROW]), { status: 200 });
+  }));
+});
+
+afterEach(() => {
+  sub?.unsubscribe();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('realtime subscription', () => {
+  it('joins the vehicle\'s channel and goes live once the join is accepted', () => {
+    const s = subscribe();
+    expect(s.status).toBe('connecting');
+
+    const socket = join();
+    expect(socket.url).toBe(OPTS.socketUrl);
+    expect(socket.last('phx_join')).toMatchObject({
+      topic  : TOPIC,
+      payload: { config: { postgres_changes: [{ event: '*', schema: 'public', table: 'driver_location', filter: `vehicle_id=eq.${VEHICLE}` }] } },
+    });
+    expect(s.status).toBe('live');
+    expect(statuses).toEqual(['live']);
+    expect(polls).toBe(0);
+  });
+
+  it('passes on pushed rows, and nothing that is not a row of this channel', () => {
+    subscribe();
+    const socket = join();
+
+    socket.receive({ topic: TOPIC, event: 'postgres_changes', payload: { data: { type: 'UPDATE', record: ROW } }, ref: null });
+    socket.receive({ topic: TOPIC, event: 'UPDATE', payload: { record: { ...ROW, lat: 11.67 } }, ref: null });   // legacy server
+    socket.receive({ topic: 'realtime:public:buses', event: 'postgres_changes', payload: { data: { record: ROW } }, ref: null });
+    socket.receive({ topic: TOPIC, event: 'postgres_changes', payload: { data: { record: 'garbage' } }, ref: null });
+    socket.receive({ topic: TOPIC, event: 'postgres_changes', payload: null, ref: null });
+    socket.onmessage?.({ data: 'not json' });
+
+    expect(rows.map(r => r.lat)).toEqual([ROW.lat, 11.67]);
+  });
+
+  it('polls when the join is rejected', async () => {
+    const s = subscribe();
+    const socket = join('error');
+
+    expect(socket.readyState).toBe(3);
+    expect(s.status).toBe('polling');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(polls).toBe(1);
+    expect(rows).toEqual([ROW]);
+
+    await vi.advanceTimersByTimeAsync(OPTS.pollMs);
+    expect(polls).toBeGreaterThanOrEqual(2);
+  });
+
+  it('drops a half-open socket that misses a heartbeat reply, and polls', async () => {
+    const s = subscribe();
+    const socket = join();
+
+    await vi.advanceTimersByTimeAsync(OPTS.heartbeatMs);
+    const beat = socket.last('heartbeat');
+    expect(beat).toMatchObject({ topic: 'phoenix' });
+    socket.reply(beat, 'ok');
+    await vi.advanceTimersByTimeAsync(OPTS.heartbeatMs);
+    expect(s.status).toBe('live');        // answered — still live
+
+    await vi.advanceTimersByTimeAsync(OPTS.heartbeatMs);   // this one goes unanswered
+    expect(socket.readyState).toBe(3);
+    expect(s.status).toBe('polling');
+  });
+
+  it('reconnects with growing backoff and stops polling once the channel rejoins', async () => {
+    const s = subscribe();
+    join('error');
+
+    // First retry within [min/2, min]
+    await vi.advanceTimersByTimeAsync(OPTS.minBackoffMs / 2 - 1);
+    expect(sockets).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(OPTS.minBackoffMs / 2 + 1);
+    expect(sockets).toHaveLength(2);
+
+    // Rejected again — the wait doubles, within [min, 2 × min]
+    join('error');
+    await vi.advanceTimersByTimeAsync(OPTS.minBackoffMs - 1);
+    expect(sockets).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(OPTS.minBackoffMs + 1);
+    expect(sockets).toHaveLength(3);
+
+    join('ok');
+    expect(s.status).toBe('live');
+    const before = polls;
+    await vi.advanceTimersByTimeAsync(OPTS.pollMs * 5);
+    expect(polls).toBe(before);
+    expect(statuses).toEqual(['polling', 'live']);
+  });
+
+  it('leaves the channel on unsubscribe and never reconnects', async () => {
+    const s = subscribe();
+    const socket = join();
+    s.unsubscribe();
+
+    expect(socket.last('phx_leave')).toMatchObject({ topic: TOPIC });
+    expect(socket.readyState).toBe(3);
+    expect(s.status).toBe('closed');
+    await vi.advanceTimersByTimeAsync(OPTS.maxBackoffMs * 2);
+    expect(sockets).toHaveLength(1);
+    expect(polls).toBe(0);
+  });
+});
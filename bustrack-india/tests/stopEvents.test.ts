@@ -0,0 +1,84 @@
+/**
+ * stopEvents.test.ts — fixes through the stop detector to the published
+ * stop_events rows and the live row's last_stop stamp, like trackDriverStops.
+ */
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configure, publishStopEvent } from '../src/services/supabaseService';
+import { createStopDetector, type StopFix } from '../src/services/stopDetector';
+import { startTrip, stopEventRow } from '../src/services/driverTrip';
+
+const STOPS = [
+  { name: 'Salem New Bus Stand', lat: 11.6702, lon: 78.1401 },
+  { name: 'Ayothiyapattinam',    lat: 11.6665, lon: 78.1620 },
+  { name: 'Vazhapadi',           lat: 11.6631, lon: 78.1873 },
+];
+const BUS = { id: 7, name: 'Salem → Vazhapadi', stops: STOPS.map(s => s.name) };
+const T0  = Date.UTC(2026, 9, 19, 6, 0);
+
+// At each stop for a minute, then ~1 km on towards the next
+const FIXES: StopFix[] = [
+  { lat: 11.6702, lon: 78.1401, ts: T0 },
+  { lat: 11.6690, lon: 78.1490, ts: T0 + 60_000 },
+  { lat: 11.6665, lon: 78.1620, ts: T0 + 300_000 },
+  { lat: 11.6652, lon: 78.1710, ts: T0 + 360_000 },
+  { lat: 11.6631, lon: 78.1873, ts: T0 + 600_000 },
+];
+
+let sent: { url: string; method: string; body: Record<string, unknown> }[] = [];
+
+beforeAll(() => {
+  configure({ url: 'https://example.supabase.co', anonKey: 'anon' });
+});
+
+beforeEach(() => {
+  sent = [];
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    sent.push({ url, method: init?.method ?? 'GET', body: JSON.parse(String(init?.body ?? '{}')) });
+    return new Response(null, { status: 201 });
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+async function drive(fixes: StopFix[]) {
+  const trip = startTrip('TN-30-N-1234', BUS, T0);
+  const det  = createStopDetector(STOPS);
+  for (const fix of fixes) {
+    for (const ev of det.update(fix)) await publishStopEvent(stopEventRow(trip, ev));
+  }
+  return trip;
+}
+
+describe('stop detection → publish', () => {
+  it('logs every arrival and departure of the trip in order', async () => {
+    const trip = await drive(FIXES);
+    const logged = sent.filter(r => r.url.endsWith('/rest/v1/stop_events')).map(r => r.body);
+
+    expect(logged.map(e => [e.kind, e.stop_index])).toEqual([
+      ['arrive', 0], ['depart', 0], ['arrive', 1], ['depart', 1], ['arrive', 2],
+    ]);
+    expect(logged.every(e => e.trip_id === trip.tripId && e.vehicle_id === 'TN-30-N-1234' && e.bus_id === 7)).toBe(true);
+    expect(logged[1]).toMatchObject({ stop_name: 'Salem New Bus Stand', dwell_sec: 60, at: new Date(T0 + 60_000).toISOString() });
+  });
+
+  it('marks the terminus arrival as the start of the return trip', async () => {
+    await drive(FIXES);
+    const logged = sent.filter(r => r.url.endsWith('/rest/v1/stop_events')).map(r => r.body);
+    expect(logged.map(e => e.reversed)).toEqual([false, false, false, false, true]);
+  });
+
+  it('stamps each event on the vehicle\'s live row', async () => {
+    await drive(FIXES.slice(0, 2));
+    const stamps = sent.filter(r => r.method === 'PATCH');
+
+    expect(stamps.map(r => r.url)).toEqual([
+      'https://example.supabase.co/rest/v1/driver_location?vehicle_id=eq.TN-30-N-1234',
+      'https://example.supabase.co/rest/v1/driver_location?vehicle_id=eq.TN-30-N-1234',
+    ]);
+    expect(stamps.map(r => r.body.last_stop_event)).toEqual(['arrived', 'departed']);
+    expect(stamps[1].body).toMatchObject({ last_stop: 'Salem New Bus Stand', last_stop_at: new Date(T0 + 60_000).toISOString() });
+  });
+});
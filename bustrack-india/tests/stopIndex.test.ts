@@ -0,0 +1,84 @@
+/**
+ * stopIndex.test.ts — "near me": nearest stops first, one entry per shared
+ * stand, the radius and limit, and the grid agreeing with a full scan.
+ */
+import { describe, expect, it } from 'vitest';
+import { createStopIndex } from '../src/services/stopIndex';
+
+const at = (name: string, lat: number, lon: number, routeIndex: number) => ({ name, lat, lon, routeIndex });
+
+const TOWN = [
+  {
+    id: 1,
+    stops: [
+      at('Salem New Bus Stand', 11.6702, 78.1401, 0),
+      at('Five Roads',          11.6712, 78.1460, 1),
+      at('Hasthampatti',        11.6650, 78.1530, 2),
+      at('Ayothiyapattinam',    11.6665, 78.1620, 3),
+      at('Attur',               11.5998, 78.6014, 4),
+    ],
+  },
+  {
+    id: 2,
+    stops: [
+      at('Salem NBS',           11.6702, 78.1401, 0),   // same stand, this route's name for it
+      at('Salem Old Bus Stand', 11.6525, 78.1582, 1),
+    ],
+  },
+];
+const PASSENGER = { lat: 11.6700, lon: 78.1450 };
+
+function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLon = (b.lon - a.lon) * Math.PI / 180;
+  const h    = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+describe('stop index', () => {
+  it('lists the stops within the radius, nearest first', () => {
+    const near = createStopIndex(TOWN).nearby(PASSENGER, 3);
+    expect(near.map(s => s.name)).toEqual(['Five Roads', 'Salem New Bus Stand', 'Hasthampatti', 'Ayothiyapattinam', 'Salem Old Bus Stand']);
+    expect(near.map(s => s.distanceKm)).toEqual([...near.map(s => s.distanceKm)].sort((a, b) => a - b));
+    expect(near[near.length - 1].distanceKm).toBeLessThanOrEqual(3);
+  });
+
+  it('keeps one entry per stand, with every route that stops there', () => {
+    const index = createStopIndex(TOWN);
+    expect(index.size).toBe(6);
+    const stand = index.nearby({ lat: 11.6702, lon: 78.1401 }, 0.1);
+    expect(stand).toHaveLength(1);
+    expect(stand[0]).toMatchObject({ name: 'Salem New Bus Stand', routes: [{ busId: 1, stopIndex: 0 }, { busId: 2, stopIndex: 0 }] });
+  });
+
+  it('stops at the radius and the limit', () => {
+    const index = createStopIndex(TOWN);
+    expect(index.nearby(PASSENGER, 0.8).map(s => s.name)).toEqual(['Five Roads', 'Salem New Bus Stand']);
+    expect(index.nearby(PASSENGER, 50, 2).map(s => s.name)).toEqual(['Five Roads', 'Salem New Bus Stand']);
+    expect(index.nearby(PASSENGER, 60).map(s => s.name)).toContain('Attur');
+  });
+
+  it('gives walking time on the detoured distance, never under a minute', () => {
+    const [s] = createStopIndex(TOWN).nearby({ lat: 11.6712, lon: 78.1461 }, 1);
+    expect(s.name).toBe('Five Roads');
+    expect(s.walkKm).toBeCloseTo(s.distanceKm * 1.3);
+    expect(s.walkMin).toBe(1);
+  });
+
+  it('finds the same stops as a full scan, across grid cell edges', () => {
+    // Deterministic scatter over ~12 km around Salem
+    let seed = 42;
+    const rand = () => (seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31) / 2 ** 31;
+    const stops = Array.from({ length: 400 }, (_, i) => at(`Stop ${i}`, 11.62 + rand() * 0.11, 78.09 + rand() * 0.11, i));
+    const index = createStopIndex([{ id: 1, stops }]);
+
+    for (const q of [PASSENGER, { lat: 11.6600, lon: 78.1500 }, { lat: 11.6799, lon: 78.1300 }]) {
+      const expected = stops
+        .map(s => ({ name: s.name, km: haversineKm(q, s) }))
+        .filter(s => s.km <= 1.5)
+        .sort((a, b) => a.km - b.km)
+        .map(s => s.name);
+      expect(index.nearby(q, 1.5, 1000).map(s => s.name)).toEqual(expected);
+    }
+  });
+});
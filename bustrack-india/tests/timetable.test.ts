@@ -0,0 +1,89 @@
+/**
+ * timetable.test.ts — next departures from a stop, holiday and extra-day
+ * exceptions, a trip running past midnight, and matching a live bus's last
+ * stop event to its scheduled trip.
+ */
+import { describe, expect, it } from 'vitest';
+import {
+  EVERY_DAY, WEEKDAYS, formatClock, matchLastStop, nextDepartures, parseClock, punctualityLabel, tripOffsets,
+  type ScheduledTrip, type ServiceException, type StopService,
+} from '../src/shared/timetable';
+
+const STOPS   = ['Salem New Bus Stand', 'Ayothiyapattinam', 'Vazhapadi', 'Attur'];
+const OFFSETS = [0, 20, 45, 70];
+const MONDAY  = '2026-10-19';
+const TUESDAY = '2026-10-20';
+
+const MORNING: ScheduledTrip = { id: 1, busId: 7, reversed: false, departs: parseClock('06:30')!, days: EVERY_DAY };
+const NIGHT  : ScheduledTrip = { id: 2, busId: 7, reversed: false, departs: parseClock('23:30')!, days: WEEKDAYS };
+const RETURN : ScheduledTrip = { id: 3, busId: 7, reversed: true,  departs: parseClock('08:00')!, days: EVERY_DAY };
+const TRIPS  = [MORNING, NIGHT, RETURN];
+
+/** Every trip through one saved stop, as stopServices in main.ts builds them. */
+const servicesAt = (stopIndex: number): StopService[] =>
+  TRIPS.map(trip => ({ trip, offsets: tripOffsets(OFFSETS, STOPS.length, trip.reversed), stopIndex }));
+
+const clocks = (deps: ReturnType<typeof nextDepartures>) => deps.map(d => [d.trip.id, d.day, formatClock(d.at)]);
+
+/** Epoch ms of an IST wall-clock time. */
+const ist = (day: string, clock: string) => Date.parse(`${day}T${clock}:00Z`) - 330 * 60_000;
+
+describe('nextDepartures', () => {
+  it('lists the next departures from a stop in either direction, soonest first', () => {
+    expect(clocks(nextDepartures(servicesAt(1), [], MONDAY, parseClock('06:00')!, 3))).toEqual([
+      [1, MONDAY, '06:50'], [3, MONDAY, '08:50'], [2, MONDAY, '23:50'],
+    ]);
+  });
+
+  it('runs the return trip\'s offsets backwards', () => {
+    expect(tripOffsets(OFFSETS, STOPS.length, true)).toEqual([70, 50, 25, 0]);
+    expect(tripOffsets(OFFSETS, STOPS.length + 1, false)).toEqual([]);   // saved for another stop list
+  });
+
+  it('never lists a trip at its last stop, where it only arrives', () => {
+    expect(nextDepartures(servicesAt(3), [], MONDAY, 0, 10).map(d => d.trip.id)).toEqual([3, 3]);
+    expect(nextDepartures(servicesAt(0), [], MONDAY, 0, 10).map(d => d.trip.id)).toEqual([1, 2, 1, 2]);
+  });
+
+  it('keeps listing last night\'s trip after midnight, on the day it started', () => {
+    const deps = nextDepartures(servicesAt(2), [], TUESDAY, parseClock('00:05')!, 2);
+    expect(clocks(deps)).toEqual([[2, MONDAY, '00:15'], [1, TUESDAY, '07:15']]);
+    expect(parseClock('24:15')).toBe(1455);
+  });
+
+  it('skips a route on its holiday, and lets its own exception beat an all-routes one', () => {
+    const holiday: ServiceException[] = [{ busId: 7, day: MONDAY, runs: false }];
+    expect(nextDepartures(servicesAt(1), holiday, MONDAY, 0, 10).filter(d => d.day === MONDAY)).toEqual([]);
+
+    const strike: ServiceException[] = [{ busId: null, day: MONDAY, runs: false }, { busId: 7, day: MONDAY, runs: true }];
+    expect(nextDepartures(servicesAt(1), strike, MONDAY, 0, 10).filter(d => d.day === MONDAY)).toHaveLength(3);
+  });
+
+  it('runs a weekday-only trip on a Saturday marked as an extra service day', () => {
+    const saturday = '2026-10-24';
+    const night = (ex: ServiceException[]) =>
+      nextDepartures(servicesAt(1), ex, saturday, parseClock('20:00')!, 10).filter(d => d.trip.id === NIGHT.id && d.day === saturday);
+    expect(night([])).toEqual([]);
+    expect(night([{ busId: 7, day: saturday, runs: true }])).toHaveLength(1);
+  });
+});
+
+describe('matchLastStop', () => {
+  it('finds the scheduled trip a live bus is running, and how late it is', () => {
+    const m = matchLastStop(TRIPS, OFFSETS, STOPS, false, { name: 'Ayothiyapattinam', event: 'departed', at: ist(MONDAY, '06:57') }, []);
+    expect(m).toMatchObject({ trip: MORNING, day: MONDAY, delayMin: 7 });
+    expect(punctualityLabel(m!.delayMin)).toBe('7 min late');
+  });
+
+  it('matches last night\'s trip after midnight', () => {
+    const m = matchLastStop(TRIPS, OFFSETS, STOPS, false, { name: 'Vazhapadi', event: 'departed', at: ist(TUESDAY, '00:18') }, []);
+    expect(m).toMatchObject({ trip: NIGHT, day: MONDAY, delayMin: 3 });
+    expect(punctualityLabel(m!.delayMin)).toBe('On time');
+  });
+
+  it('says nothing about a bus arriving at its first stop, or a trip cancelled for the day', () => {
+    expect(matchLastStop(TRIPS, OFFSETS, STOPS, true, { name: 'Attur', event: 'arrived', at: ist(MONDAY, '08:00') }, [])).toBeNull();
+    expect(matchLastStop(TRIPS, OFFSETS, STOPS, false, { name: 'Ayothiyapattinam', event: 'departed', at: ist(MONDAY, '06:57') },
+      [{ busId: 7, day: MONDAY, runs: false }])).toBeNull();
+  });
+});
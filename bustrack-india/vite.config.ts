@@ -11,6 +11,11 @@ export default defineConfig({
     rollupOptions: {
       input: {
         main: resolve(__dirname, 'public/index.html'),
+        // ⚡ Service worker must live at the site root to control every page
+        sw  : resolve(__dirname, 'src/workers/tileServiceWorker.ts'),
+      },
+      output: {
+        entryFileNames: chunk => chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js',
       },
     },
     // ⚡ Split vendor chunk so browser can cache Leaflet separately
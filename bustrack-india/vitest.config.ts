@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// ⚡ Separate from vite.config.ts — that one roots the app at public/
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+  },
+});